@@ -8,7 +8,7 @@
 
 // Copyright (c) 2025, 2026 Jon Verrier
 
-import { ChatDriverFactory, EModelProvider, EModel, EVerbosity } from '../src/entry';
+import { ChatDriverFactory, EModelProvider, EModel, EVerbosity, FunctionSchema, defineFunction } from '../src/entry';
 import { IFunction, EDataType, IFunctionArgs } from '../src/Function';
 
 /**
@@ -21,7 +21,7 @@ import { IFunction, EDataType, IFunctionArgs } from '../src/Function';
 // 
 // Exports:
 // - createHoroscopeFunction creates an IFunction for get_horoscope with input/output schemas, argument validation, and a mock execute that returns a canned horoscope.
-// - createWeatherFunction creates an IFunction for get_weather with schemas, validation, and a mock execute that returns simple city-based weather data.
+// - createWeatherFunction defines get_weather with defineFunction, which builds its schemas and validation from typed fields, and a mock execute that returns simple city-based weather data.
 // - runMultipleToolCallingExample runs three examples: a single tool call matching the official pattern, multiple tool calls with forced tools, and a streamed response using only the weather tool.
 // - demonstrateInputListPattern prints a step-by-step simulation of function_call, tool execution, and final response assembly.
 // 
@@ -78,49 +78,22 @@ function createHoroscopeFunction(): IFunction {
 }
 
 /**
- * Weather function for demonstrating multiple tool calls
+ * Weather function for demonstrating multiple tool calls. Defined from typed fields, so the schemas,
+ * argument validation and the types of execute's arguments and result all come from one place.
  */
 function createWeatherFunction(): IFunction {
-   return {
+   return defineFunction({
       name: "get_weather",
       description: "Get current weather information for a city.",
-      inputSchema: {
-         type: EDataType.kObject,
-         properties: {
-            city: {
-               type: EDataType.kString,
-               description: "The name of the city to get weather for"
-            }
-         },
-         required: ["city"]
-      },
-      outputSchema: {
-         type: EDataType.kObject,
-         properties: {
-            city: {
-               type: EDataType.kString,
-               description: "The city name"
-            },
-            temperature: {
-               type: EDataType.kNumber,
-               description: "Temperature in Celsius"
-            },
-            condition: {
-               type: EDataType.kString,
-               description: "Weather condition"
-            }
-         },
-         required: ["city", "temperature", "condition"]
+      input: {
+         city: FunctionSchema.string("The name of the city to get weather for")
       },
-      validateArgs: (args: IFunctionArgs): IFunctionArgs => {
-         if (!args.city || typeof args.city !== 'string') {
-            throw new Error('city is required and must be a string');
-         }
-         return args;
+      output: {
+         city: FunctionSchema.string("The city name"),
+         temperature: FunctionSchema.number("Temperature in Celsius"),
+         condition: FunctionSchema.string("Weather condition")
       },
-      execute: async (args: IFunctionArgs): Promise<IFunctionArgs> => {
-         const city = args.city as string;
-         
+      execute: async ({ city }) => {
          // Mock weather data
          const weatherData: { [key: string]: { temperature: number, condition: string } } = {
             'london': { temperature: 15, condition: 'cloudy' },
@@ -138,7 +111,7 @@ function createWeatherFunction(): IFunction {
             condition: weather.condition
          };
       }
-   };
+   });
 }
 
 /**
@@ -1,25 +1,74 @@
 /**
- * This script generates a TypeScript file containing prompt ID declarations.
- * It reads a JSON file with prompt data and creates a TypeScript file with
- * camelCase versions of the prompt names, each mapped to its corresponding ID.
+ * This script generates a TypeScript file of typed prompt accessors.
+ * It reads a JSON or YAML file with prompt data and creates promptIds.ts beside it, holding:
+ * - a constant for each prompt ID, named from a camelCase version of the prompt name
+ * - an interface for the parameters of each system and user prompt
+ * - a PromptAccessors class with an expandXxxSystemPrompt / expandXxxUserPrompt method per prompt
+ * so that missing or misspelled parameters are compile errors rather than runtime errors.
+ * The generated file imports from @jonverrier/prompt-repository; use --import to name another module.
+ * 
+ * In 'validate' mode it instead checks one or more prompt files for schema and
+ * template errors, printing one line per problem and exiting with a non-zero
+ * code if any errors are found. A directory given with -f is searched for
+ * JSON and YAML prompt files.
+ * 
+ * In 'migrate' mode it upgrades prompt files written against an older prompt
+ * schema version, rewriting each file in place. Add --dry-run to report the
+ * changes without writing.
+ * 
+ * In 'diff' mode it compares two prompt files, or two versions of one prompt id
+ * in a file, reporting prompts added and removed, text diffs, and parameter
+ * changes classified as breaking or non-breaking. Add --markdown to print a
+ * Markdown changelog, and --fail-on-breaking to exit with a non-zero code if
+ * any change is breaking.
  * 
  * Usage:
- * node MakePromptIds.ts -f <path-to-prompts-file.json>
+ * node MakePromptIds.ts [--import <module>] -f <path-to-prompts-file.json>
+ * node MakePromptIds.ts validate -f <path-to-prompts-file.json | directory> [-f <another-file.json> ...]
+ * node MakePromptIds.ts migrate [--dry-run] -f <path-to-prompts-file.json> [-f <another-file.json> ...]
+ * node MakePromptIds.ts diff [--markdown] [--fail-on-breaking] -f <old-prompts.json> -f <new-prompts.json>
+ * node MakePromptIds.ts diff [--markdown] [--fail-on-breaking] -f <prompts.json> --id <prompt-id> --from <version> [--to <version>]
  * 
  * Example:
  * node MakePromptIds.ts -f prompts/Default.Prompts.json
+ * node MakePromptIds.ts validate -f prompts/Default.Prompts.json
+ * node MakePromptIds.ts migrate -f prompts/Default.Prompts.json
+ * node MakePromptIds.ts diff --markdown -f release-1/Prompts.json -f prompts/Prompts.json > CHANGELOG.prompts.md
  */ 
 
 // Copyright (c) 2025, 2026 Jon Verrier
 
 import fs from 'fs';
 import path from 'path';
+import { validatePromptFile, formatPromptDiagnostic, EPromptDiagnosticSeverity } from '../src/PromptValidation';
+import { migratePromptFile } from '../src/PromptMigration';
+import { findPromptFiles, readPromptFile } from '../src/PromptSource';
+import { IPrompt, IPromptParameterSpec, InvalidOperationError } from '../src/entry';
+import { diffPromptSets, diffPromptIdVersions, formatPromptDiff, formatPromptChangelog, hasBreakingPromptChanges } from '../src/PromptDiff';
+import { selectPromptVersion } from '../src/PromptVersion';
+import { resolvePromptComposition } from '../src/PromptComposition';
+
+/**
+ * Converts a prompt name to the camelCase stem used for its generated declarations e.g. "hello world" -> "helloWorld"
+ *
+ * @param name - The prompt name.
+ * @returns The stem.
+ */
+export function makePromptStem(name: string): string {
+    return name
+        .split(/[^a-zA-Z0-9]+/)
+        .map((word: string, index: number) => 
+            index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+        )
+        .join('');
+}
 
 /**
  * Generates a JSON file with prompt ID declarations.
  * The output JSON maps a camelCase version of the prompt name (appended with "PromptId")
  * to the prompt's id.
  *
+ * @deprecated Use generatePromptAccessors, which writes TypeScript with typed parameters.
  * @param prompts - Array of prompt objects (each should have "name" and "id" properties).
  * @param outputPath - The file path where the JSON output will be written.
  */
@@ -38,12 +87,7 @@ export function generateJsonIds(prompts: any[], outputPath: string) {
 
     for (const prompt of prompts) {
         // Convert the prompt name to camelCase
-        const camelCaseName = prompt.name
-            .split(/[^a-zA-Z0-9]+/)
-            .map((word: string, index: number) => 
-                index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-            )
-            .join('');
+        const camelCaseName = makePromptStem(prompt.name);
         
         // Create a key by appending "PromptId" and set its value to prompt.id
         ids[camelCaseName + "PromptId"] = prompt.id;
@@ -53,23 +97,277 @@ export function generateJsonIds(prompts: any[], outputPath: string) {
     fs.writeFileSync(outputPath, JSON.stringify(ids, null, 2), "utf-8");
 }
 
+/**
+ * The default module generated accessors import from
+ */
+export const DefaultAccessorImport = "@jonverrier/prompt-repository";
+
+const identifierPattern = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+// A stem may start with a digit, which is not allowed at the start of an identifier
+function makeIdentifier(stem: string): string {
+    return /^[0-9]/.test(stem) ? `_${stem}` : stem;
+}
+
+function makeComment(text: string, indent: string): string {
+    return `${indent}/** ${text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n`;
+}
+
+// The TypeScript type of a parameter value
+function makeParameterType(spec: IPromptParameterSpec): string {
+    if (spec.type === "kList") {
+        return spec.allowedValues && spec.allowedValues.length > 0
+            ? `Array<${spec.allowedValues.map(v => JSON.stringify(v)).join(' | ')}>`
+            : 'string[]';
+    }
+    if (spec.type === "kEnum" && spec.allowedValues && spec.allowedValues.length > 0) {
+        return spec.allowedValues.map(v => JSON.stringify(v)).join(' | ');
+    }
+    return 'string';
+}
+
+function makeParameterInterface(name: string, specs: IPromptParameterSpec[]): string {
+    let text = `export interface ${name} {\n`;
+    for (const spec of specs) {
+        const key = identifierPattern.test(spec.name) ? spec.name : JSON.stringify(spec.name);
+        text += makeComment(spec.description, '   ');
+        text += spec.required
+            ? `   ${key}: ${makeParameterType(spec)};\n`
+            : `   ${key}?: ${makeParameterType(spec)} | undefined;\n`;
+    }
+    return text + '}\n';
+}
+
+/**
+ * Renders TypeScript accessors for a set of prompts. Where a prompt id has several versions, the
+ * parameters of the latest released version are used. "extends" and partials that refer to prompts in
+ * the same set are resolved, so inherited parameters are included.
+ *
+ * @param prompts - The prompts.
+ * @param importModule - The module the generated code imports IPromptRepository from.
+ * @returns The text of the TypeScript file.
+ * @throws {InvalidOperationError} If two prompt ids have names that give the same declarations.
+ */
+export function renderPromptAccessors(prompts: IPrompt[], importModule: string = DefaultAccessorImport): string {
+    const ids = Array.from(new Set(prompts.map(p => p.id)));
+    const latest = (id: string) => selectPromptVersion(prompts.filter(p => p.id === id));
+
+    const stems = new Map<string, string>();
+    let declarations = '';
+    let methods = '';
+    for (const id of ids) {
+        let prompt = latest(id)!;
+        try {
+            prompt = resolvePromptComposition(prompt, latest);
+        } catch (error) {
+            // References supplied at runtime cannot be resolved here, so only the prompt's own parameters are typed
+        }
+
+        const stem = makeIdentifier(makePromptStem(prompt.name));
+        const previous = stems.get(stem);
+        if (previous !== undefined) {
+            throw new InvalidOperationError(`Prompts ${previous} and ${id} both generate declarations named ${stem}`);
+        }
+        stems.set(stem, id);
+
+        const pascal = stem.charAt(0).toUpperCase() + stem.slice(1);
+        const idConstant = `${stem}PromptId`;
+        declarations += `\n${makeComment(prompt.description ?? prompt.name, '')}export const ${idConstant} = ${JSON.stringify(id)};\n`;
+
+        const templates: Array<['System' | 'User', string | undefined, IPromptParameterSpec[] | undefined]> = [
+            ['System', prompt.systemPrompt, prompt.systemPromptParameters],
+            ['User', prompt.userPrompt, prompt.userPromptParameters]
+        ];
+        for (const [kind, template, specs] of templates) {
+            if (template === undefined) {
+                continue;
+            }
+            const paramsInterface = `I${pascal}${kind}PromptParams`;
+            declarations += `\n${makeParameterInterface(paramsInterface, specs ?? [])}`;
+            const optional = (specs ?? []).every(spec => !spec.required);
+            methods += `\n   /**\n`
+                + `    * Expands the ${kind.toLowerCase()} prompt of ${prompt.name}\n`
+                + `    * @param params The parameters\n`
+                + `    * @param selector Optional version range, or version and locale\n`
+                + `    */\n`
+                + `   expand${pascal}${kind}Prompt(params: ${paramsInterface}${optional ? ' = {}' : ''}, selector?: string | IPromptSelector): string {\n`
+                + `      return this.repository.expand${kind}Prompt(this.getPrompt(${idConstant}, selector), { ...params });\n`
+                + `   }\n`;
+        }
+    }
+
+    return `// Generated by scripts/MakePromptIds.ts. Do not edit; run the script again when the prompts change.\n\n`
+        + `import { IPrompt, IPromptRepository, IPromptSelector, InvalidOperationError } from ${JSON.stringify(importModule)};\n`
+        + declarations
+        + `\n/**\n * Typed access to the prompts, so that missing or misspelled parameters are compile errors\n */\n`
+        + `export class PromptAccessors {\n`
+        + `   constructor(readonly repository: IPromptRepository) {\n   }\n`
+        + methods
+        + `\n   private getPrompt(id: string, selector: string | IPromptSelector | undefined): IPrompt {\n`
+        + `      const prompt = this.repository.getPrompt(id, selector);\n`
+        + `      if (prompt === undefined) {\n`
+        + `         throw new InvalidOperationError(\`Prompt \${id} is not in the repository\`);\n`
+        + `      }\n`
+        + `      return prompt;\n`
+        + `   }\n`
+        + `}\n`;
+}
+
+/**
+ * Generates a TypeScript file of typed prompt accessors, see renderPromptAccessors.
+ *
+ * @param prompts - The prompts.
+ * @param outputPath - The file path where the TypeScript will be written.
+ * @param importModule - The module the generated code imports IPromptRepository from.
+ */
+export function generatePromptAccessors(prompts: IPrompt[], outputPath: string, importModule: string = DefaultAccessorImport) {
+    fs.writeFileSync(outputPath, renderPromptAccessors(prompts, importModule), "utf-8");
+}
+
+/**
+ * Validates each prompt file and prints the diagnostics found.
+ *
+ * @param inputFiles - Paths to the prompt JSON or YAML files to validate, or directories holding them.
+ * @returns The number of errors found (warnings are printed but not counted).
+ */
+export function validatePromptFiles(inputFiles: string[]): number {
+    let errorCount = 0;
+    let warningCount = 0;
+
+    // A directory stands for every prompt file beneath it
+    inputFiles = inputFiles.flatMap(input => fs.statSync(input).isDirectory() ? findPromptFiles(input) : [input]);
+
+    for (const inputFile of inputFiles) {
+        for (const diagnostic of validatePromptFile(inputFile)) {
+            if (diagnostic.severity === EPromptDiagnosticSeverity.kError) {
+                errorCount++;
+                console.error(formatPromptDiagnostic(diagnostic));
+            } else {
+                warningCount++;
+                console.warn(formatPromptDiagnostic(diagnostic));
+            }
+        }
+    }
+
+    console.log(`Validated ${inputFiles.length} prompt file(s): ${errorCount} error(s), ${warningCount} warning(s)`);
+    return errorCount;
+}
+
+/**
+ * Migrates each prompt file to the current prompt schema version and prints the changes made.
+ *
+ * @param inputFiles - Paths to the prompt JSON files to migrate.
+ * @param dryRun - If true, report the changes without rewriting the files.
+ * @returns The number of prompts that were (or, for a dry run, would be) migrated.
+ */
+export function migratePromptFiles(inputFiles: string[], dryRun: boolean): number {
+    let migratedCount = 0;
+
+    for (const inputFile of inputFiles) {
+        const result = migratePromptFile(inputFile, dryRun);
+        for (const record of result.migrations) {
+            console.log(`${inputFile} [${record.promptId ?? ''}]: schema ${record.fromVersion} -> ${record.toVersion}`);
+            for (const step of record.steps) {
+                console.log(`    ${step}`);
+            }
+        }
+        migratedCount += result.migrations.length;
+    }
+
+    console.log(`${dryRun ? 'Would migrate' : 'Migrated'} ${migratedCount} prompt(s) in ${inputFiles.length} file(s)`);
+    return migratedCount;
+}
+
+/**
+ * Options for diffPromptFiles
+ *
+ * @property id - Compare two versions of this prompt id, in the first file, rather than two files.
+ * @property fromVersion - The older version of the prompt id, or a range selecting it.
+ * @property toVersion - The newer version of the prompt id. Defaults to the latest released version.
+ * @property markdown - Print a Markdown changelog rather than one line per change.
+ */
+export interface IDiffPromptFilesOptions {
+    id?: string | undefined;
+    fromVersion?: string | undefined;
+    toVersion?: string | undefined;
+    markdown?: boolean | undefined;
+}
+
+/**
+ * Compares two prompt files, or two versions of one prompt id, and prints the differences.
+ *
+ * @param inputFiles - The older and newer prompt files, or a single file when comparing versions of a prompt id.
+ * @param options - The prompt id and versions to compare, and the output format.
+ * @returns True if any change is breaking.
+ */
+export function diffPromptFiles(inputFiles: string[], options: IDiffPromptFilesOptions = {}): boolean {
+    let diff;
+    if (options.id !== undefined) {
+        if (options.fromVersion === undefined) {
+            throw new InvalidOperationError('Comparing versions of a prompt id needs --from <version>');
+        }
+        diff = diffPromptIdVersions(readPromptFile(inputFiles[0]), options.id, options.fromVersion, options.toVersion);
+    }
+    else {
+        if (inputFiles.length !== 2) {
+            throw new InvalidOperationError('Comparing prompt files needs exactly two files, the older first');
+        }
+        diff = diffPromptSets(readPromptFile(inputFiles[0]), readPromptFile(inputFiles[1]));
+    }
+
+    console.log(options.markdown ? formatPromptChangelog(diff) : formatPromptDiff(diff));
+    return hasBreakingPromptChanges(diff);
+}
+
 // Only run if this module is being run directly
 if (require.main === module) {
     // Parse command line arguments
-    let inputFile = '';
-    for (let i = 0; i < process.argv.length; i++) {
-        if (process.argv[i] === '-f' && i + 1 < process.argv.length) {
-            inputFile = process.argv[i + 1];
-            break;
+    const args = process.argv.slice(2);
+    const validateMode = args[0] === 'validate';
+    const migrateMode = args[0] === 'migrate';
+    const diffMode = args[0] === 'diff';
+    const dryRun = args.includes('--dry-run');
+    const inputFiles: string[] = [];
+    let importModule = DefaultAccessorImport;
+    const diffOptions: IDiffPromptFilesOptions = { markdown: args.includes('--markdown') };
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '-f' && i + 1 < args.length) {
+            inputFiles.push(args[i + 1]);
+            i++;
+        }
+        else if (args[i] === '--import' && i + 1 < args.length) {
+            importModule = args[i + 1];
+            i++;
+        }
+        else if (['--id', '--from', '--to'].includes(args[i]) && i + 1 < args.length) {
+            const key = args[i] === '--id' ? 'id' : args[i] === '--from' ? 'fromVersion' : 'toVersion';
+            diffOptions[key] = args[i + 1];
+            i++;
         }
     }
 
-    if (!inputFile) {
+    if (inputFiles.length === 0) {
         console.error('Please provide an input file using the -f parameter');
+        process.exitCode = 1;
+    }
+    else if (validateMode) {
+        if (validatePromptFiles(inputFiles) > 0) {
+            process.exitCode = 1;
+        }
+    }
+    else if (migrateMode) {
+        migratePromptFiles(inputFiles, dryRun);
+    }
+    else if (diffMode) {
+        if (diffPromptFiles(inputFiles, diffOptions) && args.includes('--fail-on-breaking')) {
+            process.exitCode = 1;
+        }
     }
     else {
-        // Read and parse the input file
-        const prompts = JSON.parse(fs.readFileSync(inputFile, 'utf-8'));
+        const inputFile = inputFiles[0];
+
+        // Read and parse the input file, migrating it to the current schema
+        const prompts = readPromptFile(inputFile);
 
         // Generate IDs in the same directory of the input file
         const outputPath = path.join(
@@ -77,9 +375,7 @@ if (require.main === module) {
             'promptIds.ts'
         );
 
-        generateJsonIds(prompts, outputPath);
-        console.log(`Generated prompt IDs JSON in ${outputPath}`);        
+        generatePromptAccessors(prompts, outputPath, importModule);
+        console.log(`Generated prompt accessors in ${outputPath}`);
     }
 }
-
-
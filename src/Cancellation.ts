@@ -0,0 +1,120 @@
+/**
+ * @module Cancellation
+ *
+ * Cancellation and timeouts for calls to model providers. Each driver call takes an IRequestOptions
+ * holding an AbortSignal, a timeout, or both. They are combined into one signal, which is passed to the
+ * provider's client so that a request in flight is abandoned, and which the retry loop, the tool use
+ * loops and the streaming iterators check between steps. A cancelled call fails with OperationCancelledError.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { InvalidParameterError } from "@jonverrier/assistant-common";
+
+/**
+ * Options that control how long a call may run
+ *
+ * @interface IRequestOptions
+ * @property {AbortSignal} [signal] - Aborting the signal cancels the call
+ * @property {number} [timeoutMs] - The most time the whole call may take, including retries, backoff and function calls
+ */
+export interface IRequestOptions {
+   signal?: AbortSignal | undefined;
+   timeoutMs?: number | undefined;
+}
+
+/**
+ * Thrown when a call is cancelled through its AbortSignal or runs past its timeout.
+ * Not a ConnectionError, so callers can tell a call they stopped from one that failed.
+ */
+export class OperationCancelledError extends Error {
+   /**
+    * @param message Describes what was cancelled
+    * @param timedOut True if the call ran past its timeout, false if its signal was aborted
+    * @param cause The reason the signal was aborted with
+    */
+   constructor(message: string, readonly timedOut: boolean, cause?: unknown) {
+      super(message, { cause });
+      this.name = "OperationCancelledError";
+   }
+}
+
+/**
+ * Combines the signal and timeout of a call into one signal
+ * @param options The options passed to the call
+ * @returns A signal that aborts when either does, or undefined if the call cannot be cancelled
+ * @throws {InvalidParameterError} If timeoutMs is not a positive number
+ */
+export function createRequestSignal(options?: IRequestOptions): AbortSignal | undefined {
+   const signals: AbortSignal[] = [];
+   if (options?.signal) {
+      signals.push(options.signal);
+   }
+   if (options?.timeoutMs !== undefined) {
+      if (!(options.timeoutMs > 0) || !Number.isFinite(options.timeoutMs)) {
+         throw new InvalidParameterError(`timeoutMs must be a positive number, got ${options.timeoutMs}`);
+      }
+      signals.push(AbortSignal.timeout(options.timeoutMs));
+   }
+   return signals.length <= 1 ? signals[0] : AbortSignal.any(signals);
+}
+
+/**
+ * Describes why a signal was aborted
+ * @param signal An aborted signal
+ * @returns The error to fail the call with
+ */
+export function toCancelledError(signal: AbortSignal): OperationCancelledError {
+   const reason = signal.reason;
+   if (reason instanceof OperationCancelledError) {
+      return reason;
+   }
+   if (reason instanceof Error && reason.name === "TimeoutError") {
+      return new OperationCancelledError("The call timed out", true, reason);
+   }
+   return new OperationCancelledError("The call was cancelled", false, reason);
+}
+
+/**
+ * @throws {OperationCancelledError} If the signal has been aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+   if (signal?.aborted) {
+      throw toCancelledError(signal);
+   }
+}
+
+/**
+ * Waits for a promise, giving up if the signal is aborted first. The work behind the promise is not
+ * stopped, so use this only for work that does not take a signal itself.
+ * @param promise The promise
+ * @param signal The signal of the call
+ * @returns The value of the promise
+ * @throws {OperationCancelledError} If the signal is aborted first
+ */
+export function raceCancellation<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+   if (!signal) {
+      return promise;
+   }
+   if (signal.aborted) {
+      return Promise.reject(toCancelledError(signal));
+   }
+   return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(toCancelledError(signal));
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise.then(
+         value => { signal.removeEventListener("abort", onAbort); resolve(value); },
+         error => { signal.removeEventListener("abort", onAbort); reject(error); });
+   });
+}
+
+/**
+ * Waits for a time, or until the signal is aborted
+ * @param ms The time to wait
+ * @param signal The signal of the call
+ * @throws {OperationCancelledError} If the signal is aborted first
+ */
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+   let timer: ReturnType<typeof setTimeout> | undefined;
+   const wait = new Promise<void>(resolve => timer = setTimeout(resolve, ms));
+   return raceCancellation(wait, signal).finally(() => clearTimeout(timer));
+}
@@ -22,14 +22,30 @@
 
 import { AzureOpenAI } from 'openai';
 import { EChatRole, InvalidStateError } from './entry';
-import { EModel, IChatMessage, IFunction } from './entry';
+import { EModel, IChatMessage, IFunction, IModelContextWindow } from './entry';
 import { GenericOpenAIChatDriver } from './Chat.GenericOpenAI';
+import { IRetryPolicy } from './RetryPolicy';
 
-const AZURE_DEPLOYMENTS = {
+export const AZURE_DEPLOYMENTS = {
    LARGE: "gpt-4.1",
    MINI: "gpt-4.1-mini"
 } as const;
 
+/**
+ * Context window and output limits of the Azure OpenAI deployments, by deployment name
+ */
+export const AZURE_CONTEXT_WINDOWS: { [deployment: string]: IModelContextWindow } = {
+   [AZURE_DEPLOYMENTS.LARGE]: { contextTokens: 1047576, maxOutputTokens: 32768 },
+   [AZURE_DEPLOYMENTS.MINI]: { contextTokens: 1047576, maxOutputTokens: 32768 }
+};
+
+/**
+ * Returns the Azure OpenAI deployment used for a model size
+ */
+export function getAzureOpenAIDeploymentName(modelType: EModel): string {
+   return modelType === EModel.kLarge ? AZURE_DEPLOYMENTS.LARGE : AZURE_DEPLOYMENTS.MINI;
+}
+
 /**
  * Concrete implementation of GenericOpenAIChatDriver for Azure OpenAI model.
  * Provides specific configuration for Azure OpenAI model.
@@ -43,9 +59,9 @@ export class AzureOpenAIChatDriver extends GenericOpenAIChatDriver {
    private deployment: string;
    protected declare openai: AzureOpenAI;
 
-   constructor(modelType: EModel) {
-      super(modelType);
-      this.deployment = modelType === EModel.kLarge ? AZURE_DEPLOYMENTS.LARGE : AZURE_DEPLOYMENTS.MINI;
+   constructor(modelType: EModel, retryPolicy?: IRetryPolicy) {
+      super(modelType, retryPolicy);
+      this.deployment = getAzureOpenAIDeploymentName(modelType);
 
       if (!process.env.AZURE_OPENAI_API_KEY) {
          throw new InvalidStateError('AZURE_OPENAI_API_KEY environment variable is not set');
@@ -9,8 +9,12 @@
 import OpenAI from 'openai';
 import { EChatRole, EVerbosity, ConnectionError, InvalidOperationError } from './entry';
 import { IChatDriver, EModel, IChatMessage, IFunction, ILLMFunctionCall, IFunctionCallOutput, IFunctionCall } from './entry';
-import { retryWithExponentialBackoff, MAX_RETRIES } from './DriverHelpers';
+import { IChatResponse, IChatUsage, IToolInvocation, EChatFinishReason, ChatStreamEvent, EChatStreamEventType } from './entry';
+import { addChatUsage } from './DriverHelpers';
+import { IRequestOptions, OperationCancelledError, createRequestSignal, raceCancellation, throwIfCancelled, toCancelledError } from './Cancellation';
 import { ChatDriver } from './Chat';
+import { checkFunctionOutput, runToolCalls, withFunctionTimeout } from './ToolExecution';
+import { IRetryPolicy } from './RetryPolicy';
 
 /**
  * OpenAI-specific tool call interface
@@ -34,7 +38,7 @@ import { ChatDriver } from './Chat';
 // Relies on:
 // - OpenAI SDK for responses.create.
 // - Enums/interfaces and errors from ./entry (EChatRole, EVerbosity, IChatMessage, IFunction, IFunctionCall, EModel, ConnectionError, InvalidOperationError).
-// - retryWithExponentialBackoff and MAX_RETRIES from DriverHelpers.
+// - ChatDriver.retry, which retries requests with retryWithPolicy and the driver's IRetryPolicy.
 // ===End StrongAI Generated Comment===
 
 interface IOpenAIToolCall {
@@ -75,6 +79,64 @@ function convertFromOpenAIToolCalls(openAIToolCalls: IOpenAIToolCall[]): IFuncti
    }));
 }
 
+/**
+ * Converts the function calls made by an assistant message in the history to Responses API
+ * function_call items, which must precede their function_call_output items
+ */
+function convertToResponsesFunctionCalls(msg: IChatMessage): any[] {
+   const calls = msg.tool_calls ?? (msg.function_call ? [msg.function_call] : []);
+   return calls.map(call => ({
+      type: "function_call",
+      call_id: call.id,
+      name: call.name,
+      arguments: call.arguments
+   }));
+}
+
+/**
+ * Reads the token usage from a Responses API response
+ */
+function readOpenAIUsage(response: any): IChatUsage | undefined {
+   const usage = response?.usage;
+   if (!usage) {
+      return undefined;
+   }
+   const inputTokens = usage.input_tokens ?? 0;
+   const outputTokens = usage.output_tokens ?? 0;
+   const result: IChatUsage = { inputTokens, outputTokens, totalTokens: usage.total_tokens ?? inputTokens + outputTokens };
+   if (usage.output_tokens_details?.reasoning_tokens !== undefined) {
+      result.reasoningTokens = usage.output_tokens_details.reasoning_tokens;
+   }
+   return result;
+}
+
+/**
+ * Reads why a Responses API response stopped. Incomplete responses give their reason in incomplete_details.
+ */
+function readOpenAIFinishReason(response: any): EChatFinishReason {
+   if (response?.status !== 'incomplete') {
+      return EChatFinishReason.kStop;
+   }
+   switch (response.incomplete_details?.reason) {
+      case 'max_output_tokens':
+         return EChatFinishReason.kLength;
+      case 'content_filter':
+         return EChatFinishReason.kContentFilter;
+      default:
+         return EChatFinishReason.kOther;
+   }
+}
+
+const parallelToolCallInstruction = 'CRITICAL: When multiple function calls are needed, you MUST make ALL necessary function calls in a SINGLE response. ' +
+   'Do not wait for function results before making additional calls. Use parallel function calling to complete the entire task in one response.';
+
+/**
+ * Adds an instruction to make every function call in one response, used when tool use is forced
+ */
+function withParallelToolCallPrompt(systemPrompt: string | undefined): string {
+   return systemPrompt ? `${systemPrompt}\n\n${parallelToolCallInstruction}` : parallelToolCallInstruction;
+}
+
 /**
  * Determines if an error is a content filter/moderation error.
  * @param error - The error to check
@@ -98,8 +160,8 @@ function isContentFilterError(error: any): boolean {
 export abstract class GenericOpenAIChatDriver extends ChatDriver {
    protected openai!: OpenAI;
 
-   constructor(modelType: EModel) {
-      super(modelType);
+   constructor(modelType: EModel, retryPolicy?: IRetryPolicy) {
+      super(modelType, retryPolicy);
    }
 
    protected shouldUseToolMessages(): boolean {
@@ -124,18 +186,22 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       forceToolUse?: boolean
    ): any {
       const filteredMessages = messages.filter(msg => msg.role !== EChatRole.kFunction);
-      const formattedMessages = filteredMessages.map(msg => {
+      const formattedMessages = filteredMessages.flatMap(msg => {
          // Handle function_call_output messages (Responses API format)
          if ((msg as any).type === "function_call_output") {
-            return {
+            return [{
                type: "function_call_output",
                call_id: (msg as any).call_id,
                output: (msg as any).output
-            };
+            }];
          }
 
          const isAssistantWithFunctionCall = msg.role === EChatRole.kAssistant && msg.function_call;
          const isAssistantWithToolCalls = msg.role === EChatRole.kAssistant && msg.tool_calls;
+         // Function calls from the history are sent as function_call items, so that their outputs are accepted
+         if ((isAssistantWithFunctionCall || isAssistantWithToolCalls) && !msg.content) {
+            return convertToResponsesFunctionCalls(msg);
+         }
          const baseMessage: any = {
             role: msg.role === EChatRole.kUser ? 'user' :
                msg.role === EChatRole.kAssistant ? 'assistant' :
@@ -159,7 +225,7 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
             baseMessage.tool_call_id = msg.tool_call_id;
          }
 
-         return baseMessage;
+         return [baseMessage];
       });
 
       // Map EVerbosity enum to Responses API verbosity values
@@ -324,10 +390,13 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
                content: msg.content || ''
             });
          } else if (msg.role === EChatRole.kAssistant) {
-            inputList.push({
-               role: 'assistant',
-               content: msg.content || ''
-            });
+            if (msg.content || !(msg.function_call || msg.tool_calls)) {
+               inputList.push({
+                  role: 'assistant',
+                  content: msg.content || ''
+               });
+            }
+            inputList.push(...convertToResponsesFunctionCalls(msg));
          }
       }
 
@@ -478,10 +547,11 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       messages: IChatMessage[],
       verbosity: EVerbosity,
       functions: IFunction[] | undefined,
-      createResponse: (config: any) => Promise<any>
-   ): Promise<string> {
+      createResponse: (config: any) => Promise<any>,
+      signal?: AbortSignal
+   ): Promise<IChatResponse> {
       // Use the Responses API pattern for modern tool calling support
-      return this.handleToolUseWithResponsesAPI(systemPrompt, messages, verbosity, functions, false, createResponse);
+      return this.handleToolUseWithResponsesAPI(systemPrompt, messages, verbosity, functions, false, createResponse, signal);
    }
 
    /**
@@ -492,25 +562,22 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       messages: IChatMessage[],
       verbosity: EVerbosity,
       functions: IFunction[] | undefined,
-      createResponse: (config: any) => Promise<any>
-   ): Promise<string> {
-      // Enhance system prompt to emphasize parallel function calling for forced tools
-      // This helps ensure the model makes all necessary function calls in a single response
-      const enhancedSystemPrompt = systemPrompt 
-         ? `${systemPrompt}\n\nCRITICAL: When multiple function calls are needed, you MUST make ALL necessary function calls in a SINGLE response. Do not wait for function results before making additional calls. Use parallel function calling to complete the entire task in one response.`
-         : 'CRITICAL: When multiple function calls are needed, you MUST make ALL necessary function calls in a SINGLE response. Do not wait for function results before making additional calls. Use parallel function calling to complete the entire task in one response.';
-      
+      createResponse: (config: any) => Promise<any>,
+      signal?: AbortSignal
+   ): Promise<IChatResponse> {
       // Use the Responses API pattern for modern tool calling support
-      return this.handleToolUseWithResponsesAPI(enhancedSystemPrompt, messages, verbosity, functions, true, createResponse);
+      return this.handleToolUseWithResponsesAPI(withParallelToolCallPrompt(systemPrompt), messages, verbosity, functions, true, createResponse, signal);
    }
 
-   async getModelResponse(systemPrompt: string | undefined,
+   async getModelResponseDetailed(systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]): Promise<string> {
+      functions?: IFunction[],
+      options?: IRequestOptions): Promise<IChatResponse> {
 
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
+      const signal = createRequestSignal(options);
+      const messages = await this.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
 
       try {
          return await this.handleToolUseLoop(
@@ -518,11 +585,12 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
             messages,
             verbosity,
             functions,
-            (config) => retryWithExponentialBackoff(() => this.openai.responses.create(config), MAX_RETRIES, this.getProviderName())
+            (config) => this.createResponse(config, signal),
+            signal
          );
       } catch (error) {
-         // If error is already a ConnectionError or InvalidOperationError from retryWithExponentialBackoff, just rethrow it
-         if (error instanceof ConnectionError || error instanceof InvalidOperationError) {
+         // If error is already a ConnectionError, InvalidOperationError or OperationCancelledError, just rethrow it
+         if (error instanceof ConnectionError || error instanceof InvalidOperationError || error instanceof OperationCancelledError) {
             throw error;
          }
          // Otherwise, wrap it with provider name
@@ -533,13 +601,15 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       }
    }
 
-   async getModelResponseWithForcedTools(systemPrompt: string | undefined,
+   async getModelResponseWithForcedToolsDetailed(systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]): Promise<string> {
+      functions?: IFunction[],
+      options?: IRequestOptions): Promise<IChatResponse> {
 
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
+      const signal = createRequestSignal(options);
+      const messages = await this.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
 
       try {
          return await this.handleToolUseLoopWithForcedTools(
@@ -547,11 +617,12 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
             messages,
             verbosity,
             functions,
-            (config) => retryWithExponentialBackoff(() => this.openai.responses.create(config), MAX_RETRIES, this.getProviderName())
+            (config) => this.createResponse(config, signal),
+            signal
          );
       } catch (error) {
-         // If error is already a ConnectionError or InvalidOperationError from retryWithExponentialBackoff, just rethrow it
-         if (error instanceof ConnectionError || error instanceof InvalidOperationError) {
+         // If error is already a ConnectionError, InvalidOperationError or OperationCancelledError, just rethrow it
+         if (error instanceof ConnectionError || error instanceof InvalidOperationError || error instanceof OperationCancelledError) {
             throw error;
          }
          // Otherwise, wrap it with provider name
@@ -562,112 +633,194 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       }
    }
 
-   getStreamedModelResponse(systemPrompt: string | undefined,
+   getStreamedModelResponseEvents(systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]): AsyncIterator<string> {
+      functions?: IFunction[],
+      options?: IRequestOptions): AsyncIterator<ChatStreamEvent> {
 
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
       const self = this;
 
       return (async function* () {
+         let signal: AbortSignal | undefined;
          try {
-            // Try to call the API - this might return a streaming iterator for testing
-            const config = self.createResponseConfig(systemPrompt, messages, verbosity, functions, false, false);
-            const response = await retryWithExponentialBackoff(() => self.openai.responses.create(config), MAX_RETRIES, self.getProviderName());
-
-            // Check if the response has an async iterator (for testing)
-            if (response && typeof (response as any)[Symbol.asyncIterator] === 'function') {
-               // Handle real streaming (for testing)
-               try {
-                  for await (const chunk of (response as any)) {
-                     // Handle both test mock format and real API format
-                     let content = chunk.value?.choices?.[0]?.delta?.content || chunk.choices?.[0]?.delta?.content;
-                     if (content) {
-                        yield content;
-                     }
-                  }
-               } catch (streamError) {
-                  // Handle mid-stream errors gracefully
-                  yield '\n\nSorry, it looks like the response was interrupted. Please try again.';
-               }
-               return;
-            }
-
-            // Use the tool use loop to handle function calls properly, then simulate streaming
-            const result = await self.handleToolUseLoop(
-               systemPrompt,
-               messages,
-               verbosity,
-               functions,
-               (config) => retryWithExponentialBackoff(() => self.openai.responses.create(config), MAX_RETRIES, self.getProviderName())
-            );
-
-            // Simulate streaming by yielding the result in chunks
-            const words = result.split(' ').filter(word => word.trim().length > 0);
-
-            // If we have very few words, split by characters to ensure multiple chunks
-            if (words.length <= 2) {
-               const chars = result.trim();
-               const chunkSize = Math.max(1, Math.floor(chars.length / 3)); // Split into ~3 chunks
-               for (let i = 0; i < chars.length; i += chunkSize) {
-                  const chunk = chars.slice(i, i + chunkSize);
-                  yield chunk;
-                  await new Promise(resolve => setTimeout(resolve, 50));
-               }
-            } else {
-               // Normal word-by-word streaming for longer responses
-               for (let i = 0; i < words.length; i++) {
-                  const chunkText = i < words.length - 1 ? words[i] + ' ' : words[i];
-                  yield chunkText;
-                  await new Promise(resolve => setTimeout(resolve, 50));
-               }
-            }
+            signal = createRequestSignal(options);
+            const messages = await self.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
+            yield* self.streamToolUseWithResponsesAPI(systemPrompt, messages, verbosity, functions, false, signal);
          } catch (error) {
-            // Handle errors gracefully
-            yield '\n\nSorry, it looks like the response was interrupted. Please try again.';
+            yield { type: EChatStreamEventType.kError, error: self.toStreamError(error, signal) };
          }
       })();
    }
 
-   getStreamedModelResponseWithForcedTools(systemPrompt: string | undefined,
+   getStreamedModelResponseWithForcedToolsEvents(systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]): AsyncIterator<string> {
+      functions?: IFunction[],
+      options?: IRequestOptions): AsyncIterator<ChatStreamEvent> {
 
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
       const self = this;
 
       return (async function* () {
+         let signal: AbortSignal | undefined;
          try {
-            // Use the forced tool use loop for the initial call
-            const result = await self.handleToolUseLoopWithForcedTools(
-               systemPrompt,
-               messages,
-               verbosity,
-               functions,
-               (config) => retryWithExponentialBackoff(() => self.openai.responses.create(config), MAX_RETRIES, self.getProviderName())
-            );
-
-            // Simulate streaming by yielding the result in chunks (1 word at a time for better granularity)
-            const words = result.split(' ').filter(word => word.trim().length > 0);
-            for (let i = 0; i < words.length; i++) {
-               const chunkText = i < words.length - 1 ? words[i] + ' ' : words[i];
-               yield chunkText;
-               // Add a small delay to simulate streaming
-               await new Promise(resolve => setTimeout(resolve, 50));
-            }
+            signal = createRequestSignal(options);
+            const messages = await self.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
+            yield* self.streamToolUseWithResponsesAPI(withParallelToolCallPrompt(systemPrompt), messages, verbosity, functions, true, signal);
          } catch (error) {
-            // Log the actual error for debugging
-            console.error('🚨 Error in getStreamedModelResponseWithForcedTools:', error);
-            // Handle errors gracefully
-            yield '\n\nSorry, it looks like the response was interrupted. Please try again.';
+            yield { type: EChatStreamEventType.kError, error: self.toStreamError(error, signal) };
          }
       })();
    }
 
+   /**
+    * Streams a response, running the functions it calls and streaming the model's answer to their outputs,
+    * until the model replies without calling a function. Each round sends the output items of the previous
+    * response, including its function calls, followed by the function outputs.
+    * @param forceToolUse If true, the first round must call a function
+    */
+   private async *streamToolUseWithResponsesAPI(
+      systemPrompt: string | undefined,
+      messages: IChatMessage[],
+      verbosity: EVerbosity,
+      functions: IFunction[] | undefined,
+      forceToolUse: boolean,
+      signal: AbortSignal | undefined
+   ): AsyncGenerator<ChatStreamEvent> {
+      const startTime = Date.now();
+      const toolInvocations: IToolInvocation[] = [];
+      const executedFunctions = new Set<string>();
+      const inputList = this.convertMessagesToInputList(messages);
+      const shouldIncludeTools = functions !== undefined && functions.length > 0;
+      let usage: IChatUsage | undefined;
+      let model = this.getModelName();
+      let responseId: string | undefined;
+      let text = '';
+      const done = (finishReason: EChatFinishReason): ChatStreamEvent => ({
+         type: EChatStreamEventType.kDone,
+         response: { text, model, finishReason, usage, toolInvocations, responseId, latencyMs: Date.now() - startTime }
+      });
+
+      for (let round = 0; round < this.maxToolRounds; round++) {
+         const config = this.createResponsesInputConfig(systemPrompt, inputList, verbosity,
+            shouldIncludeTools ? functions : undefined, forceToolUse && round === 0);
+         if (shouldIncludeTools) {
+            config.max_tool_calls = 10;
+         }
+
+         const stream = this.streamResponse(config, signal);
+         let next = await stream.next();
+         while (!next.done) {
+            if (next.value.type === EChatStreamEventType.kTextDelta) {
+               text += next.value.text;
+            }
+            yield next.value;
+            next = await stream.next();
+         }
+         const response = next.value;
+         usage = addChatUsage(usage, readOpenAIUsage(response));
+         model = response?.model ?? model;
+         responseId = response?.id ?? responseId;
+
+         const output: any[] = Array.isArray(response?.output) ? response.output : [];
+         const functionCalls: IFunctionCall[] = output
+            .filter(item => item.type === 'function_call')
+            .map((call, index) => ({ id: call.call_id || `generated_${Date.now()}_${index}`, name: call.name, arguments: call.arguments || '{}' }));
+         if (functionCalls.length === 0 || !shouldIncludeTools) {
+            if (usage) {
+               yield { type: EChatStreamEventType.kUsage, usage };
+            }
+            yield done(functionCalls.length === 0 ? readOpenAIFinishReason(response) : EChatFinishReason.kToolCalls);
+            return;
+         }
+
+         for (const functionCall of functionCalls) {
+            yield { type: EChatStreamEventType.kToolCallStarted, callId: functionCall.id, name: functionCall.name, arguments: functionCall.arguments };
+         }
+         const invocations = await this.runResponsesToolRound(round, output, functionCalls, functions, inputList, executedFunctions, signal);
+         for (const invocation of invocations) {
+            toolInvocations.push(invocation);
+            yield { type: EChatStreamEventType.kToolCallFinished, invocation };
+         }
+      }
+
+      if (usage) {
+         yield { type: EChatStreamEventType.kUsage, usage };
+      }
+      yield done(EChatFinishReason.kMaxToolRounds);
+   }
+
+   /**
+    * Sends one streamed request, yielding its text as it arrives
+    * @returns The completed response, whose output holds any function calls
+    * @throws {ConnectionError} If the stream reports that the response failed
+    */
+   private async *streamResponse(config: any, signal: AbortSignal | undefined): AsyncGenerator<ChatStreamEvent, any> {
+      const stream: any = await this.createResponse({ ...config, stream: true }, signal);
+
+      // Clients that do not stream, such as test doubles, return the whole response at once
+      if (!stream || typeof stream[Symbol.asyncIterator] !== 'function') {
+         const text = this.extractTextFromOutput(stream?.output ?? []);
+         if (text) {
+            yield { type: EChatStreamEventType.kTextDelta, text };
+         }
+         return stream;
+      }
+
+      const output: any[] = [];
+      for await (const event of stream) {
+         throwIfCancelled(signal);
+         switch (event?.type) {
+            case 'response.output_text.delta':
+               if (event.delta) {
+                  yield { type: EChatStreamEventType.kTextDelta, text: event.delta };
+               }
+               break;
+            case 'response.output_item.done':
+               output.push(event.item);
+               break;
+            case 'response.completed':
+            case 'response.incomplete':
+               return { ...event.response, output: event.response?.output ?? output };
+            case 'response.failed':
+               throw new ConnectionError(`${this.getProviderName()} API error: ${event.response?.error?.message ?? 'Response failed'}`);
+            default: {
+               // Chat Completions style chunks, as returned by older test doubles
+               const content = event?.value?.choices?.[0]?.delta?.content || event?.choices?.[0]?.delta?.content;
+               if (content) {
+                  yield { type: EChatStreamEventType.kTextDelta, text: content };
+               }
+            }
+         }
+      }
+
+      // The client ends the stream quietly when its request is aborted
+      throwIfCancelled(signal);
+
+      // The stream ended without a completion event
+      return { status: 'completed', output };
+   }
+
+   /**
+    * Sends one request to the Responses API, retrying transient failures
+    */
+   protected createResponse(config: any, signal?: AbortSignal): Promise<any> {
+      return this.retry(() => this.openai.responses.create(config, { signal }), signal);
+   }
+
+   private toStreamError(error: unknown, signal: AbortSignal | undefined): Error {
+      // The client reports an abandoned request as its own error, so the signal says whether the call was cancelled
+      if (signal?.aborted) {
+         return toCancelledError(signal);
+      }
+      if (error instanceof Error) {
+         return error;
+      }
+      return new ConnectionError(`Unknown error occurred while calling ${this.getProviderName()} API`);
+   }
+
    async getConstrainedModelResponse<T>(
       systemPrompt: string | undefined,
       userPrompt: string,
@@ -675,9 +828,11 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       jsonSchema: Record<string, unknown>,
       defaultValue: T,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): Promise<T> {
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
+      const signal = createRequestSignal(options);
+      const messages = await this.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
 
       const config = this.createResponseConfig(systemPrompt, messages, verbosity, functions, false, false);
       // Merge the format configuration with existing text configuration
@@ -698,9 +853,7 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       // already help reduce false positives by constraining the model's output format.
 
       try {
-         const response = await retryWithExponentialBackoff(() =>
-            this.openai.responses.create(config), MAX_RETRIES, this.getProviderName()
-         );
+         const response = await this.createResponse(config, signal);
 
          const content = this.extractTextFromOutput(response.output || []);
          if (content) {
@@ -715,6 +868,10 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
          }
          return defaultValue;
       } catch (error) {
+         // A cancelled call fails rather than returning the default, so the caller knows it was stopped
+         if (error instanceof OperationCancelledError) {
+            throw error;
+         }
          // Detect and log content filter errors with full prompts for debugging
          if (isContentFilterError(error)) {
             console.error('[ContentFilter] Content moderation triggered:', {
@@ -730,16 +887,16 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
    }
 
    /**
-    * Handles tool use with the exact Responses API pattern from the official OpenAI example.
+    * Handles tool use with the Responses API pattern from the official OpenAI example.
     * Supports multiple tool calls in a single response and follows the input_list approach.
     * 
-    * This implementation closely follows the official OpenAI example:
-    * 1. Create input_list with user message
+    * 1. Create input_list from the message history
     * 2. Call responses.create() with tools defined
     * 3. Check response.output for function_call items
-    * 4. Execute functions and add function_call_output items to input_list
-    * 5. Call responses.create() again with updated input_list
-    * 6. Repeat until no more function calls
+    * 4. Add the output items, including the function calls, to input_list, then execute the
+    *    functions concurrently and add a function_call_output item for each, in the order of the calls
+    * 5. Call responses.create() again with the updated input_list
+    * 6. Repeat until the model replies without calling a function, or the round limit is reached
     * 
     * @param systemPrompt Optional system prompt (added as instructions)
     * @param messages Message history to convert to input_list
@@ -747,7 +904,8 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
     * @param functions Available functions for the model to call
     * @param forceToolUse Whether to force tool usage on first call
     * @param createResponse Function to create API response (for testing)
-    * @returns Final text response after all tool executions
+    * @param signal Cancels the loop between requests and function calls
+    * @returns The model's answer once it has seen the outputs of the functions it called
     */
    protected async handleToolUseWithResponsesAPI(
       systemPrompt: string | undefined,
@@ -755,32 +913,23 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
       verbosity: EVerbosity,
       functions?: IFunction[],
       forceToolUse?: boolean,
-      createResponse: (config: any) => Promise<any> = (config) => retryWithExponentialBackoff(() => this.openai.responses.create(config), MAX_RETRIES, this.getProviderName())
-   ): Promise<string> {
-      // Step 1: Build initial input_list from message history (following official example)
-      let inputList = this.convertMessagesToInputList(messages);
+      createResponse: (config: any) => Promise<any> = (config) => this.createResponse(config, signal),
+      signal?: AbortSignal
+   ): Promise<IChatResponse> {
+      const startTime = Date.now();
+      const toolInvocations: IToolInvocation[] = [];
+      let usage: IChatUsage | undefined;
+      let model = this.getModelName();
+      let responseId: string | undefined;
+      const finish = (text: string, finishReason: EChatFinishReason): IChatResponse =>
+         ({ text, model, finishReason, usage, toolInvocations, responseId, latencyMs: Date.now() - startTime });
 
-      // Tool use loop: handle multiple rounds of tool calls
-      let toolUseRounds = 0;
-      const MAX_TOOL_USE_ROUNDS = 10; // Increased to handle complex multi-tool scenarios
+      // Step 1: Build initial input_list from message history (following official example)
+      const inputList = this.convertMessagesToInputList(messages);
+      const shouldIncludeTools = functions !== undefined && functions.length > 0;
       const executedFunctions = new Set<string>(); // Track executed functions to prevent infinite loops
 
-      while (toolUseRounds < MAX_TOOL_USE_ROUNDS) {
-         // Step 2: The Responses API works differently than Chat Completions
-         // It expects all function calls to happen in a single request, not across multiple rounds
-         // If we already have function outputs, we should NOT continue the loop
-         const hasFunctionOutputs = inputList.some((item: any) => item.type === 'function_call_output');
-
-         if (hasFunctionOutputs) {
-
-            // Extract the function results and return a summary
-            const functionOutputs = inputList.filter((item: any) => item.type === 'function_call_output');
-            const summaries = functionOutputs.map((output: any) => `Function executed: ${output.output}`);
-            return `Function execution completed:\n${summaries.join('\n')}`;
-         }
-
-         const shouldIncludeTools = functions && functions.length > 0;
-
+      for (let toolUseRounds = 0; toolUseRounds < this.maxToolRounds; toolUseRounds++) {
          const config = this.createResponsesInputConfig(
             systemPrompt,
             inputList,
@@ -790,157 +939,145 @@ export abstract class GenericOpenAIChatDriver extends ChatDriver {
          );
 
          // Add max_tool_calls to encourage multiple function calls in a single response
-         // This is the key: the model should make ALL necessary calls in one response
-         if (shouldIncludeTools && functions && functions.length > 0) {
+         if (shouldIncludeTools) {
             config.max_tool_calls = 10; // Allow up to 10 tool calls in a single response
          }
 
-
-         // Step 3: Get response from API
+         // Step 2: Get response from API
          const response = await createResponse(config);
+         usage = addChatUsage(usage, readOpenAIUsage(response));
+         model = response?.model ?? model;
+         responseId = response?.id ?? responseId;
 
-         // Step 4: Process response.output (following official example)
-         const output = response.output;
+         // Step 3: Process response.output (following official example)
+         const output = response?.output;
          if (!output || !Array.isArray(output)) {
-            return 'Sorry, we received an invalid response from the API.';
+            return finish('Sorry, we received an invalid response from the API.', EChatFinishReason.kOther);
          }
 
          // Extract text content and function calls from output
          const textContent = this.extractTextFromOutput(output);
-         const rawFunctionCalls = output.filter((item: any) => item.type === 'function_call');
-
-         // Convert API function calls to our IFunctionCall format with proper ID assignment
-         const functionCalls: IFunctionCall[] = rawFunctionCalls.map((call: any, index: number) => ({
-            id: call.call_id || `generated_${Date.now()}_${index}`, // Ensure ID is always present
-            name: call.name,
-            arguments: call.arguments || '{}'
-         }));
-
-
-         // If no function calls, return the text response
+         const functionCalls: IFunctionCall[] = output
+            .filter((item: any) => item.type === 'function_call')
+            .map((call: any, index: number) => ({
+               id: call.call_id || `generated_${Date.now()}_${index}`, // Ensure ID is always present
+               name: call.name,
+               arguments: call.arguments || '{}'
+            }));
+
+         // If no function calls, the model has written its answer
          if (functionCalls.length === 0) {
-            return textContent || 'Response completed successfully.';
+            return finish(textContent || 'Response completed successfully.', readOpenAIFinishReason(response));
+         }
+         if (!shouldIncludeTools) {
+            return finish(textContent || '', EChatFinishReason.kToolCalls);
          }
 
-         // All function calls should use the proper multi-round execution path
-         // to maintain consistent ID handling for the Responses API
-
-         // Step 5: This should not be reached with the simplified approach above
-         // But keeping the complex logic as fallback
-         if (functions && functions.length > 0) {
-
-            // Process each function call in the response
-            const functionResults: Array<{ call_id: string, output: string }> = [];
-
-            for (let i = 0; i < functionCalls.length; i++) {
-               const functionCall = functionCalls[i];
-               // Get function name and arguments from our standardized IFunctionCall format
-               const currentFunctionName = functionCall.name;
-               const functionArgs = functionCall.arguments;
-               const callSignature = `${currentFunctionName}:${functionArgs}`;
+         // Step 4: Run the calls, and add them and their outputs to the input
+         toolInvocations.push(...await this.runResponsesToolRound(toolUseRounds, output, functionCalls, functions, inputList,
+            executedFunctions, signal));
+      }
 
-               // Extract call_id from the function call - ID is now required in IFunctionCall
-               const callId = functionCall.id;
+      return finish("I've reached the maximum number of tool execution rounds. The conversation may be too complex or there might be an issue with the tool calls. Please try rephrasing your request or breaking it into smaller parts.",
+         EChatFinishReason.kMaxToolRounds);
+   }
 
+   /**
+    * Runs the function calls of one round of a tool use loop. The streamed and non-streamed loops share it,
+    * so that both treat repeated calls alike.
+    * @param round The round, counting from 0
+    * @param output The output items of the response, which hold the calls
+    * @param functionCalls The calls
+    * @param functions The functions available
+    * @param inputList The input of the next round, to which the output items and the function outputs are added
+    * @param executedFunctions Signatures of the calls already run, which are not run again
+    * @param signal The signal of the call
+    * @returns The invocations, in the order of the calls
+    * @throws {OperationCancelledError} If the signal is aborted
+    */
+   private async runResponsesToolRound(round: number, output: any[], functionCalls: IFunctionCall[], functions: IFunction[],
+      inputList: any[], executedFunctions: Set<string>, signal?: AbortSignal): Promise<IToolInvocation[]> {
+      // The model needs its own function calls in the input to match them with their outputs
+      inputList.push(...output);
+      const invocations = await runToolCalls(functionCalls, functions, this.maxToolConcurrency,
+         call => this.runResponsesFunctionCall(call, functions, executedFunctions, signal));
+      for (const invocation of invocations) {
+         inputList.push({
+            type: "function_call_output",
+            call_id: invocation.callId,
+            output: invocation.output
+         });
+      }
 
-               // Check for infinite loops (same function with same args called too many times)
-               if (executedFunctions.has(callSignature)) {
-                  functionResults.push({
-                     call_id: callId,
-                     output: JSON.stringify({
-                        error: 'Function already executed with same parameters',
-                        functionName: currentFunctionName,
-                        timestamp: new Date().toISOString()
-                     })
-                  });
-                  continue;
-               }
+      // Clear executed functions tracking every few rounds to allow re-execution with different contexts
+      if ((round + 1) % 3 === 0) {
+         executedFunctions.clear();
+      }
+      return invocations;
+   }
 
-               // Find the matching function definition
-               const func = functions.find(f => f.name === currentFunctionName);
-               if (!func) {
-                  functionResults.push({
-                     call_id: callId,
-                     output: JSON.stringify({
-                        error: `Function ${currentFunctionName} not found`,
-                        functionName: currentFunctionName,
-                        timestamp: new Date().toISOString()
-                     })
-                  });
-                  continue;
-               }
+   /**
+    * Runs one function call from a Responses API response. Failures are returned as an error output for the model
+    * rather than thrown, so that the model can react to them.
+    * @param functionCall The call
+    * @param functions The functions available
+    * @param executedFunctions Signatures of the calls already run, which are not run again
+    * @param signal The signal of the call. The function is not stopped when it aborts, but its result is no longer awaited.
+    * @returns The invocation, whose output is sent back to the model
+    * @throws {OperationCancelledError} If the signal is aborted
+    */
+   protected async runResponsesFunctionCall(functionCall: IFunctionCall, functions: IFunction[],
+      executedFunctions: Set<string>, signal?: AbortSignal): Promise<IToolInvocation> {
+      throwIfCancelled(signal);
+      const currentFunctionName = functionCall.name;
+      const functionArgs = functionCall.arguments;
+      const callSignature = `${currentFunctionName}:${functionArgs}`;
+      const callStarted = Date.now();
+      const finish = (result: any, error?: string): IToolInvocation => ({
+         callId: functionCall.id,
+         name: currentFunctionName,
+         arguments: functionArgs,
+         output: JSON.stringify(result),
+         error,
+         durationMs: Date.now() - callStarted
+      });
+      const failed = (error: string) => finish({ error, functionName: currentFunctionName, timestamp: new Date().toISOString() }, error);
 
-               try {
-                  // Parse function arguments - handle different API response formats
-                  let parsedFunctionArgs: any = {};
-                  try {
-                     // Use the functionArgs we extracted earlier
-                     parsedFunctionArgs = JSON.parse(functionArgs);
-                  } catch (parseError) {
-                     functionResults.push({
-                        call_id: callId,
-                        output: JSON.stringify({
-                           error: `Invalid JSON arguments: ${parseError instanceof Error ? parseError.message : String(parseError)}`,
-                           functionName: currentFunctionName,
-                           timestamp: new Date().toISOString()
-                        })
-                     });
-                     continue;
-                  }
-
-                  // Validate arguments using function's validation
-                  const validatedArgs = func.validateArgs(parsedFunctionArgs);
-
-                  // Execute the function
-                  const functionResult = await func.execute(validatedArgs);
-
-                  // Track this function execution
-                  executedFunctions.add(callSignature);
-
-                  // Store result for adding to input_list
-                  functionResults.push({
-                     call_id: callId,
-                     output: JSON.stringify(functionResult)
-                  });
-
-               } catch (error) {
-                  functionResults.push({
-                     call_id: callId,
-                     output: JSON.stringify({
-                        error: error instanceof Error ? error.message : String(error),
-                        functionName: currentFunctionName,
-                        timestamp: new Date().toISOString()
-                     })
-                  });
-               }
-            }
+      // Check for infinite loops (same function with same args called too many times)
+      if (executedFunctions.has(callSignature)) {
+         return failed('Function already executed with same parameters');
+      }
 
-            // Step 6: Add function call outputs to input_list
-            // Based on the error, the Responses API doesn't accept function_calls in assistant messages
-            // Let's try just adding the function outputs directly as the official example shows
-            for (const result of functionResults) {
-               inputList.push({
-                  type: "function_call_output",
-                  call_id: result.call_id,
-                  output: result.output
-               });
-            }
+      // Find the matching function definition
+      const func = functions.find(f => f.name === currentFunctionName);
+      if (!func) {
+         return failed(`Function ${currentFunctionName} not found`);
+      }
 
+      try {
+         // Parse function arguments - handle different API response formats
+         let parsedFunctionArgs: any = {};
+         try {
+            parsedFunctionArgs = JSON.parse(functionArgs);
+         } catch (parseError) {
+            return failed(`Invalid JSON arguments: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
          }
 
-         toolUseRounds++;
+         // Validate arguments using function's validation
+         const validatedArgs = func.validateArgs(parsedFunctionArgs);
 
-         // After first round, don't force tool use anymore (let model decide)
-         forceToolUse = false;
-
-         // Clear executed functions tracking every few rounds to allow re-execution with different contexts
-         if (toolUseRounds % 3 === 0) {
-            executedFunctions.clear();
-            console.log('🔄 Cleared executed functions tracking for fresh context');
+         // Track this function execution before it runs, so that the same call running alongside it is not run twice
+         executedFunctions.add(callSignature);
+         const functionResult = await raceCancellation(withFunctionTimeout(func.execute(validatedArgs), func), signal);
+         const checked = checkFunctionOutput(functionResult, func, functionCall.id, this.toolOutputValidation);
+         return finish(checked.output, checked.error);
+      } catch (error) {
+         if (error instanceof OperationCancelledError) {
+            throw error;
          }
+         // A failed call may be retried with the same arguments
+         executedFunctions.delete(callSignature);
+         return failed(error instanceof Error ? error.message : String(error));
       }
-
-      console.log('🛑 Max tool use rounds reached');
-      return "I've reached the maximum number of tool execution rounds. The conversation may be too complex or there might be an issue with the tool calls. Please try rephrasing your request or breaking it into smaller parts.";
    }
 }
@@ -9,15 +9,75 @@
 // @ts-ignore - @google/generative-ai is a peer dependency
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { EChatRole, EVerbosity, InvalidStateError, ConnectionError, InvalidOperationError } from './entry';
-import { EModel, IChatMessage, IFunction, IFunctionCall } from './entry';
+import { EModel, IChatMessage, IFunction, IFunctionCall, IModelContextWindow } from './entry';
+import { IChatResponse, IChatUsage, IToolInvocation, EChatFinishReason, ChatStreamEvent, EChatStreamEventType } from './entry';
 import { ChatDriver } from './Chat';
-import { retryWithExponentialBackoff, MAX_RETRIES } from './DriverHelpers';
+import { checkFunctionOutput, runToolCalls, withFunctionTimeout } from './ToolExecution';
+import { addChatUsage } from './DriverHelpers';
+import { IRetryPolicy } from './RetryPolicy';
+import { IRequestOptions, OperationCancelledError, createRequestSignal, raceCancellation, throwIfCancelled, toCancelledError } from './Cancellation';
 
-const GEMINI_MODELS = {
+export const GEMINI_MODELS = {
    LARGE: "gemini-3-pro-preview",
    MINI: "gemini-3-flash-preview"
 } as const;
 
+/**
+ * Context window and output limits of the Gemini models, by model name
+ */
+export const GEMINI_CONTEXT_WINDOWS: { [model: string]: IModelContextWindow } = {
+   [GEMINI_MODELS.LARGE]: { contextTokens: 1048576, maxOutputTokens: 65536 },
+   [GEMINI_MODELS.MINI]: { contextTokens: 1048576, maxOutputTokens: 65536 }
+};
+
+/**
+ * Returns the Gemini model used for a model size.
+ * NOTE: Always using flash model (gemini-3-flash-preview) regardless of modelType parameter
+ * This is because the pro model (gemini-3-pro-preview) has a very low rate limit (250 requests/day)
+ * which causes rate limiting during testing. Flash model has much higher limits.
+ */
+export function getGeminiModelName(modelType: EModel): string {
+   return GEMINI_MODELS.MINI;
+}
+
+/**
+ * Reads the token usage from a Gemini response. Thinking tokens are counted as output, as OpenAI counts reasoning tokens.
+ */
+function readGeminiUsage(response: any): IChatUsage | undefined {
+   const metadata = response?.usageMetadata;
+   if (!metadata) {
+      return undefined;
+   }
+   const inputTokens = metadata.promptTokenCount ?? 0;
+   const outputTokens = (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0);
+   const usage: IChatUsage = { inputTokens, outputTokens, totalTokens: metadata.totalTokenCount ?? inputTokens + outputTokens };
+   if (metadata.thoughtsTokenCount !== undefined) {
+      usage.reasoningTokens = metadata.thoughtsTokenCount;
+   }
+   return usage;
+}
+
+/**
+ * Reads why a Gemini response stopped
+ */
+function readGeminiFinishReason(response: any): EChatFinishReason {
+   switch (response?.candidates?.[0]?.finishReason) {
+      case undefined:
+      case 'STOP':
+         return EChatFinishReason.kStop;
+      case 'MAX_TOKENS':
+         return EChatFinishReason.kLength;
+      case 'SAFETY':
+      case 'RECITATION':
+      case 'BLOCKLIST':
+      case 'PROHIBITED_CONTENT':
+      case 'SPII':
+         return EChatFinishReason.kContentFilter;
+      default:
+         return EChatFinishReason.kOther;
+   }
+}
+
 /**
  * Type for Gemini message parts - can be text, function call, or function response
  */
@@ -31,7 +91,7 @@ const GEMINI_MODELS = {
 // - getModelResponseWithForcedTools / getStreamedModelResponseWithForcedTools: “force tools” by augmenting the system prompt, since Gemini cannot be hard-forced.
 // - getConstrainedModelResponse: JSON-only replies validated via responseSchema; removes additionalProperties to match Gemini limits and falls back to a default value on parse errors.
 // 
-// Key dependencies: @google/generative-ai (GoogleGenerativeAI client), ChatDriver base class, EModel/EChatRole/EVerbosity enums, message and tool interfaces (IChatMessage, IFunction, IFunctionCall), custom errors, and retryWithExponentialBackoff with MAX_RETRIES for resilience.
+// Key dependencies: @google/generative-ai (GoogleGenerativeAI client), ChatDriver base class, EModel/EChatRole/EVerbosity enums, message and tool interfaces (IChatMessage, IFunction, IFunctionCall), custom errors, and ChatDriver.retry, which uses retryWithPolicy with the driver's IRetryPolicy, for resilience.
 // ===End StrongAI Generated Comment===
 
 type GeminiPart = 
@@ -59,13 +119,12 @@ type GeminiMessage = {
 export class GoogleGeminiChatDriver extends ChatDriver {
    private modelName: string;
    private genAI: GoogleGenerativeAI;
+   // Numbers the function calls this driver makes, as Gemini does not give calls an id
+   private functionCallCount = 0;
 
-   constructor(modelType: EModel) {
-      super(modelType);
-      // NOTE: Always using flash model (gemini-3-flash-preview) regardless of modelType parameter
-      // This is because the pro model (gemini-3-pro-preview) has a very low rate limit (250 requests/day)
-      // which causes rate limiting during testing. Flash model has much higher limits.
-      this.modelName = GEMINI_MODELS.MINI;
+   constructor(modelType: EModel, retryPolicy?: IRetryPolicy) {
+      super(modelType, retryPolicy);
+      this.modelName = getGeminiModelName(modelType);
 
       if (!process.env.GOOGLE_GEMINI_API_KEY) {
          throw new InvalidStateError('GOOGLE_GEMINI_API_KEY environment variable is not set');
@@ -87,6 +146,8 @@ export class GoogleGeminiChatDriver extends ChatDriver {
    private convertMessagesToGeminiFormat(messages: IChatMessage[]): GeminiMessage[] {
       return messages
          .filter(msg => msg.role === EChatRole.kUser || msg.role === EChatRole.kAssistant)
+         // Function calls and outputs from the history have no text to send
+         .filter(msg => msg.content || !(msg.function_call || msg.tool_calls || msg.type === "function_call_output"))
          .map(msg => {
             const role = msg.role === EChatRole.kUser ? 'user' : 'model';
             return {
@@ -114,59 +175,63 @@ export class GoogleGeminiChatDriver extends ChatDriver {
    }
 
    /**
-    * Converts Gemini function calls to IFunctionCall format
+    * Converts Gemini function calls to IFunctionCall format, giving each call an id of its own
     */
    private convertGeminiFunctionCallsToIFunctionCall(functionCalls: any[]): IFunctionCall[] {
-      return functionCalls.map((call, index) => ({
-         id: call.name || `gemini_call_${Date.now()}_${index}`,
+      return functionCalls.map(call => ({
+         id: `gemini_call_${++this.functionCallCount}`,
          name: call.name,
          arguments: JSON.stringify(call.args || {})
       }));
    }
 
    /**
-    * Executes function calls and returns results
+    * Executes function calls concurrently and returns results in the order of the calls,
+    * recording each call in invocations if given
+    * @throws {OperationCancelledError} If the signal is aborted
     */
-   private async executeFunctionCalls(functionCalls: IFunctionCall[], functions: IFunction[]): Promise<Array<{ functionResponse: { name: string; response: any } }>> {
-      const results: Array<{ functionResponse: { name: string; response: any } }> = [];
-
-      for (const call of functionCalls) {
-         const func = functions.find(f => f.name === call.name);
-         if (!func) {
-            results.push({
-               functionResponse: {
-                  name: call.name,
-                  response: {
-                     error: `Function ${call.name} not found`
-                  }
-               }
-            });
-            continue;
-         }
+   private async executeFunctionCalls(functionCalls: IFunctionCall[], functions: IFunction[], invocations?: IToolInvocation[],
+      signal?: AbortSignal): Promise<Array<{ functionResponse: { name: string; response: any } }>> {
+      const executed = await runToolCalls(functionCalls, functions, this.maxToolConcurrency, call => this.executeFunctionCall(call, functions, signal));
+      invocations?.push(...executed.map(result => result.invocation));
+      return executed.map(result => ({ functionResponse: result.functionResponse }));
+   }
 
-         try {
-            const args = JSON.parse(call.arguments);
-            const validatedArgs = func.validateArgs(args);
-            const result = await func.execute(validatedArgs);
-            results.push({
-               functionResponse: {
-                  name: call.name,
-                  response: result
-               }
-            });
-         } catch (error) {
-            results.push({
-               functionResponse: {
-                  name: call.name,
-                  response: {
-                     error: error instanceof Error ? error.message : String(error)
-                  }
-               }
-            });
-         }
+   /**
+    * Executes one function call. Failures are returned as an error response for the model rather than thrown.
+    * @throws {OperationCancelledError} If the signal is aborted
+    */
+   private async executeFunctionCall(call: IFunctionCall, functions: IFunction[], signal?: AbortSignal):
+      Promise<{ functionResponse: { name: string; response: any }; invocation: IToolInvocation }> {
+      throwIfCancelled(signal);
+      const callStarted = Date.now();
+      const result = (response: any, error?: string) => ({
+         functionResponse: {
+            name: call.name,
+            response
+         },
+         invocation: { callId: call.id, name: call.name, arguments: call.arguments, output: JSON.stringify(response), error, durationMs: Date.now() - callStarted }
+      });
+
+      const func = functions.find(f => f.name === call.name);
+      if (!func) {
+         const error = `Function ${call.name} not found`;
+         return result({ error }, error);
       }
 
-      return results;
+      try {
+         const args = JSON.parse(call.arguments);
+         const validatedArgs = func.validateArgs(args);
+         const functionResult = await raceCancellation(withFunctionTimeout(func.execute(validatedArgs), func), signal);
+         const checked = checkFunctionOutput(functionResult, func, call.id, this.toolOutputValidation);
+         return result(checked.output, checked.error);
+      } catch (error) {
+         if (error instanceof OperationCancelledError) {
+            throw error;
+         }
+         const message = error instanceof Error ? error.message : String(error);
+         return result({ error: message }, message);
+      }
    }
 
    /**
@@ -211,14 +276,21 @@ export class GoogleGeminiChatDriver extends ChatDriver {
       return cleaned;
    }
 
-   async getModelResponse(
+   async getModelResponseDetailed(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): Promise<string> {
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<IChatResponse> {
+      const startTime = Date.now();
+      const toolInvocations: IToolInvocation[] = [];
+      let usage: IChatUsage | undefined;
+      let modelVersion = this.modelName;
+      let responseId: string | undefined;
+      const signal = createRequestSignal(options);
+      const messages = await this.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
       const geminiMessages = this.convertMessagesToGeminiFormat(messages);
       
       const modelConfig: any = {
@@ -239,7 +311,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
          });
 
          // Handle function calling loop
-         let maxRounds = 10;
+         const maxRounds = this.maxToolRounds;
          let round = 0;
 
          while (round < maxRounds) {
@@ -249,9 +321,12 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                ? lastMessagePart.text 
                : '';
             
-            const result = await retryWithExponentialBackoff(() => chat.sendMessage(messageToSend), MAX_RETRIES, "Google Gemini") as any;
+            const result = await this.retry(() => chat.sendMessage(messageToSend, { signal }), signal) as any;
 
             const response = result.response;
+            usage = addChatUsage(usage, readGeminiUsage(response));
+            modelVersion = response?.modelVersion ?? modelVersion;
+            responseId = response?.responseId ?? responseId;
             
             // Safely get function calls - may throw if no function calls present
             let functionCalls: any[] = [];
@@ -270,7 +345,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                const ifunctionCalls = this.convertGeminiFunctionCallsToIFunctionCall(functionCalls);
                
                // Execute functions
-               const functionResults = await this.executeFunctionCalls(ifunctionCalls, functions || []);
+               const functionResults = await this.executeFunctionCalls(ifunctionCalls, functions || [], toolInvocations, signal);
 
                // Send function results back to model
                const functionResponseParts: any[] = functionResults.map((result: any) => ({
@@ -306,7 +381,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                try {
                   const text = response.text();
                   if (text && typeof text === 'string' && text.trim().length > 0) {
-                     return text;
+                     return { text, model: modelVersion, finishReason: readGeminiFinishReason(response), usage, toolInvocations, responseId, latencyMs: Date.now() - startTime };
                   } else {
                      // Empty or invalid text response, try one more round if we haven't hit max
                      if (round < maxRounds - 1) {
@@ -329,6 +404,9 @@ export class GoogleGeminiChatDriver extends ChatDriver {
          // Max rounds reached, return error
          throw new InvalidOperationError('Maximum function call rounds reached without final response.');
       } catch (error) {
+         if (signal?.aborted) {
+            throw toCancelledError(signal);
+         }
          if (error instanceof Error) {
             throw new ConnectionError(`Google Gemini API error: ${error.message}`);
          }
@@ -336,19 +414,39 @@ export class GoogleGeminiChatDriver extends ChatDriver {
       }
    }
 
-   getStreamedModelResponse(
+   getStreamedModelResponseEvents(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): AsyncIterator<string> {
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
-      const geminiMessages = this.convertMessagesToGeminiFormat(messages);
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<ChatStreamEvent> {
       const self = this;
 
       return (async function* () {
+         let signal: AbortSignal | undefined;
          try {
+            signal = createRequestSignal(options);
+            const startTime = Date.now();
+            const toolInvocations: IToolInvocation[] = [];
+            let usage: IChatUsage | undefined;
+            let finishReason = EChatFinishReason.kStop;
+            let text = '';
+            const delta = (word: string): ChatStreamEvent => {
+               text += word;
+               return { type: EChatStreamEventType.kTextDelta, text: word };
+            };
+            // The last chunk of a stream carries the usage and finish reason of its request
+            let lastChunk: any;
+            const endRequest = () => {
+               usage = addChatUsage(usage, readGeminiUsage(lastChunk));
+               finishReason = readGeminiFinishReason(lastChunk);
+            };
+
+            const messages = await self.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
+            const geminiMessages = self.convertMessagesToGeminiFormat(messages);
+
             const model = self.genAI.getGenerativeModel({
                model: self.modelName,
                systemInstruction: systemPrompt,
@@ -365,7 +463,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
             const lastMessageText = 'text' in lastMessagePart ? lastMessagePart.text : '';
             
             try {
-               const result = await retryWithExponentialBackoff(() => chat.sendMessageStream(lastMessageText), MAX_RETRIES, "Google Gemini") as any;
+               const result = await self.retry(() => chat.sendMessageStream(lastMessageText, { signal }), signal) as any;
 
                // Handle function calls during streaming
                let hasFunctionCalls = false;
@@ -373,6 +471,8 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                let fullText = '';
 
                for await (const chunk of result.stream as any) {
+                  throwIfCancelled(signal);
+                  lastChunk = chunk;
                   try {
                      const chunkText = (chunk as any).text();
                      if (chunkText) {
@@ -382,7 +482,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                         const words = chunkText.split(/(\s+)/);
                         for (const word of words) {
                            if (word.trim().length > 0 || word.match(/\s+/)) {
-                              yield word;
+                              yield delta(word);
                            }
                         }
                      }
@@ -416,6 +516,8 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                   }
                }
 
+               endRequest();
+
                // After stream completes, check the final response for function calls
                // This ensures we capture all function calls even if they weren't in chunks
                try {
@@ -448,9 +550,16 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                   let currentFunctionCalls = functionCalls;
                   
                   // Loop to handle multiple rounds of function calls
-                  while (functionCallRound < 10) {
+                  while (functionCallRound < self.maxToolRounds) {
                      const ifunctionCalls = self.convertGeminiFunctionCallsToIFunctionCall(currentFunctionCalls);
-                     const functionResults = await self.executeFunctionCalls(ifunctionCalls, functions);
+                     for (const call of ifunctionCalls) {
+                        yield { type: EChatStreamEventType.kToolCallStarted, callId: call.id, name: call.name, arguments: call.arguments };
+                     }
+                     const finishedBefore = toolInvocations.length;
+                     const functionResults = await self.executeFunctionCalls(ifunctionCalls, functions, toolInvocations, signal);
+                     for (const invocation of toolInvocations.slice(finishedBefore)) {
+                        yield { type: EChatStreamEventType.kToolCallFinished, invocation };
+                     }
 
                      // Update messages for next iteration
                      geminiMessages.push({
@@ -476,13 +585,15 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                      });
 
                      // Get follow-up response
-                     const followUpResult = await retryWithExponentialBackoff(() => currentChat.sendMessageStream(''), MAX_RETRIES, "Google Gemini") as any;
+                     const followUpResult = await self.retry(() => currentChat.sendMessageStream('', { signal }), signal) as any;
 
                      let followUpHasFunctionCalls = false;
                      let followUpFunctionCalls: any[] = [];
                      let followUpText = '';
 
                      for await (const chunk of followUpResult.stream as any) {
+                        throwIfCancelled(signal);
+                        lastChunk = chunk;
                         try {
                            const chunkText = (chunk as any).text();
                            if (chunkText) {
@@ -491,7 +602,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                               const words = chunkText.split(/(\s+)/);
                               for (const word of words) {
                                  if (word.trim().length > 0 || word.match(/\s+/)) {
-                                    yield word;
+                                    yield delta(word);
                                  }
                               }
                            }
@@ -521,6 +632,8 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                         }
                      }
 
+                     endRequest();
+
                      // After follow-up stream completes, check the final response for function calls
                      try {
                         const finalFollowUpResponse = followUpResult.response;
@@ -547,13 +660,16 @@ export class GoogleGeminiChatDriver extends ChatDriver {
 
                      // If no more function calls, we're done (all text has been yielded)
                      if (!followUpHasFunctionCalls) {
-                        return;
+                        break;
                      }
 
                      // Otherwise, continue with next round of function calls
                      currentFunctionCalls = followUpFunctionCalls;
                      functionCallRound++;
                   }
+                  if (functionCallRound >= self.maxToolRounds) {
+                     finishReason = EChatFinishReason.kMaxToolRounds;
+                  }
                }
             } catch (streamError) {
                // If streaming fails, try non-streaming as fallback
@@ -561,32 +677,45 @@ export class GoogleGeminiChatDriver extends ChatDriver {
                const lastMessageText = lastMessagePart && 'text' in lastMessagePart
                   ? lastMessagePart.text 
                   : '';
-               const fallbackResult = await retryWithExponentialBackoff(() => chat.sendMessage(lastMessageText), MAX_RETRIES, "Google Gemini") as any;
+               const fallbackResult = await self.retry(() => chat.sendMessage(lastMessageText, { signal }), signal) as any;
+               lastChunk = fallbackResult.response;
+               endRequest();
                const fallbackText = fallbackResult.response.text();
                if (fallbackText) {
                   // Simulate streaming by yielding in chunks
                   const words = fallbackText.split(' ');
                   for (const word of words) {
-                     yield word + (words.indexOf(word) < words.length - 1 ? ' ' : '');
+                     yield delta(word + (words.indexOf(word) < words.length - 1 ? ' ' : ''));
                      await new Promise(resolve => setTimeout(resolve, 10));
                   }
                } else {
-                  yield '\n\nSorry, it looks like the response was interrupted. Please try again.';
+                  throw new InvalidOperationError('Received empty text response from model.');
                }
             }
+
+            if (usage) {
+               yield { type: EChatStreamEventType.kUsage, usage };
+            }
+            yield {
+               type: EChatStreamEventType.kDone,
+               response: { text, model: self.modelName, finishReason, usage, toolInvocations, latencyMs: Date.now() - startTime }
+            };
          } catch (error) {
-            yield '\n\nSorry, it looks like the response was interrupted. Please try again.';
+            const streamError = signal?.aborted ? toCancelledError(signal)
+               : error instanceof Error ? error : new ConnectionError('Unknown error occurred while calling Google Gemini API');
+            yield { type: EChatStreamEventType.kError, error: streamError };
          }
       })();
    }
 
-   async getModelResponseWithForcedTools(
+   async getModelResponseWithForcedToolsDetailed(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): Promise<string> {
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<IChatResponse> {
       if (!functions || functions.length === 0) {
          throw new InvalidOperationError('Functions are required for forced tool usage');
       }
@@ -597,16 +726,17 @@ export class GoogleGeminiChatDriver extends ChatDriver {
          ? `${systemPrompt}\n\nYou MUST use one of the available functions to answer the user's question. When you receive function results, incorporate ALL relevant details from those results into your response, including any identifiers, names, or key information that was part of the original request or function parameters. CRITICAL: If a function result includes a "sign" field (such as an astrological sign), you MUST explicitly mention that sign name in your response. For example, if the function result contains sign: "Aquarius", your response must include the word "Aquarius". Provide a complete, detailed response that fully explains the information from the function results.`
          : 'You MUST use one of the available functions to answer the user\'s question. When you receive function results, incorporate ALL relevant details from those results into your response, including any identifiers, names, or key information that was part of the original request or function parameters. CRITICAL: If a function result includes a "sign" field (such as an astrological sign), you MUST explicitly mention that sign name in your response. For example, if the function result contains sign: "Aquarius", your response must include the word "Aquarius". Provide a complete, detailed response that fully explains the information from the function results.';
 
-      return this.getModelResponse(enhancedSystemPrompt, userPrompt, verbosity, messageHistory, functions);
+      return this.getModelResponseDetailed(enhancedSystemPrompt, userPrompt, verbosity, messageHistory, functions, options);
    }
 
-   getStreamedModelResponseWithForcedTools(
+   getStreamedModelResponseWithForcedToolsEvents(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): AsyncIterator<string> {
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<ChatStreamEvent> {
       if (!functions || functions.length === 0) {
          throw new InvalidOperationError('Functions are required for forced tool usage');
       }
@@ -616,7 +746,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
          ? `${systemPrompt}\n\nYou MUST use one of the available functions to answer the user's question. When you receive function results, incorporate ALL relevant details from those results into your response, including any identifiers, names, or key information that was part of the original request or function parameters. CRITICAL: If a function result includes a "sign" field (such as an astrological sign), you MUST explicitly mention that sign name in your response. For example, if the function result contains sign: "Aquarius", your response must include the word "Aquarius". Provide a complete, detailed response that fully explains the information from the function results.`
          : 'You MUST use one of the available functions to answer the user\'s question. When you receive function results, incorporate ALL relevant details from those results into your response, including any identifiers, names, or key information that was part of the original request or function parameters. CRITICAL: If a function result includes a "sign" field (such as an astrological sign), you MUST explicitly mention that sign name in your response. For example, if the function result contains sign: "Aquarius", your response must include the word "Aquarius". Provide a complete, detailed response that fully explains the information from the function results.';
 
-      return this.getStreamedModelResponse(enhancedSystemPrompt, userPrompt, verbosity, messageHistory, functions);
+      return this.getStreamedModelResponseEvents(enhancedSystemPrompt, userPrompt, verbosity, messageHistory, functions, options);
    }
 
    async getConstrainedModelResponse<T>(
@@ -626,9 +756,11 @@ export class GoogleGeminiChatDriver extends ChatDriver {
       jsonSchema: Record<string, unknown>,
       defaultValue: T,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): Promise<T> {
-      const messages = this.buildMessageArray(messageHistory, userPrompt);
+      const signal = createRequestSignal(options);
+      const messages = await this.buildMessageArray(messageHistory, userPrompt, systemPrompt, functions);
       const geminiMessages = this.convertMessagesToGeminiFormat(messages);
       
       // Remove additionalProperties from schema as Gemini doesn't support it
@@ -654,7 +786,7 @@ export class GoogleGeminiChatDriver extends ChatDriver {
          const lastMessage = geminiMessages[geminiMessages.length - 1];
          const lastMessagePart = lastMessage.parts[0];
          const messageText = 'text' in lastMessagePart ? lastMessagePart.text : '';
-         const result = await retryWithExponentialBackoff(() => chat.sendMessage(messageText), MAX_RETRIES, "Google Gemini") as any;
+         const result = await this.retry(() => chat.sendMessage(messageText, { signal }), signal) as any;
          const responseText = result.response.text();
 
          try {
@@ -666,6 +798,10 @@ export class GoogleGeminiChatDriver extends ChatDriver {
             return defaultValue;
          }
       } catch (error) {
+         // A cancelled call fails rather than returning the default, so the caller knows it was stopped
+         if (signal?.aborted) {
+            throw toCancelledError(signal);
+         }
          console.warn('Error in constrained response, returning default value:', error);
          return defaultValue;
       }
@@ -8,8 +8,29 @@
 
 import OpenAI from 'openai';
 import { EChatRole, InvalidStateError } from './entry';
-import { EModel, IChatMessage, IFunction } from './entry';
+import { EModel, IChatMessage, IFunction, IModelContextWindow } from './entry';
 import { GenericOpenAIChatDriver } from './Chat.GenericOpenAI';
+import { IRetryPolicy } from './RetryPolicy';
+
+export const OPENAI_MODELS = {
+   LARGE: "gpt-5.2",
+   MINI: "gpt-5-mini" // no gpt-5.2-mini exists
+} as const;
+
+/**
+ * Context window and output limits of the OpenAI models, by model name
+ */
+export const OPENAI_CONTEXT_WINDOWS: { [model: string]: IModelContextWindow } = {
+   [OPENAI_MODELS.LARGE]: { contextTokens: 400000, maxOutputTokens: 128000 },
+   [OPENAI_MODELS.MINI]: { contextTokens: 400000, maxOutputTokens: 128000 }
+};
+
+/**
+ * Returns the OpenAI model used for a model size
+ */
+export function getOpenAIModelName(modelType: EModel): string {
+   return modelType === EModel.kLarge ? OPENAI_MODELS.LARGE : OPENAI_MODELS.MINI;
+}
 
 /**
  * Concrete implementation of GenericOpenAIChatDriver for OpenAI model.
@@ -36,9 +57,9 @@ export class OpenAIChatDriver extends GenericOpenAIChatDriver {
    private model: string;
    protected declare openai: OpenAI;
 
-   constructor(modelType: EModel) {
-      super(modelType);
-      this.model = modelType === EModel.kLarge ? 'gpt-5.2' : 'gpt-5-mini';
+   constructor(modelType: EModel, retryPolicy?: IRetryPolicy) {
+      super(modelType, retryPolicy);
+      this.model = getOpenAIModelName(modelType);
 
       if (!process.env.OPENAI_API_KEY) {
          throw new InvalidStateError('OPENAI_API_KEY environment variable is not set');
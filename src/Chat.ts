@@ -7,8 +7,13 @@
  */
 // Copyright (c) 2025, 2026 Jon Verrier
 
-import { EChatRole, EVerbosity } from './entry';
-import { IChatDriver, EModel, IChatMessage, IFunction } from './entry';
+import { EChatRole, EVerbosity, InvalidParameterError } from './entry';
+import { IChatDriver, EModel, IChatMessage, IFunction, IHistoryStrategy, IChatResponse, ChatStreamEvent } from './entry';
+import { streamChatText } from './ChatStream';
+import { IRequestOptions } from './Cancellation';
+import { IRetryPolicy } from './RetryPolicy';
+import { retryWithPolicy } from './DriverHelpers';
+import { IToolOutputValidation } from './ToolExecution';
 
 /**
  * Abstract base class for all chat drivers.
@@ -46,8 +51,45 @@ import { IChatDriver, EModel, IChatMessage, IFunction } from './entry';
 // - IFunction represents callable tools available to the model.
 // ===End StrongAI Generated Comment===
 
+// The most requests one call makes while the model keeps calling functions, unless setMaxToolRounds changes it
+const DEFAULT_MAX_TOOL_ROUNDS = 10;
+
+// The most function calls from one response that run at once, unless setMaxToolConcurrency changes it
+const DEFAULT_MAX_TOOL_CONCURRENCY = 4;
+
 export abstract class ChatDriver implements IChatDriver {
-   constructor(protected modelType: EModel) {}
+   private historyStrategy: IHistoryStrategy | undefined;
+   protected maxToolRounds = DEFAULT_MAX_TOOL_ROUNDS;
+   protected maxToolConcurrency = DEFAULT_MAX_TOOL_CONCURRENCY;
+   protected toolOutputValidation: IToolOutputValidation = {};
+
+   /**
+    * @param modelType The model to use
+    * @param retryPolicy How requests are retried; without one, DefaultRetryPolicy is used
+    */
+   constructor(protected modelType: EModel, protected readonly retryPolicy?: IRetryPolicy) {}
+
+   setHistoryStrategy(strategy: IHistoryStrategy | undefined): void {
+      this.historyStrategy = strategy;
+   }
+
+   setMaxToolRounds(maxRounds: number): void {
+      if (!Number.isInteger(maxRounds) || maxRounds < 1) {
+         throw new InvalidParameterError(`maxRounds must be a positive integer, got ${maxRounds}`);
+      }
+      this.maxToolRounds = maxRounds;
+   }
+
+   setMaxToolConcurrency(maxConcurrency: number): void {
+      if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+         throw new InvalidParameterError(`maxConcurrency must be a positive integer, got ${maxConcurrency}`);
+      }
+      this.maxToolConcurrency = maxConcurrency;
+   }
+
+   setToolOutputValidation(validation: IToolOutputValidation): void {
+      this.toolOutputValidation = { ...validation };
+   }
 
    /**
     * Returns the provider name for error messages
@@ -55,6 +97,16 @@ export abstract class ChatDriver implements IChatDriver {
     */
    protected abstract getProviderName(): string;
 
+   /**
+    * Sends one request to the provider, retrying failures as the driver's retry policy says
+    * @param operation Sends the request
+    * @param signal Optional signal that cancels the call
+    * @returns The result of the request
+    */
+   protected retry<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      return retryWithPolicy(operation, this.retryPolicy, this.getProviderName(), signal);
+   }
+
    /**
     * Returns the model name/identifier used by this driver
     * Subclasses must override to return their specific model name
@@ -75,47 +127,114 @@ export abstract class ChatDriver implements IChatDriver {
    }
 
    /**
-    * Builds the complete message array including history and new user message
+    * Builds the complete message array including history and new user message.
+    * The history is first shortened by the history strategy, if one is set.
     */
-   protected buildMessageArray(messageHistory: IChatMessage[] | undefined, userPrompt: string): IChatMessage[] {
+   protected async buildMessageArray(messageHistory: IChatMessage[] | undefined,
+      userPrompt: string,
+      systemPrompt?: string,
+      functions?: IFunction[]): Promise<IChatMessage[]> {
+      const history = this.historyStrategy && messageHistory && messageHistory.length > 0
+         ? await this.historyStrategy.apply(messageHistory, { systemPrompt, userPrompt, functions })
+         : messageHistory;
       return [
-         ...(messageHistory || []),
+         ...(history || []),
          this.createUserMessage(userPrompt)
       ];
    }
 
+   /**
+    * Returns the text of getModelResponseDetailed
+    */
+   async getModelResponse(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<string> {
+      return (await this.getModelResponseDetailed(systemPrompt, userPrompt, verbosity, messageHistory, functions, options)).text;
+   }
+
+   /**
+    * Returns the text of getModelResponseWithForcedToolsDetailed
+    */
+   async getModelResponseWithForcedTools(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<string> {
+      return (await this.getModelResponseWithForcedToolsDetailed(systemPrompt, userPrompt, verbosity, messageHistory, functions, options)).text;
+   }
+
+   /**
+    * Returns the text of getStreamedModelResponseEvents
+    */
+   getStreamedModelResponse(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<string> {
+      return streamChatText(this.getStreamedModelResponseEvents(systemPrompt, userPrompt, verbosity, messageHistory, functions, options));
+   }
+
+   /**
+    * Returns the text of getStreamedModelResponseWithForcedToolsEvents
+    */
+   getStreamedModelResponseWithForcedTools(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<string> {
+      return streamChatText(this.getStreamedModelResponseWithForcedToolsEvents(systemPrompt, userPrompt, verbosity, messageHistory, functions, options));
+   }
+
    // Abstract methods that must be implemented by provider-specific subclasses
-   abstract getModelResponse(
+   abstract getModelResponseDetailed(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): Promise<string>;
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<IChatResponse>;
 
-   abstract getStreamedModelResponse(
+   abstract getStreamedModelResponseEvents(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): AsyncIterator<string>;
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<ChatStreamEvent>;
 
-   abstract getModelResponseWithForcedTools(
+   abstract getModelResponseWithForcedToolsDetailed(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): Promise<string>;
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<IChatResponse>;
 
-   abstract getStreamedModelResponseWithForcedTools(
+   abstract getStreamedModelResponseWithForcedToolsEvents(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
-   ): AsyncIterator<string>;
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<ChatStreamEvent>;
 
    abstract getConstrainedModelResponse<T>(
       systemPrompt: string | undefined,
@@ -124,6 +243,7 @@ export abstract class ChatDriver implements IChatDriver {
       jsonSchema: Record<string, unknown>,
       defaultValue: T,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): Promise<T>;
 }
\ No newline at end of file
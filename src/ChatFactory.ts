@@ -9,6 +9,7 @@ import { IChatDriver, IChatDriverFactory, EModelProvider, EModel } from './entry
 import { OpenAIChatDriver } from './Chat.OpenAI';
 import { AzureOpenAIChatDriver } from './Chat.AzureOpenAI';
 import { GoogleGeminiChatDriver } from './Chat.GoogleGemini';
+import { IRetryPolicy } from './RetryPolicy';
 
 /**
  * Factory class for creating chat drivers
@@ -25,25 +26,25 @@ import { GoogleGeminiChatDriver } from './Chat.GoogleGemini';
 // ===End StrongAI Generated Comment===
 
 export class ChatDriverFactory implements IChatDriverFactory {
-   create(model: EModel, provider: EModelProvider): IChatDriver {
+   create(model: EModel, provider: EModelProvider, retryPolicy?: IRetryPolicy): IChatDriver {
       // Handle kDefault provider - maps to Gemini in development, OpenAI in production
       if (provider === EModelProvider.kDefault) {
          const isDevelopment = process.env.NODE_ENV === 'development';
          if (isDevelopment) {
-            return new GoogleGeminiChatDriver(model);
+            return new GoogleGeminiChatDriver(model, retryPolicy);
          } else {
-            return new OpenAIChatDriver(model);
+            return new OpenAIChatDriver(model, retryPolicy);
          }
       }
 
       if (provider === EModelProvider.kAzureOpenAI) {
-         return new AzureOpenAIChatDriver(model);
+         return new AzureOpenAIChatDriver(model, retryPolicy);
       }
       if (provider === EModelProvider.kGoogleGemini) {
          // NOTE: GoogleGeminiChatDriver always uses flash model (gemini-3-flash-preview) regardless of model parameter
          // This is due to rate limit constraints - pro model only allows 250 requests/day
-         return new GoogleGeminiChatDriver(model);
+         return new GoogleGeminiChatDriver(model, retryPolicy);
       }
-      return new OpenAIChatDriver(model);
+      return new OpenAIChatDriver(model, retryPolicy);
    }
 } 
\ No newline at end of file
@@ -0,0 +1,243 @@
+/**
+ * @module ChatHistory
+ *
+ * Strategies that shorten the message history before it is sent to a model, so that long
+ * conversations stay within the context window. A strategy is opt-in per driver via
+ * IChatDriver.setHistoryStrategy; without one the whole history is sent. Every strategy treats an
+ * assistant message that calls functions and the outputs of those calls as one turn, so a call is
+ * never sent without its result or a result without its call.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { ChatMessageClassName, EChatRole, EVerbosity, IChatDriver, IChatMessage, InvalidParameterError } from "./entry";
+import { IFunction } from "./Function";
+import { IModelContextWindow, ITokenizer, calculateTokenBudget, countMessageTokens } from "./TokenBudget";
+
+/**
+ * The request the history is being shortened for
+ *
+ * @interface IHistoryRequest
+ * @property {string} [systemPrompt] - The system prompt
+ * @property {string} userPrompt - The new user prompt, which is always sent
+ * @property {IFunction[]} [functions] - Functions available to the model
+ */
+export interface IHistoryRequest {
+   systemPrompt?: string | undefined;
+   userPrompt: string;
+   functions?: IFunction[] | undefined;
+}
+
+/**
+ * Shortens the message history before each call to a model
+ *
+ * @interface IHistoryStrategy
+ * @property {string} name - Describes the strategy
+ * @property {Function} apply - Returns the history to send, which must not split a function call from its outputs
+ */
+export interface IHistoryStrategy {
+   readonly name: string;
+   apply(messageHistory: IChatMessage[], request: IHistoryRequest): Promise<IChatMessage[]>;
+}
+
+function isFunctionCall(message: IChatMessage): boolean {
+   return message.role === EChatRole.kAssistant && (message.function_call !== undefined || (message.tool_calls?.length ?? 0) > 0);
+}
+
+function isFunctionOutput(message: IChatMessage): boolean {
+   return message.role === EChatRole.kTool || message.role === EChatRole.kFunction || message.type === "function_call_output";
+}
+
+function functionCallIds(message: IChatMessage): string[] {
+   const calls = message.tool_calls ?? (message.function_call ? [message.function_call] : []);
+   return calls.map(call => call.id).filter((id): id is string => id !== undefined);
+}
+
+/**
+ * Splits a message history into turns that must be kept or dropped together. A message that calls
+ * functions forms one turn with the outputs of its calls, matched by call id, and with any messages
+ * between them; every other message is a turn of its own. An output without a call id joins the turn
+ * before it if that turn calls functions.
+ * @param messageHistory The messages, oldest first
+ * @returns The turns, oldest first
+ */
+export function groupHistoryTurns(messageHistory: IChatMessage[]): IChatMessage[][] {
+   const turns: IChatMessage[][] = [];
+   for (const message of messageHistory) {
+      if (isFunctionOutput(message)) {
+         const callId = message.call_id ?? message.tool_call_id;
+         let callTurn = -1;
+         for (let index = turns.length - 1; callId !== undefined && index >= 0 && callTurn < 0; index--) {
+            if (turns[index].some(turnMessage => functionCallIds(turnMessage).includes(callId))) {
+               callTurn = index;
+            }
+         }
+         if (callTurn >= 0) {
+            // Outputs can arrive after other calls, so the call, its output and everything between them stay together
+            turns.splice(callTurn, turns.length - callTurn, [...turns.slice(callTurn).flat(), message]);
+            continue;
+         }
+         const previous = turns[turns.length - 1];
+         if (callId === undefined && previous !== undefined && previous.some(isFunctionCall)) {
+            previous.push(message);
+            continue;
+         }
+      }
+      turns.push([message]);
+   }
+   // Outputs whose call has already been dropped would be rejected by the provider
+   while (turns.length > 0 && turns[0].every(isFunctionOutput)) {
+      turns.shift();
+   }
+   return turns;
+}
+
+/**
+ * Keeps the most recent turns whose messages add up to no more than a limit
+ */
+function keepRecentTurns(turns: IChatMessage[][], limit: number, size: (turn: IChatMessage[]) => number): IChatMessage[][] {
+   let total = 0;
+   let start = turns.length;
+   while (start > 0 && total + size(turns[start - 1]) <= limit) {
+      total += size(turns[start - 1]);
+      start--;
+   }
+   return turns.slice(start);
+}
+
+/**
+ * Sends only the most recent messages. A turn that would be split by the window is dropped whole,
+ * so fewer messages than the window may be sent.
+ */
+export class SlidingWindowHistoryStrategy implements IHistoryStrategy {
+   readonly name = "Sliding window";
+
+   /**
+    * @param maxMessages The most messages of history to send
+    * @throws {InvalidParameterError} If maxMessages is negative or not a whole number
+    */
+   constructor(private readonly maxMessages: number) {
+      if (!Number.isInteger(maxMessages) || maxMessages < 0) {
+         throw new InvalidParameterError(`maxMessages must be a whole number of at least 0, got ${maxMessages}`);
+      }
+   }
+
+   async apply(messageHistory: IChatMessage[]): Promise<IChatMessage[]> {
+      return keepRecentTurns(groupHistoryTurns(messageHistory), this.maxMessages, turn => turn.length).flat();
+   }
+}
+
+/**
+ * Sends the most recent turns that fit the context window once the system prompt, user prompt,
+ * function definitions and the tokens reserved for the response are allowed for.
+ */
+export class TokenBudgetHistoryStrategy implements IHistoryStrategy {
+   readonly name = "Token budget";
+
+   /**
+    * @param limits The model's token limits, see getModelContextWindow
+    * @param tokenizer The tokenizer, see getTokenizer
+    * @param reservedOutputTokens Tokens to keep free for the response
+    */
+   constructor(private readonly limits: IModelContextWindow,
+      private readonly tokenizer: ITokenizer,
+      private readonly reservedOutputTokens: number = 0) {}
+
+   async apply(messageHistory: IChatMessage[], request: IHistoryRequest): Promise<IChatMessage[]> {
+      const budget = calculateTokenBudget({ ...request, reservedOutputTokens: this.reservedOutputTokens }, this.limits, this.tokenizer);
+      const available = budget.remainingTokens - this.reservedOutputTokens;
+      return keepRecentTurns(groupHistoryTurns(messageHistory), available,
+         turn => turn.reduce((total, message) => total + countMessageTokens(message, this.tokenizer), 0)).flat();
+   }
+}
+
+/**
+ * Options for SummarisingHistoryStrategy
+ *
+ * @interface ISummarisingHistoryOptions
+ * @property {IChatDriver} summariser - The driver that writes summaries, usually a kMini model
+ * @property {number} maxMessages - Summarise once the history holds more messages than this
+ * @property {number} keepRecentMessages - The most recent messages to send as they are. Must be less than maxMessages.
+ */
+export interface ISummarisingHistoryOptions {
+   summariser: IChatDriver;
+   maxMessages: number;
+   keepRecentMessages: number;
+}
+
+const summarySystemPrompt = "You summarise conversations between a user and an assistant so that the assistant can continue them. " +
+   "Keep names, facts, decisions, open questions and the results of function calls. Leave out pleasantries. " +
+   "Reply with the summary only.";
+
+export const HistorySummaryPrefix = "Summary of the earlier conversation:";
+
+function formatTranscriptMessage(message: IChatMessage): string {
+   const lines: string[] = [];
+   if (message.content) {
+      lines.push(`${message.role}: ${message.content}`);
+   }
+   for (const call of [...(message.function_call ? [message.function_call] : []), ...(message.tool_calls ?? [])]) {
+      lines.push(`${message.role} called ${call.name}(${call.arguments})`);
+   }
+   if (message.output !== undefined) {
+      lines.push(`function output: ${message.output}`);
+   }
+   return lines.join("\n");
+}
+
+/**
+ * Once the history grows past a limit, replaces the older turns with a summary written by another
+ * model, and sends the summary followed by the most recent messages. The summary rolls forward: when
+ * later calls push more turns out of the recent window, the previous summary and those turns are
+ * summarised again, rather than the whole conversation.
+ */
+export class SummarisingHistoryStrategy implements IHistoryStrategy {
+   readonly name = "Rolling summary";
+   private summarised: string[] = [];
+   private summary: string | undefined;
+
+   /**
+    * @param options The summariser and message limits
+    * @throws {InvalidParameterError} If keepRecentMessages is not less than maxMessages
+    */
+   constructor(private readonly options: ISummarisingHistoryOptions) {
+      if (!Number.isInteger(options.keepRecentMessages) || options.keepRecentMessages < 0 || options.keepRecentMessages >= options.maxMessages) {
+         throw new InvalidParameterError(`keepRecentMessages must be a whole number from 0 to maxMessages - 1, got ${options.keepRecentMessages}`);
+      }
+   }
+
+   async apply(messageHistory: IChatMessage[]): Promise<IChatMessage[]> {
+      if (messageHistory.length <= this.options.maxMessages) {
+         return messageHistory;
+      }
+      const turns = groupHistoryTurns(messageHistory);
+      const recent = keepRecentTurns(turns, this.options.keepRecentMessages, turn => turn.length);
+      const older = turns.slice(0, turns.length - recent.length).flat();
+      const fingerprints = older.map(message => JSON.stringify(message));
+
+      // Reuse the previous summary if the messages it covers are still the start of the history
+      const reuse = this.summary !== undefined && this.summarised.length <= fingerprints.length &&
+         this.summarised.every((fingerprint, index) => fingerprint === fingerprints[index]);
+      const unsummarised = older.slice(reuse ? this.summarised.length : 0);
+      if (!reuse || unsummarised.length > 0) {
+         this.summary = await this.summarise(reuse ? this.summary : undefined, unsummarised);
+         this.summarised = fingerprints;
+      }
+
+      const summaryMessage: IChatMessage = {
+         id: "history-summary",
+         className: ChatMessageClassName,
+         role: EChatRole.kUser,
+         content: `${HistorySummaryPrefix}\n${this.summary}`,
+         timestamp: older.length > 0 ? older[older.length - 1].timestamp : new Date()
+      };
+      return [summaryMessage, ...recent.flat()];
+   }
+
+   private async summarise(previousSummary: string | undefined, messages: IChatMessage[]): Promise<string> {
+      const transcript = messages.map(formatTranscriptMessage).filter(text => text.length > 0).join("\n");
+      const userPrompt = previousSummary === undefined
+         ? `Summarise this conversation:\n${transcript}`
+         : `Here is a summary of a conversation so far:\n${previousSummary}\n\nUpdate the summary to include these later messages:\n${transcript}`;
+      return this.options.summariser.getModelResponse(summarySystemPrompt, userPrompt, EVerbosity.kLow);
+   }
+}
@@ -0,0 +1,441 @@
+/**
+ * @module ChatSession
+ *
+ * A conversation with a chat driver that keeps its own transcript. Each call sends the transcript
+ * as the message history, then appends the user message, any function calls the model made and
+ * their outputs, and the assistant's reply. A session can be written to JSON and read back, with
+ * message timestamps restored as Dates, and saved to any store that implements IChatSessionStore.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import type * as fs from 'node:fs';
+import type * as pathModule from 'node:path';
+
+import { ChatMessageClassName, ChatStreamEvent, EChatRole, EChatStreamEventType, EVerbosity, IChatDriver, IChatMessage, IFunction,
+   IToolInvocation, InvalidOperationError, IRequestOptions, InvalidParameterError, InvalidStateError } from "./entry";
+
+let fsImpl: typeof fs | undefined;
+let pathImpl: typeof pathModule | undefined;
+try {
+   // Only import fs in Node.js environment
+   if (typeof process !== 'undefined' && process.versions?.node) {
+      fsImpl = require('node:fs');
+      pathImpl = require('node:path');
+   }
+} catch (error) {
+   // In browser environments, fs will remain undefined
+}
+
+/**
+ * The saved form of a session
+ *
+ * @interface IChatSessionState
+ * @property {string} id - Identifies the session in a store
+ * @property {string} [systemPrompt] - The system prompt sent with each call
+ * @property {IChatMessage[]} messages - The transcript, oldest first
+ */
+export interface IChatSessionState {
+   id: string;
+   systemPrompt?: string | undefined;
+   messages: IChatMessage[];
+}
+
+/**
+ * Saves and loads sessions. Adapters for databases or key-value services need only implement these three methods.
+ */
+export interface IChatSessionStore {
+   load(id: string): Promise<IChatSessionState | undefined>;
+   save(state: IChatSessionState): Promise<void>;
+   delete(id: string): Promise<void>;
+}
+
+/**
+ * Options for ChatSession
+ *
+ * @interface IChatSessionOptions
+ * @property {string} [id] - Identifies the session in a store. Defaults to a new unique id.
+ * @property {string} [systemPrompt] - The system prompt sent with each call
+ * @property {EVerbosity} [verbosity] - The verbosity of each call. Defaults to kMedium.
+ * @property {IFunction[]} [functions] - Functions available on every call, in addition to any passed to a call
+ * @property {IChatMessage[]} [messages] - A transcript to continue from
+ * @property {IChatSessionStore} [store] - Where save() writes the session
+ * @property {boolean} [autoSave] - Set true to save after every call. Requires a store.
+ */
+export interface IChatSessionOptions {
+   id?: string | undefined;
+   systemPrompt?: string | undefined;
+   verbosity?: EVerbosity | undefined;
+   functions?: IFunction[] | undefined;
+   messages?: IChatMessage[] | undefined;
+   store?: IChatSessionStore | undefined;
+   autoSave?: boolean | undefined;
+}
+
+const chatRoles = Object.values(EChatRole) as string[];
+
+function parseMessage(value: unknown, index: number): IChatMessage {
+   if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new InvalidParameterError(`Message ${index} of the session is not an object`);
+   }
+   const message = value as { [key: string]: unknown };
+   if (typeof message.role !== "string" || !chatRoles.includes(message.role)) {
+      throw new InvalidParameterError(`Message ${index} of the session has an invalid role "${String(message.role)}"`);
+   }
+   if (message.content !== undefined && message.content !== null && typeof message.content !== "string") {
+      throw new InvalidParameterError(`Message ${index} of the session has content that is not a string`);
+   }
+   const timestamp = new Date(message.timestamp as string | number | Date);
+   if (message.timestamp === undefined || Number.isNaN(timestamp.getTime())) {
+      throw new InvalidParameterError(`Message ${index} of the session has an invalid timestamp "${String(message.timestamp)}"`);
+   }
+   return {
+      ...(message as unknown as IChatMessage),
+      content: message.content === null ? undefined : message.content as string | undefined,
+      timestamp
+   };
+}
+
+/**
+ * Reads a session written by ChatSession.toJSON, restoring message timestamps as Dates
+ * @param json The JSON text, or the object it was parsed to
+ * @returns The session state
+ * @throws {InvalidParameterError} If the JSON is not a session
+ */
+export function parseChatSessionState(json: string | object): IChatSessionState {
+   let value: unknown = json;
+   if (typeof json === "string") {
+      try {
+         value = JSON.parse(json);
+      } catch (error) {
+         throw new InvalidParameterError(`Session is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+   }
+   const state = value as { [key: string]: unknown };
+   if (typeof state !== "object" || state === null || typeof state.id !== "string" || !Array.isArray(state.messages)) {
+      throw new InvalidParameterError("Session must be an object with an id and a messages array");
+   }
+   if (state.systemPrompt !== undefined && typeof state.systemPrompt !== "string") {
+      throw new InvalidParameterError("Session systemPrompt must be a string");
+   }
+   const parsed: IChatSessionState = { id: state.id, messages: state.messages.map(parseMessage) };
+   if (state.systemPrompt !== undefined) {
+      parsed.systemPrompt = state.systemPrompt;
+   }
+   return parsed;
+}
+
+let sessionCount = 0;
+
+function createSessionId(): string {
+   sessionCount++;
+   return `session-${Date.now()}-${sessionCount}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * A conversation with a chat driver. Calls on one session must be made one at a time.
+ */
+export class ChatSession {
+   readonly id: string;
+   private readonly systemPrompt: string | undefined;
+   private readonly verbosity: EVerbosity;
+   private readonly functions: IFunction[];
+   private readonly store: IChatSessionStore | undefined;
+   private readonly autoSave: boolean;
+   private transcript: IChatMessage[];
+   private busy = false;
+   private callCount = 0;
+
+   /**
+    * @param driver The driver that answers each call
+    * @param options Id, system prompt, verbosity, functions, transcript and store
+    * @throws {InvalidParameterError} If autoSave is set without a store
+    */
+   constructor(private readonly driver: IChatDriver, options: IChatSessionOptions = {}) {
+      if (options.autoSave && !options.store) {
+         throw new InvalidParameterError("autoSave requires a store");
+      }
+      this.id = options.id ?? createSessionId();
+      this.systemPrompt = options.systemPrompt;
+      this.verbosity = options.verbosity ?? EVerbosity.kMedium;
+      this.functions = options.functions ?? [];
+      this.store = options.store;
+      this.autoSave = options.autoSave ?? false;
+      this.transcript = [...(options.messages ?? [])];
+   }
+
+   /**
+    * Creates a session from the JSON written by toJSON
+    * @param driver The driver that answers each call
+    * @param json The JSON text, or the object it was parsed to
+    * @param options Options other than the id, system prompt and transcript, which come from the JSON
+    * @throws {InvalidParameterError} If the JSON is not a session
+    */
+   static fromJSON(driver: IChatDriver, json: string | object, options: IChatSessionOptions = {}): ChatSession {
+      const state = parseChatSessionState(json);
+      return new ChatSession(driver, { ...options, id: state.id, systemPrompt: state.systemPrompt, messages: state.messages });
+   }
+
+   /**
+    * Loads a session from a store
+    * @param driver The driver that answers each call
+    * @param store The store, which is also used by save()
+    * @param id The session id
+    * @param options Options other than the id, system prompt, transcript and store
+    * @returns The session, or undefined if the store does not hold it
+    */
+   static async load(driver: IChatDriver, store: IChatSessionStore, id: string, options: IChatSessionOptions = {}): Promise<ChatSession | undefined> {
+      const state = await store.load(id);
+      if (state === undefined) {
+         return undefined;
+      }
+      return new ChatSession(driver, { ...options, id, systemPrompt: state.systemPrompt, messages: state.messages, store });
+   }
+
+   /**
+    * The transcript, oldest first
+    */
+   get messages(): readonly IChatMessage[] {
+      return [...this.transcript];
+   }
+
+   /**
+    * Sends a user prompt and records the reply
+    * @param userPrompt The user prompt
+    * @param functions Functions available for this call only
+    * @param options Optional signal and timeout that cancel the call; nothing is recorded if it is cancelled
+    * @returns The reply
+    * @throws {InvalidOperationError} If another call on this session has not finished
+    */
+   async send(userPrompt: string, functions: IFunction[] = [], options?: IRequestOptions): Promise<string> {
+      return this.runTurn(userPrompt, functions, async (history, tools) => {
+         const response = await this.driver.getModelResponseDetailed(this.systemPrompt, userPrompt, this.verbosity, history, tools, options);
+         return { reply: response.text, content: response.text, toolInvocations: response.toolInvocations };
+      });
+   }
+
+   /**
+    * Sends a user prompt, requiring the model to call at least one function, and records the reply
+    * @param userPrompt The user prompt
+    * @param functions Functions available for this call only
+    * @param options Optional signal and timeout that cancel the call; nothing is recorded if it is cancelled
+    * @returns The reply
+    * @throws {InvalidOperationError} If another call on this session has not finished
+    */
+   async sendWithForcedTools(userPrompt: string, functions: IFunction[] = [], options?: IRequestOptions): Promise<string> {
+      return this.runTurn(userPrompt, functions, async (history, tools) => {
+         const response = await this.driver.getModelResponseWithForcedToolsDetailed(this.systemPrompt, userPrompt, this.verbosity, history, tools, options);
+         return { reply: response.text, content: response.text, toolInvocations: response.toolInvocations };
+      });
+   }
+
+   /**
+    * Sends a user prompt for a reply matching a JSON schema, and records the reply as JSON
+    * @param userPrompt The user prompt
+    * @param jsonSchema The schema the reply must match
+    * @param defaultValue Returned if the reply cannot be parsed
+    * @param functions Functions available for this call only
+    * @param options Optional signal and timeout that cancel the call; nothing is recorded if it is cancelled
+    * @returns The reply
+    * @throws {InvalidOperationError} If another call on this session has not finished
+    */
+   async sendConstrained<T>(userPrompt: string, jsonSchema: Record<string, unknown>, defaultValue: T, functions: IFunction[] = [],
+      options?: IRequestOptions): Promise<T> {
+      return this.runTurn(userPrompt, functions, async (history, tools) => {
+         const reply = await this.driver.getConstrainedModelResponse(this.systemPrompt, userPrompt, this.verbosity, jsonSchema, defaultValue, history, tools, options);
+         return { reply, content: JSON.stringify(reply) };
+      });
+   }
+
+   /**
+    * Sends a user prompt and streams the reply, which is recorded once the stream ends
+    * @param userPrompt The user prompt
+    * @param functions Functions available for this call only
+    * @param options Optional signal and timeout that cancel the call; nothing is recorded if it is cancelled
+    * @returns The reply, in chunks
+    * @throws {InvalidOperationError} If another call on this session has not finished
+    * @throws The error that ended the stream, in which case nothing is recorded
+    */
+   async *stream(userPrompt: string, functions: IFunction[] = [], options?: IRequestOptions): AsyncGenerator<string> {
+      const turn = this.beginTurn(userPrompt);
+      let iterator: AsyncIterator<ChatStreamEvent> | undefined;
+      try {
+         iterator = this.driver.getStreamedModelResponseEvents(this.systemPrompt, userPrompt, this.verbosity,
+            this.messages as IChatMessage[], [...this.functions, ...functions], options);
+         let reply = "";
+         let toolInvocations: IToolInvocation[] = [];
+         while (true) {
+            const next = await iterator.next();
+            if (next.done) {
+               break;
+            }
+            if (next.value.type === EChatStreamEventType.kDone) {
+               toolInvocations = next.value.response.toolInvocations;
+               break;
+            }
+            if (next.value.type === EChatStreamEventType.kError) {
+               throw next.value.error;
+            }
+            if (next.value.type === EChatStreamEventType.kTextDelta) {
+               reply += next.value.text;
+               yield next.value.text;
+            }
+         }
+         await this.endTurn(turn, reply, toolInvocations);
+      } finally {
+         this.busy = false;
+         // Closes the driver's stream, e.g. its HTTP response, if the caller stopped reading early
+         await iterator?.return?.();
+      }
+   }
+
+   /**
+    * Removes every message from the transcript
+    */
+   clear(): void {
+      this.transcript = [];
+   }
+
+   /**
+    * Returns the session in the form written to JSON and to stores
+    */
+   toJSON(): IChatSessionState {
+      const state: IChatSessionState = { id: this.id, messages: this.messages as IChatMessage[] };
+      if (this.systemPrompt !== undefined) {
+         state.systemPrompt = this.systemPrompt;
+      }
+      return state;
+   }
+
+   /**
+    * Writes the session to its store
+    * @throws {InvalidStateError} If the session has no store
+    */
+   async save(): Promise<void> {
+      if (!this.store) {
+         throw new InvalidStateError(`Session ${this.id} has no store to save to`);
+      }
+      await this.store.save(this.toJSON());
+   }
+
+   private async runTurn<T>(userPrompt: string, functions: IFunction[],
+      call: (history: IChatMessage[], functions: IFunction[]) => Promise<{ reply: T, content: string, toolInvocations?: IToolInvocation[] }>): Promise<T> {
+      const turn = this.beginTurn(userPrompt);
+      try {
+         const result = await call(this.messages as IChatMessage[], [...this.functions, ...functions]);
+         await this.endTurn(turn, result.content, result.toolInvocations ?? []);
+         return result.reply;
+      } finally {
+         this.busy = false;
+      }
+   }
+
+   private beginTurn(userPrompt: string): IChatMessage[] {
+      if (this.busy) {
+         throw new InvalidOperationError(`Session ${this.id} is already waiting for a reply`);
+      }
+      this.busy = true;
+      return [this.createMessage("user", EChatRole.kUser, userPrompt)];
+   }
+
+   // The turn is only added to the transcript once the reply arrives, so a failed call leaves the transcript as it was
+   private async endTurn(turn: IChatMessage[], reply: string, toolInvocations: IToolInvocation[]): Promise<void> {
+      this.transcript.push(...turn, ...this.recordInvocations(toolInvocations), this.createMessage("assistant", EChatRole.kAssistant, reply));
+      if (this.autoSave) {
+         await this.save();
+      }
+   }
+
+   private createMessage(prefix: string, role: EChatRole, content: string | undefined): IChatMessage {
+      this.callCount++;
+      return { id: `${this.id}-${prefix}-${this.callCount}`, className: ChatMessageClassName, role, content, timestamp: new Date() };
+   }
+
+   // Records each function call the driver made, in call order, followed by the output the model was sent for it.
+   // That output may be an error, e.g. when the function failed, timed out or returned output not matching its schema.
+   private recordInvocations(toolInvocations: IToolInvocation[]): IChatMessage[] {
+      return toolInvocations.flatMap(invocation => {
+         const call = this.createMessage("call", EChatRole.kAssistant, undefined);
+         call.function_call = { id: call.id!, name: invocation.name, arguments: invocation.arguments };
+
+         const output = this.createMessage("output", EChatRole.kTool, undefined);
+         output.type = "function_call_output";
+         output.name = invocation.name;
+         output.call_id = call.id!;
+         output.tool_call_id = call.id!;
+         output.output = invocation.output;
+         return [call, output];
+      });
+   }
+}
+
+/**
+ * Holds sessions in memory, e.g. for tests or a single process
+ */
+export class InMemoryChatSessionStore implements IChatSessionStore {
+   private readonly sessions = new Map<string, string>();
+
+   async load(id: string): Promise<IChatSessionState | undefined> {
+      const json = this.sessions.get(id);
+      return json === undefined ? undefined : parseChatSessionState(json);
+   }
+
+   async save(state: IChatSessionState): Promise<void> {
+      // Held as JSON so that later changes to the session do not alter what was saved
+      this.sessions.set(state.id, JSON.stringify(state));
+   }
+
+   async delete(id: string): Promise<void> {
+      this.sessions.delete(id);
+   }
+}
+
+// Session ids become file names, so they must not contain path separators or start with a dot
+const fileSessionIdPattern = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/;
+
+/**
+ * Holds each session as a JSON file named after its id. Only available in Node.js.
+ */
+export class FileChatSessionStore implements IChatSessionStore {
+   /**
+    * @param directoryPath The directory holding the session files, which is created on first save
+    */
+   constructor(readonly directoryPath: string) {
+   }
+
+   async load(id: string): Promise<IChatSessionState | undefined> {
+      const filePath = this.filePath(id);
+      let json: string;
+      try {
+         json = await fsImpl!.promises.readFile(filePath, "utf8");
+      } catch (error) {
+         if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+            return undefined;
+         }
+         throw error;
+      }
+      return parseChatSessionState(json);
+   }
+
+   async save(state: IChatSessionState): Promise<void> {
+      const filePath = this.filePath(state.id);
+      await fsImpl!.promises.mkdir(this.directoryPath, { recursive: true });
+      // Write then rename, so a crash mid-write cannot leave a truncated session
+      const tempPath = `${filePath}.tmp`;
+      await fsImpl!.promises.writeFile(tempPath, JSON.stringify(state, null, 2), "utf8");
+      await fsImpl!.promises.rename(tempPath, filePath);
+   }
+
+   async delete(id: string): Promise<void> {
+      await fsImpl!.promises.rm(this.filePath(id), { force: true });
+   }
+
+   private filePath(id: string): string {
+      if (fsImpl === undefined || pathImpl === undefined) {
+         throw new InvalidOperationError("FileChatSessionStore is not supported in the browser");
+      }
+      if (!fileSessionIdPattern.test(id)) {
+         throw new InvalidParameterError(`Session id "${id}" cannot be used as a file name`);
+      }
+      return pathImpl.join(this.directoryPath, `${id}.json`);
+   }
+}
@@ -0,0 +1,50 @@
+/**
+ * @module ChatStream
+ *
+ * Helpers for streamed responses. Drivers stream typed ChatStreamEvents; the plain string
+ * iterators returned by getStreamedModelResponse are derived from them here.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { ChatStreamEvent, EChatStreamEventType, OperationCancelledError } from "./entry";
+
+/**
+ * The text a string stream yields in place of the rest of the response when the response fails
+ */
+export const ChatStreamInterruptedMessage = '\n\nSorry, it looks like the response was interrupted. Please try again.';
+
+/**
+ * Derives a text stream from an event stream. Text deltas are yielded as they arrive; an error
+ * event yields ChatStreamInterruptedMessage, and other events are skipped. The event stream is closed when
+ * the text stream ends, including when the consumer stops reading early.
+ * @param events The events of a response
+ * @returns The text of the response, in chunks
+ * @throws {OperationCancelledError} If the response was cancelled or timed out, so that callers can tell it from a failure
+ */
+export function streamChatText(events: AsyncIterator<ChatStreamEvent>): AsyncIterator<string> {
+   return (async function* () {
+      try {
+         while (true) {
+            const next = await events.next();
+            if (next.done) {
+               return;
+            }
+            const event = next.value;
+            if (event.type === EChatStreamEventType.kTextDelta) {
+               yield event.text;
+            } else if (event.type === EChatStreamEventType.kError) {
+               if (event.error instanceof OperationCancelledError) {
+                  throw event.error;
+               }
+               yield ChatStreamInterruptedMessage;
+               return;
+            } else if (event.type === EChatStreamEventType.kDone) {
+               return;
+            }
+         }
+      } finally {
+         // Releases the source, e.g. the HTTP response of a server-sent event stream
+         await events.return?.();
+      }
+   })();
+}
@@ -15,6 +15,9 @@
 import { AzureOpenAI } from 'openai';
 import { EVerbosity, EModel, InvalidStateError, InvalidParameterError, InvalidOperationError } from './entry';
 import { ChatAttachmentInput, IChatAttachmentContent, IChatAttachmentReference, IChatWithAttachmentDriver, IChatTableJson } from './ChatWithAttachment';
+import { IRequestOptions, createRequestSignal, toCancelledError } from './Cancellation';
+import { retryWithPolicy } from './DriverHelpers';
+import { IRetryPolicy } from './RetryPolicy';
 
 const AZURE_DEPLOYMENTS = {
    LARGE: "gpt-4.1",
@@ -36,9 +39,11 @@ const VERBOSITY_MAP: Record<EVerbosity, 'low' | 'medium' | 'high'> = {
 export class AzureOpenAIChatWithAttachment extends IChatWithAttachmentDriver {
    private readonly openai: AzureOpenAI;
    private readonly model: string;
+   private readonly retryPolicy: IRetryPolicy | undefined;
 
-   constructor(modelType: EModel, options?: { client?: AzureOpenAI }) {
+   constructor(modelType: EModel, options?: { client?: AzureOpenAI; retryPolicy?: IRetryPolicy }) {
       super();
+      this.retryPolicy = options?.retryPolicy;
       this.model = modelType === EModel.kLarge ? AZURE_DEPLOYMENTS.LARGE : AZURE_DEPLOYMENTS.MINI;
 
       if (options?.client) {
@@ -66,14 +71,16 @@ export class AzureOpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       userPrompt: string,
       verbosity: EVerbosity,
       attachment?: ChatAttachmentInput,
-      tableJson?: IChatTableJson
+      tableJson?: IChatTableJson,
+      options?: IRequestOptions
    ): Promise<string> {
+      const signal = createRequestSignal(options);
       let fileId: string | undefined;
       let shouldDeleteAfterUse = false;
 
       if (attachment) {
          if (this.isAttachmentContent(attachment)) {
-            const reference = await this.uploadAttachment(attachment);
+            const reference = await this.uploadAttachment(attachment, { signal });
             fileId = reference.id;
             shouldDeleteAfterUse = attachment.deleteAfterUse ?? true;
          } else {
@@ -84,11 +91,11 @@ export class AzureOpenAIChatWithAttachment extends IChatWithAttachmentDriver {
 
       try {
          const input = this.buildInput(systemPrompt, userPrompt, fileId, tableJson);
-         const response = await this.openai.responses.create({
+         const response = await retryWithPolicy(() => this.openai.responses.create({
             model: this.model,
             input,
             text: { verbosity: VERBOSITY_MAP[verbosity] }
-         });
+         }, { signal }), this.retryPolicy, "Azure OpenAI", signal);
 
          const outputText = this.extractTextFromOutput((response as any).output ?? []);
          if (!outputText) {
@@ -98,6 +105,7 @@ export class AzureOpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       } finally {
          if (shouldDeleteAfterUse && fileId) {
             try {
+               // Not cancelled with the call, so that the file is not left behind
                await this.deleteAttachment(fileId);
             } catch (error) {
                // Swallow deletion errors to avoid masking the primary response.
@@ -119,7 +127,8 @@ export class AzureOpenAIChatWithAttachment extends IChatWithAttachmentDriver {
     * @returns A reference to the uploaded file
     * @throws Error if the file type is not supported or upload fails
     */
-   async uploadAttachment(attachment: IChatAttachmentContent): Promise<IChatAttachmentReference> {
+   async uploadAttachment(attachment: IChatAttachmentContent, options?: IRequestOptions): Promise<IChatAttachmentReference> {
+      const signal = createRequestSignal(options);
       // Validate file extension for Responses API compatibility
       // The Responses API input_file only accepts PDF files
       const fileExtension = attachment.filename.toLowerCase().split('.').pop();
@@ -171,6 +180,8 @@ export class AzureOpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       const response = await this.openai.files.create({
          file: fileData,
          purpose: 'assistants'
+      }, { signal }).catch(error => {
+         throw signal?.aborted ? toCancelledError(signal) : error;
       });
 
       return {
@@ -178,8 +189,11 @@ export class AzureOpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       };
    }
 
-   async deleteAttachment(attachmentId: string): Promise<void> {
-      await this.openai.files.delete(attachmentId);
+   async deleteAttachment(attachmentId: string, options?: IRequestOptions): Promise<void> {
+      const signal = createRequestSignal(options);
+      await this.openai.files.delete(attachmentId, { signal }).catch(error => {
+         throw signal?.aborted ? toCancelledError(signal) : error;
+      });
    }
 
    private isAttachmentContent(attachment: ChatAttachmentInput): attachment is IChatAttachmentContent {
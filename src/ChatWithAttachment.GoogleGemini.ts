@@ -18,7 +18,9 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { EVerbosity, EModel, InvalidStateError, InvalidParameterError, InvalidOperationError, ConnectionError } from './entry';
 import { ChatAttachmentInput, IChatAttachmentContent, IChatAttachmentReference, IChatWithAttachmentDriver, IChatTableJson } from './ChatWithAttachment';
-import { retryWithExponentialBackoff, MAX_RETRIES } from './DriverHelpers';
+import { retryWithPolicy } from './DriverHelpers';
+import { IRetryPolicy } from './RetryPolicy';
+import { IRequestOptions, OperationCancelledError, createRequestSignal } from './Cancellation';
 
 /**
  * Type for Gemini API parts - we only use text and inlineData parts
@@ -49,9 +51,11 @@ const VERBOSITY_CONFIG: Record<EVerbosity, { temperature: number; maxOutputToken
 export class GoogleGeminiChatWithAttachment extends IChatWithAttachmentDriver {
    private readonly genAI: GoogleGenerativeAI;
    private readonly modelName: string;
+   private readonly retryPolicy: IRetryPolicy | undefined;
 
-   constructor(modelType: EModel, options?: { client?: GoogleGenerativeAI }) {
+   constructor(modelType: EModel, options?: { client?: GoogleGenerativeAI; retryPolicy?: IRetryPolicy }) {
       super();
+      this.retryPolicy = options?.retryPolicy;
       // NOTE: Always using flash model (gemini-3-flash-preview) regardless of modelType parameter
       // This is because the pro model (gemini-3-pro-preview) has a very low rate limit (250 requests/day)
       // which causes rate limiting during testing. Flash model has much higher limits.
@@ -73,9 +77,11 @@ export class GoogleGeminiChatWithAttachment extends IChatWithAttachmentDriver {
       userPrompt: string,
       verbosity: EVerbosity,
       attachment?: ChatAttachmentInput,
-      tableJson?: IChatTableJson
+      tableJson?: IChatTableJson,
+      options?: IRequestOptions
    ): Promise<string> {
       try {
+         const signal = createRequestSignal(options);
          // Gemini doesn't support attachment references - only inline attachments
          if (attachment && !this.isAttachmentContent(attachment)) {
             throw new InvalidParameterError(
@@ -90,12 +96,12 @@ export class GoogleGeminiChatWithAttachment extends IChatWithAttachmentDriver {
             generationConfig: VERBOSITY_CONFIG[verbosity]
          });
 
-         const result = await retryWithExponentialBackoff(async () => {
+         const result = await retryWithPolicy(async () => {
             // Gemini generateContent accepts parts array directly or a GenerateContentRequest
             // For simple cases, we pass the parts array directly
-            const response = await model.generateContent(parts);
+            const response = await model.generateContent(parts, { signal });
             return response;
-         }, MAX_RETRIES, "Google Gemini");
+         }, this.retryPolicy, "Google Gemini", signal);
 
          const text = result.response.text();
          if (!text) {
@@ -103,7 +109,7 @@ export class GoogleGeminiChatWithAttachment extends IChatWithAttachmentDriver {
          }
          return text;
       } catch (error) {
-         if (error instanceof InvalidOperationError || error instanceof InvalidParameterError) {
+         if (error instanceof InvalidOperationError || error instanceof InvalidParameterError || error instanceof OperationCancelledError) {
             throw error;
          }
          if (error instanceof Error) {
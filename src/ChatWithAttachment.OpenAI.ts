@@ -17,6 +17,9 @@
 import OpenAI from 'openai';
 import { EVerbosity, InvalidStateError, InvalidParameterError, InvalidOperationError } from './entry';
 import { ChatAttachmentInput, IChatAttachmentContent, IChatAttachmentReference, IChatWithAttachmentDriver, IChatTableJson } from './ChatWithAttachment';
+import { IRequestOptions, createRequestSignal, toCancelledError } from './Cancellation';
+import { retryWithPolicy } from './DriverHelpers';
+import { IRetryPolicy } from './RetryPolicy';
 
 const DEFAULT_MODEL = 'gpt-4.1-mini';
 
@@ -35,10 +38,12 @@ const VERBOSITY_MAP: Record<EVerbosity, 'low' | 'medium' | 'high'> = {
 export class OpenAIChatWithAttachment extends IChatWithAttachmentDriver {
    private readonly openai: OpenAI;
    private readonly model: string;
+   private readonly retryPolicy: IRetryPolicy | undefined;
 
-   constructor(options?: { client?: OpenAI; model?: string }) {
+   constructor(options?: { client?: OpenAI; model?: string; retryPolicy?: IRetryPolicy }) {
       super();
       this.model = options?.model ?? DEFAULT_MODEL;
+      this.retryPolicy = options?.retryPolicy;
 
       if (options?.client) {
          this.openai = options.client;
@@ -56,14 +61,16 @@ export class OpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       userPrompt: string,
       verbosity: EVerbosity,
       attachment?: ChatAttachmentInput,
-      tableJson?: IChatTableJson
+      tableJson?: IChatTableJson,
+      options?: IRequestOptions
    ): Promise<string> {
+      const signal = createRequestSignal(options);
       let fileId: string | undefined;
       let shouldDeleteAfterUse = false;
 
       if (attachment) {
          if (this.isAttachmentContent(attachment)) {
-            const reference = await this.uploadAttachment(attachment);
+            const reference = await this.uploadAttachment(attachment, { signal });
             fileId = reference.id;
             shouldDeleteAfterUse = attachment.deleteAfterUse ?? true;
          } else {
@@ -74,11 +81,11 @@ export class OpenAIChatWithAttachment extends IChatWithAttachmentDriver {
 
       try {
          const input = this.buildInput(systemPrompt, userPrompt, fileId, tableJson);
-         const response = await this.openai.responses.create({
+         const response = await retryWithPolicy(() => this.openai.responses.create({
             model: this.model,
             input,
             text: { verbosity: VERBOSITY_MAP[verbosity] }
-         });
+         }, { signal }), this.retryPolicy, "OpenAI", signal);
 
          const outputText = this.extractTextFromOutput((response as any).output ?? []);
          if (!outputText) {
@@ -88,6 +95,7 @@ export class OpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       } finally {
          if (shouldDeleteAfterUse && fileId) {
             try {
+               // Not cancelled with the call, so that the file is not left behind
                await this.deleteAttachment(fileId);
             } catch (error) {
                // Swallow deletion errors to avoid masking the primary response.
@@ -109,7 +117,8 @@ export class OpenAIChatWithAttachment extends IChatWithAttachmentDriver {
     * @returns A reference to the uploaded file
     * @throws Error if the file type is not supported or upload fails
     */
-   async uploadAttachment(attachment: IChatAttachmentContent): Promise<IChatAttachmentReference> {
+   async uploadAttachment(attachment: IChatAttachmentContent, options?: IRequestOptions): Promise<IChatAttachmentReference> {
+      const signal = createRequestSignal(options);
       // Validate file extension for Responses API compatibility
       // The Responses API input_file only accepts PDF files
       const fileExtension = attachment.filename.toLowerCase().split('.').pop();
@@ -161,6 +170,8 @@ export class OpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       const response = await this.openai.files.create({
          file: fileData,
          purpose: 'assistants'
+      }, { signal }).catch(error => {
+         throw signal?.aborted ? toCancelledError(signal) : error;
       });
 
       return {
@@ -168,8 +179,11 @@ export class OpenAIChatWithAttachment extends IChatWithAttachmentDriver {
       };
    }
 
-   async deleteAttachment(attachmentId: string): Promise<void> {
-      await this.openai.files.delete(attachmentId);
+   async deleteAttachment(attachmentId: string, options?: IRequestOptions): Promise<void> {
+      const signal = createRequestSignal(options);
+      await this.openai.files.delete(attachmentId, { signal }).catch(error => {
+         throw signal?.aborted ? toCancelledError(signal) : error;
+      });
    }
 
    private isAttachmentContent(attachment: ChatAttachmentInput): attachment is IChatAttachmentContent {
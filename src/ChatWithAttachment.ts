@@ -23,6 +23,7 @@
 // ===End StrongAI Generated Comment===
 
 import { EVerbosity } from './entry';
+import { IRequestOptions } from './Cancellation';
 
 /**
  * Union of supported attachment payloads.
@@ -99,22 +100,25 @@ export abstract class IChatWithAttachmentDriver {
     * @param attachment Optional attachment provided inline or by reference.
     * @param tableJson Optional table JSON data extracted from documents (e.g., via LlamaParse).
     *                  This provides better fidelity for tabular data than PDF extraction.
+    * @param options Optional signal and timeout that cancel the call. An attachment uploaded for the call
+    *                is still deleted if the call is cancelled.
     */
    abstract getModelResponse(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       attachment?: ChatAttachmentInput,
-      tableJson?: IChatTableJson
+      tableJson?: IChatTableJson,
+      options?: IRequestOptions
    ): Promise<string>;
 
    /**
     * Uploads an attachment and returns a provider specific reference.
     */
-   abstract uploadAttachment(attachment: IChatAttachmentContent): Promise<IChatAttachmentReference>;
+   abstract uploadAttachment(attachment: IChatAttachmentContent, options?: IRequestOptions): Promise<IChatAttachmentReference>;
 
    /**
     * Deletes a previously uploaded attachment using its identifier.
     */
-   abstract deleteAttachment(attachmentId: string): Promise<void>;
+   abstract deleteAttachment(attachmentId: string, options?: IRequestOptions): Promise<void>;
 }
\ No newline at end of file
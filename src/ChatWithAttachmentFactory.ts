@@ -9,6 +9,7 @@ import { IChatWithAttachmentDriverFactory, IChatWithAttachmentDriver, EModelProv
 import { OpenAIChatWithAttachment } from './ChatWithAttachment.OpenAI';
 import { AzureOpenAIChatWithAttachment } from './ChatWithAttachment.AzureOpenAI';
 import { GoogleGeminiChatWithAttachment } from './ChatWithAttachment.GoogleGemini';
+import { IRetryPolicy } from './RetryPolicy';
 
 /**
  * Factory class for creating chat drivers with attachment support
@@ -30,30 +31,30 @@ import { GoogleGeminiChatWithAttachment } from './ChatWithAttachment.GoogleGemin
 // ===End StrongAI Generated Comment===
 
 export class ChatWithAttachmentDriverFactory implements IChatWithAttachmentDriverFactory {
-   create(model: EModel, provider: EModelProvider): IChatWithAttachmentDriver {
+   create(model: EModel, provider: EModelProvider, retryPolicy?: IRetryPolicy): IChatWithAttachmentDriver {
       if (provider === EModelProvider.kAzureOpenAI) {
-         return new AzureOpenAIChatWithAttachment(model);
+         return new AzureOpenAIChatWithAttachment(model, { retryPolicy });
       }
       
       if (provider === EModelProvider.kGoogleGemini) {
          // NOTE: GoogleGeminiChatWithAttachment always uses flash model (gemini-3-flash-preview) regardless of model parameter
          // This is due to rate limit constraints - pro model only allows 250 requests/day
-         return new GoogleGeminiChatWithAttachment(model);
+         return new GoogleGeminiChatWithAttachment(model, { retryPolicy });
       }
       
       if (provider === EModelProvider.kDefault) {
          // In development, use Gemini; in production, use OpenAI
          if (process.env.NODE_ENV === 'development') {
-            return new GoogleGeminiChatWithAttachment(model);
+            return new GoogleGeminiChatWithAttachment(model, { retryPolicy });
          } else {
             const modelString = model === EModel.kLarge ? 'gpt-4.1' : 'gpt-4.1-mini';
-            return new OpenAIChatWithAttachment({ model: modelString });
+            return new OpenAIChatWithAttachment({ model: modelString, retryPolicy });
          }
       }
       
       // Default to OpenAI for kOpenAI provider
       const modelString = model === EModel.kLarge ? 'gpt-4.1' : 'gpt-4.1-mini';
-      return new OpenAIChatWithAttachment({ model: modelString });
+      return new OpenAIChatWithAttachment({ model: modelString, retryPolicy });
    }
 }
 
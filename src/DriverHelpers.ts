@@ -8,10 +8,16 @@
 // Copyright (c) 2025, 2026 Jon Verrier
 
 import { InvalidOperationError, ConnectionError } from '@jonverrier/assistant-common';
+import { IChatUsage } from './entry';
+import { cancellableDelay, throwIfCancelled, toCancelledError } from './Cancellation';
+import { DefaultRetryPolicy, IRetryPolicy, calculateRetryDelay, resolveRetrySettings } from './RetryPolicy';
 
-export const MAX_RETRIES = 5;
-export const INITIAL_RETRY_DELAY = 1000; // 1 second
-export const MAX_RETRY_DELAY = 60000; // 60 seconds maximum (prevents excessive wait times)
+/** @deprecated Use IRetryPolicy.maxAttempts, which counts the first attempt too */
+export const MAX_RETRIES = DefaultRetryPolicy.maxAttempts - 1;
+/** @deprecated Use IRetryPolicy.baseDelayMs */
+export const INITIAL_RETRY_DELAY = DefaultRetryPolicy.baseDelayMs;
+/** @deprecated Use IRetryPolicy.maxDelayMs */
+export const MAX_RETRY_DELAY = DefaultRetryPolicy.maxDelayMs;
 
 /**
  * Implements exponential backoff delay calculation
@@ -29,9 +35,9 @@ export const MAX_RETRY_DELAY = 60000; // 60 seconds maximum (prevents excessive
 // Key imports are InvalidOperationError and ConnectionError from @jonverrier/assistant-common, which standardize error semantics for callers. The module logs retry decisions via console.warn to aid observability.
 // ===End StrongAI Generated Comment===
 
-export async function exponentialBackoff(retryCount: number): Promise<void> {
+export async function exponentialBackoff(retryCount: number, signal?: AbortSignal): Promise<void> {
    const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, retryCount), MAX_RETRY_DELAY);
-   await new Promise(resolve => setTimeout(resolve, delay));
+   await cancellableDelay(delay, signal);
 }
 
 /**
@@ -106,9 +112,11 @@ function isTransientServerError(error: any): boolean {
  * Parses Retry-After header from error response
  * Returns the retry delay in milliseconds, or null if not available
  * @param error The error object that may contain retry-after information
+ * @param maxDelayMs The longest delay to return
+ * @param random A number from 0 up to 1, used for jitter
  * @returns Retry delay in milliseconds, or null if not available
  */
-function parseRetryAfter(error: any): number | null {
+function parseRetryAfter(error: any, maxDelayMs: number, random: number): number | null {
    // Check various locations for retry-after header
    const retryAfter = error?.headers?.['retry-after'] ||
                      error?.headers?.['Retry-After'] ||
@@ -126,8 +134,8 @@ function parseRetryAfter(error: any): number | null {
    if (!isNaN(seconds) && seconds > 0) {
       // Add small jitter (10%) to avoid thundering herd
       // Jitter is calculated in milliseconds to match the retry delay unit
-      const jitter = seconds * 0.1 * Math.random() * 1000;
-      return Math.min((seconds * 1000) + jitter, MAX_RETRY_DELAY);
+      const jitter = seconds * 0.1 * random * 1000;
+      return Math.min((seconds * 1000) + jitter, maxDelayMs);
    }
    
    return null;
@@ -141,50 +149,69 @@ function parseRetryAfter(error: any): number | null {
  * @param operation The async operation to execute
  * @param maxRetries Maximum number of retry attempts (default: MAX_RETRIES)
  * @param providerName Optional provider name for error messages (default: "API")
+ * @param signal Optional signal that cancels the operation; pass it to the operation's request too
  * @returns Promise resolving to the operation result
+ * @throws {OperationCancelledError} If the signal is aborted, including during a backoff wait
  * @throws Error for non-retryable errors or after max retries exceeded
  */
-export async function retryWithExponentialBackoff<T>(
+export function retryWithExponentialBackoff<T>(
    operation: () => Promise<T>,
    maxRetries: number = MAX_RETRIES,
-   providerName: string = "API"
+   providerName: string = "API",
+   signal?: AbortSignal
 ): Promise<T> {
+   return retryWithPolicy(operation, { maxAttempts: maxRetries + 1 }, providerName, signal);
+}
+
+/**
+ * Executes an operation, retrying failures as a retry policy says
+ * Rate limits that say a quota or billing limit is used up are never retried, and a Retry-After
+ * header replaces the policy's backoff delay, up to its maxDelayMs
+ * 
+ * @param operation The async operation to execute
+ * @param policy The retry policy; fields left out take their values from DefaultRetryPolicy
+ * @param providerName Optional provider name for error messages (default: "API")
+ * @param signal Optional signal that cancels the operation; pass it to the operation's request too
+ * @returns Promise resolving to the operation result
+ * @throws {OperationCancelledError} If the signal is aborted, including during a backoff wait
+ * @throws {InvalidOperationError} If the provider refused the request
+ * @throws {ConnectionError} For other errors that are not retried, or once the attempts run out
+ */
+export async function retryWithPolicy<T>(
+   operation: () => Promise<T>,
+   policy: IRetryPolicy | undefined,
+   providerName: string = "API",
+   signal?: AbortSignal
+): Promise<T> {
+   const clock = policy?.clock ?? DefaultRetryPolicy.clock;
+   const isRetryableStatus = policy?.isRetryableStatus ?? DefaultRetryPolicy.isRetryableStatus;
    let retryCount = 0;
    
    while (true) {
+      throwIfCancelled(signal);
       try {
          return await operation();
       } catch (error: any) {
+         // The request was abandoned because the call was cancelled, so the error says nothing about the provider
+         if (signal?.aborted) {
+            throw toCancelledError(signal);
+         }
          const status = getErrorStatus(error);
          
-         // Handle rate limiting: retry only for transient rate limit; fail fast for quota exceeded
-         if (isRateLimitError(error)) {
-            if (isQuotaExceededError(error)) {
-               // Quota/billing exhausted – retrying won't help
-               const msg = error?.message ?? error?.error?.message ?? 'Quota or billing limit exceeded';
-               throw new ConnectionError(`${providerName} API error: ${msg}`);
-            }
-            if (retryCount < maxRetries) {
-               // Transient rate limit – retry with backoff or Retry-After
-               const retryAfterMs = parseRetryAfter(error);
-               if (retryAfterMs !== null) {
-                  console.warn(`Rate limit detected (429). Retrying after ${Math.round(retryAfterMs)}ms (attempt ${retryCount + 1}/${maxRetries})`);
-                  await new Promise(resolve => setTimeout(resolve, retryAfterMs));
-               } else {
-                  const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, retryCount), MAX_RETRY_DELAY);
-                  console.warn(`Rate limit detected (429). Retrying after ${delay}ms (exponential backoff, attempt ${retryCount + 1}/${maxRetries})`);
-                  await exponentialBackoff(retryCount);
-               }
-               retryCount++;
-               continue;
-            }
+         // Quota/billing exhausted – retrying won't help
+         if (isRateLimitError(error) && isQuotaExceededError(error)) {
+            const msg = error?.message ?? error?.error?.message ?? 'Quota or billing limit exceeded';
+            throw new ConnectionError(`${providerName} API error: ${msg}`);
          }
-         
-         // Handle transient server errors (5xx) with exponential backoff
-         if (isTransientServerError(error) && retryCount < maxRetries) {
-            const delay = Math.min(INITIAL_RETRY_DELAY * Math.pow(2, retryCount), MAX_RETRY_DELAY);
-            console.warn(`Transient server error (${status}). Retrying after ${delay}ms (exponential backoff, attempt ${retryCount + 1}/${maxRetries})`);
-            await exponentialBackoff(retryCount);
+
+         const settings = resolveRetrySettings(policy, error);
+         const retryable = settings.retryable ?? (status !== null && isRetryableStatus(status, error));
+         if (retryable && retryCount + 1 < settings.maxAttempts) {
+            // Transient failure – retry with Retry-After or backoff
+            const retryAfterMs = isRateLimitError(error) ? parseRetryAfter(error, settings.maxDelayMs, clock.random()) : null;
+            const delayMs = retryAfterMs ?? calculateRetryDelay(settings, retryCount, clock.random());
+            policy?.onRetry?.({ attempt: retryCount + 1, maxAttempts: settings.maxAttempts, delayMs, error, status: status ?? undefined, providerName });
+            await clock.sleep(delayMs, signal);
             retryCount++;
             continue;
          }
@@ -229,4 +256,28 @@ export async function retryWithExponentialBackoff<T>(
          throw new ConnectionError(`${providerName} API error: Unknown error occurred`);
       }
    }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Adds the token usage of one request to the total for a call
+ * @param total The usage so far, or undefined if none has been reported
+ * @param usage The usage of the latest request, or undefined if the provider did not report it
+ * @returns The new total
+ */
+export function addChatUsage(total: IChatUsage | undefined, usage: IChatUsage | undefined): IChatUsage | undefined {
+   if (usage === undefined) {
+      return total;
+   }
+   if (total === undefined) {
+      return { ...usage };
+   }
+   const sum: IChatUsage = {
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      totalTokens: total.totalTokens + usage.totalTokens
+   };
+   if (total.reasoningTokens !== undefined || usage.reasoningTokens !== undefined) {
+      sum.reasoningTokens = (total.reasoningTokens ?? 0) + (usage.reasoningTokens ?? 0);
+   }
+   return sum;
+}
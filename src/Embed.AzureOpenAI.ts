@@ -9,6 +9,7 @@
 import { AzureOpenAI } from 'openai';
 import { EModel, EModelProvider, InvalidStateError } from './entry';
 import { OpenAIModelEmbeddingDriver } from './Embed';
+import { IRetryPolicy } from './RetryPolicy';
 
 const AZURE_DEPLOYMENTS = {
    LARGE: "text-embedding-3-large",
@@ -41,8 +42,8 @@ export class AzureOpenAIEmbeddingDriver extends OpenAIModelEmbeddingDriver {
    public deploymentName: string;
    protected declare openai: AzureOpenAI;
 
-   constructor(modelType: EModel) {
-      super(modelType, EModelProvider.kAzureOpenAI);
+   constructor(modelType: EModel, retryPolicy?: IRetryPolicy) {
+      super(modelType, EModelProvider.kAzureOpenAI, retryPolicy);
       this.deploymentName = modelType === EModel.kLarge ? 
          AZURE_DEPLOYMENTS.LARGE : 
          AZURE_DEPLOYMENTS.MINI;
@@ -9,6 +9,7 @@
 import OpenAI from 'openai';
 import { EModel, EModelProvider, InvalidStateError } from './entry';
 import { OpenAIModelEmbeddingDriver as OpenAIEmbeddingDriver } from './Embed';
+import { IRetryPolicy } from './RetryPolicy';
 
 /**
  * Direct OpenAI embedding model driver.
@@ -43,8 +44,8 @@ export class NativeOpenAIEmbeddingDriver extends OpenAIEmbeddingDriver {
       MINI: "text-embedding-3-small"
    } as const;
 
-   constructor(modelType: EModel) {
-      super(modelType, EModelProvider.kOpenAI);
+   constructor(modelType: EModel, retryPolicy?: IRetryPolicy) {
+      super(modelType, EModelProvider.kOpenAI, retryPolicy);
       this.deploymentName = modelType === EModel.kLarge ? 
          NativeOpenAIEmbeddingDriver.OPENAI_MODELS.LARGE : 
          NativeOpenAIEmbeddingDriver.OPENAI_MODELS.MINI;
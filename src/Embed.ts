@@ -8,7 +8,9 @@
 
 import OpenAI, { AzureOpenAI } from 'openai';
 import { EModel, EModelProvider, IEmbeddingModelDriver, InvalidParameterError, InvalidOperationError, ConnectionError } from './entry';
-import { retryWithExponentialBackoff, MAX_RETRIES } from './DriverHelpers';
+import { retryWithPolicy } from './DriverHelpers';
+import { IRetryPolicy } from './RetryPolicy';
+import { IRequestOptions, OperationCancelledError, createRequestSignal } from './Cancellation';
 
 /**
  * Calculates the cosine similarity between two embedding vectors.
@@ -75,7 +77,12 @@ export abstract class OpenAIModelEmbeddingDriver implements IEmbeddingModelDrive
    public drivenModelProvider: EModelProvider;
    protected openai!: OpenAI | AzureOpenAI;
 
-   constructor(modelType: EModel, provider: EModelProvider) {
+   /**
+    * @param modelType The model to use
+    * @param provider The provider of the model
+    * @param retryPolicy How requests are retried; without one, DefaultRetryPolicy is used
+    */
+   constructor(modelType: EModel, provider: EModelProvider, protected readonly retryPolicy?: IRetryPolicy) {
       this.drivenModelType = modelType;
       this.drivenModelProvider = provider;
    }
@@ -93,18 +100,21 @@ export abstract class OpenAIModelEmbeddingDriver implements IEmbeddingModelDrive
     * Converts text into a vector embedding representation.
     * 
     * @param {string} text - The input text to be embedded
+    * @param {IRequestOptions} [options] - Optional signal and timeout that cancel the call
     * @returns {Promise<Array<number>>} A promise that resolves to an array of numbers 
     *         representing the text embedding vector
     */
-   async embed(text: string): Promise<Array<number>> {
+   async embed(text: string, options?: IRequestOptions): Promise<Array<number>> {
       try {
-         const response = await retryWithExponentialBackoff(() => 
+         const signal = createRequestSignal(options);
+         const response = await retryWithPolicy(() => 
             this.openai.embeddings.create({
                input: text,
                model: this.getModelName()
-            }),
-            MAX_RETRIES,
-            this.getProviderName()
+            }, { signal }),
+            this.retryPolicy,
+            this.getProviderName(),
+            signal
          );
 
          if (!response.data || response.data.length === 0) {
@@ -113,8 +123,8 @@ export abstract class OpenAIModelEmbeddingDriver implements IEmbeddingModelDrive
 
          return response.data[0].embedding;
       } catch (error) {
-         // If error is already a ConnectionError or InvalidOperationError from retryWithExponentialBackoff, just rethrow it
-         if (error instanceof ConnectionError || error instanceof InvalidOperationError) {
+         // If error is already a ConnectionError, InvalidOperationError or OperationCancelledError, just rethrow it
+         if (error instanceof ConnectionError || error instanceof InvalidOperationError || error instanceof OperationCancelledError) {
             throw error;
          }
          // Otherwise, wrap it with provider-specific message
@@ -8,6 +8,7 @@
 import { IEmbeddingModelDriver, IEmbeddingDriverFactory, EModelProvider, EModel } from './entry';
 import { NativeOpenAIEmbeddingDriver } from './Embed.OpenAI';
 import { AzureOpenAIEmbeddingDriver } from './Embed.AzureOpenAI';
+import { IRetryPolicy } from './RetryPolicy';
 
 /**
  * Factory class for creating embedding drivers
@@ -28,12 +29,13 @@ export class EmbeddingDriverFactory implements IEmbeddingDriverFactory {
     * 
     * @param {EModel} model - The model size to use (kLarge or kMini)
     * @param {EModelProvider} provider - The provider to use (kAzureOpenAI or kOpenAI)
+    * @param {IRetryPolicy} [retryPolicy] - How requests are retried; without one, DefaultRetryPolicy is used
     * @returns {IEmbeddingModelDriver} An embedding driver instance
     */
-   create(model: EModel, provider: EModelProvider): IEmbeddingModelDriver {
+   create(model: EModel, provider: EModelProvider, retryPolicy?: IRetryPolicy): IEmbeddingModelDriver {
       if (provider === EModelProvider.kAzureOpenAI) {
-         return new AzureOpenAIEmbeddingDriver(model);
+         return new AzureOpenAIEmbeddingDriver(model, retryPolicy);
       }
-      return new NativeOpenAIEmbeddingDriver(model);
+      return new NativeOpenAIEmbeddingDriver(model, retryPolicy);
    }
 } 
\ No newline at end of file
@@ -75,6 +75,7 @@ export interface ISchemaProperty {
    items?: ISchemaProperty;
    required?: string[] | readonly string[];
    additionalProperties?: boolean;
+   enum?: string[] | readonly string[];
  }
  
  export interface ISchema {
@@ -115,6 +116,10 @@ export interface IFunctionCallOutput {
  * @property {ISchema} outputSchema - The output schema defining return value structure
  * @property {Function} validateArgs - Function to validate input arguments
  * @property {Function} execute - Function to execute with validated arguments
+ * @property {boolean} [runSerially] - If true, calls to the function never run alongside other calls, for
+ *    example because it changes state. It runs once the calls before it in the same response have finished.
+ * @property {number} [timeoutMs] - The most time a call may take. A call that takes longer is reported to the
+ *    model as failed; the function itself is not stopped.
  * 
  * @example
  * ```typescript
@@ -154,6 +159,8 @@ export interface IFunction {
    outputSchema: ISchema;
    validateArgs: (args: any) => any;
    execute: (args: any) => Promise<any>;
+   runSerially?: boolean | undefined;
+   timeoutMs?: number | undefined;
 }
 
 /**
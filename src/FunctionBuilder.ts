@@ -0,0 +1,232 @@
+/**
+ * @module FunctionBuilder
+ *
+ * Defines functions for the model from a single description of their arguments and results. The
+ * description gives the schemas sent to the model, a validateArgs that checks the model's arguments
+ * against them, and the TypeScript types of the arguments execute receives and the result it returns.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { InvalidParameterError } from "./entry";
+import { EDataType, IFunction, ISchema, ISchemaProperty } from "./Function";
+import { validateJsonSchema } from "./JsonSchema";
+
+/**
+ * One argument or result field, built with FunctionSchema
+ *
+ * @interface ISchemaField
+ * @template T The type of the field's values
+ * @template TOptional Whether the field may be left out
+ * @property {ISchemaProperty} property - The schema of the field as sent to the model
+ * @property {boolean} isOptional - Whether the field may be left out
+ * @property {Function} optional - Returns a copy of the field that may be left out
+ */
+export interface ISchemaField<T, TOptional extends boolean = boolean> {
+   readonly property: ISchemaProperty;
+   readonly isOptional: TOptional;
+   optional(): ISchemaField<T, true>;
+   /** Never set; carries the type of the field's values */
+   readonly valueType?: T;
+}
+
+/**
+ * The fields of an object, by name
+ */
+export interface ISchemaFields {
+   [name: string]: ISchemaField<unknown, boolean>;
+}
+
+/**
+ * The type of the values of a field
+ */
+export type InferSchemaField<TField> = TField extends ISchemaField<infer T, boolean> ? T : never;
+
+type RequiredFieldNames<TFields extends ISchemaFields> = {
+   [K in keyof TFields]: TFields[K] extends ISchemaField<unknown, false> ? K : never
+}[keyof TFields];
+
+type OptionalFieldNames<TFields extends ISchemaFields> = Exclude<keyof TFields, RequiredFieldNames<TFields>>;
+
+/**
+ * The type of an object with the given fields. Optional fields are optional properties.
+ */
+export type InferSchemaFields<TFields extends ISchemaFields> = {
+   [K in RequiredFieldNames<TFields>]: InferSchemaField<TFields[K]>
+} & {
+   [K in OptionalFieldNames<TFields>]?: InferSchemaField<TFields[K]>
+};
+
+function makeField<T, TOptional extends boolean = false>(property: ISchemaProperty, isOptional: TOptional): ISchemaField<T, TOptional> {
+   return {
+      property,
+      isOptional,
+      optional: () => makeField<T, true>(property, true)
+   };
+}
+
+function toObjectProperties(fields: ISchemaFields): Pick<ISchema, "properties" | "required"> {
+   const properties: { [key: string]: ISchemaProperty } = {};
+   const required: string[] = [];
+   for (const [name, field] of Object.entries(fields)) {
+      properties[name] = field.property;
+      if (!field.isOptional) {
+         required.push(name);
+      }
+   }
+   return { properties, required };
+}
+
+/**
+ * Builds the fields of a function's arguments and results. Fields are required unless made optional().
+ *
+ * @example
+ * ```typescript
+ * const input = {
+ *    city: FunctionSchema.string('City name'),
+ *    units: FunctionSchema.enum(['celsius', 'fahrenheit'], 'Temperature units').optional(),
+ *    days: FunctionSchema.array(FunctionSchema.string('A date, as YYYY-MM-DD'), 'Days to forecast')
+ * };
+ * ```
+ */
+export const FunctionSchema = {
+   /**
+    * @param description What the field holds, for the model
+    */
+   string(description: string): ISchemaField<string, false> {
+      return makeField<string>({ type: EDataType.kString, description }, false);
+   },
+
+   /**
+    * @param description What the field holds, for the model
+    */
+   number(description: string): ISchemaField<number, false> {
+      return makeField<number>({ type: EDataType.kNumber, description }, false);
+   },
+
+   /**
+    * @param description What the field holds, for the model
+    */
+   boolean(description: string): ISchemaField<boolean, false> {
+      return makeField<boolean>({ type: EDataType.kBoolean, description }, false);
+   },
+
+   /**
+    * A string that must be one of a fixed set of values
+    * @param values The values allowed
+    * @param description What the field holds, for the model
+    */
+   enum<const TValues extends readonly [string, ...string[]]>(values: TValues, description: string): ISchemaField<TValues[number], false> {
+      return makeField<TValues[number]>({ type: EDataType.kString, description, enum: [...values] }, false);
+   },
+
+   /**
+    * @param items The field each item must match
+    * @param description What the field holds, for the model
+    */
+   array<TItems extends ISchemaField<unknown, boolean>>(items: TItems, description: string): ISchemaField<InferSchemaField<TItems>[], false> {
+      return makeField<InferSchemaField<TItems>[]>({ type: EDataType.kArray, description, items: items.property }, false);
+   },
+
+   /**
+    * An object with a fixed set of fields, and no others
+    * @param fields The object's fields
+    * @param description What the field holds, for the model
+    */
+   object<TFields extends ISchemaFields>(fields: TFields, description: string): ISchemaField<InferSchemaFields<TFields>, false> {
+      return makeField<InferSchemaFields<TFields>>({
+         type: EDataType.kObject,
+         description,
+         ...toObjectProperties(fields),
+         additionalProperties: false
+      }, false);
+   }
+};
+
+/**
+ * Builds the schema of an object with the given fields, as used for function arguments and results
+ * @param fields The fields
+ * @returns The schema
+ */
+export function toSchema(fields: ISchemaFields): ISchema {
+   return { type: EDataType.kObject, ...toObjectProperties(fields), additionalProperties: false };
+}
+
+/**
+ * The definition of a function, with its arguments and results described by fields
+ *
+ * @interface ITypedFunctionDefinition
+ * @property {string} name - The name of the function
+ * @property {string} description - What the function does, for the model
+ * @property {ISchemaFields} input - The fields of the arguments
+ * @property {ISchemaFields} output - The fields of the result
+ * @property {Function} execute - Runs the function with arguments that have been validated against input
+ * @property {boolean} [runSerially] - As for IFunction
+ * @property {number} [timeoutMs] - As for IFunction
+ */
+export interface ITypedFunctionDefinition<TInput extends ISchemaFields, TOutput extends ISchemaFields> {
+   name: string;
+   description: string;
+   input: TInput;
+   output: TOutput;
+   execute: (args: InferSchemaFields<TInput>) => Promise<InferSchemaFields<TOutput>>;
+   runSerially?: boolean | undefined;
+   timeoutMs?: number | undefined;
+}
+
+/**
+ * A function built by defineFunction, whose arguments and result are typed
+ *
+ * @interface ITypedFunction
+ * @template TArgs The type of the arguments
+ * @template TResult The type of the result
+ */
+export interface ITypedFunction<TArgs, TResult> extends IFunction {
+   validateArgs: (args: unknown) => TArgs;
+   execute: (args: TArgs) => Promise<TResult>;
+}
+
+/**
+ * Builds a function for the model from fields describing its arguments and result
+ * @param definition The name, description, fields and implementation of the function
+ * @returns The function, with schemas built from the fields and a validateArgs that checks arguments
+ *    against the input schema. validateArgs throws InvalidParameterError listing every violation found.
+ *
+ * @example
+ * ```typescript
+ * const getWeather = defineFunction({
+ *    name: 'get_weather',
+ *    description: 'Get current weather for a location',
+ *    input: {
+ *       location: FunctionSchema.string('City name'),
+ *       units: FunctionSchema.enum(['celsius', 'fahrenheit'], 'Temperature units').optional()
+ *    },
+ *    output: {
+ *       temperature: FunctionSchema.number('Temperature in the units asked for'),
+ *       condition: FunctionSchema.string('Weather condition')
+ *    },
+ *    execute: async ({ location, units }) => ({ temperature: units === 'fahrenheit' ? 72 : 22, condition: 'sunny' })
+ * });
+ * ```
+ */
+export function defineFunction<TInput extends ISchemaFields, TOutput extends ISchemaFields>(
+   definition: ITypedFunctionDefinition<TInput, TOutput>
+): ITypedFunction<InferSchemaFields<TInput>, InferSchemaFields<TOutput>> {
+   const inputSchema = toSchema(definition.input);
+
+   return {
+      name: definition.name,
+      description: definition.description,
+      inputSchema,
+      outputSchema: toSchema(definition.output),
+      validateArgs: (args: unknown) => {
+         const violations = validateJsonSchema(args, inputSchema);
+         if (violations.length > 0) {
+            throw new InvalidParameterError(`Invalid arguments for ${definition.name}: ${violations.join("; ")}`);
+         }
+         return args as InferSchemaFields<TInput>;
+      },
+      execute: definition.execute,
+      runSerially: definition.runSerially,
+      timeoutMs: definition.timeoutMs
+   };
+}
@@ -0,0 +1,142 @@
+/**
+ * @module JsonSchema
+ *
+ * A small JSON Schema validator covering the subset of keywords used by prompt parameter
+ * specifications and function schemas: type, properties, required, additionalProperties,
+ * items, enum, minimum / maximum, minLength / maxLength, pattern and minItems / maxItems.
+ * Validation reports every violation found rather than stopping at the first one.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+/**
+ * A JSON Schema, limited to the keywords this module understands. ISchema and ISchemaProperty
+ * from the Function module are compatible with it.
+ *
+ * @interface IJsonSchema
+ * @property {string | string[]} [type] - "object", "array", "string", "number", "integer", "boolean" or "null", or a list of them
+ * @property {object} [properties] - Schemas for the properties of an object
+ * @property {string[]} [required] - Properties an object must have
+ * @property {boolean} [additionalProperties] - If false, an object may only have the listed properties
+ * @property {IJsonSchema} [items] - Schema for each item of an array
+ * @property {unknown[]} [enum] - The values allowed
+ * @property {number} [minimum] - The smallest number allowed
+ * @property {number} [maximum] - The largest number allowed
+ * @property {number} [minLength] - The shortest string allowed
+ * @property {number} [maxLength] - The longest string allowed
+ * @property {string} [pattern] - A regular expression strings must match
+ * @property {number} [minItems] - The fewest array items allowed
+ * @property {number} [maxItems] - The most array items allowed
+ */
+export interface IJsonSchema {
+   type?: string | string[] | undefined;
+   description?: string | undefined;
+   properties?: { [key: string]: IJsonSchema } | undefined;
+   required?: string[] | readonly string[] | undefined;
+   additionalProperties?: boolean | undefined;
+   items?: IJsonSchema | undefined;
+   enum?: unknown[] | readonly unknown[] | undefined;
+   minimum?: number | undefined;
+   maximum?: number | undefined;
+   minLength?: number | undefined;
+   maxLength?: number | undefined;
+   pattern?: string | undefined;
+   minItems?: number | undefined;
+   maxItems?: number | undefined;
+}
+
+function typeOf(value: unknown): string {
+   if (value === null) {
+      return "null";
+   }
+   if (Array.isArray(value)) {
+      return "array";
+   }
+   return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+   switch (type) {
+      case "integer":
+         return typeof value === "number" && Number.isInteger(value);
+      case "number":
+         return typeof value === "number" && Number.isFinite(value);
+      default:
+         return typeOf(value) === type;
+   }
+}
+
+/**
+ * Validates a value against a schema
+ * @param value The value, typically parsed from JSON
+ * @param schema The schema
+ * @param path The path used to name the value in messages, "$" for the root
+ * @returns A message for each violation found, empty if the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: IJsonSchema, path: string = "$"): string[] {
+   const violations: string[] = [];
+
+   if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => matchesType(value, type))) {
+         violations.push(`${path} must be of type ${types.join(" or ")}, found ${typeOf(value)}`);
+         return violations;
+      }
+   }
+
+   if (schema.enum !== undefined && !schema.enum.some(allowed => JSON.stringify(allowed) === JSON.stringify(value))) {
+      violations.push(`${path} must be one of: ${schema.enum.map(allowed => JSON.stringify(allowed)).join(", ")}`);
+   }
+
+   if (typeof value === "number") {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+         violations.push(`${path} must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+         violations.push(`${path} must be at most ${schema.maximum}`);
+      }
+   }
+
+   if (typeof value === "string") {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+         violations.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+         violations.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+         violations.push(`${path} must match the pattern ${schema.pattern}`);
+      }
+   }
+
+   if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+         violations.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+         violations.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items !== undefined) {
+         const items = schema.items;
+         value.forEach((item, index) => violations.push(...validateJsonSchema(item, items, `${path}[${index}]`)));
+      }
+   }
+
+   if (typeOf(value) === "object") {
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+         if (record[key] === undefined) {
+            violations.push(`${path}.${key} is required`);
+         }
+      }
+      for (const [key, item] of Object.entries(record)) {
+         const propertySchema = schema.properties?.[key];
+         if (propertySchema !== undefined) {
+            violations.push(...validateJsonSchema(item, propertySchema, `${path}.${key}`));
+         } else if (schema.additionalProperties === false) {
+            violations.push(`${path}.${key} is not an allowed property`);
+         }
+      }
+   }
+
+   return violations;
+}
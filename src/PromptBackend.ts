@@ -0,0 +1,339 @@
+/**
+ * @module PromptBackend
+ *
+ * Asynchronous, storage-agnostic access to prompts, so that web clients and services can fetch
+ * prompts from a central store rather than bundling a file. A backend fetches every version of a
+ * prompt id; AsyncPromptRepository selects a version, localizes it and resolves its references
+ * on top of any backend:
+ * - HttpPromptBackend fetches prompt JSON from an HTTP endpoint, and works in the browser
+ * - SqlitePromptBackend reads a table through any SQLite driver with a prepare / all API
+ * - KeyValuePromptBackend reads a key-value store, one key per prompt id
+ * - PromptSourceBackend adapts a synchronous IPromptSource, e.g. prompts defined in code
+ * - CachingPromptBackend wraps another backend, holding what it fetches for a fixed time
+ *
+ * Prompts fetched from a backend are migrated to the current schema, as prompts read from files are.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IPrompt, IAsyncPromptRepository, IPromptSelector, PromptParameterValue, InvalidOperationError, InvalidParameterError,
+   ConnectionError, throwIfUndefined } from "./entry";
+import { IPromptSource } from "./PromptSource";
+import { migratePrompts } from "./PromptMigration";
+import { selectPromptVersion, sortPromptVersions } from "./PromptVersion";
+import { IPromptFragment, findPromptReferences, resolvePromptComposition } from "./PromptComposition";
+import { localizePrompt, parsePromptSelector } from "./PromptLocale";
+import { replacePromptPlaceholders } from "./PromptRepository";
+
+/**
+ * A store that prompts can be fetched from
+ *
+ * @interface IPromptBackend
+ * @property {string} name - Describes the backend in error messages e.g. a URL
+ * @property {Function} fetchPromptVersions - Fetches every version of a prompt id, empty if the id is not found
+ */
+export interface IPromptBackend {
+   readonly name: string;
+   fetchPromptVersions(id: string): Promise<IPrompt[]>;
+}
+
+// Migrates prompts read from a backend, which may hold a single prompt or an array, keeping those with the id asked for
+function parseBackendPrompts(backendName: string, id: string, contents: unknown): IPrompt[] {
+   try {
+      return migratePrompts(Array.isArray(contents) ? contents : [contents]).prompts.filter(p => p.id === id);
+   } catch (error) {
+      throw new InvalidOperationError(`${backendName}: ${error instanceof Error ? error.message : String(error)}`);
+   }
+}
+
+function parseBackendJson(backendName: string, text: string): unknown {
+   try {
+      return JSON.parse(text);
+   } catch (error) {
+      throw new InvalidOperationError(`${backendName}: invalid prompt JSON: ${error instanceof Error ? error.message : String(error)}`);
+   }
+}
+
+/**
+ * Adapts a synchronous prompt source, such as PromptArraySource, to a backend
+ */
+export class PromptSourceBackend implements IPromptBackend {
+   constructor(private readonly source: IPromptSource) {
+   }
+
+   get name(): string {
+      return this.source.name;
+   }
+
+   async fetchPromptVersions(id: string): Promise<IPrompt[]> {
+      return this.source.loadPrompts().filter(p => p.id === id);
+   }
+}
+
+/**
+ * Options for HttpPromptBackend
+ *
+ * @interface IHttpPromptBackendOptions
+ * @property {object} [headers] - Headers to send with each request, e.g. for authorization
+ * @property {Function} [fetch] - The fetch implementation to use. Defaults to the global fetch.
+ */
+export interface IHttpPromptBackendOptions {
+   headers?: { [name: string]: string } | undefined;
+   fetch?: typeof fetch | undefined;
+}
+
+/**
+ * Fetches prompts from an HTTP endpoint serving prompt JSON. If the URL contains "{id}", it is replaced
+ * with the prompt id and the endpoint should return the versions of that prompt, or 404 if there are none.
+ * Otherwise the URL should return every prompt, as a prompt file does.
+ */
+export class HttpPromptBackend implements IPromptBackend {
+   /**
+    * @param url The endpoint e.g. "https://example.com/prompts/{id}" or "https://example.com/Prompts.json"
+    * @param options Headers, and the fetch implementation
+    */
+   constructor(readonly url: string, private readonly options: IHttpPromptBackendOptions = {}) {
+   }
+
+   get name(): string {
+      return this.url;
+   }
+
+   /**
+    * @throws {ConnectionError} If the request fails or the endpoint returns an error status other than 404
+    * @throws {InvalidOperationError} If the response does not hold prompts
+    */
+   async fetchPromptVersions(id: string): Promise<IPrompt[]> {
+      const fetchImpl = this.options.fetch ?? globalThis.fetch;
+      if (fetchImpl === undefined) {
+         throw new InvalidOperationError("HttpPromptBackend needs a fetch implementation");
+      }
+      const url = this.url.replace(/\{id\}/g, encodeURIComponent(id));
+
+      let response: Response;
+      try {
+         response = await fetchImpl(url, { headers: { Accept: "application/json", ...this.options.headers } });
+      } catch (error) {
+         throw new ConnectionError(`Unable to fetch prompts from ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      if (response.status === 404) {
+         return [];
+      }
+      if (!response.ok) {
+         throw new ConnectionError(`Unable to fetch prompts from ${url}: HTTP ${response.status} ${response.statusText}`);
+      }
+      return parseBackendPrompts(url, id, parseBackendJson(url, await response.text()));
+   }
+}
+
+/**
+ * The part of a SQLite database API used by SqlitePromptBackend. Databases from better-sqlite3 and
+ * node:sqlite match it directly; drivers whose statements return promises also match.
+ */
+export interface ISqliteDatabase {
+   prepare(sql: string): { all(...params: unknown[]): unknown[] | Promise<unknown[]> };
+}
+
+/**
+ * Reads prompts from a SQLite table with a row per prompt version, created with e.g.
+ * CREATE TABLE prompts (id TEXT NOT NULL, version TEXT NOT NULL, prompt TEXT NOT NULL, PRIMARY KEY (id, version))
+ * where the prompt column holds the JSON text of the prompt.
+ */
+export class SqlitePromptBackend implements IPromptBackend {
+   private readonly sql: string;
+
+   /**
+    * @param database An open database
+    * @param table The name of the table
+    * @throws {InvalidParameterError} If the table name is not a plain identifier
+    */
+   constructor(private readonly database: ISqliteDatabase, readonly table: string = "prompts") {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+         throw new InvalidParameterError(`Invalid table name "${table}"`);
+      }
+      this.sql = `SELECT prompt FROM ${table} WHERE id = ?`;
+   }
+
+   get name(): string {
+      return `SQLite table ${this.table}`;
+   }
+
+   /**
+    * @throws {InvalidOperationError} If a row does not hold a prompt
+    */
+   async fetchPromptVersions(id: string): Promise<IPrompt[]> {
+      const rows = await this.database.prepare(this.sql).all(id);
+      const prompts = rows.map(row => {
+         const text = (row as { prompt?: unknown }).prompt;
+         if (typeof text !== "string") {
+            throw new InvalidOperationError(`${this.name}: the prompt column of ${id} must hold JSON text`);
+         }
+         return parseBackendJson(this.name, text);
+      });
+      return parseBackendPrompts(this.name, id, prompts);
+   }
+}
+
+/**
+ * The part of a key-value store API used by KeyValuePromptBackend. Adapters for stores such as
+ * Redis or a cloud key-value service need only implement get.
+ */
+export interface IKeyValueStore {
+   get(key: string): Promise<string | null | undefined> | string | null | undefined;
+}
+
+/**
+ * Reads prompts from a key-value store holding, for each prompt id, the JSON of its versions
+ * (an array of prompts, or a single prompt) under the key prefix + id
+ */
+export class KeyValuePromptBackend implements IPromptBackend {
+   /**
+    * @param store The store
+    * @param prefix Prepended to each prompt id to make its key
+    */
+   constructor(private readonly store: IKeyValueStore, readonly prefix: string = "prompt:") {
+   }
+
+   get name(): string {
+      return `key-value store ${this.prefix}*`;
+   }
+
+   /**
+    * @throws {InvalidOperationError} If a value does not hold prompts
+    */
+   async fetchPromptVersions(id: string): Promise<IPrompt[]> {
+      const text = await this.store.get(this.prefix + id);
+      if (text === null || text === undefined) {
+         return [];
+      }
+      return parseBackendPrompts(this.name, id, parseBackendJson(this.name, text));
+   }
+}
+
+/**
+ * Options for CachingPromptBackend
+ *
+ * @interface ICachingPromptBackendOptions
+ * @property {number} ttlMs - How long a fetch is reused for, in milliseconds
+ * @property {Function} [now] - Returns the current time in milliseconds. Defaults to Date.now; replace it in tests.
+ */
+export interface ICachingPromptBackendOptions {
+   ttlMs: number;
+   now?: (() => number) | undefined;
+}
+
+interface ICacheEntry {
+   expires: number;
+   prompts: Promise<IPrompt[]>;
+}
+
+/**
+ * Wraps a backend, reusing what it fetches for each prompt id until the time to live expires.
+ * Concurrent requests for the same id share one fetch. Ids that are not found are cached too;
+ * failed fetches are not.
+ */
+export class CachingPromptBackend implements IPromptBackend {
+   private readonly entries = new Map<string, ICacheEntry>();
+   private readonly now: () => number;
+
+   /**
+    * @param backend The backend to fetch from
+    * @param options The time to live, and the clock
+    * @throws {InvalidParameterError} If the time to live is negative
+    */
+   constructor(private readonly backend: IPromptBackend, private readonly options: ICachingPromptBackendOptions) {
+      if (!(options.ttlMs >= 0)) {
+         throw new InvalidParameterError(`Invalid cache time to live ${options.ttlMs}, expected a number of milliseconds`);
+      }
+      this.now = options.now ?? Date.now;
+   }
+
+   get name(): string {
+      return this.backend.name;
+   }
+
+   fetchPromptVersions(id: string): Promise<IPrompt[]> {
+      const now = this.now();
+      const entry = this.entries.get(id);
+      if (entry !== undefined && entry.expires > now) {
+         return entry.prompts;
+      }
+
+      const prompts = this.backend.fetchPromptVersions(id);
+      this.entries.set(id, { expires: now + this.options.ttlMs, prompts });
+      prompts.catch(() => {
+         if (this.entries.get(id)?.prompts === prompts) {
+            this.entries.delete(id);
+         }
+      });
+      return prompts;
+   }
+
+   /**
+    * Discards cached prompts so that they are fetched again
+    * @param id The prompt id to discard, or undefined to discard every id
+    */
+   invalidate(id?: string): void {
+      if (id === undefined) {
+         this.entries.clear();
+      } else {
+         this.entries.delete(id);
+      }
+   }
+}
+
+/**
+ * Implementation of IAsyncPromptRepository over any backend. Prompts may extend other prompts and include
+ * partials, see PromptComposition; the prompts referenced are fetched from the same backend.
+ */
+export class AsyncPromptRepository implements IAsyncPromptRepository {
+   /**
+    * @param backend The backend to fetch prompts from, wrapped in a CachingPromptBackend to avoid fetching on every call
+    * @param fragments Named fragments that prompts can include with "{> name}"
+    */
+   constructor(readonly backend: IPromptBackend, private readonly fragments: IPromptFragment[] = []) {
+   }
+
+   async getPrompt(id: string, selector?: string | IPromptSelector): Promise<IPrompt | undefined> {
+      const { version, locale } = parsePromptSelector(selector);
+      const selected = selectPromptVersion(await this.backend.fetchPromptVersions(id), version);
+      if (selected === undefined) {
+         return undefined;
+      }
+      const prompt = localizePrompt(selected, locale);
+
+      // Composition is synchronous, so fetch everything the prompt refers to first
+      const references = new Map<string, IPrompt | undefined>();
+      await this.fetchReferences(prompt, locale, references);
+      return resolvePromptComposition(prompt, referenceId => references.get(referenceId), this.fragments);
+   }
+
+   async listVersions(id: string): Promise<string[]> {
+      return sortPromptVersions((await this.backend.fetchPromptVersions(id)).map(p => p.version));
+   }
+
+   expandSystemPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string {
+      throwIfUndefined(prompt.systemPrompt);
+      // TypeScript doesn't recognize throwIfUndefined as a type guard, so use non-null assertion
+      return replacePromptPlaceholders(prompt.systemPrompt!, prompt.systemPromptParameters, params);
+   }
+
+   expandUserPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string {
+      return replacePromptPlaceholders(prompt.userPrompt, prompt.userPromptParameters, params);
+   }
+
+   // Fetches the latest version of each prompt referenced, directly or indirectly, localized in the same locale
+   private async fetchReferences(prompt: IPrompt, locale: string | undefined, fetched: Map<string, IPrompt | undefined>): Promise<void> {
+      for (const name of findPromptReferences(prompt)) {
+         // A partial naming a fragment does not refer to a prompt
+         if (fetched.has(name) || (name !== prompt.extends && this.fragments.some(f => f.name === name))) {
+            continue;
+         }
+         const latest = selectPromptVersion(await this.backend.fetchPromptVersions(name));
+         const reference = latest && localizePrompt(latest, locale);
+         fetched.set(name, reference);
+         if (reference !== undefined) {
+            await this.fetchReferences(reference, locale, fetched);
+         }
+      }
+   }
+}
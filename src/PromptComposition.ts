@@ -0,0 +1,174 @@
+/**
+ * @module PromptComposition
+ *
+ * Composition of prompts from shared parts, so that common preambles (safety rules, tone,
+ * output format) are written once rather than copied between prompts:
+ * - A template may include a partial with "{> name}". The name refers to a fragment supplied to
+ *   the repository or, failing that, to another prompt id. A prompt used as a partial contributes
+ *   its system prompt to a system prompt and its user prompt to a user prompt.
+ * - A prompt may name a base prompt in "extends". It inherits the base system prompt if it has none
+ *   of its own, and the base parameter specifications, with its own specifications taking precedence.
+ *
+ * Partials and bases may themselves be composed. Cycles are detected and reported.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IPrompt, IPromptParameterSpec, InvalidOperationError } from "./entry";
+import { expandPromptTemplatePartials, findPromptTemplatePartials } from "./PromptTemplate";
+
+/**
+ * A named piece of template text that prompts can include with "{> name}"
+ *
+ * @interface IPromptFragment
+ * @property {string} name - The name used to include the fragment
+ * @property {string} text - The template text
+ * @property {IPromptParameterSpec[]} [parameters] - Specifications for the parameters the text uses
+ */
+export interface IPromptFragment {
+   name: string;
+   text: string;
+   parameters?: IPromptParameterSpec[] | undefined;
+}
+
+/**
+ * Looks up the prompt to use for an id referenced by a partial or by "extends"
+ */
+export type PromptLookup = (id: string) => IPrompt | undefined;
+
+type TemplateKind = "system" | "user";
+
+// Merges parameter specifications by name; entries in 'own' replace those in 'inherited'
+function mergeParameters(inherited: IPromptParameterSpec[] | undefined, own: IPromptParameterSpec[] | undefined): IPromptParameterSpec[] | undefined {
+   if (inherited === undefined || inherited.length === 0) {
+      return own;
+   }
+   const merged = inherited.filter(spec => !own?.some(o => o.name === spec.name));
+   return [...merged, ...(own ?? [])];
+}
+
+class PromptComposer {
+   // Names of the prompts and partials being resolved, outermost first, used to detect cycles
+   private readonly stack: string[] = [];
+
+   constructor(private readonly lookup: PromptLookup,
+      private readonly fragments: IPromptFragment[]) {
+   }
+
+   resolve(prompt: IPrompt): IPrompt {
+      return this.within(prompt.id, () => {
+         let systemPrompt = prompt.systemPrompt;
+         let systemPromptParameters = prompt.systemPromptParameters;
+         let userPromptParameters = prompt.userPromptParameters;
+
+         if (prompt.extends !== undefined) {
+            const resolvedBase = this.resolveBase(prompt);
+            systemPrompt = systemPrompt ?? resolvedBase.systemPrompt;
+            systemPromptParameters = mergeParameters(resolvedBase.systemPromptParameters, systemPromptParameters);
+            userPromptParameters = mergeParameters(resolvedBase.userPromptParameters, userPromptParameters);
+         }
+
+         const resolved: IPrompt = { ...prompt, systemPromptParameters, userPromptParameters };
+         if (systemPrompt !== undefined) {
+            const expanded = this.expand(systemPrompt, "system");
+            resolved.systemPrompt = expanded.template;
+            resolved.systemPromptParameters = mergeParameters(expanded.parameters, systemPromptParameters);
+         }
+         const expanded = this.expand(prompt.userPrompt, "user");
+         resolved.userPrompt = expanded.template;
+         resolved.userPromptParameters = mergeParameters(expanded.parameters, userPromptParameters);
+
+         return resolved;
+      });
+   }
+
+   private resolveBase(prompt: IPrompt): IPrompt {
+      const base = this.lookup(prompt.extends!);
+      if (base === undefined) {
+         throw new InvalidOperationError(`Prompt ${prompt.id} extends unknown prompt: ${prompt.extends}`);
+      }
+      return this.resolve(base);
+   }
+
+   private within<T>(name: string, fn: () => T): T {
+      if (this.stack.includes(name)) {
+         throw new InvalidOperationError(`Prompt ${this.stack[0]} has a cycle in its composition: ${[...this.stack, name].join(" -> ")}`);
+      }
+      this.stack.push(name);
+      try {
+         return fn();
+      } finally {
+         this.stack.pop();
+      }
+   }
+
+   // Expands the partials in a template, returning the parameter specifications the partials bring with them
+   private expand(template: string, kind: TemplateKind): { template: string, parameters: IPromptParameterSpec[] } {
+      let parameters: IPromptParameterSpec[] = [];
+
+      const text = expandPromptTemplatePartials(template, name => this.within(name, () => {
+         const part = this.findPartial(name, kind);
+         const expanded = this.expand(part.text, kind);
+         parameters = mergeParameters(parameters, mergeParameters(expanded.parameters, part.parameters)) ?? [];
+         return expanded.template;
+      }));
+
+      return { template: text, parameters };
+   }
+
+   private findPartial(name: string, kind: TemplateKind): { text: string, parameters: IPromptParameterSpec[] | undefined } {
+      const fragment = this.fragments.find(f => f.name === name);
+      if (fragment) {
+         return { text: fragment.text, parameters: fragment.parameters };
+      }
+
+      const promptId = this.stack[0];
+      const prompt = this.lookup(name);
+      if (prompt === undefined) {
+         throw new InvalidOperationError(`Prompt ${promptId} includes unknown partial: ${name}`);
+      }
+      // A prompt used as a partial brings its inherited parts; its own partials are expanded by the caller
+      const base = prompt.extends !== undefined ? this.resolveBase(prompt) : undefined;
+      if (kind === "system") {
+         const text = prompt.systemPrompt ?? base?.systemPrompt;
+         if (text === undefined) {
+            throw new InvalidOperationError(`Prompt ${promptId} includes ${name} in its system prompt, but ${name} has no system prompt`);
+         }
+         return { text, parameters: mergeParameters(base?.systemPromptParameters, prompt.systemPromptParameters) };
+      }
+      return { text: prompt.userPrompt, parameters: mergeParameters(base?.userPromptParameters, prompt.userPromptParameters) };
+   }
+}
+
+/**
+ * Finds the prompts and fragments a prompt refers to, through "extends" and through partials in its templates
+ * @param prompt The prompt
+ * @returns The distinct names referred to, the base prompt first
+ */
+export function findPromptReferences(prompt: IPrompt): string[] {
+   const names = new Set<string>();
+   if (prompt.extends !== undefined) {
+      names.add(prompt.extends);
+   }
+   for (const template of [prompt.systemPrompt, prompt.userPrompt]) {
+      if (template !== undefined) {
+         findPromptTemplatePartials(template).forEach(name => names.add(name));
+      }
+   }
+   return Array.from(names);
+}
+
+/**
+ * Resolves "extends" and partials in a prompt, returning a prompt whose templates and parameter
+ * specifications are complete. Prompts with no composition are returned unchanged.
+ * @param prompt The prompt to resolve
+ * @param lookup Finds a prompt by id, for bases and partials
+ * @param fragments Named fragments, which take precedence over prompts when resolving partials
+ * @returns The resolved prompt
+ * @throws {InvalidOperationError} If a base or partial cannot be found, or the references form a cycle
+ */
+export function resolvePromptComposition(prompt: IPrompt, lookup: PromptLookup, fragments: IPromptFragment[] = []): IPrompt {
+   if (findPromptReferences(prompt).length === 0) {
+      return prompt;
+   }
+   return new PromptComposer(lookup, fragments).resolve(prompt);
+}
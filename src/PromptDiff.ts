@@ -0,0 +1,435 @@
+/**
+ * @module PromptDiff
+ *
+ * Compares prompts so that a release can be reviewed for what changed, not just that a file did.
+ * Reports prompts added and removed, line diffs of the system and user prompt text, and changes to
+ * parameter specifications. Each change is classified as breaking, if a caller that expanded the
+ * old prompt successfully may now fail (e.g. a new required parameter, or a removed enum value), or
+ * non-breaking. The result can be formatted as plain text or as a Markdown changelog.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IPrompt, IPromptParameterSpec, InvalidParameterError } from "./entry";
+import { selectPromptVersion } from "./PromptVersion";
+
+/**
+ * Whether a change may break existing callers
+ */
+export enum EPromptChangeSeverity {
+   kBreaking = "kBreaking",
+   kNonBreaking = "kNonBreaking"
+}
+
+/**
+ * A single change to a prompt
+ *
+ * @interface IPromptChange
+ * @property {EPromptChangeSeverity} severity - Whether the change may break existing callers
+ * @property {string} field - The field changed e.g. "userPromptParameters.CITY"
+ * @property {string} message - Describes the change
+ */
+export interface IPromptChange {
+   severity: EPromptChangeSeverity;
+   field: string;
+   message: string;
+}
+
+/**
+ * A line of a text diff. Unchanged lines are kept so the diff can be read in context.
+ *
+ * @interface IPromptTextDiffLine
+ * @property {string} kind - "added", "removed" or "unchanged"
+ * @property {string} text - The text of the line
+ */
+export interface IPromptTextDiffLine {
+   kind: "added" | "removed" | "unchanged";
+   text: string;
+}
+
+/**
+ * The differences between two versions of a prompt
+ *
+ * @interface IPromptDiff
+ * @property {string} id - The prompt id
+ * @property {string} name - The name of the newer prompt
+ * @property {string} fromVersion - The version compared from
+ * @property {string} toVersion - The version compared to
+ * @property {IPromptChange[]} changes - Changes to fields and parameter specifications
+ * @property {IPromptTextDiffLine[]} [systemPromptDiff] - Line diff of the system prompt, if it changed
+ * @property {IPromptTextDiffLine[]} [userPromptDiff] - Line diff of the user prompt, if it changed
+ */
+export interface IPromptDiff {
+   id: string;
+   name: string;
+   fromVersion: string;
+   toVersion: string;
+   changes: IPromptChange[];
+   systemPromptDiff?: IPromptTextDiffLine[] | undefined;
+   userPromptDiff?: IPromptTextDiffLine[] | undefined;
+}
+
+/**
+ * The differences between two sets of prompts, such as two releases of a prompt file
+ *
+ * @interface IPromptSetDiff
+ * @property {IPrompt[]} added - Prompts whose ids are only in the newer set
+ * @property {IPrompt[]} removed - Prompts whose ids are only in the older set
+ * @property {IPromptDiff[]} changed - Prompts in both sets that differ, comparing the latest version of each
+ */
+export interface IPromptSetDiff {
+   added: IPrompt[];
+   removed: IPrompt[];
+   changed: IPromptDiff[];
+}
+
+/**
+ * Tests whether a diff holds any breaking change. Removing a prompt is breaking.
+ * @param diff The diff of a prompt or of a set of prompts
+ * @returns True if a caller of the older prompts may fail with the newer ones
+ */
+export function hasBreakingPromptChanges(diff: IPromptDiff | IPromptSetDiff): boolean {
+   const diffs = "changed" in diff ? diff.changed : [diff];
+   return ("removed" in diff && diff.removed.length > 0) ||
+      diffs.some(d => d.changes.some(c => c.severity === EPromptChangeSeverity.kBreaking));
+}
+
+/**
+ * Diffs two texts line by line, using the longest common subsequence of lines
+ * @param before The older text
+ * @param after The newer text
+ * @returns The lines of both texts, in order, each marked as added, removed or unchanged
+ */
+export function diffPromptText(before: string, after: string): IPromptTextDiffLine[] {
+   const a = before.split("\n");
+   const b = after.split("\n");
+
+   // common[i][j] is the length of the longest common subsequence of a[i..] and b[j..]
+   const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+   for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+         common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+   }
+
+   const lines: IPromptTextDiffLine[] = [];
+   let i = 0;
+   let j = 0;
+   while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+         lines.push({ kind: "unchanged", text: a[i++] });
+         j++;
+      } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+         // Removed lines come before the lines that replace them
+         lines.push({ kind: "removed", text: a[i++] });
+      } else {
+         lines.push({ kind: "added", text: b[j++] });
+      }
+   }
+   return lines;
+}
+
+function describeValue(value: unknown): string {
+   return value === undefined ? "none" : JSON.stringify(value);
+}
+
+/**
+ * Collects changes, sharing the field prefix of a parameter
+ */
+class PromptChangeCollector {
+   readonly changes: IPromptChange[] = [];
+
+   breaking(field: string, message: string): void {
+      this.changes.push({ severity: EPromptChangeSeverity.kBreaking, field, message });
+   }
+
+   nonBreaking(field: string, message: string): void {
+      this.changes.push({ severity: EPromptChangeSeverity.kNonBreaking, field, message });
+   }
+}
+
+// A bound that moves to admit fewer values is breaking; one that moves to admit more is not
+function compareBound(before: IPromptParameterSpec, after: IPromptParameterSpec, key: "min" | "max" | "minLength" | "maxLength",
+   field: string, collector: PromptChangeCollector): void {
+
+   const old = before[key];
+   const current = after[key];
+   if (old === current) {
+      return;
+   }
+   const lower = key === "min" || key === "minLength";
+   const message = `${key} changed from ${describeValue(old)} to ${describeValue(current)}`;
+   let tighter: boolean;
+   if (current === undefined) {
+      tighter = false;
+   } else if (old === undefined) {
+      tighter = true;
+   } else {
+      // Dates are ISO strings, which order correctly as text
+      tighter = lower ? current > old : current < old;
+   }
+   if (tighter) {
+      collector.breaking(field, message);
+   } else {
+      collector.nonBreaking(field, message);
+   }
+}
+
+function compareParameter(before: IPromptParameterSpec, after: IPromptParameterSpec, field: string, collector: PromptChangeCollector): void {
+   if (before.type !== after.type) {
+      collector.breaking(field, `type changed from ${before.type} to ${after.type}`);
+   }
+   if (!before.required && after.required) {
+      collector.breaking(field, `${after.name} is now required`);
+   } else if (before.required && !after.required) {
+      collector.nonBreaking(field, `${after.name} is now optional`);
+   }
+
+   if (before.allowedValues !== undefined || after.allowedValues !== undefined) {
+      if (after.allowedValues === undefined) {
+         collector.nonBreaking(field, `allowed values are no longer restricted`);
+      } else if (before.allowedValues === undefined) {
+         collector.breaking(field, `values are now restricted to: ${after.allowedValues.join(", ")}`);
+      } else {
+         const removed = before.allowedValues.filter(v => !after.allowedValues!.includes(v));
+         const added = after.allowedValues.filter(v => !before.allowedValues!.includes(v));
+         if (removed.length > 0) {
+            collector.breaking(field, `allowed values removed: ${removed.join(", ")}`);
+         }
+         if (added.length > 0) {
+            collector.nonBreaking(field, `allowed values added: ${added.join(", ")}`);
+         }
+      }
+   }
+
+   for (const key of ["min", "max", "minLength", "maxLength"] as const) {
+      compareBound(before, after, key, field, collector);
+   }
+   if (before.pattern !== after.pattern) {
+      const message = `pattern changed from ${describeValue(before.pattern)} to ${describeValue(after.pattern)}`;
+      if (after.pattern === undefined) {
+         collector.nonBreaking(field, message);
+      } else {
+         collector.breaking(field, message);
+      }
+   }
+   if (JSON.stringify(before.schema) !== JSON.stringify(after.schema)) {
+      if (after.schema === undefined) {
+         collector.nonBreaking(field, `schema removed`);
+      } else {
+         // A schema change cannot be classified without comparing the schemas in depth, so assume the worst
+         collector.breaking(field, `schema changed`);
+      }
+   }
+   if (JSON.stringify(before.defaultValue) !== JSON.stringify(after.defaultValue)) {
+      collector.nonBreaking(field, `default value changed from ${describeValue(before.defaultValue)} to ${describeValue(after.defaultValue)}`);
+   }
+   if (before.description !== after.description) {
+      collector.nonBreaking(field, `description changed`);
+   }
+}
+
+function compareParameters(before: IPromptParameterSpec[] | undefined, after: IPromptParameterSpec[] | undefined, paramsKey: string,
+   collector: PromptChangeCollector): void {
+
+   const old = before ?? [];
+   const current = after ?? [];
+   for (const spec of current) {
+      const field = `${paramsKey}.${spec.name}`;
+      const previous = old.find(p => p.name === spec.name);
+      if (previous === undefined) {
+         if (spec.required) {
+            collector.breaking(field, `new required parameter ${spec.name}`);
+         } else {
+            collector.nonBreaking(field, `new optional parameter ${spec.name}`);
+         }
+      } else {
+         compareParameter(previous, spec, field, collector);
+      }
+   }
+   for (const spec of old.filter(p => !current.some(c => c.name === p.name))) {
+      // Callers may still pass the parameter; it is ignored
+      collector.nonBreaking(`${paramsKey}.${spec.name}`, `parameter ${spec.name} removed`);
+   }
+}
+
+/**
+ * Compares two versions of a prompt. The prompts are compared as defined, without resolving "extends" or partials.
+ * @param before The older prompt
+ * @param after The newer prompt
+ * @returns The differences, with no changes if the prompts are the same
+ */
+export function diffPromptVersions(before: IPrompt, after: IPrompt): IPromptDiff {
+   const collector = new PromptChangeCollector();
+
+   if (before.name !== after.name) {
+      collector.nonBreaking("name", `name changed from ${describeValue(before.name)} to ${describeValue(after.name)}`);
+   }
+   if (before.description !== after.description) {
+      collector.nonBreaking("description", "description changed");
+   }
+   if (before.extends !== after.extends) {
+      collector.nonBreaking("extends", `extends changed from ${describeValue(before.extends)} to ${describeValue(after.extends)}`);
+   }
+
+   let systemPromptDiff: IPromptTextDiffLine[] | undefined;
+   if (before.systemPrompt !== after.systemPrompt) {
+      if (after.systemPrompt === undefined) {
+         // expandSystemPrompt fails for a prompt with no system prompt
+         collector.breaking("systemPrompt", "system prompt removed");
+      } else {
+         collector.nonBreaking("systemPrompt", before.systemPrompt === undefined ? "system prompt added" : "system prompt text changed");
+      }
+      systemPromptDiff = diffPromptText(before.systemPrompt ?? "", after.systemPrompt ?? "");
+   }
+   let userPromptDiff: IPromptTextDiffLine[] | undefined;
+   if (before.userPrompt !== after.userPrompt) {
+      collector.nonBreaking("userPrompt", "user prompt text changed");
+      userPromptDiff = diffPromptText(before.userPrompt, after.userPrompt);
+   }
+
+   compareParameters(before.systemPromptParameters, after.systemPromptParameters, "systemPromptParameters", collector);
+   compareParameters(before.userPromptParameters, after.userPromptParameters, "userPromptParameters", collector);
+
+   const oldLocales = Object.keys(before.locales ?? {});
+   const newLocales = Object.keys(after.locales ?? {});
+   for (const locale of newLocales.filter(l => !oldLocales.includes(l))) {
+      collector.nonBreaking(`locales.${locale}`, `locale ${locale} added`);
+   }
+   for (const locale of oldLocales.filter(l => !newLocales.includes(l))) {
+      // Callers asking for the locale fall back to another, so still succeed
+      collector.nonBreaking(`locales.${locale}`, `locale ${locale} removed`);
+   }
+   for (const locale of newLocales.filter(l => oldLocales.includes(l))) {
+      if (JSON.stringify(before.locales![locale]) !== JSON.stringify(after.locales![locale])) {
+         collector.nonBreaking(`locales.${locale}`, `locale ${locale} text changed`);
+      }
+   }
+
+   return {
+      id: after.id,
+      name: after.name,
+      fromVersion: before.version,
+      toVersion: after.version,
+      changes: collector.changes,
+      systemPromptDiff,
+      userPromptDiff
+   };
+}
+
+/**
+ * Compares two sets of prompts, such as two releases of a prompt file. Where an id has several versions,
+ * the latest released version in each set is compared.
+ * @param before The older prompts
+ * @param after The newer prompts
+ * @returns The prompts added, removed and changed
+ */
+export function diffPromptSets(before: IPrompt[], after: IPrompt[]): IPromptSetDiff {
+   const latest = (prompts: IPrompt[], id: string) => selectPromptVersion(prompts.filter(p => p.id === id))!;
+   const oldIds = Array.from(new Set(before.map(p => p.id)));
+   const newIds = Array.from(new Set(after.map(p => p.id)));
+
+   const changed: IPromptDiff[] = [];
+   for (const id of newIds.filter(i => oldIds.includes(i))) {
+      const diff = diffPromptVersions(latest(before, id), latest(after, id));
+      if (diff.changes.length > 0 || diff.fromVersion !== diff.toVersion) {
+         changed.push(diff);
+      }
+   }
+   return {
+      added: newIds.filter(id => !oldIds.includes(id)).map(id => latest(after, id)),
+      removed: oldIds.filter(id => !newIds.includes(id)).map(id => latest(before, id)),
+      changed
+   };
+}
+
+/**
+ * Compares two versions of one prompt id within a set of prompts
+ * @param prompts The prompts, holding both versions
+ * @param id The prompt id
+ * @param fromVersion The older version, or a range selecting it
+ * @param toVersion The newer version, or a range selecting it. Defaults to the latest released version.
+ * @returns The differences
+ * @throws {InvalidParameterError} If either version is not found
+ */
+export function diffPromptIdVersions(prompts: IPrompt[], id: string, fromVersion: string, toVersion?: string): IPromptDiff {
+   const versions = prompts.filter(p => p.id === id);
+   const before = selectPromptVersion(versions, fromVersion);
+   const after = selectPromptVersion(versions, toVersion);
+   if (before === undefined || after === undefined) {
+      throw new InvalidParameterError(`Prompt ${id} has no version matching ${before === undefined ? fromVersion : toVersion}`);
+   }
+   return diffPromptVersions(before, after);
+}
+
+function formatChange(change: IPromptChange): string {
+   return `${change.severity === EPromptChangeSeverity.kBreaking ? "breaking" : "change"}: ${change.field}: ${change.message}`;
+}
+
+/**
+ * Formats a diff as plain text, one line per change
+ * @param diff The diff of a prompt or of a set of prompts
+ * @returns The text, empty if nothing changed
+ */
+export function formatPromptDiff(diff: IPromptDiff | IPromptSetDiff): string {
+   const lines: string[] = [];
+   const diffs = "changed" in diff ? diff.changed : [diff];
+   if ("changed" in diff) {
+      diff.added.forEach(p => lines.push(`[${p.id}] added: ${p.name} ${p.version}`));
+      diff.removed.forEach(p => lines.push(`[${p.id}] breaking: removed: ${p.name} ${p.version}`));
+   }
+   for (const d of diffs) {
+      lines.push(`[${d.id}] ${d.fromVersion} -> ${d.toVersion}`);
+      d.changes.forEach(change => lines.push(`    ${formatChange(change)}`));
+   }
+   return lines.join("\n");
+}
+
+function formatTextDiff(title: string, lines: IPromptTextDiffLine[]): string[] {
+   const marks = { added: "+ ", removed: "- ", unchanged: "  " };
+   return [`**${title}**`, "", "```diff", ...lines.map(line => marks[line.kind] + line.text), "```", ""];
+}
+
+/**
+ * Formats a diff as a Markdown changelog, listing breaking changes first
+ * @param diff The diff of a prompt or of a set of prompts
+ * @param title The heading of the changelog
+ * @returns The Markdown text
+ */
+export function formatPromptChangelog(diff: IPromptDiff | IPromptSetDiff, title: string = "Prompt changes"): string {
+   const lines: string[] = [`# ${title}`, ""];
+   const diffs = "changed" in diff ? diff.changed : [diff];
+
+   if ("changed" in diff) {
+      if (diff.added.length > 0) {
+         lines.push("## Added", "", ...diff.added.map(p => `- **${p.name}** (\`${p.id}\`) ${p.version}`), "");
+      }
+      if (diff.removed.length > 0) {
+         lines.push("## Removed (breaking)", "", ...diff.removed.map(p => `- **${p.name}** (\`${p.id}\`) ${p.version}`), "");
+      }
+      if (diffs.length > 0) {
+         lines.push("## Changed", "");
+      }
+   }
+   if (diffs.length === 0 && lines.length === 2) {
+      lines.push("No changes.", "");
+   }
+
+   for (const d of diffs) {
+      lines.push(`### ${d.name} (\`${d.id}\`) ${d.fromVersion} → ${d.toVersion}`, "");
+      const breaking = d.changes.filter(c => c.severity === EPromptChangeSeverity.kBreaking);
+      const other = d.changes.filter(c => c.severity === EPromptChangeSeverity.kNonBreaking);
+      if (breaking.length > 0) {
+         lines.push("**Breaking**", "", ...breaking.map(c => `- \`${c.field}\`: ${c.message}`), "");
+      }
+      if (other.length > 0) {
+         lines.push("**Non-breaking**", "", ...other.map(c => `- \`${c.field}\`: ${c.message}`), "");
+      }
+      if (d.systemPromptDiff) {
+         lines.push(...formatTextDiff("System prompt", d.systemPromptDiff));
+      }
+      if (d.userPromptDiff) {
+         lines.push(...formatTextDiff("User prompt", d.userPromptDiff));
+      }
+   }
+   return lines.join("\n");
+}
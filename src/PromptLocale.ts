@@ -0,0 +1,94 @@
+/**
+ * @module PromptLocale
+ *
+ * Localization of prompts. A prompt may carry variants of its system prompt, user prompt and
+ * parameter descriptions for each locale it is translated into, so that one prompt id serves
+ * every language rather than one id per locale. A variant is chosen by BCP-47 fallback: a
+ * request for "fr-CA" uses the "fr-CA" variant, then "fr", then the prompt's own text.
+ * Fallback is per field, so a regional variant need only hold the text that differs.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IPrompt, IPromptParameterSpec, IPromptSelector, InvalidParameterError } from "./entry";
+
+// A language subtag followed by optional script, region and variant subtags e.g. "fr", "fr-CA", "zh-Hant-TW"
+const localePattern = /^[A-Za-z]{2,8}(-[A-Za-z0-9]{1,8})*$/;
+
+/**
+ * Tests whether a string is a well formed BCP-47 language tag. Underscores are accepted in place of hyphens.
+ * @param locale The tag e.g. "fr-CA"
+ * @returns True if the tag is well formed
+ */
+export function isValidLocale(locale: string): boolean {
+   return localePattern.test(locale.replace(/_/g, "-"));
+}
+
+/**
+ * Lists the locales to try for a request, most specific first
+ * @param locale The locale requested e.g. "zh-Hant-TW"
+ * @returns The locale and each of its parents e.g. ["zh-Hant-TW", "zh-Hant", "zh"]
+ * @throws {InvalidParameterError} If the locale is not a well formed language tag
+ */
+export function findLocaleFallbacks(locale: string): string[] {
+   if (!isValidLocale(locale)) {
+      throw new InvalidParameterError(`Invalid locale "${locale}", expected a BCP-47 language tag e.g. "fr-CA"`);
+   }
+   const subtags = locale.replace(/_/g, "-").split("-");
+   const fallbacks: string[] = [];
+   for (let count = subtags.length; count > 0; count--) {
+      fallbacks.push(subtags.slice(0, count).join("-"));
+   }
+   return fallbacks;
+}
+
+/**
+ * Splits the second argument of getPrompt into a version range and a locale
+ * @param selector A version range, or an object naming a version range and a locale
+ * @returns The parts, each undefined if not given
+ */
+export function parsePromptSelector(selector: string | IPromptSelector | undefined): IPromptSelector {
+   return typeof selector === "string" ? { version: selector } : { version: selector?.version, locale: selector?.locale };
+}
+
+/**
+ * Applies the variant for a locale to a prompt. Fields the variant does not define fall back to the
+ * parent locale and then to the prompt's own text.
+ * @param prompt The prompt
+ * @param locale The locale requested, or undefined for the prompt's own text
+ * @returns A copy of the prompt holding the localized text, or the prompt itself if it has no variant for the locale
+ * @throws {InvalidParameterError} If the locale is not a well formed language tag
+ */
+export function localizePrompt(prompt: IPrompt, locale: string | undefined): IPrompt {
+   if (locale === undefined) {
+      return prompt;
+   }
+   const fallbacks = findLocaleFallbacks(locale).map(tag => tag.toLowerCase());
+   const locales = prompt.locales ?? {};
+   // Locale keys are matched without regard to case, most specific first
+   const variants = fallbacks
+      .map(tag => Object.keys(locales).find(key => key.replace(/_/g, "-").toLowerCase() === tag))
+      .filter((key): key is string => key !== undefined)
+      .map(key => locales[key]);
+   if (variants.length === 0) {
+      return prompt;
+   }
+
+   const pick = <K extends "systemPrompt" | "userPrompt">(key: K) => variants.find(v => v[key] !== undefined)?.[key];
+   const describe = (specs: IPromptParameterSpec[] | undefined) => specs?.map(spec => {
+      const description = variants.find(v => v.parameterDescriptions?.[spec.name] !== undefined)?.parameterDescriptions?.[spec.name];
+      return description === undefined ? spec : { ...spec, description };
+   });
+
+   const localized: IPrompt = { ...prompt, userPrompt: pick("userPrompt") ?? prompt.userPrompt };
+   const systemPrompt = pick("systemPrompt") ?? prompt.systemPrompt;
+   if (systemPrompt !== undefined) {
+      localized.systemPrompt = systemPrompt;
+   }
+   if (prompt.systemPromptParameters !== undefined) {
+      localized.systemPromptParameters = describe(prompt.systemPromptParameters);
+   }
+   if (prompt.userPromptParameters !== undefined) {
+      localized.userPromptParameters = describe(prompt.userPromptParameters);
+   }
+   return localized;
+}
@@ -0,0 +1,222 @@
+/**
+ * @module PromptMigration
+ *
+ * Schema version migration for prompt definitions. Each IPrompt may carry a
+ * schemaVersion; prompts written against an older schema are brought up to
+ * the current shape by applying registered upgrade steps in sequence, so that
+ * changes to IPrompt do not break the JSON files teams keep in their own repos.
+ *
+ * PromptFileRepository migrates prompts as it loads them. migratePromptFile
+ * rewrites a file in place, and is exposed by the 'migrate' mode of scripts/MakePromptIds.ts.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import type * as fs from 'node:fs';
+
+import { IPrompt, InvalidOperationError, InvalidParameterError } from "./entry";
+import { parsePromptVersion, comparePromptVersions } from "./PromptVersion";
+
+let fsImpl: typeof fs | undefined;
+try {
+   // Only import fs in Node.js environment
+   if (typeof process !== 'undefined' && process.versions?.node) {
+      fsImpl = require('node:fs');
+   }
+} catch (error) {
+   // In browser environments, fs will remain undefined
+}
+
+/**
+ * The schema version that IPrompt currently describes
+ */
+export const CurrentPromptSchemaVersion = "0.2";
+
+/**
+ * The schema version assumed for prompts that do not declare one
+ */
+export const DefaultPromptSchemaVersion = "0.1";
+
+/**
+ * A single upgrade step between two adjacent schema versions
+ *
+ * @interface IPromptMigration
+ * @property {string} fromVersion - The schema version the step upgrades from
+ * @property {string} toVersion - The schema version the step produces
+ * @property {string} description - A short description of the change, used in reports
+ * @property {Function} migrate - Returns an upgraded copy of a prompt. Need not set schemaVersion, the pipeline does that.
+ */
+export interface IPromptMigration {
+   fromVersion: string;
+   toVersion: string;
+   description: string;
+   migrate: (prompt: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Record of a prompt that was migrated
+ *
+ * @interface IPromptMigrationRecord
+ * @property {string} [promptId] - The id of the prompt, if it has one
+ * @property {string} fromVersion - The schema version before migration
+ * @property {string} toVersion - The schema version after migration
+ * @property {string[]} steps - Descriptions of the steps applied, in order
+ */
+export interface IPromptMigrationRecord {
+   promptId: string | undefined;
+   fromVersion: string;
+   toVersion: string;
+   steps: string[];
+}
+
+/**
+ * Result of migrating a set of prompts
+ *
+ * @interface IPromptMigrationResult
+ * @property {IPrompt[]} prompts - The prompts, upgraded where needed
+ * @property {IPromptMigrationRecord[]} migrations - One record per prompt that was changed
+ */
+export interface IPromptMigrationResult {
+   prompts: IPrompt[];
+   migrations: IPromptMigrationRecord[];
+}
+
+/**
+ * Schema 0.2 rejects the misspelled parameter list keys that schema 0.1 silently ignored.
+ * Rename them so that parameter validation applies to older files.
+ */
+const legacyParameterKeysMigration: IPromptMigration = {
+   fromVersion: "0.1",
+   toVersion: "0.2",
+   description: "Rename userPromptsParameters / systemPromptsParameters to userPromptParameters / systemPromptParameters",
+   migrate: (prompt) => {
+      const migrated = { ...prompt };
+      for (const [legacyKey, key] of [["userPromptsParameters", "userPromptParameters"], ["systemPromptsParameters", "systemPromptParameters"]]) {
+         if (legacyKey in migrated) {
+            if (migrated[key] === undefined) {
+               migrated[key] = migrated[legacyKey];
+            }
+            delete migrated[legacyKey];
+         }
+      }
+      return migrated;
+   }
+};
+
+const migrations: IPromptMigration[] = [legacyParameterKeysMigration];
+
+/**
+ * Registers an additional upgrade step. Steps are chained by matching one step's toVersion to the next step's fromVersion.
+ * @param migration The step to register
+ * @throws {InvalidParameterError} If the versions are invalid, do not increase, or a step from the same version already exists
+ */
+export function registerPromptMigration(migration: IPromptMigration): void {
+   const from = parsePromptVersion(migration.fromVersion);
+   const to = parsePromptVersion(migration.toVersion);
+   if (!from || !to) {
+      throw new InvalidParameterError(`Invalid schema version in migration: ${migration.fromVersion} -> ${migration.toVersion}`);
+   }
+   if (comparePromptVersions(from, to) >= 0) {
+      throw new InvalidParameterError(`Migration must increase the schema version: ${migration.fromVersion} -> ${migration.toVersion}`);
+   }
+   if (migrations.some(m => m.fromVersion === migration.fromVersion)) {
+      throw new InvalidParameterError(`A migration from schema version ${migration.fromVersion} is already registered`);
+   }
+   migrations.push(migration);
+}
+
+/**
+ * Removes a previously registered upgrade step
+ * @param migration The step to remove
+ */
+export function unregisterPromptMigration(migration: IPromptMigration): void {
+   const index = migrations.indexOf(migration);
+   if (index >= 0) {
+      migrations.splice(index, 1);
+   }
+}
+
+/**
+ * Upgrades a single prompt to the target schema version. Prompts already at or beyond the target are returned unchanged.
+ * @param prompt The prompt, as parsed from JSON
+ * @param targetVersion The schema version to upgrade to
+ * @returns The upgraded prompt, and a record of the change if one was made
+ * @throws {InvalidOperationError} If the prompt's schema version is invalid or there is no chain of steps to the target
+ */
+export function migratePrompt(prompt: Record<string, unknown>, targetVersion: string = CurrentPromptSchemaVersion):
+   { prompt: Record<string, unknown>, record: IPromptMigrationRecord | undefined } {
+
+   const promptId = typeof prompt.id === "string" ? prompt.id : undefined;
+   const fromVersion = typeof prompt.schemaVersion === "string" ? prompt.schemaVersion : DefaultPromptSchemaVersion;
+   const target = parsePromptVersion(targetVersion);
+   if (!target) {
+      throw new InvalidParameterError(`Invalid target schema version: ${targetVersion}`);
+   }
+
+   let version = fromVersion;
+   let parsed = parsePromptVersion(version);
+   if (!parsed) {
+      throw new InvalidOperationError(`Prompt ${promptId ?? ""} has an invalid schema version: ${version}`);
+   }
+   if (comparePromptVersions(parsed, target) >= 0) {
+      return { prompt, record: undefined };
+   }
+
+   let migrated = prompt;
+   const steps: string[] = [];
+   while (comparePromptVersions(parsed!, target) < 0) {
+      const step = migrations.find(m => m.fromVersion === version);
+      if (!step) {
+         throw new InvalidOperationError(`Prompt ${promptId ?? ""} cannot be migrated: no migration registered from schema version ${version}`);
+      }
+      migrated = { ...step.migrate(migrated), schemaVersion: step.toVersion };
+      steps.push(step.description);
+      version = step.toVersion;
+      parsed = parsePromptVersion(version);
+   }
+
+   return { prompt: migrated, record: { promptId, fromVersion, toVersion: version, steps } };
+}
+
+/**
+ * Upgrades an array of prompts, typically the parsed contents of a prompt JSON file
+ * @param prompts The prompts to upgrade
+ * @param targetVersion The schema version to upgrade to
+ * @returns The upgraded prompts and a record of each prompt that changed
+ * @throws {InvalidOperationError} If the input is not an array of objects, or a prompt cannot be migrated
+ */
+export function migratePrompts(prompts: unknown, targetVersion: string = CurrentPromptSchemaVersion): IPromptMigrationResult {
+   if (!Array.isArray(prompts)) {
+      throw new InvalidOperationError("Prompt file must contain an array of prompts");
+   }
+
+   const result: IPromptMigrationResult = { prompts: [], migrations: [] };
+   for (const prompt of prompts) {
+      if (typeof prompt !== "object" || prompt === null || Array.isArray(prompt)) {
+         throw new InvalidOperationError("Each prompt must be an object");
+      }
+      const { prompt: migrated, record } = migratePrompt(prompt, targetVersion);
+      result.prompts.push(migrated as unknown as IPrompt);
+      if (record) {
+         result.migrations.push(record);
+      }
+   }
+   return result;
+}
+
+/**
+ * Upgrades the prompts in a JSON file, rewriting the file in place if any prompt changed. Only available in Node.js.
+ * @param promptFilePath Path to the JSON file
+ * @param dryRun If true, report what would change without writing the file
+ * @returns The upgraded prompts and a record of each prompt that changed
+ */
+export function migratePromptFile(promptFilePath: string, dryRun: boolean = false): IPromptMigrationResult {
+   if (fsImpl === undefined) {
+      throw new InvalidOperationError("migratePromptFile is not supported in the browser");
+   }
+
+   const result = migratePrompts(JSON.parse(fsImpl.readFileSync(promptFilePath, 'utf8')));
+   if (result.migrations.length > 0 && !dryRun) {
+      fsImpl.writeFileSync(promptFilePath, JSON.stringify(result.prompts, null, 2) + "\n", 'utf8');
+   }
+   return result;
+}
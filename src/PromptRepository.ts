@@ -4,8 +4,8 @@
  * This module provides interfaces and implementations for managing AI prompt storage
  * and retrieval. It includes functionality for:
  * - Storing prompts with metadata (id, version, parameter details)
- * - Retrieving stored prompts by unique identifier
- * - Replacing placeholder values in prompt templates
+ * - Retrieving stored prompts by unique identifier, optionally selecting a version or version range and a locale
+ * - Expanding prompt templates with parameter values
  * 
  * The module exports:
  * - PromptFileRepository implementation using JSON file-based storage
@@ -18,9 +18,9 @@
 // ===Start StrongAI Generated Comment (20260219)===
 // This module provides a small prompt repository system for storing, retrieving, and expanding AI prompt templates with typed parameters. It supports parameterized system and user prompts and enforces parameter requirements and types during expansion.
 // 
-// It exports two repository implementations. PromptFileRepository loads prompts from a JSON file at construction and is only available in Node.js. It reads the file synchronously, looks up prompts by id, and expands system and user prompts with parameter substitution. PromptInMemoryRepository keeps a provided array of prompts in memory and offers the same lookup and expansion methods.
+// It exports two repository implementations. PromptFileRepository loads prompts from a JSON file at construction and is only available in Node.js. It reads the file synchronously, looks up prompts by id, version and locale, and expands system and user prompts. PromptInMemoryRepository keeps a provided array of prompts in memory and offers the same lookup and expansion methods. Both resolve "extends" and partials through PromptComposition.
 // 
-// It also exports replacePromptPlaceholders, which replaces {name} placeholders in a template using a parameter spec. It enforces required parameters, applies default values for optional ones, and validates types: string, number, and enum with allowed values. It throws InvalidParameterError for invalid input.
+// It also exports replacePromptPlaceholders, which expands a template with the PromptTemplate engine: substitution, filters, {#if} and {#each} sections, and doubled braces for literal ones. It enforces required parameters and applies default values for optional ones. Through findParameterViolations it checks each value against its type (string, number, integer, boolean, enum, date, URL, JSON with an optional schema, or a list of strings) and its constraints (min / max, minLength / maxLength, pattern). Every violation is reported in one InvalidParameterError. A prompt without a parameter spec takes no parameters, and its template is returned unchanged.
 // 
 // Key imports from ./entry include IPrompt, IPromptRepository, and IPromptParameterSpec for typing, throwIfUndefined to ensure a system prompt exists before expansion, and error types InvalidOperationError and InvalidParameterError. The Node fs module is conditionally required to avoid browser usage.
 // ===End StrongAI Generated Comment===
@@ -28,11 +28,13 @@
 
 import type * as fs from 'node:fs';
 
-import { IPromptParameterSpec, IPrompt, IPromptRepository, throwIfUndefined, InvalidOperationError, InvalidParameterError } from "./entry";
-
-// Use this to enable future upgrades on the fly. 
-// If the prompt author was using an old version, we may be able to patch. 
-const currentSchemaVersion = "0.1";
+import { IPromptParameterSpec, IPrompt, IPromptRepository, IPromptSelector, PromptParameterValue, throwIfUndefined, InvalidOperationError, InvalidParameterError } from "./entry";
+import { selectPromptVersion, sortPromptVersions } from "./PromptVersion";
+import { readPromptFile } from "./PromptSource";
+import { renderPromptTemplate } from "./PromptTemplate";
+import { validateJsonSchema } from "./JsonSchema";
+import { IPromptFragment, resolvePromptComposition } from "./PromptComposition";
+import { localizePrompt, parsePromptSelector } from "./PromptLocale";
 
 let fsImpl: typeof fs | undefined;
 try {
@@ -45,128 +47,283 @@ try {
   // In browser environments, fs will remain undefined
 }
 
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+function parseDate(value: string | number | undefined): number {
+   return typeof value === "string" && isoDatePattern.test(value) ? Date.parse(value) : NaN;
+}
+
+// Checks the range of a number or date against the min / max constraints of a spec
+function checkRange(spec: IPromptParameterSpec, value: number, parse: (bound: string | number) => number, violations: string[]): void {
+   if (spec.min !== undefined && value < parse(spec.min)) {
+      violations.push(`Parameter ${spec.name} must be at least ${spec.min}`);
+   }
+   if (spec.max !== undefined && value > parse(spec.max)) {
+      violations.push(`Parameter ${spec.name} must be at most ${spec.max}`);
+   }
+}
+
+// Checks a single value against the type and constraints of a spec. kList values are checked by the caller.
+function checkParameterItem(spec: IPromptParameterSpec, item: unknown, violations: string[]): void {
+   const name = spec.name;
+   if (typeof item !== "string") {
+      violations.push(`Parameter ${name} must be a string`);
+      return;
+   }
+
+   switch (spec.type) {
+      case "kNumber":
+         if (item.trim() === "" || isNaN(Number(item))) {
+            violations.push(`Parameter ${name} must be a number`);
+            return;
+         }
+         checkRange(spec, Number(item), Number, violations);
+         break;
+      case "kInteger":
+         if (!/^[+-]?\d+$/.test(item.trim())) {
+            violations.push(`Parameter ${name} must be an integer`);
+            return;
+         }
+         checkRange(spec, Number(item), Number, violations);
+         break;
+      case "kBoolean":
+         if (item !== "true" && item !== "false") {
+            violations.push(`Parameter ${name} must be true or false`);
+         }
+         break;
+      case "kDate": {
+         const date = parseDate(item);
+         if (isNaN(date)) {
+            violations.push(`Parameter ${name} must be an ISO 8601 date e.g. 2026-01-31`);
+            return;
+         }
+         checkRange(spec, date, parseDate, violations);
+         break;
+      }
+      case "kUrl": {
+         let url: URL | undefined;
+         try {
+            url = new URL(item);
+         } catch {
+            url = undefined;
+         }
+         if (url === undefined || (url.protocol !== "http:" && url.protocol !== "https:")) {
+            violations.push(`Parameter ${name} must be an http or https URL`);
+         }
+         break;
+      }
+      case "kJson": {
+         let parsed: unknown;
+         try {
+            parsed = JSON.parse(item);
+         } catch {
+            violations.push(`Parameter ${name} must be valid JSON`);
+            return;
+         }
+         if (spec.schema) {
+            violations.push(...validateJsonSchema(parsed, spec.schema, name));
+         }
+         break;
+      }
+      case "kEnum":
+         if (spec.allowedValues && item) {
+            if (!spec.allowedValues.includes(item)) {
+               violations.push(`Parameter ${name} must be one of: ${spec.allowedValues.join(", ")}`);
+            }
+         }
+         break;
+   }
+
+   if (spec.type !== "kList") {
+      if (spec.minLength !== undefined && item.length < spec.minLength) {
+         violations.push(`Parameter ${name} must be at least ${spec.minLength} characters`);
+      }
+      if (spec.maxLength !== undefined && item.length > spec.maxLength) {
+         violations.push(`Parameter ${name} must be at most ${spec.maxLength} characters`);
+      }
+   }
+   if (spec.pattern !== undefined && !new RegExp(spec.pattern).test(item)) {
+      violations.push(`Parameter ${name} must match the pattern ${spec.pattern}`);
+   }
+}
+
 /**
- * Validates that a parameter value matches its specified type
+ * Checks a parameter value against the type and constraints of its specification
+ * @param spec The parameter specification
+ * @param paramValue The value. Undefined values are not checked, see replacePromptPlaceholders for required parameters.
+ * @returns A message for each violation found, empty if the value is valid
+ */
+export function findParameterViolations(spec: IPromptParameterSpec, paramValue: PromptParameterValue): string[] {
+   const violations: string[] = [];
+   if (paramValue === undefined) {
+      return violations;
+   }
+
+   if (spec.type === "kList") {
+      if (!Array.isArray(paramValue)) {
+         violations.push(`Parameter ${spec.name} must be a list`);
+         return violations;
+      }
+      if (spec.minLength !== undefined && paramValue.length < spec.minLength) {
+         violations.push(`Parameter ${spec.name} must have at least ${spec.minLength} items`);
+      }
+      if (spec.maxLength !== undefined && paramValue.length > spec.maxLength) {
+         violations.push(`Parameter ${spec.name} must have at most ${spec.maxLength} items`);
+      }
+      for (const item of paramValue) {
+         checkParameterItem(spec, item, violations);
+         if (spec.allowedValues && !spec.allowedValues.includes(item)) {
+            violations.push(`Parameter ${spec.name} items must be one of: ${spec.allowedValues.join(", ")}`);
+         }
+      }
+   } else {
+      for (const item of Array.isArray(paramValue) ? paramValue : [paramValue]) {
+         checkParameterItem(spec, item, violations);
+      }
+   }
+
+   // A list of items may repeat the same violation; report each once
+   return Array.from(new Set(violations));
+}
+
+/**
+ * Validates that a parameter value matches its specified type and constraints. For a list value, each item must match.
  * @param paramName The name of the parameter to validate
  * @param paramValue The value of the parameter to validate
  * @param paramSpec Array of parameter specifications to check against
- * @throws {TypeError} If the parameter value does not match its specified type
+ * @throws {InvalidParameterError} If the parameter value does not match its specification, listing every violation
  */
-
-
-function validateParameterType(paramName: string,
-   paramValue: string | undefined,
+export function validateParameterType(paramName: string,
+   paramValue: PromptParameterValue,
    paramSpec: IPromptParameterSpec[]): void {
    const foundParam = paramSpec.find(p => p.name === paramName);
    if (foundParam) {
-      if (foundParam.type === "kString") {
-         if (typeof paramValue !== "string") {
-            throw new InvalidParameterError(`Parameter ${paramName} must be a string`);
-         }
-      } else if (foundParam.type === "kNumber") {
-         if (isNaN(Number(paramValue))) {
-            throw new InvalidParameterError(`Parameter ${paramName} must be a number`);
-         }
-      } else if (foundParam.type === "kEnum") {
-         if (foundParam.allowedValues && paramValue) {
-            if (!foundParam.allowedValues.includes(paramValue)) {
-               throw new InvalidParameterError(`Parameter ${paramName} must be one of: ${foundParam.allowedValues.join(", ")}`);
-            }
-         }
+      const violations = findParameterViolations(foundParam, paramValue);
+      if (violations.length > 0) {
+         throw new InvalidParameterError(violations.join("; "));
       }
    }
 }
 
 /**
- * Replaces placeholders in a prompt template with actual values
+ * Expands a prompt template with actual values, see PromptTemplate for the template language
  * @param template The prompt template containing placeholders e.g. "Hello {name}"
- * @param paramSpec The parameter specification for the prompt
+ * @param paramSpec The parameter specification for the prompt. A prompt without one takes no parameters,
+ *    and its template is returned unchanged, so braces in it need no escaping.
  * @param params An object containing key-value pairs for placeholder replacements e.g. { name: "Jon" }, may be undefined for optional parameters
  * @returns The prompt with placeholders replaced by actual values e.g. "Hello Jon"
+ * @throws {InvalidParameterError} If required parameters are missing, values do not match their specifications,
+ *    or the template is malformed. Every missing or invalid parameter is listed in the one error.
  */
 export function replacePromptPlaceholders(template: string,
    paramSpec: IPromptParameterSpec[] | undefined,
-   params: { [key: string]: string | undefined }): string {
+   params: { [key: string]: PromptParameterValue }): string {
 
    if (paramSpec === undefined) {
       return template;
    }
 
+   const violations: string[] = [];
    for (const param of paramSpec) {
-      // Check that all required parameters are provided      
-      if (param.required) {
-         if (!params.hasOwnProperty(param.name) || params[param.name] === undefined) {
-            throw new InvalidParameterError(`Missing required parameter: ${param.name}`);
-         }
-         else {
-            validateParameterType(param.name, params[param.name], paramSpec);
-         }
-      }
-      else {
-         // Use default value if parameter is optional, not provided, and has default     
-         if (!params.hasOwnProperty(param.name) || params[param.name] === undefined) {
-            const foundParam = paramSpec.find(p => p.name === param.name);
-            if (foundParam) {
-               params[param.name] = foundParam.defaultValue ?? "";
-            }
+      if (!params.hasOwnProperty(param.name) || params[param.name] === undefined) {
+         if (param.required) {
+            violations.push(`Missing required parameter: ${param.name}`);
          } else {
-            validateParameterType(param.name, params[param.name], paramSpec);
+            // Use default value if parameter is optional, not provided, and has default
+            params[param.name] = param.defaultValue ?? (param.type === "kList" ? [] : "");
          }
+      } else {
+         violations.push(...findParameterViolations(param, params[param.name]));
       }
    }
-   return template.replace(/\{(.*?)}/g, (_, key) => params[key]?.toString() ?? "");
+   if (violations.length > 0) {
+      throw new InvalidParameterError(violations.join("; "));
+   }
+   return renderPromptTemplate(template, params, paramSpec);
+}
+
+// Selects a version of a prompt, localizes it, then resolves its references in the same locale
+function findPrompt(prompts: IPrompt[], id: string, selector: string | IPromptSelector | undefined, fragments: IPromptFragment[]): IPrompt | undefined {
+   const { version, locale } = parsePromptSelector(selector);
+   const prompt = selectPromptVersion(prompts.filter(p => p.id === id), version);
+   if (prompt === undefined) {
+      return undefined;
+   }
+   return resolvePromptComposition(localizePrompt(prompt, locale), referenceId => {
+      const reference = selectPromptVersion(prompts.filter(p => p.id === referenceId));
+      return reference && localizePrompt(reference, locale);
+   }, fragments);
 }
 
 /**
- * Implementation of IPromptRepository that uses a JSON file to store prompts
+ * Implementation of IPromptRepository that uses a JSON or YAML file to store prompts.
+ * Prompts written against an older schema version are migrated to the current schema as they are loaded.
+ * Prompts may extend other prompts and include partials, see PromptComposition.
  */
 export class PromptFileRepository implements IPromptRepository {
    private prompts: IPrompt[] = [];
 
-   constructor(readonly promptFilePath: string) {
+   /**
+    * @param promptFilePath Path to the JSON or YAML file, holding an array of prompts or a single prompt
+    * @param fragments Named fragments that prompts can include with "{> name}"
+    */
+   constructor(readonly promptFilePath: string, private readonly fragments: IPromptFragment[] = []) {
       if (fsImpl === undefined) {
          throw new InvalidOperationError("PromptFileRepository is not supported in the browser");
       }
-      this.prompts = JSON.parse(fsImpl.readFileSync(promptFilePath, 'utf8'));
+      this.prompts = readPromptFile(promptFilePath);
    }
 
-   getPrompt(id: string): IPrompt | undefined {
-      return this.prompts.find(p => p.id === id);
+   getPrompt(id: string, selector?: string | IPromptSelector): IPrompt | undefined {
+      return findPrompt(this.prompts, id, selector, this.fragments);
    }
 
-   expandSystemPrompt(prompt: IPrompt, systemParams: { [key: string]: string | undefined }): string {
+   listVersions(id: string): string[] {
+      return sortPromptVersions(this.prompts.filter(p => p.id === id).map(p => p.version));
+   }
+
+   expandSystemPrompt(prompt: IPrompt, systemParams: { [key: string]: PromptParameterValue }): string {
       
       throwIfUndefined(prompt.systemPrompt);
       // TypeScript doesn't recognize throwIfUndefined as a type guard, so use non-null assertion
       return replacePromptPlaceholders(prompt.systemPrompt!, prompt.systemPromptParameters, systemParams);
    }
 
-   expandUserPrompt(prompt: IPrompt, userParams: { [key: string]: string | undefined }): string {
+   expandUserPrompt(prompt: IPrompt, userParams: { [key: string]: PromptParameterValue }): string {
       return replacePromptPlaceholders(prompt.userPrompt, prompt.userPromptParameters, userParams);
    }
 }
 
 /**
- * Implementation of IPromptRepository that uses an in-memory array to store prompts
+ * Implementation of IPromptRepository that uses an in-memory array to store prompts.
+ * Prompts may extend other prompts and include partials, see PromptComposition.
  */
 export class PromptInMemoryRepository implements IPromptRepository {
    private prompts: IPrompt[] = [];
 
-   constructor(prompts: IPrompt[]) {
+   /**
+    * @param prompts The prompts
+    * @param fragments Named fragments that prompts can include with "{> name}"
+    */
+   constructor(prompts: IPrompt[], private readonly fragments: IPromptFragment[] = []) {
       this.prompts = prompts;
    }
 
-   getPrompt(id: string): IPrompt | undefined {
-      return this.prompts.find(p => p.id === id);
+   getPrompt(id: string, selector?: string | IPromptSelector): IPrompt | undefined {
+      return findPrompt(this.prompts, id, selector, this.fragments);
+   }
+
+   listVersions(id: string): string[] {
+      return sortPromptVersions(this.prompts.filter(p => p.id === id).map(p => p.version));
    }
 
-   expandSystemPrompt(prompt: IPrompt, params: { [key: string]: string | undefined }): string {
+   expandSystemPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string {
       throwIfUndefined(prompt.systemPrompt);
       // TypeScript doesn't recognize throwIfUndefined as a type guard, so use non-null assertion
       return replacePromptPlaceholders(prompt.systemPrompt!, prompt.systemPromptParameters, params);
    }
 
-   expandUserPrompt(prompt: IPrompt, params: { [key: string]: string | undefined }): string {
+   expandUserPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string {
       return replacePromptPlaceholders(prompt.userPrompt, prompt.userPromptParameters, params);
    }
 }
\ No newline at end of file
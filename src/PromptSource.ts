@@ -0,0 +1,275 @@
+/**
+ * @module PromptSource
+ *
+ * Sources of prompts, and a repository that merges several of them. Allows prompts to be
+ * split across many files, so that large teams do not all edit a single Prompts.json:
+ * - PromptFileSource reads one JSON or YAML file
+ * - PromptDirectorySource reads every JSON and YAML file in a directory tree
+ * - PromptArraySource wraps prompts defined in code
+ *
+ * A file may hold a single prompt or an array of prompts. YAML files need the optional js-yaml package.
+ * PromptMultiSourceRepository layers sources so that, for example, in-memory overrides sit on top
+ * of a directory of team prompts, which sits on top of the defaults shipped with a package.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import type * as fs from 'node:fs';
+import type * as pathModule from 'node:path';
+
+import { IPrompt, IPromptRepository, IPromptSelector, PromptParameterValue, InvalidOperationError } from "./entry";
+import { migratePrompts } from "./PromptMigration";
+import { PromptInMemoryRepository } from "./PromptRepository";
+import { IPromptFragment } from "./PromptComposition";
+
+let fsImpl: typeof fs | undefined;
+let pathImpl: typeof pathModule | undefined;
+try {
+   // Only import fs in Node.js environment
+   if (typeof process !== 'undefined' && process.versions?.node) {
+      fsImpl = require('node:fs');
+      pathImpl = require('node:path');
+   }
+} catch (error) {
+   // In browser environments, fs will remain undefined
+}
+
+const jsonExtensions = [".json"];
+const yamlExtensions = [".yaml", ".yml"];
+
+/**
+ * A source of prompts
+ *
+ * @interface IPromptSource
+ * @property {string} name - Describes the source in error messages e.g. a file path
+ * @property {Function} loadPrompts - Reads the prompts, migrated to the current schema
+ */
+export interface IPromptSource {
+   readonly name: string;
+   loadPrompts(): IPrompt[];
+}
+
+/**
+ * Tests whether a file name has an extension used for prompt files
+ * @param filePath The file name or path
+ * @returns True for .json, .yaml and .yml files
+ */
+export function isPromptFile(filePath: string): boolean {
+   const lower = filePath.toLowerCase();
+   return [...jsonExtensions, ...yamlExtensions].some(extension => lower.endsWith(extension));
+}
+
+/**
+ * Parses the text of a prompt file as JSON or YAML, chosen by the file extension. The result is not checked.
+ * @param filePath The path of the file, used to choose the format and in error messages
+ * @param text The contents of the file
+ * @returns The parsed contents
+ * @throws {InvalidOperationError} If a YAML file is read without the js-yaml package installed
+ */
+export function parsePromptFileText(filePath: string, text: string): unknown {
+   const lower = filePath.toLowerCase();
+   if (!yamlExtensions.some(extension => lower.endsWith(extension))) {
+      return JSON.parse(text);
+   }
+
+   let yaml: { load(text: string): unknown };
+   try {
+      yaml = require('js-yaml');
+   } catch (error) {
+      throw new InvalidOperationError(`Reading ${filePath} needs the js-yaml package; install it to use YAML prompt files`);
+   }
+   return yaml.load(text);
+}
+
+/**
+ * Reads a prompt file holding a single prompt or an array of prompts, migrating them to the current schema
+ * @param filePath Path to a JSON or YAML file
+ * @returns The prompts in the file
+ * @throws {InvalidOperationError} If the file does not hold prompts, or in the browser
+ */
+export function readPromptFile(filePath: string): IPrompt[] {
+   if (fsImpl === undefined) {
+      throw new InvalidOperationError("Reading prompt files is not supported in the browser");
+   }
+   const contents = parsePromptFileText(filePath, fsImpl.readFileSync(filePath, 'utf8'));
+   try {
+      return migratePrompts(Array.isArray(contents) ? contents : [contents]).prompts;
+   } catch (error) {
+      throw new InvalidOperationError(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+   }
+}
+
+/**
+ * Lists the prompt files in a directory tree, in a stable order. Files and directories whose names start with "." are skipped.
+ * @param directoryPath The root of the tree
+ * @returns The paths of the .json, .yaml and .yml files found
+ */
+export function findPromptFiles(directoryPath: string): string[] {
+   if (fsImpl === undefined || pathImpl === undefined) {
+      throw new InvalidOperationError("Reading prompt files is not supported in the browser");
+   }
+   const files: string[] = [];
+   const entries = fsImpl.readdirSync(directoryPath, { withFileTypes: true })
+      .filter(entry => !entry.name.startsWith("."))
+      .sort((a, b) => a.name.localeCompare(b.name));
+   for (const entry of entries) {
+      const entryPath = pathImpl.join(directoryPath, entry.name);
+      if (entry.isDirectory()) {
+         files.push(...findPromptFiles(entryPath));
+      } else if (entry.isFile() && isPromptFile(entry.name)) {
+         files.push(entryPath);
+      }
+   }
+   return files;
+}
+
+function promptKey(prompt: IPrompt): string {
+   return `${prompt.id}@${prompt.version}`;
+}
+
+/**
+ * Prompts defined in code
+ */
+export class PromptArraySource implements IPromptSource {
+   constructor(private readonly prompts: IPrompt[], readonly name: string = "in-memory prompts") {
+   }
+
+   loadPrompts(): IPrompt[] {
+      return this.prompts;
+   }
+}
+
+/**
+ * Prompts read from a single JSON or YAML file. Only available in Node.js.
+ */
+export class PromptFileSource implements IPromptSource {
+   constructor(readonly filePath: string) {
+   }
+
+   get name(): string {
+      return this.filePath;
+   }
+
+   loadPrompts(): IPrompt[] {
+      return readPromptFile(this.filePath);
+   }
+}
+
+/**
+ * Prompts read from every JSON and YAML file in a directory tree. Only available in Node.js.
+ */
+export class PromptDirectorySource implements IPromptSource {
+   constructor(readonly directoryPath: string) {
+   }
+
+   get name(): string {
+      return this.directoryPath;
+   }
+
+   /**
+    * @throws {InvalidOperationError} If two files define the same version of a prompt id
+    */
+   loadPrompts(): IPrompt[] {
+      const origins = new Map<string, string>();
+      const prompts: IPrompt[] = [];
+      for (const file of findPromptFiles(this.directoryPath)) {
+         for (const prompt of readPromptFile(file)) {
+            const key = promptKey(prompt);
+            const origin = origins.get(key);
+            if (origin !== undefined) {
+               throw new InvalidOperationError(`Prompt ${prompt.id} version ${prompt.version} is defined in both ${origin} and ${file}`);
+            }
+            origins.set(key, file);
+            prompts.push(prompt);
+         }
+      }
+      return prompts;
+   }
+}
+
+/**
+ * Merges prompts from several sources, listed highest precedence first. A prompt id found in a
+ * higher source hides every version of that id in lower sources, so an override replaces a prompt
+ * outright rather than adding a version to it. Composition ("extends" and partials) may refer
+ * to prompts in any source.
+ */
+export class PromptMultiSourceRepository implements IPromptRepository {
+   // The merged prompts, unresolved, and a repository over them
+   protected prompts: IPrompt[];
+   private repository: PromptInMemoryRepository;
+
+   /**
+    * @param sources The sources, highest precedence first
+    * @param fragments Named fragments that prompts can include with "{> name}"
+    * @throws {InvalidOperationError} If a source defines the same version of a prompt id twice
+    */
+   constructor(protected readonly sources: IPromptSource[], protected readonly fragments: IPromptFragment[] = []) {
+      this.prompts = this.loadPrompts();
+      this.repository = new PromptInMemoryRepository(this.prompts, fragments);
+   }
+
+   /**
+    * Reads all sources again, replacing the prompts held
+    * @throws {InvalidOperationError} If a source defines the same version of a prompt id twice. The prompts held are unchanged.
+    */
+   reload(): void {
+      this.replacePrompts(this.loadPrompts());
+   }
+
+   getPrompt(id: string, selector?: string | IPromptSelector): IPrompt | undefined {
+      return this.repository.getPrompt(id, selector);
+   }
+
+   listVersions(id: string): string[] {
+      return this.repository.listVersions(id);
+   }
+
+   expandSystemPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string {
+      return this.repository.expandSystemPrompt(prompt, params);
+   }
+
+   expandUserPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string {
+      return this.repository.expandUserPrompt(prompt, params);
+   }
+
+   protected replacePrompts(prompts: IPrompt[]): void {
+      this.prompts = prompts;
+      this.repository = new PromptInMemoryRepository(prompts, this.fragments);
+   }
+
+   /**
+    * Reads and merges the prompts from every source
+    * @throws {InvalidOperationError} If a source defines the same version of a prompt id twice
+    */
+   protected loadPrompts(): IPrompt[] {
+      const merged: IPrompt[] = [];
+      const claimedIds = new Set<string>();
+      for (const source of this.sources) {
+         const prompts = source.loadPrompts();
+         const keys = new Set<string>();
+         for (const prompt of prompts) {
+            const key = promptKey(prompt);
+            if (keys.has(key)) {
+               throw new InvalidOperationError(`Prompt ${prompt.id} version ${prompt.version} is defined twice in ${source.name}`);
+            }
+            keys.add(key);
+         }
+         merged.push(...prompts.filter(prompt => !claimedIds.has(prompt.id)));
+         prompts.forEach(prompt => claimedIds.add(prompt.id));
+      }
+      return merged;
+   }
+}
+
+/**
+ * Repository holding every prompt in a directory tree of JSON and YAML files. Only available in Node.js.
+ */
+export class PromptDirectoryRepository extends PromptMultiSourceRepository {
+   /**
+    * @param directoryPath The root of the tree
+    * @param fragments Named fragments that prompts can include with "{> name}"
+    * @throws {InvalidOperationError} If two files define the same version of a prompt id
+    */
+   constructor(readonly directoryPath: string, fragments: IPromptFragment[] = []) {
+      super([new PromptDirectorySource(directoryPath)], fragments);
+   }
+}
@@ -0,0 +1,364 @@
+/**
+ * @module PromptTemplate
+ *
+ * The template language used to expand system and user prompts. Templates support:
+ * - Substitution: "Hello {NAME}"
+ * - Filters applied left to right: "{NAME | trim | upper}", "{CONTEXT | truncate:200}"
+ * - Conditional sections: "{#if CONTEXT}Context: {CONTEXT}{#else}No context.{/if}". A section is taken if
+ *   its parameter is non-empty, or for a kBoolean parameter, if it is "true".
+ * - Loops over list parameters: "{#each EXAMPLES as EXAMPLE}- {EXAMPLE}\n{/each}"
+ * - Literal braces, written doubled: "Reply as JSON e.g. {{\"answer\": 42}}"
+ * - Partials: "{> safety-preamble}" includes a named fragment or another prompt. Partials are
+ *   resolved by the prompt repository (see PromptComposition) before a template is expanded.
+ *
+ * Available filters are upper, lower, trim, json, truncate:N and join:"separator". truncate:N cuts values
+ * longer than N characters to N characters, the last three of which are "...".
+ * Malformed templates throw InvalidParameterError with the line and column of the problem.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IPromptParameterSpec, InvalidParameterError, PromptParameterValue } from "./entry";
+
+interface IFilterCall {
+   name: string;
+   argument: string | undefined;
+}
+
+type TemplateNode =
+   { kind: "text", text: string } |
+   { kind: "value", name: string, filters: IFilterCall[] } |
+   { kind: "if", name: string, then: TemplateNode[], otherwise: TemplateNode[] } |
+   { kind: "each", name: string, item: string, body: TemplateNode[] };
+
+// An open block while parsing, with the position of its opening tag for error reporting
+interface IOpenBlock {
+   node: Extract<TemplateNode, { kind: "if" | "each" }>;
+   line: number;
+   column: number;
+   inElse: boolean;
+}
+
+const namePattern = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+const ifPattern = /^#if\s+(\S+)$/;
+const eachPattern = /^#each\s+(\S+)\s+as\s+(\S+)$/;
+const filterPattern = /^([a-z]+)(?:\s*:\s*(.*))?$/;
+
+type FilterFunction = (value: PromptParameterValue, argument: string | undefined) => PromptParameterValue;
+
+function mapItems(value: PromptParameterValue, fn: (item: string) => string): PromptParameterValue {
+   if (value === undefined) {
+      return undefined;
+   }
+   return Array.isArray(value) ? value.map(fn) : fn(value);
+}
+
+const filters: { [name: string]: FilterFunction } = {
+   upper: (value) => mapItems(value, item => item.toUpperCase()),
+   lower: (value) => mapItems(value, item => item.toLowerCase()),
+   trim: (value) => mapItems(value, item => item.trim()),
+   json: (value) => JSON.stringify(value ?? null),
+   truncate: (value, argument) => {
+      const length = Number(argument);
+      // The ellipsis counts towards the length, so that the result is never longer than N
+      return mapItems(value, item => item.length > length ? (length > 3 ? item.slice(0, length - 3) + "..." : item.slice(0, length)) : item);
+   },
+   join: (value, argument) => Array.isArray(value) ? value.join(argument ?? ", ") : value
+};
+
+// Checks the argument of a filter at parse time, returning an error message if it is not acceptable
+function checkFilterArgument(filter: IFilterCall): string | undefined {
+   if (!(filter.name in filters)) {
+      return `Unknown filter '${filter.name}', expected one of: ${Object.keys(filters).join(", ")}`;
+   }
+   if (filter.name === "truncate" && !/^\d+$/.test(filter.argument ?? "")) {
+      return "Filter 'truncate' needs a length e.g. truncate:100";
+   }
+   if (filter.argument !== undefined && filter.name !== "truncate" && filter.name !== "join") {
+      return `Filter '${filter.name}' does not take an argument`;
+   }
+   return undefined;
+}
+
+function unquote(argument: string | undefined): string | undefined {
+   if (argument !== undefined && argument.length >= 2 && /^(["']).*\1$/.test(argument)) {
+      return argument.slice(1, -1);
+   }
+   return argument;
+}
+
+function templateError(line: number, column: number, message: string): InvalidParameterError {
+   return new InvalidParameterError(`Invalid prompt template at line ${line}, column ${column}: ${message}`);
+}
+
+/**
+ * Parses a template into a tree of nodes
+ * @throws {InvalidParameterError} If the template is malformed
+ */
+function parseTemplate(template: string): TemplateNode[] {
+   const root: TemplateNode[] = [];
+   const open: IOpenBlock[] = [];
+   let text = "";
+   let line = 1;
+   let column = 1;
+
+   const current = (): TemplateNode[] => {
+      const block = open[open.length - 1];
+      if (!block) {
+         return root;
+      }
+      if (block.node.kind === "each") {
+         return block.node.body;
+      }
+      return block.inElse ? block.node.otherwise : block.node.then;
+   };
+   const flushText = () => {
+      if (text.length > 0) {
+         current().push({ kind: "text", text });
+         text = "";
+      }
+   };
+   const advance = (consumed: string) => {
+      for (const ch of consumed) {
+         if (ch === "\n") {
+            line++;
+            column = 1;
+         } else {
+            column++;
+         }
+      }
+   };
+
+   let i = 0;
+   while (i < template.length) {
+      const ch = template[i];
+
+      if ((ch === "{" || ch === "}") && template[i + 1] === ch) {
+         text += ch;
+         advance(ch + ch);
+         i += 2;
+         continue;
+      }
+      if (ch === "}") {
+         throw templateError(line, column, "Unexpected '}', write '}}' for a literal brace");
+      }
+      if (ch !== "{") {
+         text += ch;
+         advance(ch);
+         i++;
+         continue;
+      }
+
+      const end = template.indexOf("}", i + 1);
+      const nested = template.indexOf("{", i + 1);
+      if (end < 0 || (nested >= 0 && nested < end)) {
+         throw templateError(line, column, "Unclosed '{', write '{{' for a literal brace");
+      }
+      const tag = template.slice(i + 1, end).trim();
+      const tagLine = line;
+      const tagColumn = column;
+      flushText();
+
+      let match: RegExpExecArray | null;
+      if ((match = ifPattern.exec(tag))) {
+         requireName(match[1], tagLine, tagColumn);
+         const node: TemplateNode = { kind: "if", name: match[1], then: [], otherwise: [] };
+         current().push(node);
+         open.push({ node, line: tagLine, column: tagColumn, inElse: false });
+      } else if ((match = eachPattern.exec(tag))) {
+         requireName(match[1], tagLine, tagColumn);
+         requireName(match[2], tagLine, tagColumn);
+         const node: TemplateNode = { kind: "each", name: match[1], item: match[2], body: [] };
+         current().push(node);
+         open.push({ node, line: tagLine, column: tagColumn, inElse: false });
+      } else if (tag === "#else") {
+         const block = open[open.length - 1];
+         if (!block || block.node.kind !== "if" || block.inElse) {
+            throw templateError(tagLine, tagColumn, "{#else} without a matching {#if}");
+         }
+         block.inElse = true;
+      } else if (tag === "/if" || tag === "/each") {
+         const kind = tag.slice(1);
+         const block = open.pop();
+         if (!block || block.node.kind !== kind) {
+            throw templateError(tagLine, tagColumn, `{${tag}} without a matching {#${kind}}`);
+         }
+      } else if (tag.startsWith(">")) {
+         throw templateError(tagLine, tagColumn, `Partial {${tag}} has not been resolved`);
+      } else if (tag.startsWith("#") || tag.startsWith("/")) {
+         throw templateError(tagLine, tagColumn, `Unknown block tag {${tag}}`);
+      } else {
+         const [name, ...filterTexts] = tag.split("|").map(part => part.trim());
+         requireName(name, tagLine, tagColumn);
+         const calls: IFilterCall[] = filterTexts.map(filterText => {
+            const filterMatch = filterPattern.exec(filterText);
+            if (!filterMatch) {
+               throw templateError(tagLine, tagColumn, `Invalid filter '${filterText}'`);
+            }
+            const call = { name: filterMatch[1], argument: unquote(filterMatch[2]?.trim()) };
+            const problem = checkFilterArgument(call);
+            if (problem) {
+               throw templateError(tagLine, tagColumn, problem);
+            }
+            return call;
+         });
+         current().push({ kind: "value", name, filters: calls });
+      }
+
+      advance(template.slice(i, end + 1));
+      i = end + 1;
+   }
+
+   flushText();
+   const unclosed = open.pop();
+   if (unclosed) {
+      throw templateError(unclosed.line, unclosed.column, `{#${unclosed.node.kind} ${unclosed.node.name}} is never closed`);
+   }
+   return root;
+}
+
+function requireName(name: string, line: number, column: number): void {
+   if (!namePattern.test(name)) {
+      throw templateError(line, column, `Invalid parameter name '${name}'`);
+   }
+}
+
+function isTruthy(value: PromptParameterValue, isBoolean: boolean): boolean {
+   if (isBoolean && value === "false") {
+      return false;
+   }
+   return Array.isArray(value) ? value.length > 0 : (value !== undefined && value !== "");
+}
+
+function formatValue(value: PromptParameterValue): string {
+   return Array.isArray(value) ? value.join(", ") : (value ?? "");
+}
+
+// booleans holds the names in scope that are kBoolean parameters
+function renderNodes(nodes: TemplateNode[], scope: { [key: string]: PromptParameterValue }, booleans: Set<string>): string {
+   let output = "";
+   for (const node of nodes) {
+      switch (node.kind) {
+         case "text":
+            output += node.text;
+            break;
+         case "value": {
+            let value = scope[node.name];
+            for (const filter of node.filters) {
+               value = filters[filter.name](value, filter.argument);
+            }
+            output += formatValue(value);
+            break;
+         }
+         case "if":
+            output += renderNodes(isTruthy(scope[node.name], booleans.has(node.name)) ? node.then : node.otherwise, scope, booleans);
+            break;
+         case "each": {
+            const value = scope[node.name];
+            const items = Array.isArray(value) ? value : (value === undefined || value === "" ? [] : [value]);
+            // The loop variable hides any parameter of the same name
+            const itemBooleans = new Set(booleans);
+            itemBooleans.delete(node.item);
+            for (const item of items) {
+               output += renderNodes(node.body, { ...scope, [node.item]: item }, itemBooleans);
+            }
+            break;
+         }
+      }
+   }
+   return output;
+}
+
+function collectNames(nodes: TemplateNode[], locals: Set<string>, names: Set<string>): void {
+   for (const node of nodes) {
+      if (node.kind === "text") {
+         continue;
+      }
+      if (!locals.has(node.name)) {
+         names.add(node.name);
+      }
+      if (node.kind === "if") {
+         collectNames(node.then, locals, names);
+         collectNames(node.otherwise, locals, names);
+      } else if (node.kind === "each") {
+         collectNames(node.body, new Set([...locals, node.item]), names);
+      }
+   }
+}
+
+/**
+ * Expands a template with the given parameter values. Missing values expand to an empty string.
+ * A single string passed to {#each} is treated as a list of one item.
+ * @param template The template e.g. "Hello {NAME | upper}"
+ * @param params The parameter values e.g. { NAME: "Jon" }
+ * @param paramSpec The parameter specification, if any. {#if} treats "false" as false for kBoolean parameters.
+ * @returns The expanded text e.g. "Hello JON"
+ * @throws {InvalidParameterError} If the template is malformed
+ */
+export function renderPromptTemplate(template: string, params: { [key: string]: PromptParameterValue },
+   paramSpec: IPromptParameterSpec[] = []): string {
+   const booleans = new Set(paramSpec.filter(spec => spec.type === "kBoolean").map(spec => spec.name));
+   return renderNodes(parseTemplate(template), params, booleans);
+}
+
+/**
+ * Finds the parameters a template refers to, including those only used in {#if} and {#each} tags.
+ * Loop variables introduced by {#each ... as ITEM} are not included.
+ * @param template The template e.g. "{#if CONTEXT}{CONTEXT}{/if} {NAME}"
+ * @returns The distinct parameter names in order of first use e.g. ["CONTEXT", "NAME"]
+ * @throws {InvalidParameterError} If the template is malformed
+ */
+export function findPromptTemplateParameters(template: string): string[] {
+   const names = new Set<string>();
+   collectNames(parseTemplate(template), new Set(), names);
+   return Array.from(names);
+}
+
+// Visits each partial tag in a template, skipping escaped braces, and returns the template with
+// each tag replaced by the visitor's result. Malformed tags are left for parseTemplate to report.
+function replacePartials(template: string, visit: (name: string) => string): string {
+   let output = "";
+   let i = 0;
+   while (i < template.length) {
+      const ch = template[i];
+      if ((ch === "{" || ch === "}") && template[i + 1] === ch) {
+         output += ch + ch;
+         i += 2;
+         continue;
+      }
+      const end = ch === "{" ? template.indexOf("}", i + 1) : -1;
+      const tag = end >= 0 ? template.slice(i + 1, end).trim() : "";
+      if (tag.startsWith(">")) {
+         output += visit(tag.slice(1).trim());
+         i = end + 1;
+      } else {
+         output += ch;
+         i++;
+      }
+   }
+   return output;
+}
+
+/**
+ * Finds the partials a template includes with {> name}
+ * @param template The template e.g. "{> safety-preamble} Answer the question"
+ * @returns The distinct partial names in order of first use e.g. ["safety-preamble"]
+ */
+export function findPromptTemplatePartials(template: string): string[] {
+   const names = new Set<string>();
+   replacePartials(template, name => {
+      names.add(name);
+      return "";
+   });
+   return Array.from(names);
+}
+
+/**
+ * Replaces each {> name} partial in a template with the text returned by resolve. The result is
+ * not rescanned, so resolve is responsible for expanding any partials inside the text it returns.
+ * @param template The template e.g. "{> safety-preamble} Answer the question"
+ * @param resolve Returns the template text for a partial name
+ * @returns The template with partials replaced
+ */
+export function expandPromptTemplatePartials(template: string, resolve: (name: string) => string): string {
+   return replacePartials(template, resolve);
+}
@@ -0,0 +1,539 @@
+/**
+ * @module PromptValidation
+ *
+ * Schema validation and linting for prompt definitions, typically loaded from
+ * the JSON files consumed by PromptFileRepository. Checks each IPrompt against
+ * the IPrompt / IPromptParameterSpec shape and reports problems as structured
+ * diagnostics (file, prompt id, field) rather than throwing, so that a CI step
+ * can report every problem in one pass and fail on errors.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import type * as fs from 'node:fs';
+
+import { IPrompt, IPromptParameterSpec, EParameterType, ParameterTypeEnum, ParameterTypeDate, ParameterTypeList, InvalidOperationError } from "./entry";
+import { findParameterViolations } from "./PromptRepository";
+import { parsePromptVersion, selectPromptVersion } from "./PromptVersion";
+import { findPromptReferences, resolvePromptComposition, PromptLookup } from "./PromptComposition";
+import { findPromptTemplateParameters } from "./PromptTemplate";
+import { parsePromptFileText } from "./PromptSource";
+import { isValidLocale, localizePrompt } from "./PromptLocale";
+
+let fsImpl: typeof fs | undefined;
+try {
+   // Only import fs in Node.js environment
+   if (typeof process !== 'undefined' && process.versions?.node) {
+      fsImpl = require('node:fs');
+   }
+} catch (error) {
+   // In browser environments, fs will remain undefined
+}
+
+/**
+ * Severity of a prompt diagnostic. Errors should fail a CI build, warnings are advisory.
+ */
+export enum EPromptDiagnosticSeverity {
+   kError = "kError",
+   kWarning = "kWarning"
+}
+
+/**
+ * Machine-readable category of a prompt diagnostic
+ */
+export enum EPromptDiagnosticCode {
+   kInvalidFile = "kInvalidFile",
+   kInvalidPrompt = "kInvalidPrompt",
+   kMissingField = "kMissingField",
+   kInvalidFieldType = "kInvalidFieldType",
+   kUnknownKey = "kUnknownKey",
+   kDuplicateId = "kDuplicateId",
+   kInvalidVersion = "kInvalidVersion",
+   kInvalidTemplate = "kInvalidTemplate",
+   kUnresolvedReference = "kUnresolvedReference",
+   kInvalidComposition = "kInvalidComposition",
+   kInvalidLocale = "kInvalidLocale",
+   kUndeclaredPlaceholder = "kUndeclaredPlaceholder",
+   kUnreferencedParameter = "kUnreferencedParameter",
+   kDuplicateParameter = "kDuplicateParameter",
+   kInvalidParameterType = "kInvalidParameterType",
+   kMissingAllowedValues = "kMissingAllowedValues",
+   kInvalidDefaultValue = "kInvalidDefaultValue"
+}
+
+/**
+ * A single problem found while validating prompts
+ *
+ * @interface IPromptDiagnostic
+ * @property {EPromptDiagnosticSeverity} severity - Whether the problem is an error or a warning
+ * @property {EPromptDiagnosticCode} code - Machine-readable category of the problem
+ * @property {string} message - Human-readable description of the problem
+ * @property {string} [file] - The file the prompt was loaded from, if known
+ * @property {string} [promptId] - The id of the prompt, if it has one
+ * @property {string} [field] - Path to the offending field e.g. "userPromptParameters[1].defaultValue"
+ */
+export interface IPromptDiagnostic {
+   severity: EPromptDiagnosticSeverity;
+   code: EPromptDiagnosticCode;
+   message: string;
+   file?: string | undefined;
+   promptId?: string | undefined;
+   field?: string | undefined;
+}
+
+// Keys permitted on an IPrompt and an IPromptParameterSpec. Keep in step with the interfaces in entry.ts.
+const promptKeys = ["id", "version", "schemaVersion", "name", "description", "extends", "systemPrompt", "systemPromptParameters", "userPrompt", "userPromptParameters", "locales"];
+const localeVariantKeys = ["systemPrompt", "userPrompt", "parameterDescriptions"];
+const parameterKeys = ["name", "description", "type", "required", "defaultValue", "allowedValues", "min", "max", "minLength", "maxLength", "pattern", "schema"];
+// Literal values rather than the ParameterType constants, as entry.ts is only partially loaded when this module initialises
+const parameterTypes: EParameterType[] = ["kNumber", "kString", "kEnum", "kBoolean", "kInteger", "kDate", "kJson", "kList", "kUrl"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+   return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects diagnostics for a single prompt, sharing file and prompt id across each report
+ */
+class PromptDiagnosticCollector {
+   constructor(private diagnostics: IPromptDiagnostic[],
+      private file: string | undefined,
+      private promptId: string | undefined) { }
+
+   error(code: EPromptDiagnosticCode, field: string | undefined, message: string): void {
+      this.add(EPromptDiagnosticSeverity.kError, code, field, message);
+   }
+
+   warning(code: EPromptDiagnosticCode, field: string | undefined, message: string): void {
+      this.add(EPromptDiagnosticSeverity.kWarning, code, field, message);
+   }
+
+   private add(severity: EPromptDiagnosticSeverity, code: EPromptDiagnosticCode, field: string | undefined, message: string): void {
+      this.diagnostics.push({ severity, code, message, file: this.file, promptId: this.promptId, field });
+   }
+}
+
+function checkStringField(prompt: Record<string, unknown>, key: string, required: boolean, collector: PromptDiagnosticCollector): void {
+   const value = prompt[key];
+   if (value === undefined) {
+      if (required) {
+         collector.error(EPromptDiagnosticCode.kMissingField, key, `Missing required field: ${key}`);
+      }
+   } else if (typeof value !== "string") {
+      collector.error(EPromptDiagnosticCode.kInvalidFieldType, key, `Field ${key} must be a string`);
+   }
+}
+
+function isRegularExpression(pattern: unknown): boolean {
+   if (typeof pattern !== "string") {
+      return false;
+   }
+   try {
+      new RegExp(pattern);
+      return true;
+   } catch {
+      return false;
+   }
+}
+
+function checkParameterSpec(param: unknown, field: string, collector: PromptDiagnosticCollector): param is IPromptParameterSpec {
+   if (!isObject(param)) {
+      collector.error(EPromptDiagnosticCode.kInvalidFieldType, field, `Parameter ${field} must be an object`);
+      return false;
+   }
+
+   for (const key of Object.keys(param)) {
+      if (!parameterKeys.includes(key)) {
+         collector.error(EPromptDiagnosticCode.kUnknownKey, `${field}.${key}`, `Unknown key "${key}" in parameter specification`);
+      }
+   }
+
+   let valid = true;
+   for (const key of ["name", "description"]) {
+      if (param[key] === undefined) {
+         collector.error(EPromptDiagnosticCode.kMissingField, `${field}.${key}`, `Missing required field in parameter: ${key}`);
+         valid = false;
+      } else if (typeof param[key] !== "string") {
+         collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.${key}`, `Field ${key} must be a string`);
+         valid = false;
+      }
+   }
+   if (typeof param.required !== "boolean") {
+      collector.error(param.required === undefined ? EPromptDiagnosticCode.kMissingField : EPromptDiagnosticCode.kInvalidFieldType,
+         `${field}.required`, `Field required must be a boolean`);
+      valid = false;
+   }
+   if (param.type === undefined) {
+      collector.error(EPromptDiagnosticCode.kMissingField, `${field}.type`, `Missing required field in parameter: type`);
+      valid = false;
+   } else if (!parameterTypes.includes(param.type as EParameterType)) {
+      collector.error(EPromptDiagnosticCode.kInvalidParameterType, `${field}.type`,
+         `Invalid type "${String(param.type)}", expected one of: ${parameterTypes.join(", ")}`);
+      valid = false;
+   }
+   const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === "string");
+   if (param.defaultValue !== undefined && typeof param.defaultValue !== "string" &&
+      !(param.type === ParameterTypeList && isStringList(param.defaultValue))) {
+      collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.defaultValue`,
+         param.type === ParameterTypeList ? `Field defaultValue must be an array of strings` : `Field defaultValue must be a string`);
+      valid = false;
+   }
+   if (param.allowedValues !== undefined && !isStringList(param.allowedValues)) {
+      collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.allowedValues`, `Field allowedValues must be an array of strings`);
+      valid = false;
+   }
+   for (const key of ["min", "max"]) {
+      const bound = param[key];
+      if (bound !== undefined && (param.type === ParameterTypeDate ?
+         typeof bound !== "string" || isNaN(Date.parse(bound)) : typeof bound !== "number")) {
+         collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.${key}`,
+            param.type === ParameterTypeDate ? `Field ${key} must be an ISO 8601 date` : `Field ${key} must be a number`);
+         valid = false;
+      }
+   }
+   for (const key of ["minLength", "maxLength"]) {
+      const length = param[key];
+      if (length !== undefined && (typeof length !== "number" || !Number.isInteger(length) || length < 0)) {
+         collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.${key}`, `Field ${key} must be a non-negative integer`);
+         valid = false;
+      }
+   }
+   if (param.pattern !== undefined && !isRegularExpression(param.pattern)) {
+      collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.pattern`, `Field pattern must be a valid regular expression`);
+      valid = false;
+   }
+   if (param.schema !== undefined && !isObject(param.schema)) {
+      collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.schema`, `Field schema must be a JSON schema object`);
+      valid = false;
+   }
+   if (!valid) {
+      return false;
+   }
+
+   const spec = param as unknown as IPromptParameterSpec;
+   if (spec.type === ParameterTypeEnum && (!spec.allowedValues || spec.allowedValues.length === 0)) {
+      collector.error(EPromptDiagnosticCode.kMissingAllowedValues, `${field}.allowedValues`,
+         `Enum parameter ${spec.name} must declare allowedValues`);
+   }
+   else if (spec.defaultValue !== undefined) {
+      const violations = findParameterViolations(spec, spec.defaultValue);
+      if (violations.length > 0) {
+         collector.error(EPromptDiagnosticCode.kInvalidDefaultValue, `${field}.defaultValue`,
+            `Default value ${JSON.stringify(spec.defaultValue)} is invalid: ${violations.join("; ")}`);
+      }
+   }
+   return true;
+}
+
+/**
+ * Checks the parameter specifications for a template, returning those that are well formed,
+ * or undefined if the field is not an array
+ */
+function checkParameterList(prompt: Record<string, unknown>, paramsKey: string, collector: PromptDiagnosticCollector): IPromptParameterSpec[] | undefined {
+   const params = prompt[paramsKey];
+
+   const specs: IPromptParameterSpec[] = [];
+   if (params !== undefined) {
+      if (!Array.isArray(params)) {
+         collector.error(EPromptDiagnosticCode.kInvalidFieldType, paramsKey, `Field ${paramsKey} must be an array`);
+         return undefined;
+      }
+      const names = new Set<string>();
+      params.forEach((param, index) => {
+         const field = `${paramsKey}[${index}]`;
+         if (checkParameterSpec(param, field, collector)) {
+            if (names.has(param.name)) {
+               collector.error(EPromptDiagnosticCode.kDuplicateParameter, `${field}.name`, `Duplicate parameter name: ${param.name}`);
+            }
+            names.add(param.name);
+            specs.push(param);
+         }
+      });
+   }
+   return specs;
+}
+
+/**
+ * Checks a template and its parameter specifications against each other. For a composed prompt,
+ * the template and specifications are those after resolving "extends" and partials, and only the
+ * prompt's own specifications are warned about if unused. A template with no specifications is
+ * sent unchanged, as replacePromptPlaceholders does, so it is not parsed.
+ */
+function checkTemplate(template: unknown, templateKey: string, specs: IPromptParameterSpec[] | undefined, ownSpecs: IPromptParameterSpec[],
+   paramsKey: string, collector: PromptDiagnosticCollector): void {
+
+   if (typeof template !== "string" || specs === undefined) {
+      return;
+   }
+   let placeholders: string[];
+   try {
+      placeholders = findPromptTemplateParameters(template);
+   } catch (error) {
+      collector.error(EPromptDiagnosticCode.kInvalidTemplate, templateKey, error instanceof Error ? error.message : String(error));
+      return;
+   }
+   for (const placeholder of placeholders) {
+      if (!specs.some(s => s.name === placeholder)) {
+         collector.error(EPromptDiagnosticCode.kUndeclaredPlaceholder, templateKey,
+            `Placeholder {${placeholder}} has no matching entry in ${paramsKey}`);
+      }
+   }
+   ownSpecs.forEach((spec, index) => {
+      if (!placeholders.includes(spec.name)) {
+         collector.warning(EPromptDiagnosticCode.kUnreferencedParameter, `${paramsKey}[${index}]`,
+            `Parameter ${spec.name} is never referenced in ${templateKey}`);
+      }
+   });
+}
+
+/**
+ * Checks the shape of the locales field, returning the locales whose variants are well formed
+ */
+function checkLocales(prompt: Record<string, unknown>, collector: PromptDiagnosticCollector): string[] {
+   const locales = prompt.locales;
+   if (locales === undefined) {
+      return [];
+   }
+   if (!isObject(locales)) {
+      collector.error(EPromptDiagnosticCode.kInvalidFieldType, "locales", "Field locales must be an object keyed by language tag");
+      return [];
+   }
+
+   const valid: string[] = [];
+   const seen = new Map<string, string>();
+   for (const [locale, variant] of Object.entries(locales)) {
+      const field = `locales.${locale}`;
+      if (!isValidLocale(locale)) {
+         collector.error(EPromptDiagnosticCode.kInvalidLocale, field, `Locale "${locale}" is not a BCP-47 language tag e.g. "fr-CA"`);
+         continue;
+      }
+      // Locales are matched without regard to case, so "fr-ca" and "fr-CA" would be ambiguous
+      const normalized = locale.replace(/_/g, "-").toLowerCase();
+      const previous = seen.get(normalized);
+      if (previous !== undefined) {
+         collector.error(EPromptDiagnosticCode.kInvalidLocale, field, `Locale "${locale}" is the same as "${previous}"`);
+         continue;
+      }
+      seen.set(normalized, locale);
+      if (!isObject(variant)) {
+         collector.error(EPromptDiagnosticCode.kInvalidFieldType, field, `Locale ${locale} must be an object`);
+         continue;
+      }
+
+      let wellFormed = true;
+      for (const key of Object.keys(variant)) {
+         if (!localeVariantKeys.includes(key)) {
+            collector.error(EPromptDiagnosticCode.kUnknownKey, `${field}.${key}`, `Unknown key "${key}" in locale ${locale}`);
+         }
+      }
+      for (const key of ["systemPrompt", "userPrompt"]) {
+         if (variant[key] !== undefined && typeof variant[key] !== "string") {
+            collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.${key}`, `Field ${key} must be a string`);
+            wellFormed = false;
+         }
+      }
+      const descriptions = variant.parameterDescriptions;
+      if (descriptions !== undefined && (!isObject(descriptions) || !Object.values(descriptions).every(d => typeof d === "string"))) {
+         collector.error(EPromptDiagnosticCode.kInvalidFieldType, `${field}.parameterDescriptions`,
+            "Field parameterDescriptions must map parameter names to strings");
+         wellFormed = false;
+      }
+      if (wellFormed) {
+         valid.push(locale);
+      }
+   }
+   return valid;
+}
+
+// True if a prompt is well enough formed to take part in composition, as a base, a partial or a prompt being resolved
+function isComposable(prompt: unknown): prompt is IPrompt {
+   const isOptional = (value: unknown, type: string) => value === undefined || typeof value === type;
+   const isParameterList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(isObject));
+   return isObject(prompt) &&
+      typeof prompt.id === "string" && typeof prompt.version === "string" && typeof prompt.userPrompt === "string" &&
+      isOptional(prompt.systemPrompt, "string") && isOptional(prompt.extends, "string") &&
+      isParameterList(prompt.systemPromptParameters) && isParameterList(prompt.userPromptParameters) &&
+      (prompt.locales === undefined || (isObject(prompt.locales) && Object.values(prompt.locales).every(isObject)));
+}
+
+/**
+ * Resolves "extends" and partials for a prompt against the other prompts in the same file.
+ * References that are not in the file may be supplied at runtime as fragments or from another file,
+ * so they are reported as warnings and the prompt is not checked further.
+ * @returns The resolved prompt, or undefined if it could not be resolved
+ */
+function resolveComposition(prompt: IPrompt, lookup: PromptLookup, collector: PromptDiagnosticCollector): IPrompt | undefined {
+   const references = findPromptReferences(prompt);
+   const missing = references.filter(name => lookup(name) === undefined);
+   for (const name of missing) {
+      collector.warning(EPromptDiagnosticCode.kUnresolvedReference, name === prompt.extends ? "extends" : undefined,
+         `${name} is not a prompt in this file, so it must be supplied at runtime`);
+   }
+   if (missing.length > 0) {
+      return undefined;
+   }
+   try {
+      return resolvePromptComposition(prompt, lookup);
+   } catch (error) {
+      if (!(error instanceof InvalidOperationError)) {
+         throw error;
+      }
+      collector.error(EPromptDiagnosticCode.kInvalidComposition, prompt.extends !== undefined ? "extends" : undefined,
+         error instanceof Error ? error.message : String(error));
+      return undefined;
+   }
+}
+
+/**
+ * Checks the templates and parameter descriptions of each locale, resolving composition in the same locale
+ */
+function checkLocaleTemplates(prompt: IPrompt, locales: string[], lookup: PromptLookup,
+   systemSpecs: IPromptParameterSpec[], userSpecs: IPromptParameterSpec[], collector: PromptDiagnosticCollector): void {
+
+   for (const locale of locales) {
+      const variant = prompt.locales![locale];
+      const resolved = resolveComposition(localizePrompt(prompt, locale), id => {
+         const reference = lookup(id);
+         return reference && localizePrompt(reference, locale);
+      }, collector);
+      if (resolved === undefined) {
+         continue;
+      }
+      if (variant.systemPrompt !== undefined) {
+         checkTemplate(resolved.systemPrompt, `locales.${locale}.systemPrompt`, resolved.systemPromptParameters, systemSpecs, "systemPromptParameters", collector);
+      }
+      if (variant.userPrompt !== undefined) {
+         checkTemplate(resolved.userPrompt, `locales.${locale}.userPrompt`, resolved.userPromptParameters, userSpecs, "userPromptParameters", collector);
+      }
+      const resolvedSpecs = [...(resolved.systemPromptParameters ?? []), ...(resolved.userPromptParameters ?? [])];
+      for (const name of Object.keys(variant.parameterDescriptions ?? {})) {
+         if (!resolvedSpecs.some(spec => spec.name === name)) {
+            collector.error(EPromptDiagnosticCode.kUnknownKey, `locales.${locale}.parameterDescriptions.${name}`,
+               `Parameter ${name} is not declared by the prompt`);
+         }
+      }
+   }
+}
+
+/**
+ * Validates an array of prompts, typically the parsed contents of a prompt JSON file
+ * @param prompts The prompts to validate. Accepts unknown so that raw JSON can be checked before it is trusted.
+ * @param file Optional file name to attach to each diagnostic
+ * @returns The diagnostics found, empty if the prompts are valid
+ */
+export function validatePrompts(prompts: unknown, file?: string): IPromptDiagnostic[] {
+   const diagnostics: IPromptDiagnostic[] = [];
+
+   if (!Array.isArray(prompts)) {
+      new PromptDiagnosticCollector(diagnostics, file, undefined)
+         .error(EPromptDiagnosticCode.kInvalidFile, undefined, "Prompt file must contain an array of prompts");
+      return diagnostics;
+   }
+
+   // A prompt id may appear several times, once per version. Composition uses the latest version of each.
+   const seenIds = new Set<string>();
+   const candidates = prompts.filter(isComposable);
+   const lookup: PromptLookup = id => selectPromptVersion(candidates.filter(p => p.id === id));
+   prompts.forEach((prompt, index) => {
+      const promptId = isObject(prompt) && typeof prompt.id === "string" ? prompt.id : undefined;
+      const collector = new PromptDiagnosticCollector(diagnostics, file, promptId);
+
+      if (!isObject(prompt)) {
+         collector.error(EPromptDiagnosticCode.kInvalidPrompt, `[${index}]`, `Prompt at index ${index} must be an object`);
+         return;
+      }
+
+      for (const key of Object.keys(prompt)) {
+         if (!promptKeys.includes(key)) {
+            collector.error(EPromptDiagnosticCode.kUnknownKey, key, `Unknown key "${key}" in prompt`);
+         }
+      }
+
+      checkStringField(prompt, "id", true, collector);
+      checkStringField(prompt, "version", true, collector);
+      checkStringField(prompt, "schemaVersion", false, collector);
+      checkStringField(prompt, "name", true, collector);
+      checkStringField(prompt, "description", false, collector);
+      checkStringField(prompt, "systemPrompt", false, collector);
+      checkStringField(prompt, "userPrompt", true, collector);
+
+      if (typeof prompt.version === "string" && parsePromptVersion(prompt.version) === undefined) {
+         collector.error(EPromptDiagnosticCode.kInvalidVersion, "version", `Version "${prompt.version}" is not a valid semver version`);
+      }
+
+      if (promptId !== undefined) {
+         const key = `${promptId}@${String(prompt.version)}`;
+         if (seenIds.has(key)) {
+            collector.error(EPromptDiagnosticCode.kDuplicateId, "id", `Duplicate prompt id: ${promptId} version ${String(prompt.version)}`);
+         }
+         seenIds.add(key);
+      }
+
+      checkStringField(prompt, "extends", false, collector);
+
+      const systemSpecs = checkParameterList(prompt, "systemPromptParameters", collector);
+      const userSpecs = checkParameterList(prompt, "userPromptParameters", collector);
+      const locales = checkLocales(prompt, collector);
+
+      let resolved: Record<string, unknown> | undefined = prompt;
+      if (isComposable(prompt)) {
+         resolved = resolveComposition(prompt, lookup, collector) as unknown as Record<string, unknown> | undefined;
+      }
+      if (resolved === undefined) {
+         return;
+      }
+      if (systemSpecs !== undefined) {
+         checkTemplate(resolved.systemPrompt, "systemPrompt", resolved.systemPromptParameters as IPromptParameterSpec[] | undefined,
+            systemSpecs, "systemPromptParameters", collector);
+      }
+      if (userSpecs !== undefined) {
+         checkTemplate(resolved.userPrompt, "userPrompt", resolved.userPromptParameters as IPromptParameterSpec[] | undefined,
+            userSpecs, "userPromptParameters", collector);
+      }
+      if (isComposable(prompt) && systemSpecs !== undefined && userSpecs !== undefined) {
+         checkLocaleTemplates(prompt, locales, lookup, systemSpecs, userSpecs, collector);
+      }
+   });
+
+   return diagnostics;
+}
+
+/**
+ * Reads and validates a prompt JSON or YAML file. Only available in Node.js.
+ * @param promptFilePath Path to the file
+ * @returns The diagnostics found, including one for a file that cannot be parsed
+ */
+export function validatePromptFile(promptFilePath: string): IPromptDiagnostic[] {
+   if (fsImpl === undefined) {
+      throw new InvalidOperationError("validatePromptFile is not supported in the browser");
+   }
+
+   let prompts: unknown;
+   try {
+      prompts = parsePromptFileText(promptFilePath, fsImpl.readFileSync(promptFilePath, 'utf8'));
+   } catch (error) {
+      return [{
+         severity: EPromptDiagnosticSeverity.kError,
+         code: EPromptDiagnosticCode.kInvalidFile,
+         message: `Unable to read prompt file: ${error instanceof Error ? error.message : String(error)}`,
+         file: promptFilePath
+      }];
+   }
+   // A file may hold a single prompt rather than an array
+   return validatePrompts(isObject(prompts) ? [prompts] : prompts, promptFilePath);
+}
+
+/**
+ * Formats a diagnostic as a single line, e.g.
+ * "prompts.json [my-prompt-id] userPromptParameters[0].type: error: Invalid type ..."
+ * @param diagnostic The diagnostic to format
+ * @returns The formatted line
+ */
+export function formatPromptDiagnostic(diagnostic: IPromptDiagnostic): string {
+   const location = [
+      diagnostic.file,
+      diagnostic.promptId !== undefined ? `[${diagnostic.promptId}]` : undefined,
+      diagnostic.field
+   ].filter(part => part !== undefined).join(" ");
+   const severity = diagnostic.severity === EPromptDiagnosticSeverity.kError ? "error" : "warning";
+   return location.length > 0 ? `${location}: ${severity}: ${diagnostic.message}` : `${severity}: ${diagnostic.message}`;
+}
@@ -0,0 +1,272 @@
+/**
+ * @module PromptVersion
+ *
+ * Semver-style version parsing and range matching for prompts. Allows a prompt
+ * repository to hold several versions of the same prompt id and to select one by:
+ * - "latest" (or no range), the highest released version
+ * - a pinned version e.g. "1.2.0"
+ * - a range e.g. "^1.2.0", "~1.2", "1.x", ">=1.0.0 <2.0.0", "^1.0.0 || ^2.0.0"
+ *
+ * Versions may omit trailing parts ("1.0" is treated as "1.0.0"). Pre-release versions
+ * ("1.0.0-beta.1") sort below their release and are only matched by ranges that name
+ * a pre-release of the same major.minor.patch, following npm semver rules.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { InvalidParameterError } from "./entry";
+
+/**
+ * The version range that selects the highest released version of a prompt
+ */
+export const LatestPromptVersion = "latest";
+
+/**
+ * A parsed prompt version
+ *
+ * @interface IPromptVersion
+ * @property {number} major - Major version, incremented for breaking changes
+ * @property {number} minor - Minor version, incremented for compatible changes
+ * @property {number} patch - Patch version, incremented for fixes
+ * @property {string[]} prerelease - Pre-release identifiers e.g. ["beta", "1"], empty for a release
+ */
+export interface IPromptVersion {
+   major: number;
+   minor: number;
+   patch: number;
+   prerelease: string[];
+}
+
+type ComparatorOperator = "<" | "<=" | ">" | ">=" | "=";
+
+interface IComparator {
+   operator: ComparatorOperator;
+   version: IPromptVersion;
+}
+
+// A range is a set of alternatives (joined by "||"), each of which is a set of comparators that must all match
+type ComparatorSet = IComparator[];
+
+const versionPattern = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const partialPattern = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const comparatorPattern = /^(\^|~|>=|<=|>|<|=)?\s*(.*)$/;
+
+/**
+ * Parses a version string
+ * @param version The version e.g. "1.2.3", "1.0" or "2.0.0-beta.1"
+ * @returns The parsed version, or undefined if the string is not a valid version
+ */
+export function parsePromptVersion(version: string): IPromptVersion | undefined {
+   const match = versionPattern.exec(version.trim());
+   if (!match) {
+      return undefined;
+   }
+   return {
+      major: Number(match[1]),
+      minor: Number(match[2] ?? 0),
+      patch: Number(match[3] ?? 0),
+      prerelease: match[4] ? match[4].split(".") : []
+   };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+   // A release sorts above any of its pre-releases
+   if (a.length === 0 || b.length === 0) {
+      return b.length - a.length;
+   }
+   for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const aNumeric = /^\d+$/.test(a[i]);
+      const bNumeric = /^\d+$/.test(b[i]);
+      if (aNumeric && bNumeric) {
+         const diff = Number(a[i]) - Number(b[i]);
+         if (diff !== 0) {
+            return diff;
+         }
+      } else if (aNumeric !== bNumeric) {
+         return aNumeric ? -1 : 1;
+      } else if (a[i] !== b[i]) {
+         return a[i] < b[i] ? -1 : 1;
+      }
+   }
+   return a.length - b.length;
+}
+
+/**
+ * Compares two parsed versions
+ * @returns A negative number if a < b, zero if they are equal, a positive number if a > b
+ */
+export function comparePromptVersions(a: IPromptVersion, b: IPromptVersion): number {
+   return (a.major - b.major) ||
+      (a.minor - b.minor) ||
+      (a.patch - b.patch) ||
+      comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Sorts version strings in ascending order. Strings that are not valid versions sort first, in their original order.
+ * @param versions The versions to sort
+ * @returns A new, sorted array
+ */
+export function sortPromptVersions(versions: string[]): string[] {
+   const invalid = versions.filter(v => parsePromptVersion(v) === undefined);
+   const valid = versions.filter(v => parsePromptVersion(v) !== undefined);
+   valid.sort((a, b) => comparePromptVersions(parsePromptVersion(a)!, parsePromptVersion(b)!));
+   return [...invalid, ...valid];
+}
+
+function makeVersion(major: number, minor: number, patch: number, prerelease: string[] = []): IPromptVersion {
+   return { major, minor, patch, prerelease };
+}
+
+/**
+ * Expands one comparator, which may use ^, ~ or x-range shorthand, into primitive comparators
+ */
+function parseComparator(text: string, range: string): IComparator[] {
+   const [, operator, versionText] = comparatorPattern.exec(text)!;
+   const match = partialPattern.exec(versionText);
+   if (!match) {
+      throw new InvalidParameterError(`Invalid prompt version range: ${range}`);
+   }
+
+   const isWildcard = (part: string | undefined) => part === undefined || /^[xX*]$/.test(part);
+   const major = isWildcard(match[1]) ? undefined : Number(match[1]);
+   const minor = major === undefined || isWildcard(match[2]) ? undefined : Number(match[2]);
+   const patch = minor === undefined || isWildcard(match[3]) ? undefined : Number(match[3]);
+   const prerelease = patch !== undefined && match[4] ? match[4].split(".") : [];
+
+   const lower = makeVersion(major ?? 0, minor ?? 0, patch ?? 0, prerelease);
+
+   if (major === undefined) {
+      // "*", "x", ">=x" all match everything; "<x" and ">x" match nothing
+      return operator === "<" || operator === ">" ? [{ operator: "<", version: makeVersion(0, 0, 0, ["0"]) }] : [];
+   }
+
+   // The exclusive upper bound implied by the parts that were supplied
+   const nextPartial = minor === undefined ? makeVersion(major + 1, 0, 0) :
+      patch === undefined ? makeVersion(major, minor + 1, 0) : undefined;
+
+   switch (operator) {
+      case "^": {
+         const upper = major > 0 || minor === undefined ? makeVersion(major + 1, 0, 0) :
+            minor > 0 || patch === undefined ? makeVersion(0, minor + 1, 0) :
+               makeVersion(0, 0, patch + 1);
+         return [{ operator: ">=", version: lower }, { operator: "<", version: upper }];
+      }
+      case "~": {
+         const upper = minor === undefined ? makeVersion(major + 1, 0, 0) : makeVersion(major, minor + 1, 0);
+         return [{ operator: ">=", version: lower }, { operator: "<", version: upper }];
+      }
+      case ">":
+         return nextPartial ? [{ operator: ">=", version: nextPartial }] : [{ operator: ">", version: lower }];
+      case "<=":
+         return nextPartial ? [{ operator: "<", version: nextPartial }] : [{ operator: "<=", version: lower }];
+      case ">=":
+      case "<":
+         return [{ operator, version: lower }];
+      default:
+         // No operator or "=": a partial version is an x-range, a full version is pinned
+         return nextPartial ?
+            [{ operator: ">=", version: lower }, { operator: "<", version: nextPartial }] :
+            [{ operator: "=", version: lower }];
+   }
+}
+
+/**
+ * Parses a range into its alternatives
+ * @throws {InvalidParameterError} If the range is not valid
+ */
+function parseRange(range: string): ComparatorSet[] {
+   return range.split("||").map(alternative => {
+      // Attach operators to the following version so "> = 1.0" style spacing is tolerated
+      const tokens = alternative.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, "$1").split(/\s+/).filter(t => t.length > 0);
+
+      // Hyphen range "1.0.0 - 2.0.0"
+      if (tokens.length === 3 && tokens[1] === "-") {
+         return [
+            ...parseComparator(`>=${tokens[0]}`, range),
+            ...parseComparator(`<=${tokens[2]}`, range)
+         ];
+      }
+      return tokens.flatMap(token => parseComparator(token, range));
+   });
+}
+
+function satisfiesComparator(version: IPromptVersion, comparator: IComparator): boolean {
+   const diff = comparePromptVersions(version, comparator.version);
+   switch (comparator.operator) {
+      case "<": return diff < 0;
+      case "<=": return diff <= 0;
+      case ">": return diff > 0;
+      case ">=": return diff >= 0;
+      default: return diff === 0;
+   }
+}
+
+function satisfiesSet(version: IPromptVersion, set: ComparatorSet): boolean {
+   if (!set.every(comparator => satisfiesComparator(version, comparator))) {
+      return false;
+   }
+   // Pre-releases only match if the range explicitly names a pre-release of the same release
+   if (version.prerelease.length > 0) {
+      return set.some(c => c.version.prerelease.length > 0 &&
+         c.version.major === version.major &&
+         c.version.minor === version.minor &&
+         c.version.patch === version.patch);
+   }
+   return true;
+}
+
+/**
+ * Tests whether a version satisfies a range
+ * @param version The version to test e.g. "1.2.3"
+ * @param range The range e.g. "^1.0.0", or "latest" which matches any released version
+ * @returns True if the version is valid and inside the range
+ * @throws {InvalidParameterError} If the range is not valid
+ */
+export function satisfiesPromptVersionRange(version: string, range: string): boolean {
+   const parsed = parsePromptVersion(version);
+   if (!parsed) {
+      return false;
+   }
+   const sets = range.trim() === LatestPromptVersion ? [[]] : parseRange(range);
+   return sets.some(set => satisfiesSet(parsed, set));
+}
+
+/**
+ * Selects the best matching version from a set of candidates that share an id
+ * @param candidates The candidates, each carrying a version string
+ * @param versionRange The range to match. Undefined or "latest" selects the highest released version,
+ *    falling back to the highest pre-release. A version string that exactly matches a candidate selects it,
+ *    even if the string is not a valid semver version.
+ * @returns The highest candidate that satisfies the range, or undefined if none do
+ * @throws {InvalidParameterError} If the range is not valid
+ */
+export function selectPromptVersion<T extends { version: string }>(candidates: T[], versionRange?: string): T | undefined {
+   if (candidates.length === 0) {
+      return undefined;
+   }
+
+   const range = versionRange?.trim();
+   if (range === undefined || range === "" || range === LatestPromptVersion) {
+      const ordered = sortPromptVersions(candidates.map(c => c.version));
+      const released = ordered.filter(v => parsePromptVersion(v)?.prerelease.length === 0);
+      const best = released.length > 0 ? released[released.length - 1] : ordered[ordered.length - 1];
+      return candidates.find(c => c.version === best);
+   }
+
+   const pinned = candidates.find(c => c.version === range);
+   if (pinned) {
+      return pinned;
+   }
+
+   const sets = parseRange(range);
+   let best: { candidate: T, version: IPromptVersion } | undefined;
+   for (const candidate of candidates) {
+      const version = parsePromptVersion(candidate.version);
+      if (version && sets.some(set => satisfiesSet(version, set))) {
+         if (!best || comparePromptVersions(version, best.version) > 0) {
+            best = { candidate, version };
+         }
+      }
+   }
+   return best?.candidate;
+}
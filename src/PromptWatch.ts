@@ -0,0 +1,248 @@
+/**
+ * @module PromptWatch
+ *
+ * A prompt repository that reloads its files when they change on disk, so that prompts can be
+ * edited without restarting a service. Each reload is validated before it replaces the prompts
+ * being served; if reading or validation fails, the last good prompts stay in use and an error
+ * event is raised instead. Callers can subscribe to the prompt ids added, updated and removed.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import type * as fs from 'node:fs';
+import type * as pathModule from 'node:path';
+
+import { IPrompt, InvalidOperationError } from "./entry";
+import { IPromptSource, PromptMultiSourceRepository, PromptFileSource, PromptDirectorySource, isPromptFile } from "./PromptSource";
+import { IPromptFragment } from "./PromptComposition";
+import { IPromptDiagnostic, EPromptDiagnosticSeverity, validatePrompts, formatPromptDiagnostic } from "./PromptValidation";
+
+let fsImpl: typeof fs | undefined;
+let pathImpl: typeof pathModule | undefined;
+try {
+   // Only import fs in Node.js environment
+   if (typeof process !== 'undefined' && process.versions?.node) {
+      fsImpl = require('node:fs');
+      pathImpl = require('node:path');
+   }
+} catch (error) {
+   // In browser environments, fs will remain undefined
+}
+
+/**
+ * The prompt ids changed by a reload. An id is updated if any of its versions was added, changed or removed.
+ *
+ * @interface IPromptChangeEvent
+ * @property {string[]} added - Ids that were not present before
+ * @property {string[]} updated - Ids whose prompts changed
+ * @property {string[]} removed - Ids that are no longer present
+ */
+export interface IPromptChangeEvent {
+   added: string[];
+   updated: string[];
+   removed: string[];
+}
+
+export type PromptChangeListener = (event: IPromptChangeEvent) => void;
+
+/**
+ * Called when a reload fails. The diagnostics are empty if the files could not be read at all.
+ */
+export type PromptReloadErrorListener = (error: Error, diagnostics: IPromptDiagnostic[]) => void;
+
+/**
+ * Options for PromptWatchingRepository
+ *
+ * @interface IPromptWatchOptions
+ * @property {IPromptFragment[]} [fragments] - Named fragments that prompts can include with "{> name}"
+ * @property {number} [debounceMs] - How long to wait after a change before reloading, so a burst of writes causes one reload. Defaults to 100.
+ * @property {boolean} [watch] - Set false to reload only when refresh() is called. Defaults to true.
+ */
+export interface IPromptWatchOptions {
+   fragments?: IPromptFragment[] | undefined;
+   debounceMs?: number | undefined;
+   watch?: boolean | undefined;
+}
+
+const defaultDebounceMs = 100;
+
+function groupById(prompts: IPrompt[]): Map<string, string> {
+   const groups = new Map<string, IPrompt[]>();
+   for (const prompt of prompts) {
+      groups.set(prompt.id, [...(groups.get(prompt.id) ?? []), prompt]);
+   }
+   // Compare by content, independent of the order versions were read in
+   const contents = new Map<string, string>();
+   for (const [id, group] of groups) {
+      contents.set(id, JSON.stringify(group.map(p => JSON.stringify(p)).sort()));
+   }
+   return contents;
+}
+
+/**
+ * Finds the prompt ids added, updated and removed between two sets of prompts
+ * @param before The prompts before the change
+ * @param after The prompts after the change
+ * @returns The changes, each list empty if there were none of that kind
+ */
+export function diffPrompts(before: IPrompt[], after: IPrompt[]): IPromptChangeEvent {
+   const old = groupById(before);
+   const current = groupById(after);
+   return {
+      added: [...current.keys()].filter(id => !old.has(id)),
+      updated: [...current.keys()].filter(id => old.has(id) && old.get(id) !== current.get(id)),
+      removed: [...old.keys()].filter(id => !current.has(id))
+   };
+}
+
+/**
+ * Repository that watches its file and directory sources and reloads them when they change. Other
+ * sources are read again on each reload but do not trigger one. Only available in Node.js.
+ * Call close() to stop watching.
+ */
+export class PromptWatchingRepository extends PromptMultiSourceRepository {
+   private readonly debounceMs: number;
+   private readonly watchers: fs.FSWatcher[] = [];
+   private readonly changeListeners: PromptChangeListener[] = [];
+   private readonly errorListeners: PromptReloadErrorListener[] = [];
+   private timer: ReturnType<typeof setTimeout> | undefined;
+
+   /**
+    * @param sources The sources, highest precedence first
+    * @param options Fragments, debounce interval, and whether to watch
+    * @throws {InvalidOperationError} If the prompts cannot be read or fail validation when first loaded
+    */
+   constructor(sources: IPromptSource[], options: IPromptWatchOptions = {}) {
+      super(sources, options.fragments ?? []);
+      this.debounceMs = options.debounceMs ?? defaultDebounceMs;
+
+      const errors = this.findErrors(this.prompts);
+      if (errors.length > 0) {
+         throw new InvalidOperationError(`Prompts failed validation: ${errors.map(formatPromptDiagnostic).join("; ")}`);
+      }
+      if (options.watch !== false) {
+         this.watch();
+      }
+   }
+
+   /**
+    * Subscribes to successful reloads that changed at least one prompt
+    * @param listener Called with the ids changed
+    * @returns A function that unsubscribes the listener
+    */
+   onChange(listener: PromptChangeListener): () => void {
+      return this.subscribe(this.changeListeners, listener);
+   }
+
+   /**
+    * Subscribes to failed reloads
+    * @param listener Called with the error, and any validation diagnostics
+    * @returns A function that unsubscribes the listener
+    */
+   onError(listener: PromptReloadErrorListener): () => void {
+      return this.subscribe(this.errorListeners, listener);
+   }
+
+   /**
+    * Reads the sources now, replacing the prompts held if they are valid. Called automatically when a watched file changes.
+    * @returns The changes made, or undefined if the reload failed and the previous prompts were kept
+    */
+   refresh(): IPromptChangeEvent | undefined {
+      let prompts: IPrompt[];
+      try {
+         prompts = this.loadPrompts();
+      } catch (error) {
+         this.notify(this.errorListeners, error instanceof Error ? error : new InvalidOperationError(String(error)), []);
+         return undefined;
+      }
+
+      const errors = this.findErrors(prompts);
+      if (errors.length > 0) {
+         this.notify(this.errorListeners,
+            new InvalidOperationError(`Prompts failed validation, keeping the previous version: ${errors.map(formatPromptDiagnostic).join("; ")}`), errors);
+         return undefined;
+      }
+
+      const event = diffPrompts(this.prompts, prompts);
+      this.replacePrompts(prompts);
+      if (event.added.length > 0 || event.updated.length > 0 || event.removed.length > 0) {
+         this.notify(this.changeListeners, event);
+      }
+      return event;
+   }
+
+   /**
+    * Stops watching for changes. The prompts held remain available.
+    */
+   close(): void {
+      if (this.timer !== undefined) {
+         clearTimeout(this.timer);
+         this.timer = undefined;
+      }
+      this.watchers.forEach(watcher => watcher.close());
+      this.watchers.length = 0;
+   }
+
+   private findErrors(prompts: IPrompt[]): IPromptDiagnostic[] {
+      return validatePrompts(prompts).filter(d => d.severity === EPromptDiagnosticSeverity.kError);
+   }
+
+   private watch(): void {
+      if (fsImpl === undefined || pathImpl === undefined) {
+         throw new InvalidOperationError("PromptWatchingRepository is not supported in the browser");
+      }
+
+      for (const source of this.sources) {
+         let watcher: fs.FSWatcher | undefined;
+         if (source instanceof PromptFileSource) {
+            // Watch the directory rather than the file, as editors often replace a file rather than write to it
+            const fileName = pathImpl.basename(source.filePath);
+            watcher = fsImpl.watch(pathImpl.dirname(source.filePath), { persistent: false }, (_, changed) => {
+               if (changed === null || changed === fileName) {
+                  this.scheduleRefresh();
+               }
+            });
+         } else if (source instanceof PromptDirectorySource) {
+            watcher = fsImpl.watch(source.directoryPath, { persistent: false, recursive: true }, (_, changed) => {
+               // A change to a directory name has no extension, and may move prompt files
+               if (changed === null || isPromptFile(changed) || pathImpl!.extname(changed) === "") {
+                  this.scheduleRefresh();
+               }
+            });
+         }
+         if (watcher) {
+            watcher.on('error', error => this.notify(this.errorListeners, error, []));
+            this.watchers.push(watcher);
+         }
+      }
+   }
+
+   private scheduleRefresh(): void {
+      if (this.timer !== undefined) {
+         clearTimeout(this.timer);
+      }
+      this.timer = setTimeout(() => {
+         this.timer = undefined;
+         this.refresh();
+      }, this.debounceMs);
+   }
+
+   private subscribe<T>(listeners: T[], listener: T): () => void {
+      listeners.push(listener);
+      return () => {
+         const index = listeners.indexOf(listener);
+         if (index >= 0) {
+            listeners.splice(index, 1);
+         }
+      };
+   }
+
+   private notify<A extends unknown[]>(listeners: Array<(...args: A) => void>, ...args: A): void {
+      for (const listener of [...listeners]) {
+         try {
+            listener(...args);
+         } catch (error) {
+            console.warn('Prompt repository listener failed', error);
+         }
+      }
+   }
+}
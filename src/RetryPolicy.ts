@@ -0,0 +1,182 @@
+/**
+ * @module RetryPolicy
+ *
+ * Retry policies for calls to model providers. A policy says how many attempts a call may make,
+ * how long to wait between them, which failures are worth retrying, and who to tell about each retry.
+ * Drivers and factories take an IRetryPolicy; any field left out takes its value from DefaultRetryPolicy.
+ * The clock that waits between attempts can be replaced, so retry behaviour can be tested without sleeping.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { cancellableDelay } from "./Cancellation";
+
+/**
+ * How the wait before a retry is randomised, so that many callers do not retry at once
+ */
+export enum ERetryJitter {
+   /** Wait exactly the backoff delay */
+   kNone = "none",
+   /** Wait a random time between zero and the backoff delay */
+   kFull = "full",
+   /** Wait half the backoff delay plus a random time up to the other half */
+   kEqual = "equal"
+}
+
+/**
+ * Waits between attempts. Replace it in tests to retry without real sleeps.
+ */
+export interface IRetryClock {
+   /**
+    * Waits for a time, or until the signal is aborted
+    * @throws {OperationCancelledError} If the signal is aborted first
+    */
+   sleep(ms: number, signal?: AbortSignal): Promise<void>;
+
+   /**
+    * @returns A number from 0 up to, but not including, 1, used for jitter
+    */
+   random(): number;
+}
+
+/**
+ * What onRetry is told about a retry before it waits
+ *
+ * @interface IRetryAttempt
+ * @property {number} attempt - The number of the attempt that failed, starting at 1
+ * @property {number} maxAttempts - The most attempts the call may make
+ * @property {number} delayMs - How long the call will wait before the next attempt
+ * @property {unknown} error - The error the attempt failed with
+ * @property {number} [status] - The HTTP status of the error, if it had one
+ * @property {string} providerName - The provider being called
+ */
+export interface IRetryAttempt {
+   attempt: number;
+   maxAttempts: number;
+   delayMs: number;
+   error: unknown;
+   status?: number | undefined;
+   providerName: string;
+}
+
+/**
+ * Changes the policy for failures that are instances of one error class
+ *
+ * @interface IRetryOverride
+ * @property {Function} errorClass - Matched against the failure with instanceof
+ * @property {boolean} [retryable] - Whether to retry, in place of isRetryableStatus
+ * @property {number} [maxAttempts] - Replaces the policy's maxAttempts for these failures
+ * @property {number} [baseDelayMs] - Replaces the policy's baseDelayMs for these failures
+ * @property {number} [maxDelayMs] - Replaces the policy's maxDelayMs for these failures
+ * @property {ERetryJitter} [jitter] - Replaces the policy's jitter for these failures
+ */
+export interface IRetryOverride {
+   errorClass: abstract new (...args: any[]) => unknown;
+   retryable?: boolean | undefined;
+   maxAttempts?: number | undefined;
+   baseDelayMs?: number | undefined;
+   maxDelayMs?: number | undefined;
+   jitter?: ERetryJitter | undefined;
+}
+
+/**
+ * How a call retries failed requests
+ *
+ * @interface IRetryPolicy
+ * @property {number} [maxAttempts] - The most attempts a call may make, including the first
+ * @property {number} [baseDelayMs] - The wait before the first retry; it doubles for each retry after that
+ * @property {number} [maxDelayMs] - The longest wait, including waits asked for by a Retry-After header
+ * @property {ERetryJitter} [jitter] - How waits are randomised
+ * @property {Function} [isRetryableStatus] - Whether a failure with an HTTP status is worth retrying. Failures
+ *    without a status are not retried unless an override says so, nor is a 429 saying a quota is used up.
+ * @property {IRetryOverride[]} [overrides] - Changes to the policy by error class; the first match is used
+ * @property {Function} [onRetry] - Called before each retry. Without it, retries are silent; pass logRetryAttempt to log them.
+ * @property {IRetryClock} [clock] - Waits between attempts
+ */
+export interface IRetryPolicy {
+   maxAttempts?: number | undefined;
+   baseDelayMs?: number | undefined;
+   maxDelayMs?: number | undefined;
+   jitter?: ERetryJitter | undefined;
+   isRetryableStatus?: ((status: number, error: unknown) => boolean) | undefined;
+   overrides?: IRetryOverride[] | undefined;
+   onRetry?: ((attempt: IRetryAttempt) => void) | undefined;
+   clock?: IRetryClock | undefined;
+}
+
+/**
+ * Logs a retry with console.warn, for use as a policy's onRetry
+ * @param attempt The retry
+ */
+export function logRetryAttempt(attempt: IRetryAttempt): void {
+   const reason = attempt.status !== undefined ? `${attempt.providerName} request failed (${attempt.status})`
+      : `${attempt.providerName} request failed (${(attempt.error as Error | undefined)?.name ?? 'unknown'})`;
+   console.warn(`${reason}. Retrying after ${Math.round(attempt.delayMs)}ms (attempt ${attempt.attempt}/${attempt.maxAttempts})`);
+}
+
+/**
+ * A clock that really waits, and uses Math.random for jitter
+ */
+export const SystemRetryClock: IRetryClock = {
+   sleep: (ms, signal) => cancellableDelay(ms, signal),
+   random: () => Math.random()
+};
+
+/**
+ * The policy used where none is given, or for the fields a policy leaves out.
+ * Rate limits (429) and server errors (5xx) are retried five times, waiting 1s, 2s, 4s, 8s and 16s.
+ */
+export const DefaultRetryPolicy = {
+   maxAttempts: 6,
+   baseDelayMs: 1000,
+   maxDelayMs: 60000,
+   jitter: ERetryJitter.kNone,
+   isRetryableStatus: (status: number) => status === 429 || (status >= 500 && status < 600),
+   clock: SystemRetryClock
+} satisfies IRetryPolicy;
+
+/**
+ * The settings that apply to one failure, once the policy's defaults and overrides are resolved
+ */
+export interface IResolvedRetrySettings {
+   maxAttempts: number;
+   baseDelayMs: number;
+   maxDelayMs: number;
+   jitter: ERetryJitter;
+   retryable: boolean | undefined;
+}
+
+/**
+ * Resolves the settings that apply to a failure
+ * @param policy The policy of the call
+ * @param error The error the attempt failed with
+ * @returns The settings; retryable is undefined unless an override decides it
+ */
+export function resolveRetrySettings(policy: IRetryPolicy | undefined, error: unknown): IResolvedRetrySettings {
+   const override = policy?.overrides?.find(candidate => error instanceof candidate.errorClass);
+   return {
+      maxAttempts: override?.maxAttempts ?? policy?.maxAttempts ?? DefaultRetryPolicy.maxAttempts,
+      baseDelayMs: override?.baseDelayMs ?? policy?.baseDelayMs ?? DefaultRetryPolicy.baseDelayMs,
+      maxDelayMs: override?.maxDelayMs ?? policy?.maxDelayMs ?? DefaultRetryPolicy.maxDelayMs,
+      jitter: override?.jitter ?? policy?.jitter ?? DefaultRetryPolicy.jitter,
+      retryable: override?.retryable
+   };
+}
+
+/**
+ * Calculates the wait before a retry
+ * @param settings The settings that apply to the failure
+ * @param retryIndex The number of retries already made
+ * @param random A number from 0 up to 1, used for jitter
+ * @returns The wait in milliseconds
+ */
+export function calculateRetryDelay(settings: IResolvedRetrySettings, retryIndex: number, random: number): number {
+   const delay = Math.min(settings.baseDelayMs * Math.pow(2, retryIndex), settings.maxDelayMs);
+   switch (settings.jitter) {
+      case ERetryJitter.kFull:
+         return random * delay;
+      case ERetryJitter.kEqual:
+         return delay / 2 + random * delay / 2;
+      default:
+         return delay;
+   }
+}
@@ -0,0 +1,244 @@
+/**
+ * @module TokenBudget
+ *
+ * Token counting and context-window budgeting, so that a caller can tell before sending a request
+ * whether the system prompt, message history and user prompt fit the model, and how much room is
+ * left for the response. Counting goes through the ITokenizer abstraction; the estimators supplied
+ * here approximate each provider's tokenizer without its vocabulary, and typically land within 10-15%
+ * of the real count for English text. Supply an ITokenizer wrapping an exact tokenizer (e.g. tiktoken)
+ * where precision matters.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { EModel, EModelProvider, IChatMessage, InvalidParameterError } from "./entry";
+import { IFunction } from "./Function";
+import { OPENAI_CONTEXT_WINDOWS, getOpenAIModelName } from "./Chat.OpenAI";
+import { AZURE_CONTEXT_WINDOWS, getAzureOpenAIDeploymentName } from "./Chat.AzureOpenAI";
+import { GEMINI_CONTEXT_WINDOWS, getGeminiModelName } from "./Chat.GoogleGemini";
+
+/**
+ * Counts the tokens in text
+ *
+ * @interface ITokenizer
+ * @property {string} name - Describes the tokenizer
+ * @property {number} messageOverheadTokens - Tokens the provider adds to frame each message in a conversation
+ * @property {Function} countTokens - Counts the tokens in a piece of text
+ */
+export interface ITokenizer {
+   readonly name: string;
+   readonly messageOverheadTokens: number;
+   countTokens(text: string): number;
+}
+
+/**
+ * The token limits of a model
+ *
+ * @interface IModelContextWindow
+ * @property {number} contextTokens - The most tokens the model accepts, input and output together
+ * @property {number} maxOutputTokens - The most tokens the model generates in one response
+ */
+export interface IModelContextWindow {
+   contextTokens: number;
+   maxOutputTokens: number;
+}
+
+// Scripts whose characters are each roughly one token, as they are not separated into words by spaces
+const ideographic = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/**
+ * Estimates token counts for OpenAI models, whose byte-pair encodings split text into words, numbers of up
+ * to three digits and runs of punctuation, and split long or rare words further.
+ */
+export class OpenAITokenEstimator implements ITokenizer {
+   readonly name = "OpenAI estimate";
+   readonly messageOverheadTokens = 4;
+
+   countTokens(text: string): number {
+      let tokens = 0;
+      for (const piece of text.match(/\p{L}+|\p{N}{1,3}|[^\s\p{L}\p{N}]+|\n+/gu) ?? []) {
+         if (ideographic.test(piece)) {
+            tokens += piece.length;
+         } else if (/^\p{L}/u.test(piece)) {
+            // Common words are a single token; longer words are split into pieces of about six letters
+            tokens += Math.ceil(piece.length / 6);
+         } else if (/^[^\p{N}\n]/u.test(piece)) {
+            // Punctuation merges in pairs, e.g. "?)" or "**"
+            tokens += Math.ceil(piece.length / 2);
+         } else {
+            tokens += 1;
+         }
+      }
+      return tokens;
+   }
+}
+
+/**
+ * Estimates token counts for Gemini models, whose SentencePiece tokenizer averages about four
+ * characters per token for English text
+ */
+export class GeminiTokenEstimator implements ITokenizer {
+   readonly name = "Gemini estimate";
+   readonly messageOverheadTokens = 3;
+
+   countTokens(text: string): number {
+      let ideographs = 0;
+      for (const character of text) {
+         if (ideographic.test(character)) {
+            ideographs++;
+         }
+      }
+      return ideographs + Math.ceil((text.length - ideographs) / 4);
+   }
+}
+
+/**
+ * Returns the token estimator for a provider
+ * @param provider The provider; kDefault is OpenAI, as in ChatDriverFactory
+ * @returns The estimator
+ */
+export function getTokenizer(provider: EModelProvider): ITokenizer {
+   return provider === EModelProvider.kGoogleGemini ? new GeminiTokenEstimator() : new OpenAITokenEstimator();
+}
+
+/**
+ * Returns the token limits of the model a chat driver uses
+ * @param model The model size
+ * @param provider The provider; kDefault is OpenAI, as in ChatDriverFactory
+ * @returns The limits
+ * @throws {InvalidParameterError} If the model's limits are not known
+ */
+export function getModelContextWindow(model: EModel, provider: EModelProvider): IModelContextWindow {
+   let modelName: string;
+   let limits: IModelContextWindow | undefined;
+   switch (provider) {
+      case EModelProvider.kAzureOpenAI:
+         modelName = getAzureOpenAIDeploymentName(model);
+         limits = AZURE_CONTEXT_WINDOWS[modelName];
+         break;
+      case EModelProvider.kGoogleGemini:
+         modelName = getGeminiModelName(model);
+         limits = GEMINI_CONTEXT_WINDOWS[modelName];
+         break;
+      default:
+         modelName = getOpenAIModelName(model);
+         limits = OPENAI_CONTEXT_WINDOWS[modelName];
+         break;
+   }
+   if (limits === undefined) {
+      throw new InvalidParameterError(`The context window of ${modelName} is not known`);
+   }
+   return limits;
+}
+
+/**
+ * Counts the tokens a message takes in a conversation: its text, any function calls or outputs, and the framing overhead
+ * @param message The message
+ * @param tokenizer The tokenizer
+ * @returns The token count
+ */
+export function countMessageTokens(message: IChatMessage, tokenizer: ITokenizer): number {
+   let tokens = tokenizer.messageOverheadTokens;
+   for (const text of [message.content, message.name, message.output]) {
+      if (text !== undefined) {
+         tokens += tokenizer.countTokens(text);
+      }
+   }
+   for (const call of [...(message.function_call ? [message.function_call] : []), ...(message.tool_calls ?? [])]) {
+      tokens += tokenizer.countTokens(call.name) + tokenizer.countTokens(call.arguments);
+   }
+   return tokens;
+}
+
+/**
+ * Counts the tokens taken by function definitions sent with a request
+ * @param functions The functions
+ * @param tokenizer The tokenizer
+ * @returns The token count
+ */
+export function countFunctionTokens(functions: IFunction[], tokenizer: ITokenizer): number {
+   return functions.reduce((total, fn) =>
+      total + tokenizer.countTokens(JSON.stringify({ name: fn.name, description: fn.description, parameters: fn.inputSchema })), 0);
+}
+
+/**
+ * The parts of a request to budget for
+ *
+ * @interface ITokenBudgetRequest
+ * @property {string} [systemPrompt] - The system prompt
+ * @property {string} userPrompt - The user prompt
+ * @property {IChatMessage[]} [messageHistory] - Previous messages
+ * @property {IFunction[]} [functions] - Functions available to the model
+ * @property {number} [reservedOutputTokens] - Tokens to keep free for the response. Defaults to 0.
+ */
+export interface ITokenBudgetRequest {
+   systemPrompt?: string | undefined;
+   userPrompt: string;
+   messageHistory?: IChatMessage[] | undefined;
+   functions?: IFunction[] | undefined;
+   reservedOutputTokens?: number | undefined;
+}
+
+/**
+ * How a request uses a model's context window
+ *
+ * @interface ITokenBudget
+ * @property {number} contextTokens - The model's context window
+ * @property {number} systemPromptTokens - Tokens in the system prompt
+ * @property {number} historyTokens - Tokens in the message history
+ * @property {number} userPromptTokens - Tokens in the user prompt
+ * @property {number} functionTokens - Tokens in the function definitions
+ * @property {number} inputTokens - Tokens in the whole request
+ * @property {number} remainingTokens - Context window left after the request; negative if the request alone is too long
+ * @property {number} availableOutputTokens - The longest response possible, limited by the room left and the model's output limit
+ * @property {boolean} fits - True if the request and the reserved output tokens fit the context window
+ */
+export interface ITokenBudget {
+   contextTokens: number;
+   systemPromptTokens: number;
+   historyTokens: number;
+   userPromptTokens: number;
+   functionTokens: number;
+   inputTokens: number;
+   remainingTokens: number;
+   availableOutputTokens: number;
+   fits: boolean;
+}
+
+/**
+ * Works out whether a request fits a model's context window, and how much room is left for the response
+ * @param request The system prompt, history, user prompt and functions
+ * @param limits The model's token limits, see getModelContextWindow
+ * @param tokenizer The tokenizer, see getTokenizer
+ * @returns The budget
+ */
+export function calculateTokenBudget(request: ITokenBudgetRequest, limits: IModelContextWindow, tokenizer: ITokenizer): ITokenBudget {
+   const systemPromptTokens = request.systemPrompt ? tokenizer.countTokens(request.systemPrompt) + tokenizer.messageOverheadTokens : 0;
+   const historyTokens = (request.messageHistory ?? []).reduce((total, message) => total + countMessageTokens(message, tokenizer), 0);
+   const userPromptTokens = tokenizer.countTokens(request.userPrompt) + tokenizer.messageOverheadTokens;
+   const functionTokens = countFunctionTokens(request.functions ?? [], tokenizer);
+   const inputTokens = systemPromptTokens + historyTokens + userPromptTokens + functionTokens;
+   const remainingTokens = limits.contextTokens - inputTokens;
+
+   return {
+      contextTokens: limits.contextTokens,
+      systemPromptTokens,
+      historyTokens,
+      userPromptTokens,
+      functionTokens,
+      inputTokens,
+      remainingTokens,
+      availableOutputTokens: Math.max(0, Math.min(remainingTokens, limits.maxOutputTokens)),
+      fits: inputTokens + (request.reservedOutputTokens ?? 0) <= limits.contextTokens
+   };
+}
+
+/**
+ * Works out whether a request fits the model a chat driver uses, counting with the provider's estimator
+ * @param model The model size
+ * @param provider The provider
+ * @param request The system prompt, history, user prompt and functions
+ * @returns The budget
+ */
+export function getTokenBudget(model: EModel, provider: EModelProvider, request: ITokenBudgetRequest): ITokenBudget {
+   return calculateTokenBudget(request, getModelContextWindow(model, provider), getTokenizer(provider));
+}
@@ -0,0 +1,156 @@
+/**
+ * @module ToolExecution
+ *
+ * Runs the function calls of one model response. Calls run concurrently, up to a limit, except calls to
+ * functions marked runSerially, which wait for the calls before them to finish and run on their own.
+ * Results are returned in the order of the calls, whatever order they finish in. Results are checked against
+ * the function's outputSchema before they are sent back to the model.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IFunction } from "./Function";
+import { validateJsonSchema } from "./JsonSchema";
+
+/**
+ * What drivers do with function results that do not match the function's outputSchema
+ */
+export enum EToolOutputValidation {
+   /** Results are not checked */
+   kOff = "off",
+   /** Violations are reported to onViolation, and the result is sent to the model as it is */
+   kReport = "report",
+   /** Violations are reported to onViolation, and the model is sent an error listing them instead of the result */
+   kReject = "reject"
+}
+
+/**
+ * A function result that does not match the function's outputSchema
+ *
+ * @interface IToolOutputViolation
+ * @property {string} callId - The id of the function call
+ * @property {string} functionName - The function name
+ * @property {unknown} output - The result, as it would be sent to the model
+ * @property {string[]} violations - A message for each way the result does not match the schema
+ */
+export interface IToolOutputViolation {
+   callId: string;
+   functionName: string;
+   output: unknown;
+   violations: string[];
+}
+
+/**
+ * How drivers check function results against outputSchema
+ *
+ * @interface IToolOutputValidation
+ * @property {EToolOutputValidation} [mode] - What to do with results that do not match; kReject if left out
+ * @property {Function} [onViolation] - Called for each result that does not match, unless mode is kOff
+ */
+export interface IToolOutputValidation {
+   mode?: EToolOutputValidation | undefined;
+   onViolation?: ((violation: IToolOutputViolation) => void) | undefined;
+}
+
+/**
+ * The result of checking a function result
+ *
+ * @interface ICheckedToolOutput
+ * @property {unknown} output - What to send to the model: the result, or an error listing the violations
+ * @property {string} [error] - The error message, if the result was rejected
+ */
+export interface ICheckedToolOutput {
+   output: unknown;
+   error?: string | undefined;
+}
+
+/**
+ * Runs function calls concurrently, keeping calls to functions marked runSerially apart from the others
+ * @param calls The calls, in the order the model made them
+ * @param functions The functions available, which say whether a call must run on its own
+ * @param maxConcurrency The most calls that run at once
+ * @param run Runs one call. It should report failures in its result; an error it throws fails the whole round.
+ * @returns The result of each call, in the order of the calls
+ */
+export async function runToolCalls<TCall extends { name: string }, TResult>(
+   calls: TCall[],
+   functions: IFunction[],
+   maxConcurrency: number,
+   run: (call: TCall) => Promise<TResult>
+): Promise<TResult[]> {
+   const results: TResult[] = new Array(calls.length);
+   let batch: number[] = [];
+
+   const runBatch = async () => {
+      let next = 0;
+      const pending = batch;
+      batch = [];
+      const worker = async () => {
+         while (next < pending.length) {
+            const index = pending[next++];
+            results[index] = await run(calls[index]);
+         }
+      };
+      await Promise.all(Array.from({ length: Math.min(maxConcurrency, pending.length) }, worker));
+   };
+
+   for (let index = 0; index < calls.length; index++) {
+      const func = functions.find(candidate => candidate.name === calls[index].name);
+      if (func?.runSerially) {
+         await runBatch();
+         results[index] = await run(calls[index]);
+      } else {
+         batch.push(index);
+      }
+   }
+   await runBatch();
+   return results;
+}
+
+/**
+ * Waits for a function to finish, giving up after its timeoutMs. The function is not stopped.
+ * @param execution The result of calling the function's execute
+ * @param func The function
+ * @returns The function's result
+ * @throws {Error} If the function has not finished within its timeoutMs
+ */
+export function withFunctionTimeout<T>(execution: Promise<T>, func: IFunction): Promise<T> {
+   const timeoutMs = func.timeoutMs;
+   if (timeoutMs === undefined) {
+      return execution;
+   }
+   let timer: ReturnType<typeof setTimeout> | undefined;
+   const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Function ${func.name} timed out after ${timeoutMs}ms`)), timeoutMs);
+   });
+   return Promise.race([execution, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Checks a function result against the function's outputSchema, as it will be sent to the model
+ * @param result The result of the function's execute
+ * @param func The function
+ * @param callId The id of the function call, for onViolation
+ * @param validation What to do with a result that does not match
+ * @returns The output to send to the model, and the error if the result was rejected
+ */
+export function checkFunctionOutput(result: unknown, func: IFunction, callId: string, validation: IToolOutputValidation): ICheckedToolOutput {
+   const mode = validation.mode ?? EToolOutputValidation.kReject;
+   if (mode === EToolOutputValidation.kOff) {
+      return { output: result };
+   }
+
+   // Check the result as the model will see it, so that dates are strings and undefined properties are left out
+   const serialized = JSON.stringify(result);
+   const output: unknown = serialized === undefined ? result : JSON.parse(serialized);
+   const violations = validateJsonSchema(output, func.outputSchema);
+   if (violations.length === 0) {
+      return { output: result };
+   }
+
+   validation.onViolation?.({ callId, functionName: func.name, output, violations });
+   if (mode === EToolOutputValidation.kReport) {
+      return { output: result };
+   }
+   const error = `Function ${func.name} returned output that does not match its outputSchema: ${violations.join("; ")}`;
+   return { output: { error, violations, functionName: func.name, timestamp: new Date().toISOString() }, error };
+}
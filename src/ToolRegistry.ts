@@ -0,0 +1,266 @@
+/**
+ * @module ToolRegistry
+ *
+ * A registry for large sets of functions. Functions are registered under an optional namespace and
+ * tags, and the registry picks the ones to send with each request: by tag, by namespace, by an
+ * allow-list of names, or by how similar their descriptions are to the user prompt. Sending only the
+ * relevant functions keeps requests small and helps the model choose between them.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IEmbeddingModelDriver, InvalidParameterError } from "./entry";
+import { IFunction } from "./Function";
+import { cosineSimilarity } from "./Embed";
+
+/**
+ * What to do when a function is registered under a name that is already taken
+ */
+export enum EToolNameCollision {
+   /** Throw InvalidParameterError */
+   kError = "error",
+   /** Replace the function registered before */
+   kReplace = "replace",
+   /** Register the new function under the name with a number added, such as get_weather_2 */
+   kRename = "rename"
+}
+
+/**
+ * Options for registering functions
+ *
+ * @interface IToolRegistrationOptions
+ * @property {string} [namespace] - Prefixed to the function's name, as namespace__name, to keep it apart from functions of other namespaces
+ * @property {string[]} [tags] - Labels to select the function by
+ * @property {EToolNameCollision} [onCollision] - What to do if the name is taken; the registry's default if left out
+ */
+export interface IToolRegistrationOptions {
+   namespace?: string | undefined;
+   tags?: string[] | undefined;
+   onCollision?: EToolNameCollision | undefined;
+}
+
+/**
+ * A function held by a registry
+ *
+ * @interface IRegisteredTool
+ * @property {string} name - The name the model sees, including the namespace
+ * @property {string} [namespace] - The namespace it was registered under
+ * @property {string[]} tags - Its tags
+ * @property {IFunction} function - The function as sent to the model, renamed to name
+ */
+export interface IRegisteredTool {
+   readonly name: string;
+   readonly namespace?: string | undefined;
+   readonly tags: readonly string[];
+   readonly function: IFunction;
+}
+
+/**
+ * Which registered functions to select. A function must match every field that is given.
+ *
+ * @interface IToolFilter
+ * @property {string[]} [tags] - Functions with at least one of these tags
+ * @property {string[]} [namespaces] - Functions registered under one of these namespaces
+ * @property {string[]} [names] - Functions with one of these names, including their namespace
+ */
+export interface IToolFilter {
+   tags?: string[] | undefined;
+   namespaces?: string[] | undefined;
+   names?: string[] | undefined;
+}
+
+/**
+ * Options for selecting the functions most relevant to a prompt
+ *
+ * @interface IToolSimilarityOptions
+ * @property {IEmbeddingModelDriver} embeddingDriver - Embeds the prompt and the function descriptions
+ * @property {number} [maxTools] - The most functions to select; 8 if left out
+ * @property {number} [minSimilarity] - The lowest cosine similarity a function may have to be selected
+ * @property {IToolFilter} [filter] - Limits the functions considered
+ */
+export interface IToolSimilarityOptions {
+   embeddingDriver: IEmbeddingModelDriver;
+   maxTools?: number | undefined;
+   minSimilarity?: number | undefined;
+   filter?: IToolFilter | undefined;
+}
+
+const NAMESPACE_SEPARATOR = "__";
+const DEFAULT_MAX_TOOLS = 8;
+const VALID_NAME = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Holds functions under namespaces and tags, and selects the ones to send with each request
+ *
+ * @example
+ * ```typescript
+ * const registry = new ToolRegistry();
+ * registry.register(getWeatherFunction, { namespace: 'weather', tags: ['travel'] });
+ * registry.register(bookFlightFunction, { namespace: 'flights', tags: ['travel', 'booking'] });
+ *
+ * const tools = await registry.findRelevant(userPrompt, { embeddingDriver, maxTools: 5 });
+ * const reply = await chatDriver.getModelResponse(systemPrompt, userPrompt, EVerbosity.kMedium, [], tools);
+ * ```
+ */
+export class ToolRegistry {
+   private readonly tools = new Map<string, IRegisteredTool>();
+   private readonly embeddings = new WeakMap<IEmbeddingModelDriver, Map<string, Promise<number[]>>>();
+
+   /**
+    * @param defaultCollision What to do when a name is taken, unless a registration says otherwise
+    */
+   constructor(private readonly defaultCollision: EToolNameCollision = EToolNameCollision.kError) {}
+
+   /**
+    * Registers a function
+    * @param func The function
+    * @param options Its namespace, tags, and what to do if its name is taken
+    * @returns The function as it will be sent to the model, under its registered name
+    * @throws {InvalidParameterError} If the name or namespace is not made of letters, digits, '_' and '-',
+    *    or if the name is taken and onCollision is kError
+    */
+   register(func: IFunction, options: IToolRegistrationOptions = {}): IFunction {
+      if (!VALID_NAME.test(func.name)) {
+         throw new InvalidParameterError(`Function name "${func.name}" may only contain letters, digits, '_' and '-'`);
+      }
+      if (options.namespace !== undefined && !VALID_NAME.test(options.namespace)) {
+         throw new InvalidParameterError(`Namespace "${options.namespace}" may only contain letters, digits, '_' and '-'`);
+      }
+
+      let name = options.namespace ? `${options.namespace}${NAMESPACE_SEPARATOR}${func.name}` : func.name;
+      if (this.tools.has(name)) {
+         const onCollision = options.onCollision ?? this.defaultCollision;
+         if (onCollision === EToolNameCollision.kError) {
+            throw new InvalidParameterError(`A function named "${name}" is already registered`);
+         }
+         if (onCollision === EToolNameCollision.kRename) {
+            let suffix = 2;
+            while (this.tools.has(`${name}_${suffix}`)) {
+               suffix++;
+            }
+            name = `${name}_${suffix}`;
+         }
+      }
+
+      const tool: IRegisteredTool = {
+         name,
+         namespace: options.namespace,
+         tags: [...new Set(options.tags ?? [])],
+         function: { ...func, name }
+      };
+      this.tools.set(name, tool);
+      return tool.function;
+   }
+
+   /**
+    * Registers several functions with the same options
+    * @returns The functions as they will be sent to the model
+    */
+   registerAll(functions: IFunction[], options: IToolRegistrationOptions = {}): IFunction[] {
+      return functions.map(func => this.register(func, options));
+   }
+
+   /**
+    * Removes a function
+    * @param name Its registered name, including the namespace
+    * @returns True if it was registered
+    */
+   unregister(name: string): boolean {
+      return this.tools.delete(name);
+   }
+
+   /**
+    * @param name A registered name, including the namespace
+    * @returns The function registered under the name, or undefined
+    */
+   get(name: string): IRegisteredTool | undefined {
+      return this.tools.get(name);
+   }
+
+   /**
+    * @returns Every registered function, in the order they were registered
+    */
+   list(): IRegisteredTool[] {
+      return [...this.tools.values()];
+   }
+
+   /**
+    * @returns Every tag in use, sorted
+    */
+   listTags(): string[] {
+      return [...new Set(this.list().flatMap(tool => tool.tags))].sort();
+   }
+
+   /**
+    * Selects functions by tag, namespace or name
+    * @param filter What the functions must match; an empty filter matches every function
+    * @returns The matching functions, in the order they were registered
+    * @throws {InvalidParameterError} If the filter names a function that is not registered
+    */
+   find(filter: IToolFilter = {}): IFunction[] {
+      return this.match(filter).map(tool => tool.function);
+   }
+
+   /**
+    * Selects the functions whose names and descriptions are most similar to a prompt. Each name and
+    * description is embedded once per embedding driver and reused until it changes.
+    * @param prompt The user prompt
+    * @param options The embedding driver, how many functions to select, and which to consider
+    * @returns The selected functions, most similar first
+    * @throws {InvalidParameterError} If maxTools is not a positive integer, or the embeddings differ in length
+    */
+   async findRelevant(prompt: string, options: IToolSimilarityOptions): Promise<IFunction[]> {
+      const maxTools = options.maxTools ?? DEFAULT_MAX_TOOLS;
+      if (!Number.isInteger(maxTools) || maxTools < 1) {
+         throw new InvalidParameterError(`maxTools must be a positive integer, got ${maxTools}`);
+      }
+      const candidates = this.match(options.filter ?? {});
+      if (candidates.length === 0) {
+         return [];
+      }
+
+      const [promptEmbedding, ...toolEmbeddings] = await Promise.all([
+         options.embeddingDriver.embed(prompt),
+         ...candidates.map(tool => this.embedTool(tool, options.embeddingDriver))
+      ]);
+      const scored = candidates.map((tool, index) => ({
+         tool,
+         similarity: cosineSimilarity(promptEmbedding, toolEmbeddings[index])
+      }));
+
+      return scored
+         .filter(entry => options.minSimilarity === undefined || entry.similarity >= options.minSimilarity)
+         .sort((a, b) => b.similarity - a.similarity)
+         .slice(0, maxTools)
+         .map(entry => entry.tool.function);
+   }
+
+   private match(filter: IToolFilter): IRegisteredTool[] {
+      for (const name of filter.names ?? []) {
+         if (!this.tools.has(name)) {
+            throw new InvalidParameterError(`No function named "${name}" is registered`);
+         }
+      }
+      return this.list().filter(tool =>
+         (filter.names === undefined || filter.names.includes(tool.name)) &&
+         (filter.namespaces === undefined || (tool.namespace !== undefined && filter.namespaces.includes(tool.namespace))) &&
+         (filter.tags === undefined || tool.tags.some(tag => filter.tags!.includes(tag))));
+   }
+
+   private embedTool(tool: IRegisteredTool, driver: IEmbeddingModelDriver): Promise<number[]> {
+      let cache = this.embeddings.get(driver);
+      if (!cache) {
+         cache = new Map();
+         this.embeddings.set(driver, cache);
+      }
+      // Keyed by the text embedded, so a function registered again with a new description is embedded again
+      const text = `${tool.name}: ${tool.function.description}`;
+      let embedding = cache.get(text);
+      if (!embedding) {
+         embedding = driver.embed(text);
+         // Failures are not cached, so that the next selection tries again
+         embedding.catch(() => cache!.delete(text));
+         cache.set(text, embedding);
+      }
+      return embedding;
+   }
+}
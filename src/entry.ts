@@ -16,6 +16,11 @@
 
 import { IFunction } from './Function';
 import { IChatWithAttachmentDriver } from './ChatWithAttachment';
+import { IJsonSchema } from './JsonSchema';
+import { IHistoryStrategy } from './ChatHistory';
+import { IRequestOptions } from './Cancellation';
+import { IRetryPolicy } from './RetryPolicy';
+import { IToolOutputValidation } from './ToolExecution';
 
 /**
  * Enum representing model sizes
@@ -55,6 +60,25 @@ export enum EVerbosity {
 }
 
 export { PromptFileRepository, PromptInMemoryRepository } from "./PromptRepository";
+export { IPromptSource, PromptArraySource, PromptFileSource, PromptDirectorySource, PromptMultiSourceRepository, PromptDirectoryRepository, readPromptFile, findPromptFiles } from "./PromptSource";
+export { IPromptBackend, AsyncPromptRepository, PromptSourceBackend, HttpPromptBackend, IHttpPromptBackendOptions, SqlitePromptBackend, ISqliteDatabase, KeyValuePromptBackend, IKeyValueStore, CachingPromptBackend, ICachingPromptBackendOptions } from "./PromptBackend";
+export { PromptWatchingRepository, IPromptWatchOptions, IPromptChangeEvent, PromptChangeListener, PromptReloadErrorListener, diffPrompts } from "./PromptWatch";
+export { LatestPromptVersion, parsePromptVersion, comparePromptVersions, sortPromptVersions, satisfiesPromptVersionRange, IPromptVersion } from "./PromptVersion";
+export { CurrentPromptSchemaVersion, DefaultPromptSchemaVersion, registerPromptMigration, unregisterPromptMigration, migratePrompt, migratePrompts, migratePromptFile, IPromptMigration, IPromptMigrationRecord, IPromptMigrationResult } from "./PromptMigration";
+export { diffPromptSets, diffPromptVersions, diffPromptIdVersions, diffPromptText, hasBreakingPromptChanges, formatPromptDiff, formatPromptChangelog, EPromptChangeSeverity, IPromptChange, IPromptDiff, IPromptSetDiff, IPromptTextDiffLine } from "./PromptDiff";
+export { localizePrompt, findLocaleFallbacks, isValidLocale } from "./PromptLocale";
+export { resolvePromptComposition, findPromptReferences, IPromptFragment, PromptLookup } from "./PromptComposition";
+export { IJsonSchema, validateJsonSchema } from "./JsonSchema";
+export { renderPromptTemplate, findPromptTemplateParameters } from "./PromptTemplate";
+export { validatePrompts, validatePromptFile, formatPromptDiagnostic, IPromptDiagnostic, EPromptDiagnosticSeverity, EPromptDiagnosticCode } from "./PromptValidation";
+export { ITokenizer, IModelContextWindow, ITokenBudgetRequest, ITokenBudget, OpenAITokenEstimator, GeminiTokenEstimator, getTokenizer, getModelContextWindow, countMessageTokens, countFunctionTokens, calculateTokenBudget, getTokenBudget } from "./TokenBudget";
+export { IHistoryRequest, IHistoryStrategy, ISummarisingHistoryOptions, HistorySummaryPrefix, groupHistoryTurns, SlidingWindowHistoryStrategy, TokenBudgetHistoryStrategy, SummarisingHistoryStrategy } from "./ChatHistory";
+export { ChatStreamInterruptedMessage, streamChatText } from "./ChatStream";
+export { IRequestOptions, OperationCancelledError, createRequestSignal } from "./Cancellation";
+export { EToolOutputValidation, IToolOutputValidation, IToolOutputViolation } from "./ToolExecution";
+export { ToolRegistry, EToolNameCollision, IToolRegistrationOptions, IRegisteredTool, IToolFilter, IToolSimilarityOptions } from "./ToolRegistry";
+export { IRetryPolicy, IRetryOverride, IRetryAttempt, IRetryClock, ERetryJitter, DefaultRetryPolicy, SystemRetryClock, logRetryAttempt } from "./RetryPolicy";
+export { IChatSessionState, IChatSessionStore, IChatSessionOptions, ChatSession, InMemoryChatSessionStore, FileChatSessionStore, parseChatSessionState } from "./ChatSession";
 export { ChatDriverFactory } from "./ChatFactory";
 export { GoogleGeminiChatDriver } from "./Chat.GoogleGemini";
 export { EmbeddingDriverFactory } from "./EmbedFactory";
@@ -62,6 +86,7 @@ export { cosineSimilarity as CosineSimilarity } from "./Embed";
 export { throwIfUndefined, throwIfNull, throwIfFalse, InvalidParameterError, InvalidOperationError, ConnectionError, InvalidStateError, sanitizeInputString, sanitizeOutputString } from "@jonverrier/assistant-common";
 export { formatChatMessageTimestamp, renderChatMessageAsText } from "./FormatChatMessage";
 export { IFunction, IFunctionArgs, EDataType, ILLMFunctionCall, IFunctionCallOutput, IFunctionExecutionContext, FunctionExecutionResult } from "./Function";
+export { FunctionSchema, defineFunction, toSchema, ISchemaField, ISchemaFields, InferSchemaField, InferSchemaFields, ITypedFunction, ITypedFunctionDefinition } from "./FunctionBuilder";
 export { IChatWithAttachmentDriver, IChatAttachmentContent, IChatAttachmentReference, ChatAttachmentInput, IChatTableJson } from "./ChatWithAttachment";
 export { OpenAIChatWithAttachment } from "./ChatWithAttachment.OpenAI";
 export { AzureOpenAIChatWithAttachment } from "./ChatWithAttachment.AzureOpenAI";
@@ -74,7 +99,19 @@ export { ChatWithAttachmentDriverFactory } from "./ChatWithAttachmentFactory";
 export const ParameterTypeNumber = "kNumber";
 export const ParameterTypeString = "kString";
 export const ParameterTypeEnum = "kEnum";
-export type EParameterType = "kNumber" | "kString" | "kEnum";
+export const ParameterTypeBoolean = "kBoolean";
+export const ParameterTypeInteger = "kInteger";
+export const ParameterTypeDate = "kDate";
+export const ParameterTypeJson = "kJson";
+export const ParameterTypeList = "kList";
+export const ParameterTypeUrl = "kUrl";
+export type EParameterType = "kNumber" | "kString" | "kEnum" | "kBoolean" | "kInteger" | "kDate" | "kJson" | "kList" | "kUrl";
+
+/**
+ * The value of a prompt parameter. A kList parameter takes a list of values, which may be iterated
+ * with {#each} in a prompt template. A list passed for any other type must have items that each satisfy the type.
+ */
+export type PromptParameterValue = string | string[] | undefined;
 
 /**
  * Interface representing a parameter used in prompt templates
@@ -82,18 +119,31 @@ export type EParameterType = "kNumber" | "kString" | "kEnum";
  * @interface IPromptParameter
  * @property {string} name - The name of the parameter used in placeholder substitution
  * @property {string} description - A description of what the parameter represents
- * @property {EType} type - The type of the parameter
+ * @property {EType} type - The type of the parameter. kBoolean takes "true" or "false", kDate an ISO 8601 date,
+ *    kJson a JSON document, kUrl an http or https URL, kList a list of strings.
  * @property {boolean} required - Whether this parameter must be provided
- * @property {string} defaultValue - The default value to use if parameter is not provided
- * @property {string[]} allowedValues - Array of allowed values for this parameter if type is enum
+ * @property {string | string[]} defaultValue - The default value to use if parameter is not provided, a list for kList
+ * @property {string[]} allowedValues - Array of allowed values for this parameter if type is enum, or for each item if type is list
+ * @property {number | string} [min] - The smallest value allowed for kNumber and kInteger, or the earliest ISO date for kDate
+ * @property {number | string} [max] - The largest value allowed for kNumber and kInteger, or the latest ISO date for kDate
+ * @property {number} [minLength] - The shortest value allowed, or for kList the fewest items
+ * @property {number} [maxLength] - The longest value allowed, or for kList the most items
+ * @property {string} [pattern] - A regular expression the value, or each item of a kList, must match
+ * @property {IJsonSchema} [schema] - A JSON schema a kJson value must satisfy
  */
 export interface IPromptParameterSpec {
    name: string,
    description: string,
    type: EParameterType,
    required: boolean,
-   defaultValue?: string | undefined,
-   allowedValues?: string[] | undefined
+   defaultValue?: string | string[] | undefined,
+   allowedValues?: string[] | undefined,
+   min?: number | string | undefined,
+   max?: number | string | undefined,
+   minLength?: number | undefined,
+   maxLength?: number | undefined,
+   pattern?: string | undefined,
+   schema?: IJsonSchema | undefined
 } 
 
 /**
@@ -102,13 +152,15 @@ export interface IPromptParameterSpec {
  * @interface IPrompt
  * @property {string} id - The unique identifier of the prompt
  * @property {string} version - The version of the prompt
- * @property {string} schemaVersion - The version of the prompt schema
+ * @property {string} [schemaVersion] - The version of the prompt schema, see CurrentPromptSchemaVersion. Assumed to be "0.1" if absent.
  * @property {string} name - The name of the prompt
  * @property {string} [description] - The description of the prompt
+ * @property {string} [extends] - The id of a base prompt to inherit the system prompt and parameter specifications from
  * @property {string} systemPrompt - The system prompt template
  * @property {IPromptParameterSpec[]} [systemPromptParameters] - The parameters for the system prompt
  * @property {string} userPrompt - The user prompt template
  * @property {IPromptParameterSpec[]} [userPromptParameters] - The parameters for the user prompt
+ * @property {object} [locales] - Translations of the prompt, keyed by BCP-47 language tag e.g. "fr" or "fr-CA"
  */
 export interface IPrompt {
    id: string,
@@ -116,10 +168,38 @@ export interface IPrompt {
    schemaVersion?: string   
    name: string,
    description?: string,
+   extends?: string,
    systemPrompt?: string,
    systemPromptParameters?: IPromptParameterSpec[] | undefined,
    userPrompt: string,
    userPromptParameters?: IPromptParameterSpec[] | undefined,
+   locales?: { [locale: string]: IPromptLocaleVariant } | undefined,
+}
+
+/**
+ * The text of a prompt in one locale. Fields that are absent fall back to the parent locale, then to the prompt itself.
+ *
+ * @interface IPromptLocaleVariant
+ * @property {string} [systemPrompt] - The system prompt template in this locale
+ * @property {string} [userPrompt] - The user prompt template in this locale
+ * @property {object} [parameterDescriptions] - Descriptions of the system and user prompt parameters in this locale, keyed by parameter name
+ */
+export interface IPromptLocaleVariant {
+   systemPrompt?: string | undefined,
+   userPrompt?: string | undefined,
+   parameterDescriptions?: { [name: string]: string } | undefined
+}
+
+/**
+ * Selects a prompt by version and locale
+ *
+ * @interface IPromptSelector
+ * @property {string} [version] - A version or version range, see IPromptRepository.getPrompt. Defaults to the latest released version.
+ * @property {string} [locale] - A BCP-47 language tag e.g. "fr-CA". Falls back to "fr", then to the prompt's own text.
+ */
+export interface IPromptSelector {
+   version?: string | undefined,
+   locale?: string | undefined
 }
 
 /**
@@ -127,27 +207,73 @@ export interface IPrompt {
  */
 export interface IPromptRepository {
    /**
-    * Retrieves a stored prompt by its unique identifier
+    * Retrieves a stored prompt by its unique identifier. The repository may hold several versions
+    * of the same prompt id; the version is selected by a semver-style range. The prompt is returned
+    * with "extends" and "{> partial}" references resolved, using the latest version of each prompt referenced.
+    * If a locale is given, the prompt and the prompts it refers to are returned with the text for that locale.
+    * @param id The unique identifier of the prompt
+    * @param selector Optional version selector: a pinned version e.g. "1.2.0", a range e.g. "^1.2.0",
+    *    "~1.2", "1.x" or ">=1.0.0 <2.0.0", or "latest". Defaults to the latest released version.
+    *    Pass an IPromptSelector to select a locale as well, e.g. { locale: "fr-CA" }.
+    * @returns The highest stored version that satisfies the range, if any
+    * @throws {InvalidParameterError} If the version range or locale is not valid
+    * @throws {InvalidOperationError} If the prompt refers to a base or partial that cannot be found, or the references form a cycle
+    */
+   getPrompt(id: string, selector?: string | IPromptSelector): IPrompt | undefined;
+
+   /**
+    * Lists the versions held for a prompt id
     * @param id The unique identifier of the prompt
-    * @returns The stored prompt if found
+    * @returns The versions in ascending order, empty if the id is not found
     */
-   getPrompt(id: string): IPrompt | undefined;
+   listVersions(id: string): string[];
 
    /**
     * Expands a prompt with given parameters
     * @param prompt The prompt to expand
     * @param params The parameters to expand the prompt with. Optional parameters may be undefined.
     * @returns The expanded prompt
+    * @throws {InvalidParameterError} If a parameter is missing or invalid, or the prompt template is malformed
     */
-   expandSystemPrompt(prompt: IPrompt, params: { [key: string]: string | undefined }): string;
+   expandSystemPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string;
 
    /**
     * Expands a prompt with given parameters
     * @param prompt The prompt to expand
     * @param params The parameters to expand the prompt with. Optional parameters may be undefined.
     * @returns The expanded prompt
+    * @throws {InvalidParameterError} If a parameter is missing or invalid, or the prompt template is malformed
     */
-   expandUserPrompt(prompt: IPrompt, params: { [key: string]: string | undefined }): string;   
+   expandUserPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string;   
+}
+
+/**
+ * Interface for a repository that fetches prompts asynchronously, e.g. from a central store over HTTP.
+ * Expansion is local, so remains synchronous. See IPromptRepository for the meaning of each method.
+ */
+export interface IAsyncPromptRepository {
+   /**
+    * Fetches a prompt by its unique identifier, selecting a version and locale as IPromptRepository.getPrompt does
+    * @param id The unique identifier of the prompt
+    * @param selector Optional version range, or an IPromptSelector naming a version range and a locale
+    * @returns The highest stored version that satisfies the range, if any
+    * @throws {InvalidParameterError} If the version range or locale is not valid
+    * @throws {InvalidOperationError} If the prompt refers to a base or partial that cannot be found, or the references form a cycle
+    * @throws {ConnectionError} If the prompt store cannot be reached
+    */
+   getPrompt(id: string, selector?: string | IPromptSelector): Promise<IPrompt | undefined>;
+
+   /**
+    * Lists the versions held for a prompt id
+    * @param id The unique identifier of the prompt
+    * @returns The versions in ascending order, empty if the id is not found
+    * @throws {ConnectionError} If the prompt store cannot be reached
+    */
+   listVersions(id: string): Promise<string[]>;
+
+   expandSystemPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string;
+
+   expandUserPrompt(prompt: IPrompt, params: { [key: string]: PromptParameterValue }): string;
 }
 
 // --- Optional identity for storage/retrieval (used by IChatMessage and backend persistence) ---
@@ -211,6 +337,129 @@ export interface IChatMessage extends IQueryReturnable {
 
 export const ChatMessageClassName = "IChatMessage";
 
+/** Why the model stopped generating */
+export enum EChatFinishReason {
+   kStop = 'stop', // The model finished its response
+   kLength = 'length', // The response reached the output token limit
+   kContentFilter = 'content_filter', // The response was blocked by a safety or content filter
+   kToolCalls = 'tool_calls', // The model stopped to call functions that were not run
+   kMaxToolRounds = 'max_tool_rounds', // The model kept calling functions until the driver's round limit
+   kOther = 'other'
+}
+
+/**
+ * Tokens used by a call, summed over every request the driver made to answer it
+ * 
+ * @interface IChatUsage
+ * @property {number} inputTokens - Tokens sent to the model
+ * @property {number} outputTokens - Tokens generated, including any reasoning tokens
+ * @property {number} totalTokens - Input and output tokens together
+ * @property {number} [reasoningTokens] - Output tokens spent on reasoning, where the provider reports them
+ */
+export interface IChatUsage {
+   inputTokens: number;
+   outputTokens: number;
+   totalTokens: number;
+   reasoningTokens?: number | undefined;
+}
+
+/**
+ * A function the driver executed while answering a call
+ * 
+ * @interface IToolInvocation
+ * @property {string} callId - The id of the function call
+ * @property {string} name - The function name
+ * @property {string} arguments - JSON string of the arguments the model passed
+ * @property {string} output - JSON string of the result, or of the error, sent back to the model
+ * @property {string} [error] - The error message, if the function could not be found, validated or executed, or its
+ *    result did not match its outputSchema
+ * @property {number} durationMs - How long validation and execution took
+ */
+export interface IToolInvocation {
+   callId: string;
+   name: string;
+   arguments: string;
+   output: string;
+   error?: string | undefined;
+   durationMs: number;
+}
+
+/**
+ * A response from the model, with details of how it was produced
+ * 
+ * @interface IChatResponse
+ * @property {string} text - The response text, as returned by getModelResponse
+ * @property {string} model - The model that answered, as reported by the provider where it does so
+ * @property {EChatFinishReason} finishReason - Why the model stopped
+ * @property {IChatUsage} [usage] - Tokens used, if the provider reported them
+ * @property {IToolInvocation[]} toolInvocations - Functions executed, in the order they were called
+ * @property {string} [responseId] - The provider's id for the last request made, for support and tracing
+ * @property {number} latencyMs - Time taken to answer, including function execution
+ */
+export interface IChatResponse {
+   text: string;
+   model: string;
+   finishReason: EChatFinishReason;
+   usage?: IChatUsage | undefined;
+   toolInvocations: IToolInvocation[];
+   responseId?: string | undefined;
+   latencyMs: number;
+}
+
+/** The kinds of event in a streamed response */
+export enum EChatStreamEventType {
+   kTextDelta = 'text_delta',
+   kToolCallStarted = 'tool_call_started',
+   kToolCallFinished = 'tool_call_finished',
+   kUsage = 'usage',
+   kError = 'error',
+   kDone = 'done'
+}
+
+/** The next piece of response text */
+export interface IChatTextDeltaEvent {
+   type: EChatStreamEventType.kTextDelta;
+   text: string;
+}
+
+/** The model called a function, which is about to be executed */
+export interface IChatToolCallStartedEvent {
+   type: EChatStreamEventType.kToolCallStarted;
+   callId: string;
+   name: string;
+   arguments: string; // JSON string of arguments
+}
+
+/** A function finished executing; its output has been sent back to the model */
+export interface IChatToolCallFinishedEvent {
+   type: EChatStreamEventType.kToolCallFinished;
+   invocation: IToolInvocation;
+}
+
+/** Tokens used so far, summed over every request made for the call */
+export interface IChatUsageEvent {
+   type: EChatStreamEventType.kUsage;
+   usage: IChatUsage;
+}
+
+/** The response failed. No further events follow. */
+export interface IChatErrorEvent {
+   type: EChatStreamEventType.kError;
+   error: Error;
+}
+
+/** The response is complete. No further events follow. */
+export interface IChatDoneEvent {
+   type: EChatStreamEventType.kDone;
+   response: IChatResponse;
+}
+
+/**
+ * An event in a streamed response. A stream ends with exactly one kDone or kError event.
+ */
+export type ChatStreamEvent = IChatTextDeltaEvent | IChatToolCallStartedEvent | IChatToolCallFinishedEvent |
+   IChatUsageEvent | IChatErrorEvent | IChatDoneEvent;
+
 /**
  * Interface for chat driver - has a number of concrete sub-classes, each of which implements the methods below
  */
@@ -225,6 +474,7 @@ export interface IChatDriver {
     * @param verbosity The verbosity of the response
     * @param messageHistory Optional array of previous chat messages
     * @param functions Optional array of functions available for the model to call
+    * @param options Optional signal and timeout that cancel the call
     * @returns Promise resolving to the final text response from the model
     * 
     * @example
@@ -245,7 +495,8 @@ export interface IChatDriver {
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): Promise<string>;
 
    /**
@@ -257,7 +508,9 @@ export interface IChatDriver {
     * @param verbosity The verbosity of the response
     * @param messageHistory Optional array of previous chat messages
     * @param functions Optional array of functions available for the model to call
+    * @param options Optional signal and timeout that cancel the call
     * @returns AsyncIterator yielding chunks of the final response
+    * @throws {OperationCancelledError} From the iterator, if the call is cancelled or times out
     * 
     * @example
     * ```typescript
@@ -279,7 +532,8 @@ export interface IChatDriver {
       userPrompt: string,
       verbosity: EVerbosity,      
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): AsyncIterator<string>;
 
    /**
@@ -292,6 +546,7 @@ export interface IChatDriver {
     * @param verbosity The verbosity of the response
     * @param messageHistory Optional array of previous chat messages
     * @param functions Array of functions that the model must choose from
+    * @param options Optional signal and timeout that cancel the call
     * @returns Promise resolving to the final text response after tool execution
     * 
     * @example
@@ -311,9 +566,58 @@ export interface IChatDriver {
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): Promise<string>;
 
+   /**
+    * As getModelResponse, and also returns token usage, finish reason, the model used,
+    * the functions executed and the provider's response id.
+    * 
+    * @param systemPrompt The system prompt to send to the model
+    * @param userPrompt The user prompt to send to the model
+    * @param verbosity The verbosity of the response
+    * @param messageHistory Optional array of previous chat messages
+    * @param functions Optional array of functions available for the model to call
+    * @param options Optional signal and timeout that cancel the call
+    * @returns Promise resolving to the response and its details
+    * 
+    * @example
+    * ```typescript
+    * const response = await chatDriver.getModelResponseDetailed(systemPrompt, userPrompt, EVerbosity.kMedium);
+    * console.log(response.text, response.usage?.totalTokens, response.finishReason);
+    * ```
+    */
+   getModelResponseDetailed(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<IChatResponse>;
+
+   /**
+    * As getModelResponseWithForcedTools, and also returns token usage, finish reason, the model used,
+    * the functions executed and the provider's response id.
+    * 
+    * @param systemPrompt The system prompt to send to the model
+    * @param userPrompt The user prompt to send to the model
+    * @param verbosity The verbosity of the response
+    * @param messageHistory Optional array of previous chat messages
+    * @param functions Array of functions that the model must choose from
+    * @param options Optional signal and timeout that cancel the call
+    * @returns Promise resolving to the response and its details
+    */
+   getModelResponseWithForcedToolsDetailed(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): Promise<IChatResponse>;
+
    /**
     * Retrieves a streamed chat response from the model with forced tool usage.
     * The model MUST call at least one function, with results streamed back.
@@ -323,8 +627,10 @@ export interface IChatDriver {
     * @param verbosity The verbosity of the response
     * @param messageHistory Optional array of previous chat messages
     * @param functions Array of functions that the model must choose from
+    * @param options Optional signal and timeout that cancel the call
     * @returns AsyncIterator yielding chunks of the final response after tool execution
-    * 
+    * @throws {OperationCancelledError} From the iterator, if the call is cancelled or times out
+    *
     * @example
     * ```typescript
     * const iterator = chatDriver.getStreamedModelResponseWithForcedTools(
@@ -345,9 +651,62 @@ export interface IChatDriver {
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): AsyncIterator<string>;
 
+   /**
+    * Streams a response as typed events: text deltas, function calls starting and finishing, token usage,
+    * then either done or error. Unlike getStreamedModelResponse, a failure is reported as an error event
+    * rather than as text.
+    * 
+    * @param systemPrompt The system prompt to send to the model
+    * @param userPrompt The user prompt to send to the model
+    * @param verbosity The verbosity of the response
+    * @param messageHistory Optional array of previous chat messages
+    * @param functions Optional array of functions available for the model to call
+    * @param options Optional signal and timeout that cancel the call
+    * @returns AsyncIterator yielding the events of the response
+    * 
+    * @example
+    * ```typescript
+    * const events = chatDriver.getStreamedModelResponseEvents(systemPrompt, userPrompt, EVerbosity.kMedium, [], [getWeatherFunction]);
+    * for await (const event of { [Symbol.asyncIterator]: () => events }) {
+    *   if (event.type === EChatStreamEventType.kTextDelta) process.stdout.write(event.text);
+    *   if (event.type === EChatStreamEventType.kToolCallStarted) showSpinner(event.name);
+    *   if (event.type === EChatStreamEventType.kError) showError(event.error);
+    * }
+    * ```
+    */
+   getStreamedModelResponseEvents(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<ChatStreamEvent>;
+
+   /**
+    * As getStreamedModelResponseEvents, with forced tool usage.
+    * 
+    * @param systemPrompt The system prompt to send to the model
+    * @param userPrompt The user prompt to send to the model
+    * @param verbosity The verbosity of the response
+    * @param messageHistory Optional array of previous chat messages
+    * @param functions Array of functions that the model must choose from
+    * @param options Optional signal and timeout that cancel the call
+    * @returns AsyncIterator yielding the events of the response
+    */
+   getStreamedModelResponseWithForcedToolsEvents(
+      systemPrompt: string | undefined,
+      userPrompt: string,
+      verbosity: EVerbosity,
+      messageHistory?: IChatMessage[],
+      functions?: IFunction[],
+      options?: IRequestOptions
+   ): AsyncIterator<ChatStreamEvent>;
+
 
    /**
     * Retrieves a chat response from the model with JSON schema validation.
@@ -361,6 +720,7 @@ export interface IChatDriver {
     * @param defaultValue The default value to return if parsing fails
     * @param messageHistory Optional array of previous chat messages
     * @param functions Optional array of functions available for the model to call
+    * @param options Optional signal and timeout that cancel the call
     * @returns Promise resolving to a validated JSON object of type T
     * 
     * @example
@@ -397,8 +757,48 @@ export interface IChatDriver {
       jsonSchema: Record<string, unknown>,
       defaultValue: T,
       messageHistory?: IChatMessage[],
-      functions?: IFunction[]
+      functions?: IFunction[],
+      options?: IRequestOptions
    ): Promise<T>;
+
+   /**
+    * Sets how the message history is shortened before each call to the model.
+    * By default the whole history is sent.
+    * 
+    * @param strategy The strategy, or undefined to send the whole history
+    * 
+    * @example
+    * ```typescript
+    * chatDriver.setHistoryStrategy(new SlidingWindowHistoryStrategy(20));
+    * ```
+    */
+   setHistoryStrategy(strategy: IHistoryStrategy | undefined): void;
+
+   /**
+    * Sets the most requests one call may make while the model keeps calling functions.
+    * The default is 10. A call that reaches the limit ends with EChatFinishReason.kMaxToolRounds.
+    * 
+    * @param maxRounds The limit, at least 1
+    * @throws {InvalidParameterError} If maxRounds is not a positive integer
+    */
+   setMaxToolRounds(maxRounds: number): void;
+
+   /**
+    * Sets the most function calls from one response that run at once. The default is 4; 1 runs them one
+    * after another. Calls to functions marked runSerially always run on their own.
+    * 
+    * @param maxConcurrency The limit, at least 1
+    * @throws {InvalidParameterError} If maxConcurrency is not a positive integer
+    */
+   setMaxToolConcurrency(maxConcurrency: number): void;
+
+   /**
+    * Sets how function results are checked against the function's outputSchema. By default a result
+    * that does not match is not sent to the model; the model is sent an error listing the violations instead.
+    * 
+    * @param validation The mode, kReject, kReport or kOff, and a hook called with each violation
+    */
+   setToolOutputValidation(validation: IToolOutputValidation): void;
 }
 
 /**
@@ -406,7 +806,10 @@ export interface IChatDriver {
  */
 export interface IChatDriverFactory {
 
-   create(model: EModel, provider: EModelProvider): IChatDriver;
+   /**
+    * @param retryPolicy How the driver retries requests; without one, DefaultRetryPolicy is used
+    */
+   create(model: EModel, provider: EModelProvider, retryPolicy?: IRetryPolicy): IChatDriver;
 }
 
 /**
@@ -414,7 +817,10 @@ export interface IChatDriverFactory {
  */
 export interface IChatWithAttachmentDriverFactory {
 
-   create(model: EModel, provider: EModelProvider): IChatWithAttachmentDriver;
+   /**
+    * @param retryPolicy How the driver retries requests; without one, DefaultRetryPolicy is used
+    */
+   create(model: EModel, provider: EModelProvider, retryPolicy?: IRetryPolicy): IChatWithAttachmentDriver;
 }
 
 /**
@@ -435,10 +841,11 @@ export interface IEmbeddingModelDriver {
      * Converts text into a vector embedding representation.
      * 
      * @param {string} text - The input text to be embedded
+     * @param {IRequestOptions} [options] - Optional signal and timeout that cancel the call
      * @returns {Promise<Array<number>>} A promise that resolves to an array of numbers 
      *         representing the text embedding vector
      */
-    embed(text: string): Promise<Array<number>>;
+    embed(text: string, options?: IRequestOptions): Promise<Array<number>>;
 }
 
 /**
@@ -446,7 +853,10 @@ export interface IEmbeddingModelDriver {
  */
 export interface IEmbeddingDriverFactory {
 
-   create(model: EModel, provider: EModelProvider): IEmbeddingModelDriver;
+   /**
+    * @param retryPolicy How the driver retries requests; without one, DefaultRetryPolicy is used
+    */
+   create(model: EModel, provider: EModelProvider, retryPolicy?: IRetryPolicy): IEmbeddingModelDriver;
 }
 
 /**
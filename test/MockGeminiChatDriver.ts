@@ -5,7 +5,7 @@
  */
 // Copyright (c) 2025, 2026 Jon Verrier
 
-import { EModel, IChatMessage, IFunction, EVerbosity } from '../src/entry';
+import { EModel, IChatMessage, IFunction, EVerbosity, IChatResponse, EChatFinishReason } from '../src/entry';
 import { GoogleGeminiChatDriver } from '../src/Chat.GoogleGemini';
 
 /**
@@ -58,15 +58,18 @@ export class MockGeminiChatDriver extends GoogleGeminiChatDriver {
    }
 
    /**
-    * Override getModelResponse to use mock
+    * Override getModelResponseDetailed to use mock
     */
-   async getModelResponse(
+   async getModelResponseDetailed(
       systemPrompt: string | undefined,
       userPrompt: string,
       verbosity: EVerbosity,
       messageHistory?: IChatMessage[],
       functions?: IFunction[]
-   ): Promise<string> {
+   ): Promise<IChatResponse> {
+      const startTime = Date.now();
+      const respond = (text: string): IChatResponse =>
+         ({ text, model: 'mock-model', finishReason: EChatFinishReason.kStop, toolInvocations: [], latencyMs: Date.now() - startTime });
       const { retryWithExponentialBackoff, MAX_RETRIES } = await import('../src/DriverHelpers');
       
       // If custom mock is set, use it (this handles error cases from setMockCreate)
@@ -76,7 +79,7 @@ export class MockGeminiChatDriver extends GoogleGeminiChatDriver {
             MAX_RETRIES,
             "Google Gemini"
          ) as any;
-         return result.response?.text() || result.response?.text || 'Success response';
+         return respond(result.response?.text() || result.response?.text || 'Success response');
       }
 
       // Otherwise, use shouldFail logic for exponential backoff testing
@@ -97,7 +100,7 @@ export class MockGeminiChatDriver extends GoogleGeminiChatDriver {
          };
       }, MAX_RETRIES, "Google Gemini") as any;
 
-      return result.response?.text() || 'Success response';
+      return respond(result.response?.text() || 'Success response');
    }
 
    /**
@@ -7,6 +7,7 @@
 
 import { EModel, IChatMessage, IFunction, EVerbosity, EModelProvider } from '../src/entry';
 import { GenericOpenAIChatDriver } from '../src/Chat.GenericOpenAI';
+import { IRetryPolicy } from '../src/RetryPolicy';
 
 /**
  * Mock class for testing exponential backoff
@@ -25,8 +26,8 @@ export class MockOpenAIChatDriver extends GenericOpenAIChatDriver {
    private maxFailures = 0;
    private provider: EModelProvider;
 
-   constructor(provider: EModelProvider = EModelProvider.kOpenAI) {
-      super(EModel.kLarge);
+   constructor(provider: EModelProvider = EModelProvider.kOpenAI, retryPolicy?: IRetryPolicy) {
+      super(EModel.kLarge, retryPolicy);
       this.provider = provider;
       // Initialize with default mock
       this.resetMock();
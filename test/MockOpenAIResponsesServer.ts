@@ -0,0 +1,97 @@
+/**
+ * @module MockOpenAIResponsesServer
+ *
+ * A local stand-in for the OpenAI Responses API that answers each request with a scripted stream of
+ * server-sent events, so that the real OpenAI client and driver can be tested without network access.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * One step of a scripted reply: an event to send, or a promise to wait for before sending the rest
+ */
+export type MockResponsesStreamStep = Record<string, unknown> | Promise<void>;
+
+export class MockOpenAIResponsesServer {
+   readonly requests: any[] = [];
+   private readonly replies: MockResponsesStreamStep[][] = [];
+   private server: http.Server | undefined;
+
+   /**
+    * Starts listening on a free local port
+    * @returns The base URL to give the OpenAI client
+    */
+   async start(): Promise<string> {
+      this.server = http.createServer((request, response) => {
+         let body = '';
+         request.on('data', chunk => body += chunk);
+         request.on('end', () => {
+            void this.reply(request, body, response);
+         });
+      });
+      await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+      return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/v1`;
+   }
+
+   async stop(): Promise<void> {
+      const closed = new Promise(resolve => this.server?.close(resolve));
+      this.server?.closeAllConnections();
+      await closed;
+   }
+
+   /**
+    * Queues the events that answer the next request
+    */
+   enqueue(steps: MockResponsesStreamStep[]): void {
+      this.replies.push(steps);
+   }
+
+   private async reply(request: http.IncomingMessage, body: string, response: http.ServerResponse): Promise<void> {
+      const steps = this.replies.shift();
+      if (request.method !== 'POST' || request.url !== '/v1/responses' || steps === undefined) {
+         response.writeHead(404, { 'Content-Type': 'application/json' })
+            .end(JSON.stringify({ error: { message: `No reply for ${request.method} ${request.url}`, type: 'not_found' } }));
+         return;
+      }
+      this.requests.push(JSON.parse(body));
+      response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      for (const step of steps) {
+         if (step instanceof Promise) {
+            await step;
+         } else {
+            response.write(`event: ${step.type}\ndata: ${JSON.stringify(step)}\n\n`);
+         }
+      }
+      response.end();
+   }
+}
+
+const usage = { input_tokens: 10, output_tokens: 5, total_tokens: 15 };
+
+/**
+ * Builds the events of a response that replies with text, sent as one delta per chunk
+ */
+export function makeTextResponseEvents(id: string, chunks: string[]): Record<string, unknown>[] {
+   const text = chunks.join('');
+   const message = { type: 'message', id: `msg_${id}`, role: 'assistant', status: 'completed', content: [{ type: 'output_text', text, annotations: [] }] };
+   return [
+      { type: 'response.created', response: { id, status: 'in_progress', output: [] } },
+      ...chunks.map(delta => ({ type: 'response.output_text.delta', item_id: message.id, output_index: 0, content_index: 0, delta })),
+      { type: 'response.output_item.done', output_index: 0, item: message },
+      { type: 'response.completed', response: { id, model: 'gpt-5.2', status: 'completed', usage, output: [message] } }
+   ];
+}
+
+/**
+ * Builds the events of a response that calls functions
+ */
+export function makeFunctionCallResponseEvents(id: string, calls: Array<{ callId: string; name: string; arguments: string }>): Record<string, unknown>[] {
+   const items = calls.map(call => ({ type: 'function_call', id: `fc_${call.callId}`, call_id: call.callId, name: call.name, arguments: call.arguments, status: 'completed' }));
+   return [
+      { type: 'response.created', response: { id, status: 'in_progress', output: [] } },
+      ...items.map((item, index) => ({ type: 'response.output_item.done', output_index: index, item })),
+      { type: 'response.completed', response: { id, model: 'gpt-5.2', status: 'completed', usage, output: items } }
+   ];
+}
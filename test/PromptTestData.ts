@@ -0,0 +1,19 @@
+/**
+ * @module PromptTestData
+ *
+ * Shared prompt fixtures for the prompt repository tests.
+ */
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { IPrompt } from '../src/entry';
+
+/**
+ * Makes a prompt named after its id, with the user prompt "Prompt <id>" unless overridden
+ * @param id The prompt id, also used as its name
+ * @param version The prompt version
+ * @param overrides Fields to set on the prompt e.g. { userPrompt: "Hello {NAME}", userPromptParameters: [...] }
+ * @returns The prompt
+ */
+export function makePrompt(id: string, version: string = "1.0.0", overrides: Partial<IPrompt> = {}): IPrompt {
+   return { id, version, name: id, userPrompt: `Prompt ${id}`, ...overrides };
+}
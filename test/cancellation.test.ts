@@ -0,0 +1,205 @@
+/**
+ * @module cancellation.test
+ *
+ * Unit tests for cancellation and timeouts.
+ * Tests verify:
+ * - Timeouts must be positive numbers
+ * - Aborting a signal stops a call that is waiting to retry, with OperationCancelledError
+ * - A call that runs past its timeout fails with a timed out OperationCancelledError
+ * - A signal aborted before the call starts fails the call without a request
+ * - Function calls that do not finish are abandoned when the call is cancelled
+ * - Streams that time out end with an error event carrying OperationCancelledError
+ * - String streams that time out throw OperationCancelledError rather than yielding the interrupted message
+ * - Chat sessions do not record a cancelled reply
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, after, beforeEach } from 'mocha';
+import { ChatSession, EChatStreamEventType, EDataType, EModel, EVerbosity, IFunction, OperationCancelledError,
+   createRequestSignal } from '../src/entry';
+import { OpenAIChatDriver } from '../src/Chat.OpenAI';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+import { MockOpenAIResponsesServer, makeTextResponseEvents } from './MockOpenAIResponsesServer';
+
+const usage = { input_tokens: 10, output_tokens: 5, total_tokens: 15 };
+
+const slowFunction: IFunction = {
+   name: 'get_weather',
+   description: 'Get the weather for a city',
+   inputSchema: { type: EDataType.kObject, properties: { city: { type: EDataType.kString, description: 'City name' } }, required: ['city'] },
+   outputSchema: { type: EDataType.kObject, properties: { condition: { type: EDataType.kString, description: 'Weather condition' } } },
+   validateArgs: (args) => args,
+   execute: () => new Promise(() => { /* never finishes */ })
+};
+
+async function collect<T>(iterator: AsyncIterator<T>): Promise<T[]> {
+   const items: T[] = [];
+   while (true) {
+      const next = await iterator.next();
+      if (next.done) {
+         return items;
+      }
+      items.push(next.value);
+   }
+}
+
+describe('Request signals', function () {
+
+   it('should reject a timeout that is not a positive number', function () {
+      expect(() => createRequestSignal({ timeoutMs: 0 })).toThrow('timeoutMs must be a positive number');
+      expect(() => createRequestSignal({ timeoutMs: -5 })).toThrow('timeoutMs must be a positive number');
+      expect(() => createRequestSignal({ timeoutMs: Infinity })).toThrow('timeoutMs must be a positive number');
+   });
+
+   it('should return no signal when the call cannot be cancelled', function () {
+      expect(createRequestSignal()).toBeUndefined();
+      expect(createRequestSignal({})).toBeUndefined();
+   });
+
+   it('should abort when either the signal or the timeout does', function () {
+      const controller = new AbortController();
+      const signal = createRequestSignal({ signal: controller.signal, timeoutMs: 60000 });
+
+      controller.abort();
+
+      expect(signal?.aborted).toBe(true);
+   });
+});
+
+describe('Cancelling driver calls', function () {
+   let driver: MockOpenAIChatDriver;
+
+   beforeEach(function () {
+      driver = new MockOpenAIChatDriver();
+   });
+
+   it('should stop waiting to retry when the signal is aborted', async function () {
+      driver.setShouldFail(true, 3);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 50);
+
+      const started = Date.now();
+      const error = await driver.getModelResponse(undefined, 'hello', EVerbosity.kLow, [], [], { signal: controller.signal })
+         .catch(error => error);
+
+      expect(error).toBeInstanceOf(OperationCancelledError);
+      expect(error.timedOut).toBe(false);
+      expect(driver.getFailCount()).toBe(1);
+      expect(Date.now() - started).toBeLessThan(900);
+   });
+
+   it('should fail with a timed out error when the call runs past its timeout', async function () {
+      driver.setShouldFail(true, 3);
+
+      const error = await driver.getModelResponse(undefined, 'hello', EVerbosity.kLow, [], [], { timeoutMs: 50 })
+         .catch(error => error);
+
+      expect(error).toBeInstanceOf(OperationCancelledError);
+      expect(error.timedOut).toBe(true);
+      expect(error.message).toBe('The call timed out');
+   });
+
+   it('should not send a request when the signal is already aborted', async function () {
+      let requests = 0;
+      driver.setMockCreate(async () => { requests++; return { output: [{ type: 'text', text: 'hi' }] }; });
+
+      await expect(driver.getModelResponse(undefined, 'hello', EVerbosity.kLow, [], [], { signal: AbortSignal.abort() }))
+         .rejects.toBeInstanceOf(OperationCancelledError);
+      expect(requests).toBe(0);
+   });
+
+   it('should abandon a function call that has not finished', async function () {
+      driver.setMockCreate(async () => ({
+         status: 'completed', usage, output: [{ type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' }]
+      }));
+
+      const error = await driver.getModelResponse(undefined, 'weather in Paris?', EVerbosity.kLow, [], [slowFunction], { timeoutMs: 50 })
+         .catch(error => error);
+
+      expect(error).toBeInstanceOf(OperationCancelledError);
+      expect(error.timedOut).toBe(true);
+   });
+
+   it('should not record a session reply that was cancelled', async function () {
+      driver.setShouldFail(true, 3);
+      const session = new ChatSession(driver);
+
+      await expect((async () => {
+         for await (const chunk of session.stream('hello', [], { timeoutMs: 50 })) {
+            void chunk;
+         }
+      })()).rejects.toBeInstanceOf(OperationCancelledError);
+      await expect(session.send('hello', [], { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(OperationCancelledError);
+      expect(session.messages).toEqual([]);
+   });
+});
+
+describe('Cancelling streamed responses', function () {
+   let server: MockOpenAIResponsesServer;
+   let driver: OpenAIChatDriver;
+   const savedEnv = { key: process.env.OPENAI_API_KEY, baseUrl: process.env.OPENAI_BASE_URL };
+
+   before(async function () {
+      server = new MockOpenAIResponsesServer();
+      process.env.OPENAI_API_KEY = 'test-key';
+      process.env.OPENAI_BASE_URL = await server.start();
+      driver = new OpenAIChatDriver(EModel.kLarge);
+   });
+
+   after(async function () {
+      await server.stop();
+      for (const [name, value] of [['OPENAI_API_KEY', savedEnv.key], ['OPENAI_BASE_URL', savedEnv.baseUrl]] as const) {
+         if (value === undefined) {
+            delete process.env[name];
+         } else {
+            process.env[name] = value;
+         }
+      }
+   });
+
+   it('should end a stream that times out with an error event', async function () {
+      let release!: () => void;
+      const held = new Promise<void>(resolve => release = resolve);
+      const events = makeTextResponseEvents('resp_1', ['Hello', ' there']);
+      server.enqueue([...events.slice(0, 2), held, ...events.slice(2)]);
+
+      const received = await collect(driver.getStreamedModelResponseEvents(undefined, 'say hi', EVerbosity.kLow, [], [], { timeoutMs: 200 }));
+      release();
+
+      expect(received.map(event => event.type)).toEqual([EChatStreamEventType.kTextDelta, EChatStreamEventType.kError]);
+      const last = received[received.length - 1];
+      if (last.type === EChatStreamEventType.kError) {
+         expect(last.error).toBeInstanceOf(OperationCancelledError);
+         expect((last.error as OperationCancelledError).timedOut).toBe(true);
+      }
+   });
+
+   it('should throw from a string stream that times out', async function () {
+      let release!: () => void;
+      const held = new Promise<void>(resolve => release = resolve);
+      const events = makeTextResponseEvents('resp_2', ['Hello', ' there']);
+      server.enqueue([...events.slice(0, 2), held, ...events.slice(2)]);
+
+      const chunks: string[] = [];
+      const stream = driver.getStreamedModelResponse(undefined, 'say hi', EVerbosity.kLow, [], [], { timeoutMs: 200 });
+      let error: unknown;
+      try {
+         while (true) {
+            const next = await stream.next();
+            if (next.done) {
+               break;
+            }
+            chunks.push(next.value);
+         }
+      } catch (caught) {
+         error = caught;
+      }
+      release();
+
+      expect(chunks).toEqual(['Hello']);
+      expect(error).toBeInstanceOf(OperationCancelledError);
+      expect((error as OperationCancelledError).timedOut).toBe(true);
+   });
+});
@@ -0,0 +1,234 @@
+/**
+ * @module chathistory.test
+ *
+ * Unit tests for the ChatHistory module which shortens message history before each model call.
+ * Tests verify:
+ * - Function calls and their outputs are kept or dropped together
+ * - The sliding window keeps the most recent messages
+ * - Token budget trimming keeps the most recent turns that fit the context window
+ * - Rolling summaries replace older turns, and are extended rather than rewritten
+ * - Drivers send the whole history unless a strategy is set
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, beforeEach } from 'mocha';
+import { ChatMessageClassName, EChatRole, EVerbosity, IChatMessage, ITokenizer, HistorySummaryPrefix, SlidingWindowHistoryStrategy,
+   SummarisingHistoryStrategy, TokenBudgetHistoryStrategy, groupHistoryTurns, InvalidParameterError } from '../src/entry';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+// Counts one token per word, with no message overhead, so budgets can be checked exactly
+const wordTokenizer: ITokenizer = {
+   name: "words",
+   messageOverheadTokens: 0,
+   countTokens: (text: string) => text.split(/\s+/).filter(word => word.length > 0).length
+};
+
+function message(id: string, role: EChatRole, content: string | undefined): IChatMessage {
+   return { id, className: ChatMessageClassName, role, content, timestamp: new Date(2026, 0, 1) };
+}
+
+function conversation(count: number): IChatMessage[] {
+   return Array.from({ length: count }, (_, index) =>
+      message(String(index + 1), index % 2 === 0 ? EChatRole.kUser : EChatRole.kAssistant, `message ${index + 1}`));
+}
+
+// An assistant message calling two tools, then both outputs
+function toolTurn(): IChatMessage[] {
+   return [
+      { ...message("call", EChatRole.kAssistant, undefined), tool_calls: [{ id: "c1", name: "get_weather", arguments: "London" }, { id: "c2", name: "get_weather", arguments: "Paris" }] },
+      { ...message("out1", EChatRole.kTool, "rain"), tool_call_id: "c1" },
+      { ...message("out2", EChatRole.kTool, "sun"), tool_call_id: "c2" }
+   ];
+}
+
+const ids = (messages: IChatMessage[]) => messages.map(m => m.id);
+
+describe('ChatHistory', function () {
+
+   describe('groupHistoryTurns', function () {
+      it('should group a function call with the outputs that follow it', function () {
+         const turns = groupHistoryTurns([...conversation(1), ...toolTurn(), message("reply", EChatRole.kAssistant, "Rain in London, sun in Paris")]);
+
+         expect(turns.map(ids)).toEqual([["1"], ["call", "out1", "out2"], ["reply"]]);
+      });
+
+      it('should match outputs to their calls by call id when calls and outputs interleave', function () {
+         const callA = { ...message("callA", EChatRole.kAssistant, undefined), function_call: { id: "a", name: "slow", arguments: "{}" } };
+         const callB = { ...message("callB", EChatRole.kAssistant, undefined), function_call: { id: "b", name: "fast", arguments: "{}" } };
+         const outputA = { ...message("outA", EChatRole.kTool, undefined), type: "function_call_output", call_id: "a" };
+         const outputB = { ...message("outB", EChatRole.kTool, undefined), type: "function_call_output", call_id: "b" };
+
+         expect(groupHistoryTurns([...conversation(1), callA, callB, outputB, outputA]).map(ids)).toEqual([["1"], ["callA", "callB", "outB", "outA"]]);
+         expect(groupHistoryTurns([callA, outputA, callB, outputB]).map(ids)).toEqual([["callA", "outA"], ["callB", "outB"]]);
+      });
+
+      it('should drop outputs whose call is not in the history', function () {
+         const turns = groupHistoryTurns([...toolTurn().slice(1), ...conversation(1)]);
+
+         expect(turns.map(ids)).toEqual([["1"]]);
+      });
+   });
+
+   describe('SlidingWindowHistoryStrategy', function () {
+      it('should keep the most recent messages', async function () {
+         const history = await new SlidingWindowHistoryStrategy(3).apply(conversation(6));
+
+         expect(ids(history)).toEqual(["4", "5", "6"]);
+      });
+
+      it('should drop a function call turn whole rather than split it', async function () {
+         const history = await new SlidingWindowHistoryStrategy(3).apply([...conversation(2), ...toolTurn(), message("reply", EChatRole.kAssistant, "done")]);
+
+         expect(ids(history)).toEqual(["reply"]);
+      });
+
+      it('should reject a negative window', function () {
+         expect(() => new SlidingWindowHistoryStrategy(-1)).toThrow(InvalidParameterError);
+      });
+   });
+
+   describe('TokenBudgetHistoryStrategy', function () {
+      it('should keep the most recent turns that fit beside the prompts and reserved output', async function () {
+         // 20 tokens of context, less 2 for the system prompt, 3 for the user prompt and 11 reserved, leaves 4: two messages
+         const strategy = new TokenBudgetHistoryStrategy({ contextTokens: 20, maxOutputTokens: 20 }, wordTokenizer, 11);
+
+         const history = await strategy.apply(conversation(5), { systemPrompt: "be brief", userPrompt: "what comes next" });
+
+         expect(ids(history)).toEqual(["4", "5"]);
+      });
+
+      it('should keep function calls with their outputs', async function () {
+         const strategy = new TokenBudgetHistoryStrategy({ contextTokens: 10, maxOutputTokens: 10 }, wordTokenizer);
+
+         // The tool turn costs 2 + 2 + 1 + 1 = 6 tokens, more than the 8 left after "reply done" and the prompt
+         const history = await strategy.apply([...conversation(2), ...toolTurn(), message("reply", EChatRole.kAssistant, "all done")],
+            { userPrompt: "thanks" });
+
+         expect(ids(history)).toEqual(["call", "out1", "out2", "reply"]);
+      });
+
+      it('should send no history when the prompts alone fill the window', async function () {
+         const strategy = new TokenBudgetHistoryStrategy({ contextTokens: 2, maxOutputTokens: 2 }, wordTokenizer);
+
+         const history = await strategy.apply(conversation(2), { userPrompt: "a long user prompt" });
+
+         expect(history).toEqual([]);
+      });
+   });
+
+   describe('SummarisingHistoryStrategy', function () {
+      let summariser: MockOpenAIChatDriver;
+      let requests: string[];
+
+      beforeEach(function () {
+         summariser = new MockOpenAIChatDriver();
+         requests = [];
+         summariser.setMockCreate(async (config?: any) => {
+            requests.push(config.input.map((item: any) => item.content).join("\n"));
+            return { output: [{ type: 'text', text: `summary ${requests.length}` }] };
+         });
+      });
+
+      it('should leave short histories alone', async function () {
+         const strategy = new SummarisingHistoryStrategy({ summariser, maxMessages: 4, keepRecentMessages: 2 });
+
+         const history = await strategy.apply(conversation(4));
+
+         expect(ids(history)).toEqual(["1", "2", "3", "4"]);
+         expect(requests).toEqual([]);
+      });
+
+      it('should replace older turns with a summary', async function () {
+         const strategy = new SummarisingHistoryStrategy({ summariser, maxMessages: 4, keepRecentMessages: 2 });
+
+         const history = await strategy.apply(conversation(5));
+
+         expect(ids(history)).toEqual(["history-summary", "4", "5"]);
+         expect(history[0].role).toEqual(EChatRole.kUser);
+         expect(history[0].content).toEqual(`${HistorySummaryPrefix}\nsummary 1`);
+         expect(requests[0]).toContain("user: message 1");
+         expect(requests[0]).toContain("assistant: message 2");
+         expect(requests[0]).not.toContain("message 4");
+      });
+
+      it('should extend the previous summary with turns that have left the window', async function () {
+         const strategy = new SummarisingHistoryStrategy({ summariser, maxMessages: 4, keepRecentMessages: 2 });
+
+         await strategy.apply(conversation(5));
+         const unchanged = await strategy.apply(conversation(5));
+         const history = await strategy.apply(conversation(6));
+
+         expect(requests.length).toEqual(2);
+         expect(unchanged[0].content).toContain("summary 1");
+         expect(requests[1]).toContain("summary 1");
+         expect(requests[1]).toContain("assistant: message 4");
+         expect(requests[1]).not.toContain("message 1");
+         expect(ids(history)).toEqual(["history-summary", "5", "6"]);
+      });
+
+      it('should include function calls and outputs in the transcript', async function () {
+         const strategy = new SummarisingHistoryStrategy({ summariser, maxMessages: 3, keepRecentMessages: 1 });
+
+         await strategy.apply([...conversation(1), ...toolTurn(), message("reply", EChatRole.kAssistant, "done")]);
+
+         expect(requests[0]).toContain("assistant called get_weather(London)");
+         expect(requests[0]).toContain("tool: rain");
+      });
+
+      it('should require the recent window to be smaller than the limit', function () {
+         expect(() => new SummarisingHistoryStrategy({ summariser, maxMessages: 2, keepRecentMessages: 2 })).toThrow(InvalidParameterError);
+      });
+   });
+
+   describe('chat drivers', function () {
+      let driver: MockOpenAIChatDriver;
+      let inputs: string[][];
+
+      beforeEach(function () {
+         driver = new MockOpenAIChatDriver();
+         inputs = [];
+         driver.setMockCreate(async (config?: any) => {
+            inputs.push(config.input.map((item: any) => item.content));
+            return { output: [{ type: 'text', text: 'Success response' }] };
+         });
+      });
+
+      it('should send the whole history by default', async function () {
+         await driver.getModelResponse(undefined, "next", EVerbosity.kLow, conversation(4));
+
+         expect(inputs[0]).toEqual(["message 1", "message 2", "message 3", "message 4", "next"]);
+      });
+
+      it('should shorten the history with the strategy set', async function () {
+         driver.setHistoryStrategy(new SlidingWindowHistoryStrategy(2));
+
+         await driver.getModelResponse(undefined, "next", EVerbosity.kLow, conversation(4));
+         await driver.getModelResponseWithForcedTools(undefined, "next", EVerbosity.kLow, conversation(4));
+
+         expect(inputs[0]).toEqual(["message 3", "message 4", "next"]);
+         expect(inputs[1]).toEqual(["message 3", "message 4", "next"]);
+      });
+
+      it('should shorten the history of streamed responses', async function () {
+         driver.setHistoryStrategy(new SlidingWindowHistoryStrategy(1));
+
+         const iterator = driver.getStreamedModelResponse(undefined, "next", EVerbosity.kLow, conversation(4));
+         while (!(await iterator.next()).done) {
+            // Drain the stream
+         }
+
+         expect(inputs[0]).toEqual(["message 4", "next"]);
+      });
+
+      it('should send the whole history again once the strategy is cleared', async function () {
+         driver.setHistoryStrategy(new SlidingWindowHistoryStrategy(1));
+         driver.setHistoryStrategy(undefined);
+
+         await driver.getModelResponse(undefined, "next", EVerbosity.kLow, conversation(2));
+
+         expect(inputs[0]).toEqual(["message 1", "message 2", "next"]);
+      });
+   });
+});
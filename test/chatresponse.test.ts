@@ -0,0 +1,106 @@
+/**
+ * @module chatresponse.test
+ *
+ * Unit tests for the detailed responses returned by chat drivers.
+ * Tests verify:
+ * - Usage, finish reason, model and response id are read from Responses API output
+ * - Function calls are reported with their arguments, outputs, errors and durations
+ * - getModelResponse returns the text of getModelResponseDetailed
+ * - Usage is summed over the requests made for one call
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, beforeEach } from 'mocha';
+import { EChatFinishReason, EDataType, EVerbosity, IFunction } from '../src/entry';
+import { addChatUsage } from '../src/DriverHelpers';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+const weatherFunction: IFunction = {
+   name: 'get_weather',
+   description: 'Get the weather for a city',
+   inputSchema: { type: EDataType.kObject, properties: { city: { type: EDataType.kString, description: 'City name' } }, required: ['city'] },
+   outputSchema: { type: EDataType.kObject, properties: { condition: { type: EDataType.kString, description: 'Weather condition' } } },
+   validateArgs: (args) => args,
+   execute: async () => ({ condition: 'rain' })
+};
+
+describe('Detailed chat responses', function () {
+   let driver: MockOpenAIChatDriver;
+   let replies: any[];
+
+   beforeEach(function () {
+      driver = new MockOpenAIChatDriver();
+      replies = [];
+      driver.setMockCreate(async () => replies.shift());
+   });
+
+   it('should report usage, model, response id and finish reason', async function () {
+      replies.push({
+         id: 'resp_1', model: 'gpt-5.2-2025-12-11', status: 'completed',
+         usage: { input_tokens: 12, output_tokens: 30, total_tokens: 42, output_tokens_details: { reasoning_tokens: 20 } },
+         output: [{ type: 'text', text: 'Hello' }]
+      });
+
+      const response = await driver.getModelResponseDetailed('be brief', 'say hi', EVerbosity.kLow);
+
+      expect(response).toEqual({
+         text: 'Hello',
+         model: 'gpt-5.2-2025-12-11',
+         finishReason: EChatFinishReason.kStop,
+         usage: { inputTokens: 12, outputTokens: 30, totalTokens: 42, reasoningTokens: 20 },
+         toolInvocations: [],
+         responseId: 'resp_1',
+         latencyMs: expect.any(Number)
+      });
+   });
+
+   it('should report responses cut off by the output limit', async function () {
+      replies.push({ status: 'incomplete', incomplete_details: { reason: 'max_output_tokens' }, output: [{ type: 'text', text: 'Once upon' }] });
+
+      const response = await driver.getModelResponseDetailed(undefined, 'tell a story', EVerbosity.kHigh);
+
+      expect(response.finishReason).toEqual(EChatFinishReason.kLength);
+      expect(response.model).toEqual('mock-model');
+      expect(response.usage).toBeUndefined();
+   });
+
+   it('should report each function executed', async function () {
+      replies.push({
+         output: [
+            { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"London"}' },
+            { type: 'function_call', call_id: 'call_2', name: 'get_forecast', arguments: '{"city":"London"}' }
+         ]
+      });
+      replies.push({ output: [{ type: 'text', text: 'It is raining in London' }] });
+
+      const response = await driver.getModelResponseWithForcedToolsDetailed(undefined, 'weather in London?', EVerbosity.kLow, [], [weatherFunction]);
+
+      expect(response.finishReason).toEqual(EChatFinishReason.kStop);
+      expect(response.text).toEqual('It is raining in London');
+      expect(response.toolInvocations).toEqual([
+         { callId: 'call_1', name: 'get_weather', arguments: '{"city":"London"}', output: '{"condition":"rain"}', error: undefined, durationMs: expect.any(Number) },
+         { callId: 'call_2', name: 'get_forecast', arguments: '{"city":"London"}', output: expect.stringContaining('not found'), error: 'Function get_forecast not found', durationMs: expect.any(Number) }
+      ]);
+   });
+
+   it('should return the same text from getModelResponse', async function () {
+      replies.push({ output: [{ type: 'text', text: 'Hello' }] });
+
+      expect(await driver.getModelResponse(undefined, 'say hi', EVerbosity.kLow)).toEqual('Hello');
+   });
+
+   describe('addChatUsage', function () {
+      it('should sum usage, keeping reasoning tokens only where reported', function () {
+         const first = { inputTokens: 10, outputTokens: 5, totalTokens: 15 };
+         const second = { inputTokens: 20, outputTokens: 8, totalTokens: 28, reasoningTokens: 3 };
+
+         expect(addChatUsage(undefined, undefined)).toBeUndefined();
+         expect(addChatUsage(undefined, first)).toEqual(first);
+         expect(addChatUsage(first, undefined)).toEqual(first);
+         expect(addChatUsage(first, first)).toEqual({ inputTokens: 20, outputTokens: 10, totalTokens: 30 });
+         expect(addChatUsage(first, second)).toEqual({ inputTokens: 30, outputTokens: 13, totalTokens: 43, reasoningTokens: 3 });
+      });
+   });
+});
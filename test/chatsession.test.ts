@@ -0,0 +1,260 @@
+/**
+ * @module chatsession.test
+ *
+ * Unit tests for the ChatSession module which keeps the transcript of a conversation with a chat driver.
+ * Tests verify:
+ * - Each call sends the transcript as history and appends the user message and reply
+ * - Function calls and their outputs are recorded, and sent back on later calls
+ * - Outputs of concurrent calls are recorded after their own call, so a history window never splits them
+ * - Outputs are recorded as the model was sent them, including errors for results that fail their outputSchema
+ * - A failed call leaves the transcript unchanged
+ * - A stream the caller stops reading early closes the driver's stream
+ * - Sessions round trip through JSON with timestamps restored as Dates
+ * - Sessions save to and load from memory and file stores
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { ChatSession, ChatStreamEvent, EChatRole, EChatStreamEventType, SlidingWindowHistoryStrategy, EDataType, EVerbosity, FileChatSessionStore, IFunction, InMemoryChatSessionStore, InvalidOperationError,
+   InvalidParameterError, InvalidStateError, parseChatSessionState } from '../src/entry';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+const weatherFunction: IFunction = {
+   name: 'get_weather',
+   description: 'Get the weather for a city',
+   inputSchema: { type: EDataType.kObject, properties: { city: { type: EDataType.kString, description: 'City name' } }, required: ['city'] },
+   outputSchema: { type: EDataType.kObject, properties: { condition: { type: EDataType.kString, description: 'Weather condition' } } },
+   validateArgs: (args) => args,
+   execute: async (args) => ({ condition: args.city === 'London' ? 'rain' : 'sun' })
+};
+
+describe('ChatSession', function () {
+   let driver: MockOpenAIChatDriver;
+   let inputs: any[][];
+   let replies: any[];
+
+   beforeEach(function () {
+      driver = new MockOpenAIChatDriver();
+      inputs = [];
+      replies = [];
+      driver.setMockCreate(async (config?: any) => {
+         inputs.push([...(config.input ?? [])]);
+         return replies.shift() ?? { output: [{ type: 'text', text: `reply ${inputs.length}` }] };
+      });
+   });
+
+   describe('turns', function () {
+      it('should send the transcript as history and record each turn', async function () {
+         const session = new ChatSession(driver, { systemPrompt: 'be brief', verbosity: EVerbosity.kLow });
+
+         expect(await session.send('hello')).toEqual('reply 1');
+         expect(await session.send('and again')).toEqual('reply 2');
+
+         expect(session.messages.map(m => [m.role, m.content])).toEqual([
+            [EChatRole.kUser, 'hello'], [EChatRole.kAssistant, 'reply 1'], [EChatRole.kUser, 'and again'], [EChatRole.kAssistant, 'reply 2']
+         ]);
+         expect(inputs[1].map(item => item.content)).toEqual(['hello', 'reply 1', 'and again']);
+      });
+
+      it('should record function calls and their outputs', async function () {
+         replies.push({ output: [{ type: 'function_call', call_id: 'api-1', name: 'get_weather', arguments: '{"city":"London"}' }] });
+         const session = new ChatSession(driver, { functions: [weatherFunction] });
+
+         await session.send('weather in London?');
+
+         const [user, call, output, reply] = session.messages;
+         expect(user.content).toEqual('weather in London?');
+         expect(call.function_call).toEqual({ id: call.id, name: 'get_weather', arguments: '{"city":"London"}' });
+         expect(output.type).toEqual('function_call_output');
+         expect(output.call_id).toEqual(call.id);
+         expect(JSON.parse(output.output!)).toEqual({ condition: 'rain' });
+         expect(reply.role).toEqual(EChatRole.kAssistant);
+      });
+
+      it('should send earlier function calls and outputs back as history', async function () {
+         replies.push({ output: [{ type: 'function_call', call_id: 'api-1', name: 'get_weather', arguments: '{"city":"Paris"}' }] });
+         const session = new ChatSession(driver, { functions: [weatherFunction] });
+
+         await session.send('weather in Paris?');
+         const reply = await session.send('thanks');
+
+         const callId = session.messages[1].id;
+         expect(reply).toEqual(`reply ${inputs.length}`);
+         expect(inputs[inputs.length - 1]).toEqual(expect.arrayContaining([
+            { type: 'function_call', call_id: callId, name: 'get_weather', arguments: '{"city":"Paris"}' },
+            { type: 'function_call_output', call_id: callId, output: '{"condition":"sun"}' }
+         ]));
+      });
+
+      it('should record each output after its own call when calls run concurrently', async function () {
+         const delayed = (name: string, ms: number): IFunction => ({
+            ...weatherFunction,
+            name,
+            execute: () => new Promise(resolve => setTimeout(() => resolve({ condition: name }), ms))
+         });
+         replies.push({ output: [
+            { type: 'function_call', call_id: 'api-a', name: 'a', arguments: '{}' },
+            { type: 'function_call', call_id: 'api-b', name: 'b', arguments: '{}' }
+         ] });
+         const session = new ChatSession(driver, { functions: [delayed('a', 30), delayed('b', 10)] });
+
+         await session.send('run both');
+         driver.setHistoryStrategy(new SlidingWindowHistoryStrategy(3));
+         await session.send('thanks');
+
+         expect(session.messages.map(m => m.function_call?.name ?? (m.output ? `output ${JSON.parse(m.output).condition}` : m.role)))
+            .toEqual([EChatRole.kUser, 'a', 'output a', 'b', 'output b', EChatRole.kAssistant, EChatRole.kUser, EChatRole.kAssistant]);
+         const sent = inputs[inputs.length - 1];
+         const sentCalls = sent.filter(item => item.type === 'function_call').map(item => item.call_id);
+         const sentOutputs = sent.filter(item => item.type === 'function_call_output').map(item => item.call_id);
+         expect(sentOutputs.length).toBeGreaterThan(0);
+         expect(sentOutputs).toEqual(sentCalls);
+      });
+
+      it('should record the output the model was sent when a result does not match its outputSchema', async function () {
+         replies.push({ output: [{ type: 'function_call', call_id: 'api-1', name: 'get_weather', arguments: '{"city":"London"}' }] });
+         const session = new ChatSession(driver, { functions: [{ ...weatherFunction, execute: async () => ({ condition: 12 }) }] });
+
+         await session.send('weather in London?');
+
+         const output = session.messages[2];
+         expect(JSON.parse(output.output!).violations).toEqual(['$.condition must be of type string, found number']);
+         const sent = inputs[1].find(item => item.type === 'function_call_output');
+         expect(output.output).toEqual(sent.output);
+      });
+
+      it('should record streamed replies once the stream ends', async function () {
+         const session = new ChatSession(driver);
+
+         let streamed = '';
+         for await (const chunk of session.stream('hello')) {
+            streamed += chunk;
+         }
+
+         expect(session.messages.map(m => m.content)).toEqual(['hello', streamed]);
+      });
+
+      it('should close the driver\'s stream when the caller stops reading early', async function () {
+         let closed = false;
+         driver.getStreamedModelResponseEvents = () => (async function* (): AsyncGenerator<ChatStreamEvent> {
+            try {
+               yield { type: EChatStreamEventType.kTextDelta, text: 'Hello ' };
+               yield { type: EChatStreamEventType.kTextDelta, text: 'there' };
+            } finally {
+               closed = true;
+            }
+         })();
+         const session = new ChatSession(driver);
+
+         for await (const chunk of session.stream('hello')) {
+            expect(chunk).toEqual('Hello ');
+            break;
+         }
+
+         expect(closed).toBe(true);
+         expect(await session.send('again')).toEqual('reply 1');
+      });
+
+      it('should record constrained replies as JSON', async function () {
+         const session = new ChatSession(driver);
+
+         const result = await session.sendConstrained('give me data', { type: 'object' }, {});
+
+         expect(session.messages[1].content).toEqual(JSON.stringify(result));
+      });
+
+      it('should leave the transcript unchanged when a call fails', async function () {
+         driver.setMockCreate(async () => { throw new Error('bad request'); });
+         const session = new ChatSession(driver);
+
+         await expect(session.send('hello')).rejects.toThrow();
+
+         expect(session.messages).toEqual([]);
+      });
+
+      it('should refuse a second call while the first is waiting', async function () {
+         let release: () => void = () => {};
+         driver.setMockCreate(() => new Promise(resolve => { release = () => resolve({ output: [{ type: 'text', text: 'done' }] }); }));
+         const session = new ChatSession(driver);
+
+         const first = session.send('one');
+         await expect(session.send('two')).rejects.toThrow(InvalidOperationError);
+         release();
+
+         expect(await first).toEqual('done');
+         expect(session.messages.length).toEqual(2);
+      });
+   });
+
+   describe('JSON', function () {
+      it('should round trip a session with timestamps as Dates', async function () {
+         const session = new ChatSession(driver, { id: 'abc', systemPrompt: 'be brief' });
+         await session.send('hello');
+
+         const restored = ChatSession.fromJSON(driver, JSON.stringify(session));
+
+         expect(restored.id).toEqual('abc');
+         expect(restored.toJSON()).toEqual(session.toJSON());
+         expect(restored.messages[0].timestamp).toBeInstanceOf(Date);
+      });
+
+      it('should reject JSON that is not a session', function () {
+         expect(() => parseChatSessionState('{ "id": "abc" }')).toThrow(InvalidParameterError);
+         expect(() => parseChatSessionState('{ "id": "abc", "messages": [{ "role": "robot", "timestamp": 0 }] }')).toThrow(InvalidParameterError);
+         expect(() => parseChatSessionState('{ "id": "abc", "messages": [{ "role": "user", "timestamp": "soon" }] }')).toThrow(InvalidParameterError);
+         expect(() => parseChatSessionState('not json')).toThrow(InvalidParameterError);
+      });
+   });
+
+   describe('stores', function () {
+      let tempDir: string;
+
+      beforeEach(function () {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-chat-session-'));
+      });
+
+      afterEach(function () {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it('should save after each call with autoSave, and load the session back', async function () {
+         const store = new InMemoryChatSessionStore();
+         const session = new ChatSession(driver, { id: 'abc', store, autoSave: true });
+
+         await session.send('hello');
+         const loaded = await ChatSession.load(driver, store, 'abc');
+
+         expect(loaded?.messages.map(m => m.content)).toEqual(['hello', 'reply 1']);
+         expect(await ChatSession.load(driver, store, 'missing')).toBeUndefined();
+      });
+
+      it('should save to and delete from files', async function () {
+         const store = new FileChatSessionStore(path.join(tempDir, 'sessions'));
+         const session = new ChatSession(driver, { id: 'abc', store });
+         await session.send('hello');
+
+         await session.save();
+         const loaded = await store.load('abc');
+         await store.delete('abc');
+
+         expect(loaded?.messages[0].timestamp).toEqual(session.messages[0].timestamp);
+         expect(await store.load('abc')).toBeUndefined();
+      });
+
+      it('should reject ids that are not file names', async function () {
+         const store = new FileChatSessionStore(tempDir);
+
+         await expect(store.load('../abc')).rejects.toThrow(InvalidParameterError);
+      });
+
+      it('should require a store to save', async function () {
+         await expect(new ChatSession(driver).save()).rejects.toThrow(InvalidStateError);
+         expect(() => new ChatSession(driver, { autoSave: true })).toThrow(InvalidParameterError);
+      });
+   });
+});
@@ -0,0 +1,255 @@
+/**
+ * @module chatstream.test
+ *
+ * Unit tests for streamed response events.
+ * Tests verify:
+ * - Text deltas add up to the text of the done event
+ * - Function calls raise started and finished events, in order, before the text
+ * - Usage is reported before the done event
+ * - Failures end the stream with an error event
+ * - String streams are derived from events, with the interrupted message on error
+ * - String streams close their event stream when the consumer stops early
+ * - Chat sessions do not record a reply whose stream failed
+ * - The OpenAI driver streams Responses API server-sent events as they arrive, including after function calls
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, after, beforeEach } from 'mocha';
+import { ChatSession, ChatStreamEvent, ChatStreamInterruptedMessage, EChatFinishReason, EChatStreamEventType,
+   EDataType, EModel, EVerbosity, IFunction, streamChatText } from '../src/entry';
+import { OpenAIChatDriver } from '../src/Chat.OpenAI';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+import { MockOpenAIResponsesServer, makeFunctionCallResponseEvents, makeTextResponseEvents } from './MockOpenAIResponsesServer';
+
+const weatherFunction: IFunction = {
+   name: 'get_weather',
+   description: 'Get the weather for a city',
+   inputSchema: { type: EDataType.kObject, properties: { city: { type: EDataType.kString, description: 'City name' } }, required: ['city'] },
+   outputSchema: { type: EDataType.kObject, properties: { condition: { type: EDataType.kString, description: 'Weather condition' } } },
+   validateArgs: (args) => args,
+   execute: async () => ({ condition: 'rain' })
+};
+
+const usage = { input_tokens: 10, output_tokens: 5, total_tokens: 15 };
+
+async function collect<T>(iterator: AsyncIterator<T>): Promise<T[]> {
+   const items: T[] = [];
+   while (true) {
+      const next = await iterator.next();
+      if (next.done) {
+         return items;
+      }
+      items.push(next.value);
+   }
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+   for (const item of items) {
+      yield item;
+   }
+}
+
+describe('Streamed response events', function () {
+   let driver: MockOpenAIChatDriver;
+
+   beforeEach(function () {
+      driver = new MockOpenAIChatDriver();
+   });
+
+   it('should stream text deltas that add up to the response', async function () {
+      driver.setMockCreate(async () => fromArray([
+         { type: 'response.output_text.delta', delta: 'The sky ' },
+         { type: 'response.output_text.delta', delta: 'is blue today' },
+         { type: 'response.completed', response: { status: 'completed', usage, output: [{ type: 'text', text: 'The sky is blue today' }] } }
+      ]));
+
+      const events = await collect(driver.getStreamedModelResponseEvents(undefined, 'colour of the sky?', EVerbosity.kLow));
+
+      const deltas = events.filter(event => event.type === EChatStreamEventType.kTextDelta);
+      const done = events[events.length - 1];
+      expect(deltas.length).toBeGreaterThan(1);
+      expect(done.type).toBe(EChatStreamEventType.kDone);
+      if (done.type === EChatStreamEventType.kDone) {
+         expect(deltas.map(event => event.type === EChatStreamEventType.kTextDelta ? event.text : '').join('')).toBe(done.response.text);
+         expect(done.response.finishReason).toBe(EChatFinishReason.kStop);
+      }
+   });
+
+   it('should report function calls before the text that follows them', async function () {
+      driver.setMockCreate(async (config?: any) => {
+         const called = (config.input ?? []).some((item: any) => item.type === 'function_call_output');
+         return called
+            ? { status: 'completed', usage, output: [{ type: 'text', text: 'It is raining' }] }
+            : { status: 'completed', usage, output: [{ type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' }] };
+      });
+
+      const events = await collect(driver.getStreamedModelResponseEvents(undefined, 'weather in Paris?', EVerbosity.kLow, [], [weatherFunction]));
+
+      const types = events.map(event => event.type);
+      expect(types[0]).toBe(EChatStreamEventType.kToolCallStarted);
+      expect(types[1]).toBe(EChatStreamEventType.kToolCallFinished);
+      expect(types.slice(-2)).toEqual([EChatStreamEventType.kUsage, EChatStreamEventType.kDone]);
+      expect(events[0]).toEqual({ type: EChatStreamEventType.kToolCallStarted, callId: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' });
+      if (events[1].type === EChatStreamEventType.kToolCallFinished) {
+         expect(events[1].invocation).toMatchObject({ callId: 'call_1', name: 'get_weather', output: '{"condition":"rain"}' });
+      }
+   });
+
+   it('should end the stream with an error event when the call fails', async function () {
+      driver.setMockCreate(async () => { throw new Error('network down'); });
+
+      const events = await collect(driver.getStreamedModelResponseEvents(undefined, 'hello', EVerbosity.kLow));
+
+      expect(events.length).toBe(1);
+      expect(events[0].type).toBe(EChatStreamEventType.kError);
+      if (events[0].type === EChatStreamEventType.kError) {
+         expect(events[0].error.message).toContain('network down');
+      }
+   });
+
+   it('should derive string streams from events', async function () {
+      const events: ChatStreamEvent[] = [
+         { type: EChatStreamEventType.kTextDelta, text: 'Hello ' },
+         { type: EChatStreamEventType.kUsage, usage: { inputTokens: 1, outputTokens: 2, totalTokens: 3 } },
+         { type: EChatStreamEventType.kTextDelta, text: 'there' },
+         { type: EChatStreamEventType.kError, error: new Error('cut off') },
+         { type: EChatStreamEventType.kTextDelta, text: 'ignored' }
+      ];
+
+      const chunks = await collect(streamChatText(fromArray(events)));
+
+      expect(chunks).toEqual(['Hello ', 'there', ChatStreamInterruptedMessage]);
+   });
+
+   it('should close the event stream when the consumer stops reading early', async function () {
+      let closed = false;
+      const events = (async function* (): AsyncGenerator<ChatStreamEvent> {
+         try {
+            yield { type: EChatStreamEventType.kTextDelta, text: 'Hello ' };
+            yield { type: EChatStreamEventType.kTextDelta, text: 'there' };
+         } finally {
+            closed = true;
+         }
+      })();
+      const text = streamChatText(events) as AsyncGenerator<string>;
+
+      for await (const chunk of text) {
+         expect(chunk).toBe('Hello ');
+         break;
+      }
+
+      expect(closed).toBe(true);
+   });
+
+   it('should keep the interrupted message on string streams from drivers', async function () {
+      driver.setMockCreate(async () => { throw new Error('network down'); });
+
+      const chunks = await collect(driver.getStreamedModelResponse(undefined, 'hello', EVerbosity.kLow));
+
+      expect(chunks).toEqual([ChatStreamInterruptedMessage]);
+   });
+
+   it('should not record a session reply whose stream failed', async function () {
+      driver.setMockCreate(async () => { throw new Error('network down'); });
+      const session = new ChatSession(driver);
+
+      await expect((async () => {
+         for await (const chunk of session.stream('hello')) {
+            void chunk;
+         }
+      })()).rejects.toThrow('network down');
+      expect(session.messages).toEqual([]);
+   });
+});
+
+describe('OpenAI Responses API streaming', function () {
+   let server: MockOpenAIResponsesServer;
+   let driver: OpenAIChatDriver;
+   const savedEnv = { key: process.env.OPENAI_API_KEY, baseUrl: process.env.OPENAI_BASE_URL };
+
+   before(async function () {
+      server = new MockOpenAIResponsesServer();
+      process.env.OPENAI_API_KEY = 'test-key';
+      process.env.OPENAI_BASE_URL = await server.start();
+      driver = new OpenAIChatDriver(EModel.kLarge);
+   });
+
+   after(async function () {
+      await server.stop();
+      for (const [name, value] of [['OPENAI_API_KEY', savedEnv.key], ['OPENAI_BASE_URL', savedEnv.baseUrl]] as const) {
+         if (value === undefined) {
+            delete process.env[name];
+         } else {
+            process.env[name] = value;
+         }
+      }
+   });
+
+   beforeEach(function () {
+      server.requests.length = 0;
+   });
+
+   it('should yield each delta before the response has finished', async function () {
+      let release!: () => void;
+      const held = new Promise<void>(resolve => release = resolve);
+      const events = makeTextResponseEvents('resp_1', ['Hello', ' there']);
+      server.enqueue([...events.slice(0, 2), held, ...events.slice(2)]);
+
+      const iterator = driver.getStreamedModelResponseEvents(undefined, 'say hi', EVerbosity.kLow);
+      const first = await iterator.next();
+      release();
+      const rest = await collect(iterator);
+
+      expect(first.value).toEqual({ type: EChatStreamEventType.kTextDelta, text: 'Hello' });
+      expect(rest.map(event => event.type)).toEqual([EChatStreamEventType.kTextDelta, EChatStreamEventType.kUsage, EChatStreamEventType.kDone]);
+      expect(server.requests[0].stream).toBe(true);
+      const done = rest[rest.length - 1];
+      if (done.type === EChatStreamEventType.kDone) {
+         expect(done.response).toMatchObject({ text: 'Hello there', responseId: 'resp_1', finishReason: EChatFinishReason.kStop });
+      }
+   });
+
+   it('should stream the answer to function outputs', async function () {
+      server.enqueue(makeFunctionCallResponseEvents('resp_1', [{ callId: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' }]));
+      server.enqueue(makeTextResponseEvents('resp_2', ['It is ', 'raining in Paris']));
+
+      const chunks = await collect(driver.getStreamedModelResponse(undefined, 'weather in Paris?', EVerbosity.kLow, [], [weatherFunction]));
+
+      expect(chunks).toEqual(['It is ', 'raining in Paris']);
+      expect(server.requests.length).toBe(2);
+      expect(server.requests[1].input).toEqual(expect.arrayContaining([
+         expect.objectContaining({ type: 'function_call', call_id: 'call_1', name: 'get_weather' }),
+         { type: 'function_call_output', call_id: 'call_1', output: '{"condition":"rain"}' }
+      ]));
+   });
+
+   it('should force a function call on the first round only', async function () {
+      server.enqueue(makeFunctionCallResponseEvents('resp_1', [{ callId: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' }]));
+      server.enqueue(makeTextResponseEvents('resp_2', ['Rain']));
+
+      const events = await collect(driver.getStreamedModelResponseWithForcedToolsEvents(undefined, 'weather in Paris?', EVerbosity.kLow, [], [weatherFunction]));
+
+      expect(server.requests.map(request => request.tool_choice)).toEqual(['required', undefined]);
+      const done = events[events.length - 1];
+      if (done.type === EChatStreamEventType.kDone) {
+         expect(done.response.toolInvocations.map(invocation => invocation.callId)).toEqual(['call_1']);
+         expect(done.response.usage?.totalTokens).toBe(30);
+      }
+   });
+
+   it('should end with an error event when the response fails', async function () {
+      server.enqueue([
+         { type: 'response.created', response: { id: 'resp_1', status: 'in_progress', output: [] } },
+         { type: 'response.failed', response: { id: 'resp_1', status: 'failed', error: { code: 'server_error', message: 'The model crashed' } } }
+      ]);
+
+      const events = await collect(driver.getStreamedModelResponseEvents(undefined, 'say hi', EVerbosity.kLow));
+
+      expect(events.map(event => event.type)).toEqual([EChatStreamEventType.kError]);
+      if (events[0].type === EChatStreamEventType.kError) {
+         expect(events[0].error.message).toContain('The model crashed');
+      }
+   });
+});
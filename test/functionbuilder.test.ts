@@ -0,0 +1,157 @@
+/**
+ * @module functionbuilder.test
+ *
+ * Unit tests for defining functions from typed fields.
+ * Tests verify:
+ * - Input and output schemas are built from the fields, with required fields and enums
+ * - validateArgs checks types, required fields, enums and nested objects and arrays
+ * - execute receives typed arguments, checked at compile time
+ * - Drivers report arguments that fail validation to the model
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { EDataType, EVerbosity, FunctionSchema, IFunction, InferSchemaFields, InvalidParameterError, defineFunction } from '../src/entry';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+const tripInput = {
+   city: FunctionSchema.string('City name'),
+   nights: FunctionSchema.number('Number of nights'),
+   units: FunctionSchema.enum(['celsius', 'fahrenheit'], 'Temperature units').optional(),
+   travellers: FunctionSchema.array(FunctionSchema.object({
+      name: FunctionSchema.string('Full name'),
+      child: FunctionSchema.boolean('Whether the traveller is under 16').optional()
+   }, 'A traveller'), 'The people travelling')
+};
+
+const planTrip = defineFunction({
+   name: 'plan_trip',
+   description: 'Plan a trip to a city',
+   input: tripInput,
+   output: {
+      summary: FunctionSchema.string('A summary of the plan'),
+      cost: FunctionSchema.number('The cost in euros')
+   },
+   execute: async ({ city, nights, units, travellers }) => ({
+      summary: `${nights} nights in ${city} for ${travellers.map(traveller => traveller.name).join(' and ')}, in ${units ?? 'celsius'}`,
+      cost: nights * 100 * travellers.filter(traveller => !traveller.child).length
+   })
+});
+
+describe('Defining functions from fields', function () {
+
+   it('should build the input and output schemas', function () {
+      expect(planTrip.inputSchema).toEqual({
+         type: EDataType.kObject,
+         properties: {
+            city: { type: EDataType.kString, description: 'City name' },
+            nights: { type: EDataType.kNumber, description: 'Number of nights' },
+            units: { type: EDataType.kString, description: 'Temperature units', enum: ['celsius', 'fahrenheit'] },
+            travellers: {
+               type: EDataType.kArray,
+               description: 'The people travelling',
+               items: {
+                  type: EDataType.kObject,
+                  description: 'A traveller',
+                  properties: {
+                     name: { type: EDataType.kString, description: 'Full name' },
+                     child: { type: EDataType.kBoolean, description: 'Whether the traveller is under 16' }
+                  },
+                  required: ['name'],
+                  additionalProperties: false
+               }
+            }
+         },
+         required: ['city', 'nights', 'travellers'],
+         additionalProperties: false
+      });
+      expect(planTrip.outputSchema.required).toEqual(['summary', 'cost']);
+   });
+
+   it('should accept valid arguments and run with them', async function () {
+      const args = planTrip.validateArgs({ city: 'Rome', nights: 2, travellers: [{ name: 'Ann' }, { name: 'Ben', child: true }] });
+
+      const result = await planTrip.execute(args);
+
+      expect(result).toEqual({ summary: '2 nights in Rome for Ann and Ben, in celsius', cost: 200 });
+   });
+
+   it('should report every violation in the arguments', function () {
+      const invalid = { nights: '2', units: 'kelvin', travellers: [{ name: 'Ann', age: 30 }, { child: 'no' }] };
+
+      let error: unknown;
+      try {
+         planTrip.validateArgs(invalid);
+      } catch (caught) {
+         error = caught;
+      }
+
+      expect(error).toBeInstanceOf(InvalidParameterError);
+      const message = (error as Error).message;
+      expect(message).toContain('Invalid arguments for plan_trip');
+      expect(message).toContain('$.city is required');
+      expect(message).toContain('$.nights must be of type number, found string');
+      expect(message).toContain('$.units must be one of: "celsius", "fahrenheit"');
+      expect(message).toContain('$.travellers[0].age is not an allowed property');
+      expect(message).toContain('$.travellers[1].name is required');
+      expect(message).toContain('$.travellers[1].child must be of type boolean, found string');
+   });
+
+   it('should reject arguments that are not an object', function () {
+      expect(() => planTrip.validateArgs('Rome')).toThrow('$ must be of type object, found string');
+   });
+
+   it('should type arguments and results from the fields', function () {
+      type TripArgs = InferSchemaFields<typeof tripInput>;
+      const args: TripArgs = { city: 'Rome', nights: 2, travellers: [] };
+      args.units = 'fahrenheit';
+      // @ts-expect-error units must be one of the enum values
+      args.units = 'kelvin';
+      // @ts-expect-error city is required
+      const missingCity: TripArgs = { nights: 2, travellers: [] };
+
+      defineFunction({
+         name: 'typed',
+         description: 'Checks result types',
+         input: {},
+         output: { count: FunctionSchema.number('A count') },
+         // @ts-expect-error count must be a number
+         execute: async () => ({ count: 'three' })
+      });
+
+      const asFunction: IFunction = planTrip;
+      expect(asFunction.name).toBe('plan_trip');
+      expect(missingCity.nights).toBe(2);
+   });
+
+   it('should pass runSerially and timeoutMs through', function () {
+      const serial = defineFunction({
+         name: 'save',
+         description: 'Saves',
+         input: {},
+         output: {},
+         execute: async () => ({}),
+         runSerially: true,
+         timeoutMs: 500
+      });
+
+      expect(serial.runSerially).toBe(true);
+      expect(serial.timeoutMs).toBe(500);
+   });
+
+   it('should report invalid arguments from the model as a failed call', async function () {
+      const driver = new MockOpenAIChatDriver();
+      const replies: any[] = [
+         { output: [{ type: 'function_call', call_id: 'call_1', name: 'plan_trip', arguments: JSON.stringify({ city: 'Rome', nights: 'two', travellers: [] }) }] },
+         { output: [{ type: 'text', text: 'How many nights?' }] }
+      ];
+      driver.setMockCreate(async () => replies.shift());
+
+      const response = await driver.getModelResponseDetailed(undefined, 'plan a trip to Rome', EVerbosity.kLow, [], [planTrip]);
+
+      expect(response.text).toBe('How many nights?');
+      expect(response.toolInvocations[0].error).toContain('$.nights must be of type number, found string');
+   });
+});
@@ -6,6 +6,7 @@
  * - Correct camelCase conversion of prompt names
  * - Proper handling of special characters and spaces
  * - Generation of valid JSON output mapping prompt names to IDs
+ * - Generation of typed parameter interfaces and expand helpers, including inherited parameters
  * 
  * Uses temporary test files to validate ID generation functionality.
  */
@@ -33,7 +34,8 @@ import { expect } from 'expect';
 import { describe, it, afterEach } from 'mocha';
 import fs from 'fs';
 import path from 'path';
-import { generateJsonIds } from '../scripts/MakePromptIds';
+import { generateJsonIds, generatePromptAccessors, renderPromptAccessors } from '../scripts/MakePromptIds';
+import { IPrompt, InvalidOperationError, InvalidParameterError, PromptInMemoryRepository } from '../src/entry';
 
 
 describe('generateJsonIds', () => {
@@ -99,4 +101,76 @@ describe('generateJsonIds', () => {
             '123PromptPromptId': '789'
         });
     });
-});
\ No newline at end of file
+});
+
+describe('renderPromptAccessors', () => {
+    const testOutputPath = path.join(__dirname, 'test-promptAccessors.ts');
+
+    const prompts: IPrompt[] = [
+        {
+            id: 'base-id', version: '1.0.0', name: 'base prompt',
+            systemPrompt: 'Answer in a {TONE} tone.',
+            systemPromptParameters: [
+                { name: 'TONE', description: 'Tone of voice', type: 'kEnum', required: false, allowedValues: ['formal', 'casual'] }
+            ],
+            userPrompt: 'Hello'
+        },
+        {
+            id: 'trip-id', version: '1.0.0', name: 'plan trip', extends: 'base-id',
+            userPrompt: 'Plan a trip to {CITY} visiting {#each SIGHTS as S}{S} {/each}{travel-mode}',
+            userPromptParameters: [
+                { name: 'CITY', description: 'The city', type: 'kString', required: true },
+                { name: 'SIGHTS', description: 'Places to visit', type: 'kList', required: false },
+                { name: 'travel-mode', description: 'How to travel', type: 'kString', required: false }
+            ]
+        }
+    ];
+
+    afterEach(() => {
+        if (fs.existsSync(testOutputPath)) {
+            fs.unlinkSync(testOutputPath);
+        }
+    });
+
+    it('should declare id constants and parameter interfaces', () => {
+        const text = renderPromptAccessors(prompts);
+
+        expect(text).toContain('from "@jonverrier/prompt-repository"');
+        expect(text).toContain('export const planTripPromptId = "trip-id";');
+        expect(text).toContain('   CITY: string;');
+        expect(text).toContain('   SIGHTS?: string[] | undefined;');
+        expect(text).toContain('   "travel-mode"?: string | undefined;');
+        expect(text).toContain('   TONE?: "formal" | "casual" | undefined;');
+    });
+
+    it('should include parameters inherited through extends', () => {
+        const text = renderPromptAccessors(prompts);
+        const systemParams = text.slice(text.indexOf('export interface IPlanTripSystemPromptParams'));
+
+        expect(systemParams.slice(0, systemParams.indexOf('}'))).toContain('TONE?:');
+        expect(text).toContain('expandPlanTripSystemPrompt(params: IPlanTripSystemPromptParams = {}');
+        expect(text).toContain('expandPlanTripUserPrompt(params: IPlanTripUserPromptParams,');
+    });
+
+    it('should generate helpers that expand prompts from a repository', () => {
+        generatePromptAccessors(prompts, testOutputPath, '../src/entry');
+        const { PromptAccessors } = require(testOutputPath);
+        const accessors = new PromptAccessors(new PromptInMemoryRepository(prompts));
+
+        expect(accessors.expandPlanTripUserPrompt({ CITY: 'Rome', SIGHTS: ['Forum'], 'travel-mode': 'by train' }))
+            .toEqual('Plan a trip to Rome visiting Forum by train');
+        expect(accessors.expandPlanTripSystemPrompt({ TONE: 'casual' })).toEqual('Answer in a casual tone.');
+        expect(() => accessors.expandPlanTripSystemPrompt({ TONE: 'rude' })).toThrow(InvalidParameterError);
+        expect(() => new PromptAccessors(new PromptInMemoryRepository([])).expandBasePromptUserPrompt())
+            .toThrow(InvalidOperationError);
+    });
+
+    it('should reject prompts whose names give the same declarations', () => {
+        const clash: IPrompt[] = [
+            { id: 'a', version: '1.0.0', name: 'my prompt', userPrompt: 'A' },
+            { id: 'b', version: '1.0.0', name: 'My-Prompt', userPrompt: 'B' }
+        ];
+
+        expect(() => renderPromptAccessors(clash)).toThrow(InvalidOperationError);
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * @module promptbackend.test
+ *
+ * Unit tests for the PromptBackend module which fetches prompts asynchronously from pluggable stores.
+ * Tests verify:
+ * - HttpPromptBackend against a local HTTP server, per id and whole-file endpoints, 404 and error statuses
+ * - SqlitePromptBackend and KeyValuePromptBackend read and migrate stored prompts
+ * - CachingPromptBackend reuses fetches until the time to live expires, and does not cache failures
+ * - AsyncPromptRepository selects versions and locales, and resolves references fetched from the backend
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, beforeEach, after } from 'mocha';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { IPrompt, ConnectionError, InvalidOperationError, PromptArraySource } from '../src/entry';
+import { AsyncPromptRepository, CachingPromptBackend, HttpPromptBackend, IPromptBackend, ISqliteDatabase, KeyValuePromptBackend,
+   PromptSourceBackend, SqlitePromptBackend } from '../src/PromptBackend';
+import { makePrompt } from './PromptTestData';
+
+const stored: IPrompt[] = [
+   makePrompt("greeting", "1.0.0", { userPrompt: "Hello {NAME}" }),
+   { ...makePrompt("greeting", "2.0.0", { userPrompt: "Hi {NAME}" }), locales: { fr: { userPrompt: "Salut {NAME}" } } },
+   { ...makePrompt("base"), systemPrompt: "Be brief." },
+   { ...makePrompt("child"), extends: "base", userPrompt: "{> base} Go" }
+];
+stored.forEach(p => p.userPromptParameters = p.userPrompt.includes("{NAME}")
+   ? [{ name: "NAME", description: "A name", type: "kString", required: true }] : undefined);
+
+describe('PromptBackend', function () {
+   let server: http.Server;
+   let baseUrl: string;
+   let requests: string[];
+
+   before(async function () {
+      server = http.createServer((request, response) => {
+         requests.push(request.url ?? "");
+         const match = /^\/prompts\/([^/]+)$/.exec(request.url ?? "");
+         const versions = match ? stored.filter(p => p.id === decodeURIComponent(match[1])) : [];
+         if (request.url === "/Prompts.json") {
+            response.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(stored));
+         } else if (request.url === "/broken") {
+            response.writeHead(500, "Server Error").end();
+         } else if (versions.length > 0) {
+            response.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify(versions));
+         } else {
+            response.writeHead(404).end();
+         }
+      });
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+   });
+
+   beforeEach(function () {
+      requests = [];
+   });
+
+   after(async function () {
+      await new Promise(resolve => server.close(resolve));
+   });
+
+   describe('HttpPromptBackend', function () {
+      it('should fetch the versions of one prompt id', async function () {
+         const backend = new HttpPromptBackend(`${baseUrl}/prompts/{id}`);
+
+         expect((await backend.fetchPromptVersions("greeting")).map(p => p.version)).toEqual(["1.0.0", "2.0.0"]);
+         expect(await backend.fetchPromptVersions("missing")).toEqual([]);
+      });
+
+      it('should pick one prompt id out of a whole prompt file', async function () {
+         const backend = new HttpPromptBackend(`${baseUrl}/Prompts.json`);
+
+         expect((await backend.fetchPromptVersions("base")).map(p => p.id)).toEqual(["base"]);
+      });
+
+      it('should report error statuses and unreachable servers', async function () {
+         await expect(new HttpPromptBackend(`${baseUrl}/broken`).fetchPromptVersions("x")).rejects.toThrow(ConnectionError);
+         await expect(new HttpPromptBackend("http://127.0.0.1:1/{id}").fetchPromptVersions("x")).rejects.toThrow(ConnectionError);
+      });
+   });
+
+   describe('SqlitePromptBackend', function () {
+      // Stands in for a better-sqlite3 or node:sqlite database holding a prompts table
+      const database: ISqliteDatabase = {
+         prepare: (sql: string) => ({
+            all: (id: unknown) => {
+               expect(sql).toEqual("SELECT prompt FROM prompts WHERE id = ?");
+               return stored.filter(p => p.id === id).map(p => ({ prompt: JSON.stringify(p) }));
+            }
+         })
+      };
+
+      it('should read a row per version', async function () {
+         const backend = new SqlitePromptBackend(database);
+
+         expect((await backend.fetchPromptVersions("greeting")).map(p => p.version)).toEqual(["1.0.0", "2.0.0"]);
+         expect(await backend.fetchPromptVersions("missing")).toEqual([]);
+      });
+
+      it('should reject table names that are not identifiers', function () {
+         expect(() => new SqlitePromptBackend(database, "prompts; DROP TABLE x")).toThrow("Invalid table name");
+      });
+   });
+
+   describe('KeyValuePromptBackend', function () {
+      it('should read and migrate the prompts stored under a key', async function () {
+         const legacy = { ...makePrompt("legacy", "1.0.0", { userPrompt: "{X}" }), userPromptsParameters: [{ name: "X", description: "X", type: "kString", required: true }] };
+         const values = new Map<string, string>([["prompt:legacy", JSON.stringify(legacy)], ["prompt:bad", "{ not json"]]);
+         const backend = new KeyValuePromptBackend({ get: async key => values.get(key) });
+
+         expect((await backend.fetchPromptVersions("legacy"))[0].userPromptParameters?.[0].name).toEqual("X");
+         expect(await backend.fetchPromptVersions("missing")).toEqual([]);
+         await expect(backend.fetchPromptVersions("bad")).rejects.toThrow(InvalidOperationError);
+      });
+   });
+
+   describe('CachingPromptBackend', function () {
+      it('should reuse a fetch until the time to live expires', async function () {
+         let now = 0;
+         const backend = new CachingPromptBackend(new HttpPromptBackend(`${baseUrl}/prompts/{id}`), { ttlMs: 1000, now: () => now });
+
+         await Promise.all([backend.fetchPromptVersions("greeting"), backend.fetchPromptVersions("greeting")]);
+         now = 999;
+         await backend.fetchPromptVersions("greeting");
+         expect(requests.length).toEqual(1);
+
+         now = 1000;
+         await backend.fetchPromptVersions("greeting");
+         expect(requests.length).toEqual(2);
+
+         backend.invalidate("greeting");
+         await backend.fetchPromptVersions("greeting");
+         expect(requests.length).toEqual(3);
+      });
+
+      it('should not cache failures', async function () {
+         let calls = 0;
+         const flaky: IPromptBackend = {
+            name: "flaky",
+            fetchPromptVersions: async id => {
+               if (++calls === 1) {
+                  throw new ConnectionError("down");
+               }
+               return [makePrompt(id)];
+            }
+         };
+         const backend = new CachingPromptBackend(flaky, { ttlMs: 1000 });
+
+         await expect(backend.fetchPromptVersions("a")).rejects.toThrow("down");
+         expect(await backend.fetchPromptVersions("a")).toHaveLength(1);
+      });
+   });
+
+   describe('AsyncPromptRepository', function () {
+      it('should select a version and locale and expand it', async function () {
+         const repo = new AsyncPromptRepository(new HttpPromptBackend(`${baseUrl}/prompts/{id}`));
+
+         const french = (await repo.getPrompt("greeting", { locale: "fr-CA" }))!;
+         const pinned = (await repo.getPrompt("greeting", "^1.0.0"))!;
+
+         expect(repo.expandUserPrompt(french, { NAME: "Jon" })).toEqual("Salut Jon");
+         expect(repo.expandUserPrompt(pinned, { NAME: "Jon" })).toEqual("Hello Jon");
+         expect(await repo.listVersions("greeting")).toEqual(["1.0.0", "2.0.0"]);
+         expect(await repo.getPrompt("missing")).toBeUndefined();
+      });
+
+      it('should fetch the prompts a prompt refers to', async function () {
+         const repo = new AsyncPromptRepository(new HttpPromptBackend(`${baseUrl}/prompts/{id}`));
+
+         const child = (await repo.getPrompt("child"))!;
+
+         expect(child.systemPrompt).toEqual("Be brief.");
+         expect(child.userPrompt).toEqual("Prompt base Go");
+      });
+
+      it('should work over a synchronous source', async function () {
+         const repo = new AsyncPromptRepository(new PromptSourceBackend(new PromptArraySource(stored)));
+
+         expect((await repo.getPrompt("base"))?.systemPrompt).toEqual("Be brief.");
+      });
+   });
+});
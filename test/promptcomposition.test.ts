@@ -0,0 +1,170 @@
+/**
+ * @module promptcomposition.test
+ *
+ * Unit tests for the PromptComposition module which composes prompts from partials and base prompts.
+ * Tests verify:
+ * - Partials are included from fragments and from other prompts, bringing their parameter specifications
+ * - "extends" inherits the base system prompt and parameter specifications
+ * - Missing references and cycles are reported
+ * - PromptFileRepository and PromptInMemoryRepository resolve composition in getPrompt
+ * - validatePrompts checks composed prompts against the rest of the file
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, after } from 'mocha';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { IPrompt, IPromptParameterSpec, IPromptFragment, PromptFileRepository, PromptInMemoryRepository, InvalidOperationError,
+   ParameterTypeString, validatePrompts, EPromptDiagnosticCode, EPromptDiagnosticSeverity } from '../src/entry';
+import { resolvePromptComposition, findPromptReferences } from '../src/PromptComposition';
+import { makePrompt } from './PromptTestData';
+
+const toneParam: IPromptParameterSpec = { name: "TONE", description: "The tone to use", type: ParameterTypeString, required: false, defaultValue: "friendly" };
+const nameParam: IPromptParameterSpec = { name: "NAME", description: "A name", type: ParameterTypeString, required: true };
+
+const safetyFragment: IPromptFragment = {
+   name: "safety-preamble",
+   text: "Be safe and {TONE}.",
+   parameters: [toneParam]
+};
+
+const basePrompt: IPrompt = makePrompt("base", "1.0.0", {
+   systemPrompt: "{> safety-preamble} You are an assistant.",
+   userPrompt: "Unused",
+   userPromptParameters: [nameParam]
+});
+
+const childPrompt: IPrompt = makePrompt("child", "1.0.0", {
+   extends: "base",
+   userPrompt: "Say hello to {NAME}."
+});
+
+function lookupIn(prompts: IPrompt[]) {
+   return (id: string) => prompts.find(p => p.id === id);
+}
+
+describe('PromptComposition', function () {
+
+   it('should return prompts with no composition unchanged', function () {
+      const prompt: IPrompt = makePrompt("plain", "1.0.0", { userPrompt: "Hello {{literal}}" });
+
+      expect(resolvePromptComposition(prompt, lookupIn([]))).toBe(prompt);
+   });
+
+   it('should include fragments with their parameters', function () {
+      const resolved = resolvePromptComposition(basePrompt, lookupIn([]), [safetyFragment]);
+
+      expect(resolved.systemPrompt).toEqual("Be safe and {TONE}. You are an assistant.");
+      expect(resolved.systemPromptParameters).toEqual([toneParam]);
+   });
+
+   it('should include another prompt, using the template of the same kind', function () {
+      const greeting: IPrompt = makePrompt("greeting", "1.0.0", { systemPrompt: "Greet warmly.", userPrompt: "Greet {NAME}.", userPromptParameters: [nameParam] });
+      const prompt: IPrompt = makePrompt("user", "1.0.0", { systemPrompt: "{> greeting}", userPrompt: "{> greeting} Then stop." });
+
+      const resolved = resolvePromptComposition(prompt, lookupIn([greeting]));
+
+      expect(resolved.systemPrompt).toEqual("Greet warmly.");
+      expect(resolved.userPrompt).toEqual("Greet {NAME}. Then stop.");
+      expect(resolved.userPromptParameters).toEqual([nameParam]);
+   });
+
+   it('should not treat escaped braces as a partial', function () {
+      const prompt: IPrompt = makePrompt("escaped", "1.0.0", { userPrompt: "Write {{> quote}} {> missing}" });
+
+      expect(findPromptReferences(prompt)).toEqual(["missing"]);
+   });
+
+   it('should inherit the system prompt and parameters from a base prompt', function () {
+      const resolved = resolvePromptComposition(childPrompt, lookupIn([basePrompt]), [safetyFragment]);
+
+      expect(resolved.systemPrompt).toEqual("Be safe and {TONE}. You are an assistant.");
+      expect(resolved.systemPromptParameters).toEqual([toneParam]);
+      expect(resolved.userPrompt).toEqual("Say hello to {NAME}.");
+      expect(resolved.userPromptParameters).toEqual([nameParam]);
+   });
+
+   it('should prefer the prompt\'s own system prompt and parameter specifications', function () {
+      const optionalName = { ...nameParam, required: false, defaultValue: "you" };
+      const prompt: IPrompt = { ...childPrompt, systemPrompt: "Own system prompt", userPromptParameters: [optionalName] };
+
+      const resolved = resolvePromptComposition(prompt, lookupIn([basePrompt]), [safetyFragment]);
+
+      expect(resolved.systemPrompt).toEqual("Own system prompt");
+      expect(resolved.userPromptParameters).toEqual([optionalName]);
+   });
+
+   it('should report unknown bases and partials', function () {
+      expect(() => resolvePromptComposition(childPrompt, lookupIn([]))).toThrow(InvalidOperationError);
+      expect(() => resolvePromptComposition(basePrompt, lookupIn([]))).toThrow("unknown partial: safety-preamble");
+   });
+
+   it('should report cycles through extends and partials', function () {
+      const a: IPrompt = makePrompt("a", "1.0.0", { extends: "b", userPrompt: "A" });
+      const b: IPrompt = makePrompt("b", "1.0.0", { extends: "a", userPrompt: "B" });
+      const c: IPrompt = makePrompt("c", "1.0.0", { userPrompt: "{> d}" });
+      const d: IPrompt = makePrompt("d", "1.0.0", { userPrompt: "{> c}" });
+
+      expect(() => resolvePromptComposition(a, lookupIn([a, b]))).toThrow("a -> b -> a");
+      expect(() => resolvePromptComposition(c, lookupIn([c, d]))).toThrow("c -> d -> c");
+   });
+
+   describe('repositories', function () {
+      let tempDir: string;
+
+      before(function () {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-prompt-composition-'));
+      });
+
+      after(function () {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it('should resolve composition in PromptInMemoryRepository', function () {
+         const repo = new PromptInMemoryRepository([basePrompt, childPrompt], [safetyFragment]);
+         const prompt = repo.getPrompt("child")!;
+
+         expect(repo.expandSystemPrompt(prompt, {})).toEqual("Be safe and friendly. You are an assistant.");
+         expect(repo.expandUserPrompt(prompt, { NAME: "Jon" })).toEqual("Say hello to Jon.");
+      });
+
+      it('should resolve composition in PromptFileRepository', function () {
+         const file = path.join(tempDir, 'prompts.json');
+         fs.writeFileSync(file, JSON.stringify([basePrompt, childPrompt]));
+
+         const repo = new PromptFileRepository(file, [safetyFragment]);
+         const prompt = repo.getPrompt("child")!;
+
+         expect(repo.expandSystemPrompt(prompt, { TONE: "calm" })).toEqual("Be safe and calm. You are an assistant.");
+      });
+   });
+
+   describe('validatePrompts', function () {
+      it('should check composed prompts against their resolved parameters', function () {
+         const base = { ...basePrompt, systemPrompt: "Be {TONE}.", systemPromptParameters: [toneParam], userPrompt: "{NAME}" };
+
+         expect(validatePrompts([base, childPrompt])).toEqual([]);
+      });
+
+      it('should warn about references that are not in the file', function () {
+         const diagnostics = validatePrompts([childPrompt]);
+
+         expect(diagnostics.map(d => d.code)).toEqual([EPromptDiagnosticCode.kUnresolvedReference]);
+         expect(diagnostics[0].severity).toEqual(EPromptDiagnosticSeverity.kWarning);
+         expect(diagnostics[0].field).toEqual("extends");
+      });
+
+      it('should report cycles as errors', function () {
+         const a = makePrompt("a", "1.0.0", { extends: "b", userPrompt: "A" });
+         const b = makePrompt("b", "1.0.0", { extends: "a", userPrompt: "B" });
+
+         const diagnostics = validatePrompts([a, b]);
+
+         expect(diagnostics.map(d => d.code)).toEqual([EPromptDiagnosticCode.kInvalidComposition, EPromptDiagnosticCode.kInvalidComposition]);
+         expect(diagnostics[0].severity).toEqual(EPromptDiagnosticSeverity.kError);
+      });
+   });
+});
@@ -0,0 +1,148 @@
+/**
+ * @module promptdiff.test
+ *
+ * Unit tests for the PromptDiff module which compares prompts for release review.
+ * Tests verify:
+ * - Line diffs of prompt text
+ * - Parameter changes are classified as breaking or non-breaking
+ * - Sets of prompts report prompts added, removed and changed, comparing the latest versions
+ * - Two versions of one prompt id can be compared
+ * - Plain text and Markdown changelog output
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { IPrompt, IPromptParameterSpec, InvalidParameterError } from '../src/entry';
+import { diffPromptIdVersions, diffPromptSets, diffPromptText, diffPromptVersions, formatPromptChangelog, formatPromptDiff,
+   hasBreakingPromptChanges, EPromptChangeSeverity, IPromptDiff } from '../src/PromptDiff';
+import { makePrompt } from './PromptTestData';
+
+function param(name: string, overrides: Partial<IPromptParameterSpec> = {}): IPromptParameterSpec {
+   return { name, description: name, type: "kString", required: false, ...overrides };
+}
+
+function changesOf(diff: IPromptDiff): Array<[string, string]> {
+   return diff.changes.map(c => [c.severity === EPromptChangeSeverity.kBreaking ? "breaking" : "non-breaking", c.message]);
+}
+
+describe('PromptDiff', function () {
+
+   describe('diffPromptText', function () {
+      it('should mark lines added, removed and unchanged', function () {
+         expect(diffPromptText("a\nb\nc", "a\nB\nc\nd")).toEqual([
+            { kind: "unchanged", text: "a" },
+            { kind: "removed", text: "b" },
+            { kind: "added", text: "B" },
+            { kind: "unchanged", text: "c" },
+            { kind: "added", text: "d" }
+         ]);
+      });
+   });
+
+   describe('diffPromptVersions', function () {
+      it('should classify parameter changes', function () {
+         const before = makePrompt("p", "1.0.0", {
+            userPromptParameters: [
+               param("MODE", { type: "kEnum", allowedValues: ["fast", "slow"] }),
+               param("AGE", { type: "kInteger", max: 100 }),
+               param("NOTE", { required: true }),
+               param("OLD")
+            ]
+         });
+         const after = makePrompt("p", "1.1.0", {
+            userPromptParameters: [
+               param("MODE", { type: "kEnum", allowedValues: ["fast", "medium"] }),
+               param("AGE", { type: "kInteger", max: 120 }),
+               param("NOTE"),
+               param("CITY", { required: true }),
+               param("TONE")
+            ]
+         });
+
+         expect(changesOf(diffPromptVersions(before, after))).toEqual([
+            ["breaking", "allowed values removed: slow"],
+            ["non-breaking", "allowed values added: medium"],
+            ["non-breaking", "max changed from 100 to 120"],
+            ["non-breaking", "NOTE is now optional"],
+            ["breaking", "new required parameter CITY"],
+            ["non-breaking", "new optional parameter TONE"],
+            ["non-breaking", "parameter OLD removed"]
+         ]);
+      });
+
+      it('should treat tighter constraints, type changes and a removed system prompt as breaking', function () {
+         const before = makePrompt("p", "1.0.0", { systemPrompt: "Be kind.", userPromptParameters: [param("X")] });
+         const after = makePrompt("p", "2.0.0", { userPromptParameters: [param("X", { type: "kInteger", required: true, maxLength: 3 })] });
+
+         const diff = diffPromptVersions(before, after);
+
+         expect(changesOf(diff).filter(([severity]) => severity === "breaking").map(([, message]) => message)).toEqual([
+            "system prompt removed",
+            "type changed from kString to kInteger",
+            "X is now required",
+            "maxLength changed from none to 3"
+         ]);
+         expect(hasBreakingPromptChanges(diff)).toBe(true);
+      });
+
+      it('should diff the prompt text', function () {
+         const diff = diffPromptVersions(makePrompt("p"), makePrompt("p", "1.0.1", { userPrompt: "New text" }));
+
+         expect(diff.userPromptDiff).toEqual([{ kind: "removed", text: "Prompt p" }, { kind: "added", text: "New text" }]);
+         expect(diff.systemPromptDiff).toBeUndefined();
+         expect(hasBreakingPromptChanges(diff)).toBe(false);
+      });
+   });
+
+   describe('diffPromptSets', function () {
+      it('should report prompts added, removed and changed', function () {
+         const before = [makePrompt("same"), makePrompt("changed"), makePrompt("gone")];
+         const after = [makePrompt("same"), makePrompt("changed", "1.0.0"), makePrompt("changed", "1.1.0", { userPrompt: "Edited" }), makePrompt("new")];
+
+         const diff = diffPromptSets(before, after);
+
+         expect(diff.added.map(p => p.id)).toEqual(["new"]);
+         expect(diff.removed.map(p => p.id)).toEqual(["gone"]);
+         expect(diff.changed.map(d => [d.id, d.fromVersion, d.toVersion])).toEqual([["changed", "1.0.0", "1.1.0"]]);
+         expect(hasBreakingPromptChanges(diff)).toBe(true);
+      });
+
+      it('should compare two versions of one prompt id', function () {
+         const prompts = [makePrompt("p", "1.0.0"), makePrompt("p", "2.0.0", { userPrompt: "Two" })];
+
+         expect(diffPromptIdVersions(prompts, "p", "1.0.0").toVersion).toEqual("2.0.0");
+         expect(() => diffPromptIdVersions(prompts, "p", "3.0.0")).toThrow(InvalidParameterError);
+      });
+   });
+
+   describe('formatting', function () {
+      const diff = diffPromptSets(
+         [makePrompt("p", "1.0.0", { userPromptParameters: [param("A", { type: "kEnum", allowedValues: ["x", "y"] })], userPrompt: "{A}" })],
+         [makePrompt("p", "1.1.0", { userPromptParameters: [param("A", { type: "kEnum", allowedValues: ["x"] })], userPrompt: "{A}!" }),
+            makePrompt("q")]);
+
+      it('should format one line per change', function () {
+         expect(formatPromptDiff(diff).split("\n")).toEqual([
+            "[q] added: q 1.0.0",
+            "[p] 1.0.0 -> 1.1.0",
+            "    change: userPrompt: user prompt text changed",
+            "    breaking: userPromptParameters.A: allowed values removed: y"
+         ]);
+      });
+
+      it('should format a Markdown changelog with breaking changes first', function () {
+         const markdown = formatPromptChangelog(diff, "Release 2");
+
+         expect(markdown).toContain("# Release 2");
+         expect(markdown).toContain("## Added\n\n- **q** (`q`) 1.0.0");
+         expect(markdown.indexOf("**Breaking**")).toBeLessThan(markdown.indexOf("**Non-breaking**"));
+         expect(markdown).toContain("```diff\n- {A}\n+ {A}!\n```");
+      });
+
+      it('should say when nothing changed', function () {
+         expect(formatPromptChangelog(diffPromptSets([makePrompt("p")], [makePrompt("p")]))).toContain("No changes.");
+      });
+   });
+});
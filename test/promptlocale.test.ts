@@ -0,0 +1,127 @@
+/**
+ * @module promptlocale.test
+ *
+ * Unit tests for the PromptLocale module which selects the text of a prompt for a locale.
+ * Tests verify:
+ * - BCP-47 fallback from a region or script to the language, then to the prompt's own text
+ * - Fallback is per field, including parameter descriptions
+ * - getPrompt accepts a locale alongside a version range, and expand* uses the localized text
+ * - Bases and partials are localized in the same locale
+ * - validatePrompts checks locale tags, variant fields and localized templates
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { IPrompt, InvalidParameterError, PromptInMemoryRepository, validatePrompts, EPromptDiagnosticCode } from '../src/entry';
+import { findLocaleFallbacks, localizePrompt } from '../src/PromptLocale';
+import { makePrompt } from './PromptTestData';
+
+const greeting: IPrompt = makePrompt("greeting", "1.0.0", {
+   systemPrompt: "You are a friendly assistant.",
+   userPrompt: "Say hello to {NAME}.",
+   userPromptParameters: [{ name: "NAME", description: "The person to greet", type: "kString", required: true }],
+   locales: {
+      "fr": {
+         systemPrompt: "Tu es un assistant sympathique.",
+         userPrompt: "Dis bonjour à {NAME}.",
+         parameterDescriptions: { NAME: "La personne à saluer" }
+      },
+      "fr-CA": {
+         userPrompt: "Dis allô à {NAME}."
+      }
+   }
+});
+
+describe('PromptLocale', function () {
+
+   describe('findLocaleFallbacks', function () {
+      it('should list each parent of a language tag', function () {
+         expect(findLocaleFallbacks("zh-Hant-TW")).toEqual(["zh-Hant-TW", "zh-Hant", "zh"]);
+         expect(findLocaleFallbacks("fr_CA")).toEqual(["fr-CA", "fr"]);
+      });
+
+      it('should reject malformed tags', function () {
+         expect(() => findLocaleFallbacks("not a locale")).toThrow(InvalidParameterError);
+         expect(() => findLocaleFallbacks("")).toThrow(InvalidParameterError);
+      });
+   });
+
+   describe('localizePrompt', function () {
+      it('should fall back per field from region to language to default', function () {
+         const canadian = localizePrompt(greeting, "fr-CA");
+
+         expect(canadian.userPrompt).toEqual("Dis allô à {NAME}.");
+         expect(canadian.systemPrompt).toEqual("Tu es un assistant sympathique.");
+         expect(canadian.userPromptParameters?.[0].description).toEqual("La personne à saluer");
+      });
+
+      it('should match tags without regard to case', function () {
+         expect(localizePrompt(greeting, "FR-ca").userPrompt).toEqual("Dis allô à {NAME}.");
+      });
+
+      it('should use the default text for a locale with no variant', function () {
+         expect(localizePrompt(greeting, "de-DE")).toBe(greeting);
+         expect(localizePrompt(greeting, undefined)).toBe(greeting);
+      });
+   });
+
+   describe('repositories', function () {
+      it('should select a locale and expand the localized text', function () {
+         const repo = new PromptInMemoryRepository([greeting]);
+         const prompt = repo.getPrompt("greeting", { locale: "fr-FR" })!;
+
+         expect(repo.expandSystemPrompt(prompt, {})).toEqual("Tu es un assistant sympathique.");
+         expect(repo.expandUserPrompt(prompt, { NAME: "Jon" })).toEqual("Dis bonjour à Jon.");
+      });
+
+      it('should select a version and a locale together', function () {
+         const repo = new PromptInMemoryRepository([greeting, { ...greeting, version: "2.0.0", locales: {} }]);
+
+         expect(repo.getPrompt("greeting", { version: "^1.0.0", locale: "fr" })?.userPrompt).toEqual("Dis bonjour à {NAME}.");
+         expect(repo.getPrompt("greeting", { locale: "fr" })?.userPrompt).toEqual("Say hello to {NAME}.");
+         expect(repo.getPrompt("greeting", "1.0.0")?.userPrompt).toEqual("Say hello to {NAME}.");
+      });
+
+      it('should localize bases and partials in the same locale', function () {
+         const safety: IPrompt = makePrompt("safety", "1.0.0", {
+            systemPrompt: "Be safe.", userPrompt: "",
+            locales: { fr: { systemPrompt: "Sois prudent." } }
+         });
+         const child: IPrompt = makePrompt("child", "1.0.0", {
+            extends: "safety", userPrompt: "{> safety} Hello",
+            locales: { fr: { userPrompt: "Bonjour" } }
+         });
+         const repo = new PromptInMemoryRepository([safety, child]);
+
+         expect(repo.getPrompt("child", { locale: "fr-BE" })?.systemPrompt).toEqual("Sois prudent.");
+         expect(repo.getPrompt("child")?.systemPrompt).toEqual("Be safe.");
+      });
+   });
+
+   describe('validatePrompts', function () {
+      it('should accept well formed locales', function () {
+         expect(validatePrompts([greeting])).toEqual([]);
+      });
+
+      it('should report malformed tags, fields and localized templates', function () {
+         const diagnostics = validatePrompts([{
+            ...greeting,
+            locales: {
+               "not a tag": {},
+               "fr": { userPrompt: "Bonjour {NOM}", tone: "formal" },
+               "de": { parameterDescriptions: { NAMES: "Die Person" } }
+            }
+         }]);
+
+         expect(diagnostics.map(d => [d.code, d.field])).toEqual([
+            [EPromptDiagnosticCode.kInvalidLocale, "locales.not a tag"],
+            [EPromptDiagnosticCode.kUnknownKey, "locales.fr.tone"],
+            [EPromptDiagnosticCode.kUndeclaredPlaceholder, "locales.fr.userPrompt"],
+            [EPromptDiagnosticCode.kUnreferencedParameter, "userPromptParameters[0]"],
+            [EPromptDiagnosticCode.kUnknownKey, "locales.de.parameterDescriptions.NAMES"]
+         ]);
+      });
+   });
+});
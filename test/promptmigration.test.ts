@@ -0,0 +1,151 @@
+/**
+ * @module promptmigration.test
+ *
+ * Unit tests for the PromptMigration module which upgrades prompts written against older schema versions.
+ * Tests verify:
+ * - Prompts without a schemaVersion are treated as the oldest schema and upgraded
+ * - Prompts at or beyond the current schema are left untouched
+ * - Registered upgrade steps are chained in order
+ * - PromptFileRepository migrates prompts on load
+ * - migratePromptFile rewrites files in place, or reports only on a dry run
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, after } from 'mocha';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { PromptFileRepository, InvalidOperationError, InvalidParameterError } from '../src/entry';
+import { CurrentPromptSchemaVersion, IPromptMigration, migratePrompt, migratePrompts, migratePromptFile, registerPromptMigration, unregisterPromptMigration } from '../src/PromptMigration';
+
+const legacyPrompt = {
+   id: "legacy-prompt",
+   version: "1.0.0",
+   name: "Legacy",
+   userPrompt: "Hello {NAME}",
+   userPromptsParameters: [{
+      name: "NAME",
+      description: "A person's name",
+      type: "kString",
+      required: true
+   }]
+};
+
+describe('PromptMigration', function () {
+
+   it('should upgrade a prompt with no schema version', function () {
+      const { prompt, record } = migratePrompt(legacyPrompt);
+
+      expect(prompt.schemaVersion).toEqual(CurrentPromptSchemaVersion);
+      expect(prompt.userPromptParameters).toEqual(legacyPrompt.userPromptsParameters);
+      expect(prompt.userPromptsParameters).toBeUndefined();
+      expect(record?.promptId).toEqual("legacy-prompt");
+      expect(record?.fromVersion).toEqual("0.1");
+      expect(record?.steps.length).toEqual(1);
+   });
+
+   it('should not modify the original prompt', function () {
+      migratePrompt(legacyPrompt);
+
+      expect(legacyPrompt.userPromptsParameters).toBeDefined();
+      expect((legacyPrompt as any).schemaVersion).toBeUndefined();
+   });
+
+   it('should leave current and newer prompts untouched', function () {
+      const current = { ...legacyPrompt, schemaVersion: CurrentPromptSchemaVersion };
+      const newer = { ...legacyPrompt, schemaVersion: "9.0" };
+
+      expect(migratePrompt(current)).toEqual({ prompt: current, record: undefined });
+      expect(migratePrompt(newer)).toEqual({ prompt: newer, record: undefined });
+   });
+
+   it('should chain registered migrations', function () {
+      const nextStep: IPromptMigration = {
+         fromVersion: CurrentPromptSchemaVersion,
+         toVersion: "0.3",
+         description: "Add a description",
+         migrate: (prompt) => ({ ...prompt, description: prompt.description ?? "None" })
+      };
+      registerPromptMigration(nextStep);
+      try {
+         const { prompt, record } = migratePrompt(legacyPrompt, "0.3");
+
+         expect(prompt.schemaVersion).toEqual("0.3");
+         expect(prompt.userPromptParameters).toBeDefined();
+         expect(prompt.description).toEqual("None");
+         expect(record?.steps).toEqual([expect.stringContaining("userPromptsParameters"), "Add a description"]);
+      } finally {
+         unregisterPromptMigration(nextStep);
+      }
+   });
+
+   it('should reject migrations that do not increase the version or duplicate a step', function () {
+      const migrate = (prompt: Record<string, unknown>) => prompt;
+
+      expect(() => registerPromptMigration({ fromVersion: "0.3", toVersion: "0.3", description: "", migrate }))
+         .toThrow(InvalidParameterError);
+      expect(() => registerPromptMigration({ fromVersion: "0.1", toVersion: "0.5", description: "", migrate }))
+         .toThrow(InvalidParameterError);
+   });
+
+   it('should throw when there is no migration path', function () {
+      expect(() => migratePrompt(legacyPrompt, "5.0")).toThrow(InvalidOperationError);
+   });
+
+   it('should report only the prompts that changed', function () {
+      const result = migratePrompts([legacyPrompt, { ...legacyPrompt, id: "current-prompt", schemaVersion: CurrentPromptSchemaVersion }]);
+
+      expect(result.prompts.length).toEqual(2);
+      expect(result.migrations.map(m => m.promptId)).toEqual(["legacy-prompt"]);
+   });
+
+   describe('files', function () {
+      let tempDir: string;
+
+      before(function () {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-prompt-migration-'));
+      });
+
+      after(function () {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it('should migrate prompts when PromptFileRepository loads them', function () {
+         const file = path.join(tempDir, 'load.json');
+         fs.writeFileSync(file, JSON.stringify([legacyPrompt]));
+
+         const repo = new PromptFileRepository(file);
+         const prompt = repo.getPrompt("legacy-prompt")!;
+
+         expect(prompt.schemaVersion).toEqual(CurrentPromptSchemaVersion);
+         // The parameter specification now applies, so the required parameter is enforced
+         expect(() => repo.expandUserPrompt(prompt, {})).toThrow(InvalidParameterError);
+         expect(repo.expandUserPrompt(prompt, { NAME: "Jon" })).toEqual("Hello Jon");
+      });
+
+      it('should rewrite a file in place', function () {
+         const file = path.join(tempDir, 'rewrite.json');
+         fs.writeFileSync(file, JSON.stringify([legacyPrompt]));
+
+         const result = migratePromptFile(file);
+
+         expect(result.migrations.length).toEqual(1);
+         const rewritten = JSON.parse(fs.readFileSync(file, 'utf8'));
+         expect(rewritten[0].schemaVersion).toEqual(CurrentPromptSchemaVersion);
+         expect(rewritten[0].userPromptParameters).toBeDefined();
+      });
+
+      it('should not write the file on a dry run', function () {
+         const file = path.join(tempDir, 'dryrun.json');
+         const original = JSON.stringify([legacyPrompt]);
+         fs.writeFileSync(file, original);
+
+         const result = migratePromptFile(file, true);
+
+         expect(result.migrations.length).toEqual(1);
+         expect(fs.readFileSync(file, 'utf8')).toEqual(original);
+      });
+   });
+});
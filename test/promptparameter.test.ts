@@ -0,0 +1,178 @@
+/**
+ * @module promptparameter.test
+ *
+ * Unit tests for prompt parameter types and constraints.
+ * Tests verify:
+ * - Each parameter type accepts valid values and rejects garbage
+ * - min / max, minLength / maxLength, pattern and JSON schema constraints
+ * - All violations are reported together by replacePromptPlaceholders
+ * - {#if} sections treat "false" as false for kBoolean parameters, including defaults
+ * - validatePrompts checks the new specification fields
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { findParameterViolations, replacePromptPlaceholders } from '../src/PromptRepository';
+import { IPromptParameterSpec, EParameterType, InvalidParameterError, validatePrompts, EPromptDiagnosticCode } from '../src/entry';
+
+function spec(type: EParameterType, constraints: Partial<IPromptParameterSpec> = {}): IPromptParameterSpec {
+   return { name: "P", description: "A parameter", type, required: true, ...constraints };
+}
+
+describe('Prompt parameters', function () {
+
+   describe('types', function () {
+      const cases: Array<[EParameterType, string[], string[]]> = [
+         ["kString", ["", "hello"], []],
+         ["kNumber", ["1.5", "-2", "1e3"], ["", "abc", "1.2.3"]],
+         ["kInteger", ["42", "-7"], ["4.2", "", "seven"]],
+         ["kBoolean", ["true", "false"], ["yes", "TRUE", "1"]],
+         ["kDate", ["2026-01-31", "2026-01-31T10:30:00Z"], ["31/01/2026", "2026-13-45", "tomorrow"]],
+         ["kUrl", ["https://example.com/path?q=1", "http://localhost:8080"], ["example.com", "ftp://example.com", "javascript:alert(1)"]],
+         ["kJson", ["{\"a\": 1}", "[1, 2]", "\"text\""], ["{a: 1}", ""]]
+      ];
+
+      for (const [type, valid, invalid] of cases) {
+         it(`should check ${type} values`, function () {
+            for (const value of valid) {
+               expect(findParameterViolations(spec(type), value)).toEqual([]);
+            }
+            for (const value of invalid) {
+               expect(findParameterViolations(spec(type), value).length).toEqual(1);
+            }
+         });
+      }
+
+      it('should require a list for kList and check each item', function () {
+         const list = spec("kList", { allowedValues: ["red", "green"], minLength: 1, maxLength: 2 });
+
+         expect(findParameterViolations(list, ["red", "green"])).toEqual([]);
+         expect(findParameterViolations(list, "red")).toEqual(["Parameter P must be a list"]);
+         expect(findParameterViolations(list, [])).toEqual(["Parameter P must have at least 1 items"]);
+         expect(findParameterViolations(list, ["red", "blue", "blue"])).toEqual([
+            "Parameter P must have at most 2 items",
+            "Parameter P items must be one of: red, green"
+         ]);
+      });
+
+      it('should check each item of a list passed for another type', function () {
+         expect(findParameterViolations(spec("kInteger"), ["1", "2"])).toEqual([]);
+         expect(findParameterViolations(spec("kInteger"), ["1", "two"])).toEqual(["Parameter P must be an integer"]);
+      });
+   });
+
+   describe('constraints', function () {
+      it('should check number and date ranges', function () {
+         const age = spec("kInteger", { min: 0, max: 120 });
+         const date = spec("kDate", { min: "2026-01-01", max: "2026-12-31" });
+
+         expect(findParameterViolations(age, "30")).toEqual([]);
+         expect(findParameterViolations(age, "-1")).toEqual(["Parameter P must be at least 0"]);
+         expect(findParameterViolations(age, "121")).toEqual(["Parameter P must be at most 120"]);
+         expect(findParameterViolations(date, "2026-06-01")).toEqual([]);
+         expect(findParameterViolations(date, "2025-12-31")).toEqual(["Parameter P must be at least 2026-01-01"]);
+      });
+
+      it('should check length and pattern together', function () {
+         const code = spec("kString", { minLength: 3, maxLength: 5, pattern: "^[A-Z]+$" });
+
+         expect(findParameterViolations(code, "ABCD")).toEqual([]);
+         expect(findParameterViolations(code, "ab")).toEqual([
+            "Parameter P must be at least 3 characters",
+            "Parameter P must match the pattern ^[A-Z]+$"
+         ]);
+         expect(findParameterViolations(code, "ABCDEF")).toEqual(["Parameter P must be at most 5 characters"]);
+      });
+
+      it('should check kJson values against an inline schema', function () {
+         const json = spec("kJson", {
+            schema: {
+               type: "object",
+               properties: { city: { type: "string" }, days: { type: "integer", minimum: 1 } },
+               required: ["city"],
+               additionalProperties: false
+            }
+         });
+
+         expect(findParameterViolations(json, "{\"city\": \"Paris\", \"days\": 2}")).toEqual([]);
+         expect(findParameterViolations(json, "{\"days\": 0, \"extra\": true}")).toEqual([
+            "P.city is required",
+            "P.days must be at least 1",
+            "P.extra is not an allowed property"
+         ]);
+      });
+   });
+
+   describe('replacePromptPlaceholders', function () {
+      it('should report every missing and invalid parameter in one error', function () {
+         const specs = [
+            { ...spec("kString"), name: "NAME" },
+            { ...spec("kInteger", { max: 120 }), name: "AGE" },
+            { ...spec("kUrl"), name: "HOME" }
+         ];
+
+         let message = "";
+         try {
+            replacePromptPlaceholders("{NAME} {AGE} {HOME}", specs, { AGE: "200", HOME: "not a url" });
+         } catch (error) {
+            expect(error).toBeInstanceOf(InvalidParameterError);
+            message = (error as Error).message;
+         }
+         expect(message).toContain("Missing required parameter: NAME");
+         expect(message).toContain("Parameter AGE must be at most 120");
+         expect(message).toContain("Parameter HOME must be an http or https URL");
+      });
+
+      it('should default an optional list to an empty list', function () {
+         const specs = [{ ...spec("kList"), name: "ITEMS", required: false }];
+
+         expect(replacePromptPlaceholders("[{#each ITEMS as ITEM}{ITEM}{/each}]", specs, {})).toEqual("[]");
+      });
+
+      it('should skip an {#if} section for a kBoolean parameter that is "false"', function () {
+         const template = "{#if FLAG}Be verbose.{/if}Answer.";
+         const specs = [{ ...spec("kBoolean"), name: "FLAG", required: false, defaultValue: "false" }];
+
+         expect(replacePromptPlaceholders(template, specs, { FLAG: "false" })).toEqual("Answer.");
+         expect(replacePromptPlaceholders(template, specs, {})).toEqual("Answer.");
+         expect(replacePromptPlaceholders(template, specs, { FLAG: "true" })).toEqual("Be verbose.Answer.");
+         expect(replacePromptPlaceholders(template, [{ ...spec("kString"), name: "FLAG" }], { FLAG: "false" })).toEqual("Be verbose.Answer.");
+      });
+   });
+
+   describe('validatePrompts', function () {
+      function makePrompt(parameter: Record<string, unknown>): Record<string, unknown> {
+         return {
+            id: "prompt-1",
+            version: "1.0.0",
+            name: "Prompt",
+            userPrompt: "{P}",
+            userPromptParameters: [{ name: "P", description: "A parameter", required: false, ...parameter }]
+         };
+      }
+
+      it('should accept the new types and constraints', function () {
+         expect(validatePrompts([makePrompt({ type: "kList", defaultValue: ["a"], minLength: 1 })])).toEqual([]);
+         expect(validatePrompts([makePrompt({ type: "kDate", min: "2026-01-01", defaultValue: "2026-02-01" })])).toEqual([]);
+         expect(validatePrompts([makePrompt({ type: "kJson", schema: { type: "object" }, defaultValue: "{}" })])).toEqual([]);
+      });
+
+      it('should report malformed constraints', function () {
+         const diagnostics = validatePrompts([makePrompt({ type: "kInteger", min: "zero", maxLength: -1, pattern: "([" })]);
+
+         expect(diagnostics.map(d => d.field)).toEqual([
+            "userPromptParameters[0].min",
+            "userPromptParameters[0].maxLength",
+            "userPromptParameters[0].pattern"
+         ]);
+      });
+
+      it('should report defaults that break their own constraints', function () {
+         const diagnostics = validatePrompts([makePrompt({ type: "kInteger", max: 10, defaultValue: "11" })]);
+
+         expect(diagnostics.map(d => d.code)).toEqual([EPromptDiagnosticCode.kInvalidDefaultValue]);
+      });
+   });
+});
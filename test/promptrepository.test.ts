@@ -21,12 +21,12 @@
 // ===End StrongAI Generated Comment===
 
 import { expect } from 'expect';
-import { describe, it, before } from 'mocha';
+import { describe, it, before, after } from 'mocha';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { PromptFileRepository, replacePromptPlaceholders } from '../src/PromptRepository';
-import { IPrompt, IPromptParameterSpec, ParameterTypeNumber, ParameterTypeString } from '../src/entry';
+import { PromptFileRepository, PromptInMemoryRepository, replacePromptPlaceholders } from '../src/PromptRepository';
+import { IPrompt, IPromptParameterSpec, ParameterTypeNumber, ParameterTypeString, InvalidParameterError } from '../src/entry';
 import { throwIfUndefined } from '@jonverrier/assistant-common';
 
 let requiredNameParam : IPromptParameterSpec = {
@@ -210,4 +210,67 @@ describe('PromptRepository', function () {
       expect(result2).toContain("How do I say 'Hello' in French?");
       expect(result2).toContain("The user is a beginner to French");
    });
-});
\ No newline at end of file
+});
+
+describe('PromptRepository versions', function () {
+
+   function makeVersion(version: string): IPrompt {
+      return {
+         id: "versioned-prompt",
+         version: version,
+         name: "Versioned",
+         systemPrompt: `You are version ${version}`,
+         userPrompt: "Hello"
+      };
+   }
+
+   const versions = ["1.0.0", "1.2.0", "2.0.0", "1.1.0", "3.0.0-beta.1"];
+
+   let tempDir: string;
+   let versionedPromptsFile: string;
+
+   before(function () {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-prompt-versions-'));
+      versionedPromptsFile = path.join(tempDir, 'versioned_prompts.json');
+      fs.writeFileSync(versionedPromptsFile, JSON.stringify(versions.map(makeVersion)));
+   });
+
+   after(function () {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+   });
+
+   it('should return the latest released version when no range is given', function () {
+      const repo = new PromptInMemoryRepository(versions.map(makeVersion));
+
+      expect(repo.getPrompt("versioned-prompt")?.version).toEqual("2.0.0");
+      expect(repo.getPrompt("versioned-prompt", "latest")?.version).toEqual("2.0.0");
+   });
+
+   it('should return a pinned version', function () {
+      const repo = new PromptInMemoryRepository(versions.map(makeVersion));
+
+      expect(repo.getPrompt("versioned-prompt", "1.1.0")?.systemPrompt).toEqual("You are version 1.1.0");
+      expect(repo.getPrompt("versioned-prompt", "3.0.0-beta.1")?.version).toEqual("3.0.0-beta.1");
+   });
+
+   it('should return the highest version satisfying a range', function () {
+      const repo = new PromptFileRepository(versionedPromptsFile);
+
+      expect(repo.getPrompt("versioned-prompt", "^1.0.0")?.version).toEqual("1.2.0");
+      expect(repo.getPrompt("versioned-prompt", "~1.1")?.version).toEqual("1.1.0");
+      expect(repo.getPrompt("versioned-prompt", "^4.0.0")).toBeUndefined();
+   });
+
+   it('should list versions in ascending order', function () {
+      const repo = new PromptFileRepository(versionedPromptsFile);
+
+      expect(repo.listVersions("versioned-prompt")).toEqual(["1.0.0", "1.1.0", "1.2.0", "2.0.0", "3.0.0-beta.1"]);
+      expect(repo.listVersions("missing-prompt")).toEqual([]);
+   });
+
+   it('should throw for an invalid version range', function () {
+      const repo = new PromptInMemoryRepository(versions.map(makeVersion));
+
+      expect(() => repo.getPrompt("versioned-prompt", ">>1")).toThrow(InvalidParameterError);
+   });
+});
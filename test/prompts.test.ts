@@ -92,7 +92,7 @@ export class PromptValidator {
 
 describe('PromptValidator', () => {
    // Test data
-   const validUnitTestPrompt: IPrompt = prompts.find(p => p.id === "f6596917-628b-4901-b41d-a2fbfaca63e2")!;
+   const validUnitTestPrompt: IPrompt = (prompts as IPrompt[]).find(p => p.id === "f6596917-628b-4901-b41d-a2fbfaca63e2")!;
 
    describe('Basic Structure Validation', () => {
       it('should validate a correct prompt structure', () => {
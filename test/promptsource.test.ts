@@ -0,0 +1,138 @@
+/**
+ * @module promptsource.test
+ *
+ * Unit tests for the PromptSource module which loads prompts from files, directories and code.
+ * Tests verify:
+ * - JSON and YAML files holding one prompt or an array of prompts
+ * - Directory trees are searched recursively, skipping hidden entries and other file types
+ * - The same prompt version defined twice is reported with both locations
+ * - Higher precedence sources replace every version of a prompt id in lower ones
+ * - Composition works across sources
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { IPrompt, InvalidOperationError, PromptFileRepository } from '../src/entry';
+import { PromptArraySource, PromptDirectoryRepository, PromptDirectorySource, PromptFileSource, PromptMultiSourceRepository,
+   findPromptFiles, readPromptFile } from '../src/PromptSource';
+import { makePrompt } from './PromptTestData';
+
+describe('PromptSource', function () {
+   let tempDir: string;
+
+   function write(relativePath: string, contents: string): string {
+      const filePath = path.join(tempDir, relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, contents);
+      return filePath;
+   }
+
+   beforeEach(function () {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-prompt-source-'));
+   });
+
+   afterEach(function () {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+   });
+
+   describe('files', function () {
+      it('should read a single prompt or an array of prompts from JSON', function () {
+         const single = write('single.json', JSON.stringify(makePrompt("a")));
+         const array = write('array.json', JSON.stringify([makePrompt("b"), makePrompt("c")]));
+
+         expect(readPromptFile(single).map(p => p.id)).toEqual(["a"]);
+         expect(readPromptFile(array).map(p => p.id)).toEqual(["b", "c"]);
+      });
+
+      it('should read YAML and migrate it to the current schema', function () {
+         const file = write('prompt.yaml', [
+            "id: greeting",
+            "version: 1.0.0",
+            "name: Greeting",
+            "userPrompt: Hello {NAME}",
+            "userPromptsParameters:",
+            "  - name: NAME",
+            "    description: A name",
+            "    type: kString",
+            "    required: true"
+         ].join("\n"));
+
+         const repo = new PromptFileRepository(file);
+         const prompt = repo.getPrompt("greeting")!;
+
+         expect(prompt.userPromptParameters?.[0].name).toEqual("NAME");
+         expect(repo.expandUserPrompt(prompt, { NAME: "Jon" })).toEqual("Hello Jon");
+      });
+
+      it('should report files that do not hold prompts', function () {
+         const file = write('bad.json', JSON.stringify(["not a prompt"]));
+
+         expect(() => readPromptFile(file)).toThrow(InvalidOperationError);
+      });
+   });
+
+   describe('directories', function () {
+      it('should find prompt files in a directory tree', function () {
+         write('b.json', "[]");
+         write('a/nested.yml', "[]");
+         write('a/readme.md', "");
+         write('.hidden/ignored.json', "[]");
+
+         expect(findPromptFiles(tempDir).map(f => path.relative(tempDir, f))).toEqual([path.join("a", "nested.yml"), "b.json"]);
+      });
+
+      it('should merge prompts from every file', function () {
+         write('team-a/one.json', JSON.stringify(makePrompt("one")));
+         write('team-b/two.json', JSON.stringify([makePrompt("two", "1.0.0"), makePrompt("two", "2.0.0")]));
+
+         const repo = new PromptDirectoryRepository(tempDir);
+
+         expect(repo.getPrompt("one")?.userPrompt).toEqual("Prompt one");
+         expect(repo.listVersions("two")).toEqual(["1.0.0", "2.0.0"]);
+      });
+
+      it('should report the same prompt version in two files', function () {
+         const first = write('first.json', JSON.stringify(makePrompt("dup")));
+         const second = write('second.json', JSON.stringify(makePrompt("dup")));
+
+         expect(() => new PromptDirectorySource(tempDir).loadPrompts()).toThrow(`defined in both ${first} and ${second}`);
+      });
+   });
+
+   describe('PromptMultiSourceRepository', function () {
+      it('should let higher sources replace every version of a prompt id', function () {
+         const defaults = write('defaults.json', JSON.stringify([makePrompt("shared", "1.0.0"), makePrompt("shared", "2.0.0"), makePrompt("base")]));
+         const overrides = new PromptArraySource([makePrompt("shared", "1.5.0", { userPrompt: "Override" })]);
+
+         const repo = new PromptMultiSourceRepository([overrides, new PromptFileSource(defaults)]);
+
+         expect(repo.getPrompt("shared")?.userPrompt).toEqual("Override");
+         expect(repo.listVersions("shared")).toEqual(["1.5.0"]);
+         expect(repo.getPrompt("base")).toBeDefined();
+      });
+
+      it('should compose prompts across sources', function () {
+         const base = write('defaults.json', JSON.stringify([{ ...makePrompt("base"), systemPrompt: "Be safe." }]));
+         const child: IPrompt = { ...makePrompt("child"), extends: "base" };
+
+         const repo = new PromptMultiSourceRepository([new PromptArraySource([child]), new PromptFileSource(base)]);
+
+         expect(repo.getPrompt("child")?.systemPrompt).toEqual("Be safe.");
+      });
+
+      it('should report duplicates within a source and keep its prompts on a failed reload', function () {
+         const prompts = [makePrompt("a")];
+         const repo = new PromptMultiSourceRepository([new PromptArraySource(prompts, "overrides")]);
+
+         prompts.push(makePrompt("a"));
+
+         expect(() => repo.reload()).toThrow("defined twice in overrides");
+         expect(repo.getPrompt("a")).toBeDefined();
+      });
+   });
+});
@@ -0,0 +1,148 @@
+/**
+ * @module prompttemplate.test
+ *
+ * Unit tests for the PromptTemplate module which expands prompt templates.
+ * Tests verify:
+ * - Substitution, including list values and missing values
+ * - Escaped literal braces
+ * - Conditional sections and loops over list parameters
+ * - Filters
+ * - Errors with line and column for malformed templates
+ * - Expansion through replacePromptPlaceholders keeps required / default handling
+ * - Templates of prompts without parameter specifications are returned unchanged
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { renderPromptTemplate, findPromptTemplateParameters } from '../src/PromptTemplate';
+import { replacePromptPlaceholders } from '../src/PromptRepository';
+import { IPromptParameterSpec, ParameterTypeNumber, ParameterTypeString, InvalidParameterError } from '../src/entry';
+
+describe('PromptTemplate', function () {
+
+   describe('substitution', function () {
+      it('should substitute values and tolerate spaces inside the braces', function () {
+         expect(renderPromptTemplate("Hello {NAME}, you are { AGE }", { NAME: "Jon", AGE: "30" })).toEqual("Hello Jon, you are 30");
+      });
+
+      it('should expand missing values to an empty string', function () {
+         expect(renderPromptTemplate("Hello {NAME}!", {})).toEqual("Hello !");
+      });
+
+      it('should join list values with commas', function () {
+         expect(renderPromptTemplate("Topics: {TOPICS}", { TOPICS: ["cars", "bikes"] })).toEqual("Topics: cars, bikes");
+      });
+
+      it('should keep doubled braces as literal braces', function () {
+         expect(renderPromptTemplate("Reply as {{\"answer\": \"{ANSWER}\"}}", { ANSWER: "yes" }))
+            .toEqual("Reply as {\"answer\": \"yes\"}");
+      });
+   });
+
+   describe('sections', function () {
+      it('should render the matching branch of a conditional', function () {
+         const template = "{#if CONTEXT}Context: {CONTEXT}{#else}No context.{/if}";
+
+         expect(renderPromptTemplate(template, { CONTEXT: "Paris" })).toEqual("Context: Paris");
+         expect(renderPromptTemplate(template, { CONTEXT: "" })).toEqual("No context.");
+         expect(renderPromptTemplate(template, { CONTEXT: [] })).toEqual("No context.");
+         expect(renderPromptTemplate(template, {})).toEqual("No context.");
+      });
+
+      it('should repeat a loop body for each item', function () {
+         const template = "Examples:\n{#each EXAMPLES as EXAMPLE}- {EXAMPLE} ({LANGUAGE})\n{/each}";
+
+         expect(renderPromptTemplate(template, { EXAMPLES: ["Bonjour", "Salut"], LANGUAGE: "fr" }))
+            .toEqual("Examples:\n- Bonjour (fr)\n- Salut (fr)\n");
+         expect(renderPromptTemplate(template, { EXAMPLES: "Bonjour", LANGUAGE: "fr" })).toEqual("Examples:\n- Bonjour (fr)\n");
+         expect(renderPromptTemplate(template, {})).toEqual("Examples:\n");
+      });
+
+      it('should nest sections', function () {
+         const template = "{#each ITEMS as ITEM}{#if ITEM}[{ITEM}]{/if}{/each}";
+
+         expect(renderPromptTemplate(template, { ITEMS: ["a", "", "b"] })).toEqual("[a][b]");
+      });
+   });
+
+   describe('filters', function () {
+      it('should apply filters left to right', function () {
+         expect(renderPromptTemplate("{NAME | trim | upper}", { NAME: "  jon " })).toEqual("JON");
+         expect(renderPromptTemplate("{NAME | lower}", { NAME: "JON" })).toEqual("jon");
+      });
+
+      it('should truncate long values', function () {
+         expect(renderPromptTemplate("{TEXT | truncate:5}", { TEXT: "abcdefghij" })).toEqual("ab...");
+         expect(renderPromptTemplate("{TEXT | truncate:2}", { TEXT: "abcdefghij" })).toEqual("ab");
+         expect(renderPromptTemplate("{TEXT | truncate:10}", { TEXT: "abcdefghij" })).toEqual("abcdefghij");
+         expect(renderPromptTemplate("{TEXT | truncate:50}", { TEXT: "Hello world" })).toEqual("Hello world");
+      });
+
+      it('should encode values as JSON', function () {
+         expect(renderPromptTemplate("{TEXT | json}", { TEXT: "say \"hi\"" })).toEqual("\"say \\\"hi\\\"\"");
+         expect(renderPromptTemplate("{LIST | json}", { LIST: ["a", "b"] })).toEqual("[\"a\",\"b\"]");
+      });
+
+      it('should join lists with a given separator', function () {
+         expect(renderPromptTemplate("{LIST | upper | join:\" / \"}", { LIST: ["a", "b"] })).toEqual("A / B");
+      });
+   });
+
+   describe('errors', function () {
+      const cases: Array<[string, string]> = [
+         ["Hello {NAME", "line 1, column 7"],
+         ["Hello }", "line 1, column 7"],
+         ["Line one\n  {#if NAME}unclosed", "line 2, column 3"],
+         ["{/if}", "line 1, column 1"],
+         ["{#if A}{/each}", "line 1, column 8"],
+         ["{#else}", "line 1, column 1"],
+         ["{NAME | shout}", "Unknown filter 'shout'"],
+         ["{NAME | truncate}", "needs a length"],
+         ["{first name}", "Invalid parameter name"],
+         ["{#repeat NAME}", "Unknown block tag"]
+      ];
+
+      for (const [template, expected] of cases) {
+         it(`should reject ${JSON.stringify(template)}`, function () {
+            expect(() => renderPromptTemplate(template, {})).toThrow(InvalidParameterError);
+            expect(() => renderPromptTemplate(template, {})).toThrow(expected);
+         });
+      }
+   });
+
+   describe('findPromptTemplateParameters', function () {
+      it('should find parameters in tags and sections but not loop variables', function () {
+         const template = "{#if CONTEXT}{CONTEXT}{/if}{#each EXAMPLES as EXAMPLE}{EXAMPLE}{NAME}{/each}{{LITERAL}}";
+
+         expect(findPromptTemplateParameters(template)).toEqual(["CONTEXT", "EXAMPLES", "NAME"]);
+      });
+   });
+
+   describe('replacePromptPlaceholders', function () {
+      const specs: IPromptParameterSpec[] = [
+         { name: "NAME", description: "A name", type: ParameterTypeString, required: true },
+         { name: "SCORES", description: "Scores", type: ParameterTypeNumber, required: false, defaultValue: "0" }
+      ];
+      const template = "{NAME | upper}:{#each SCORES as SCORE} {SCORE}{/each}";
+
+      it('should apply defaults and render the template', function () {
+         expect(replacePromptPlaceholders(template, specs, { NAME: "jon" })).toEqual("JON: 0");
+         expect(replacePromptPlaceholders(template, specs, { NAME: "jon", SCORES: ["1", "2"] })).toEqual("JON: 1 2");
+      });
+
+      it('should validate every item of a list value', function () {
+         expect(() => replacePromptPlaceholders(template, specs, { NAME: "jon", SCORES: ["1", "two"] })).toThrow(InvalidParameterError);
+      });
+
+      it('should still require required parameters', function () {
+         expect(() => replacePromptPlaceholders(template, specs, {})).toThrow("Missing required parameter: NAME");
+      });
+
+      it('should return templates without parameter specifications unchanged', function () {
+         expect(replacePromptPlaceholders('Return JSON like {"a": 1}', undefined, {})).toEqual('Return JSON like {"a": 1}');
+         expect(replacePromptPlaceholders("Hi {NAME}", undefined, {})).toEqual("Hi {NAME}");
+      });
+   });
+});
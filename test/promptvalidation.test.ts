@@ -0,0 +1,208 @@
+/**
+ * @module promptvalidation.test
+ *
+ * Unit tests for the PromptValidation module which lints prompt definitions.
+ * Tests verify:
+ * - Valid prompts, including the packaged Prompts.json, produce no errors
+ * - Unknown keys, duplicate ids and missing fields are reported
+ * - Placeholders and parameter specifications are cross-checked, and templates without specifications are not parsed
+ * - Enum and default value rules are enforced
+ * - Diagnostics carry file, prompt id and field
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, after } from 'mocha';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { validatePrompts, validatePromptFile, formatPromptDiagnostic, EPromptDiagnosticCode, EPromptDiagnosticSeverity, IPromptDiagnostic,
+   IPrompt, PromptInMemoryRepository } from '../src/entry';
+
+function codes(diagnostics: IPromptDiagnostic[]): EPromptDiagnosticCode[] {
+   return diagnostics.map(d => d.code);
+}
+
+function makePrompt(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+   return {
+      id: "prompt-1",
+      version: "1.0.0",
+      name: "Greeting",
+      systemPrompt: "You are a {TONE} assistant",
+      systemPromptParameters: [{
+         name: "TONE",
+         description: "The tone to use",
+         type: "kEnum",
+         required: false,
+         defaultValue: "friendly",
+         allowedValues: ["friendly", "formal"]
+      }],
+      userPrompt: "Say hello to {NAME}",
+      userPromptParameters: [{
+         name: "NAME",
+         description: "A person's name",
+         type: "kString",
+         required: true
+      }],
+      ...overrides
+   };
+}
+
+describe('PromptValidation', function () {
+
+   it('should report no diagnostics for a valid prompt', function () {
+      expect(validatePrompts([makePrompt()])).toEqual([]);
+   });
+
+   it('should report no errors for the packaged prompts', function () {
+      const diagnostics = validatePromptFile(path.join(__dirname, '../src/Prompts.json'));
+      expect(diagnostics.filter(d => d.severity === EPromptDiagnosticSeverity.kError)).toEqual([]);
+   });
+
+   it('should report a file that is not an array', function () {
+      expect(codes(validatePrompts({ id: "x" }))).toEqual([EPromptDiagnosticCode.kInvalidFile]);
+   });
+
+   it('should report unknown keys on prompts and parameters', function () {
+      const prompt = makePrompt({ userPromptsParameters: [] });
+      (prompt.userPromptParameters as any)[0].default = "Jon";
+
+      const diagnostics = validatePrompts([prompt]);
+
+      const unknown = diagnostics.filter(d => d.code === EPromptDiagnosticCode.kUnknownKey);
+      expect(unknown.map(d => d.field)).toEqual(["userPromptsParameters", "userPromptParameters[0].default"]);
+      expect(unknown.every(d => d.severity === EPromptDiagnosticSeverity.kError)).toBe(true);
+   });
+
+   it('should report missing required fields', function () {
+      const prompt = makePrompt();
+      delete prompt.version;
+      delete prompt.userPrompt;
+
+      const diagnostics = validatePrompts([prompt]);
+
+      expect(diagnostics.filter(d => d.code === EPromptDiagnosticCode.kMissingField).map(d => d.field))
+         .toEqual(["version", "userPrompt"]);
+   });
+
+   it('should report duplicate prompt ids', function () {
+      const diagnostics = validatePrompts([makePrompt(), makePrompt()]);
+
+      expect(codes(diagnostics)).toEqual([EPromptDiagnosticCode.kDuplicateId]);
+      expect(diagnostics[0].promptId).toEqual("prompt-1");
+   });
+
+   it('should allow the same prompt id with different versions', function () {
+      expect(validatePrompts([makePrompt(), makePrompt({ version: "1.1.0" })])).toEqual([]);
+   });
+
+   it('should report versions that are not semver', function () {
+      const diagnostics = validatePrompts([makePrompt({ version: "first" })]);
+
+      expect(codes(diagnostics)).toEqual([EPromptDiagnosticCode.kInvalidVersion]);
+      expect(diagnostics[0].field).toEqual("version");
+   });
+
+   it('should report placeholders with no parameter specification', function () {
+      const diagnostics = validatePrompts([makePrompt({ userPrompt: "Say hello to {NAME} in {LANGUAGE}" })]);
+
+      expect(codes(diagnostics)).toEqual([EPromptDiagnosticCode.kUndeclaredPlaceholder]);
+      expect(diagnostics[0].field).toEqual("userPrompt");
+      expect(diagnostics[0].message).toContain("{LANGUAGE}");
+   });
+
+   it('should not parse templates without a parameter list, as they are sent unchanged', function () {
+      const prompt = makePrompt({ userPrompt: 'Return JSON like {"a": 1}' });
+      delete prompt.userPromptParameters;
+
+      expect(validatePrompts([prompt])).toEqual([]);
+      expect(new PromptInMemoryRepository([prompt as unknown as IPrompt]).expandUserPrompt(prompt as unknown as IPrompt, {})).toEqual('Return JSON like {"a": 1}');
+   });
+
+   it('should follow placeholders into conditional sections and ignore escaped braces', function () {
+      const diagnostics = validatePrompts([makePrompt({ userPrompt: "{#if NAME}Say hello to {NAME | trim}{/if} as {{\"json\": true}}" })]);
+
+      expect(diagnostics).toEqual([]);
+   });
+
+   it('should report malformed templates with their position', function () {
+      const diagnostics = validatePrompts([makePrompt({ userPrompt: "Say hello to\n{#if NAME}{NAME}" })]);
+
+      expect(codes(diagnostics)).toEqual([EPromptDiagnosticCode.kInvalidTemplate]);
+      expect(diagnostics[0].field).toEqual("userPrompt");
+      expect(diagnostics[0].message).toContain("line 2, column 1");
+   });
+
+   it('should warn about parameters that are never referenced', function () {
+      const diagnostics = validatePrompts([makePrompt({ userPrompt: "Say hello" })]);
+
+      expect(codes(diagnostics)).toEqual([EPromptDiagnosticCode.kUnreferencedParameter]);
+      expect(diagnostics[0].severity).toEqual(EPromptDiagnosticSeverity.kWarning);
+      expect(diagnostics[0].field).toEqual("userPromptParameters[0]");
+   });
+
+   it('should report enum parameters without allowed values', function () {
+      const prompt = makePrompt();
+      delete (prompt.systemPromptParameters as any)[0].allowedValues;
+
+      const diagnostics = validatePrompts([prompt]);
+
+      expect(codes(diagnostics)).toEqual([EPromptDiagnosticCode.kMissingAllowedValues]);
+      expect(diagnostics[0].field).toEqual("systemPromptParameters[0].allowedValues");
+   });
+
+   it('should report default values that fail their own type', function () {
+      const prompt = makePrompt({
+         userPrompt: "Say hello to {NAME} {COUNT} times",
+         userPromptParameters: [
+            { name: "NAME", description: "A name", type: "kString", required: true },
+            { name: "COUNT", description: "A count", type: "kNumber", required: false, defaultValue: "lots" }
+         ]
+      });
+      (prompt.systemPromptParameters as any)[0].defaultValue = "rude";
+
+      const diagnostics = validatePrompts([prompt]);
+
+      expect(codes(diagnostics)).toEqual([EPromptDiagnosticCode.kInvalidDefaultValue, EPromptDiagnosticCode.kInvalidDefaultValue]);
+      expect(diagnostics.map(d => d.field)).toEqual(["systemPromptParameters[0].defaultValue", "userPromptParameters[1].defaultValue"]);
+   });
+
+   it('should report invalid parameter types', function () {
+      const prompt = makePrompt();
+      (prompt.userPromptParameters as any)[0].type = "kBanana";
+
+      expect(codes(validatePrompts([prompt]))).toContain(EPromptDiagnosticCode.kInvalidParameterType);
+   });
+
+   describe('validatePromptFile', function () {
+      let tempDir: string;
+
+      before(function () {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-prompt-validation-'));
+      });
+
+      after(function () {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it('should attach the file name to diagnostics', function () {
+         const file = path.join(tempDir, 'prompts.json');
+         fs.writeFileSync(file, JSON.stringify([makePrompt({ userPrompt: "Say hello" })]));
+
+         const diagnostics = validatePromptFile(file);
+
+         expect(diagnostics.length).toEqual(1);
+         expect(diagnostics[0].file).toEqual(file);
+         expect(formatPromptDiagnostic(diagnostics[0]))
+            .toEqual(`${file} [prompt-1] userPromptParameters[0]: warning: Parameter NAME is never referenced in userPrompt`);
+      });
+
+      it('should report a file that cannot be parsed', function () {
+         const file = path.join(tempDir, 'broken.json');
+         fs.writeFileSync(file, '[{ "id": ');
+
+         expect(codes(validatePromptFile(file))).toEqual([EPromptDiagnosticCode.kInvalidFile]);
+      });
+   });
+});
@@ -0,0 +1,112 @@
+/**
+ * @module promptversion.test
+ *
+ * Unit tests for the PromptVersion module which parses prompt versions and matches version ranges.
+ * Tests verify:
+ * - Parsing of full, partial and pre-release versions
+ * - Ordering of versions including pre-releases
+ * - Caret, tilde, x-range, comparator, hyphen and alternative ranges
+ * - Selection of the best matching version from a set of candidates
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { parsePromptVersion, sortPromptVersions, satisfiesPromptVersionRange, selectPromptVersion } from '../src/PromptVersion';
+import { InvalidParameterError } from '../src/entry';
+
+describe('PromptVersion', function () {
+
+   describe('parsePromptVersion', function () {
+      it('should parse full, partial and pre-release versions', function () {
+         expect(parsePromptVersion("1.2.3")).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+         expect(parsePromptVersion("1.0")).toEqual({ major: 1, minor: 0, patch: 0, prerelease: [] });
+         expect(parsePromptVersion("2.0.0-beta.1")).toEqual({ major: 2, minor: 0, patch: 0, prerelease: ["beta", "1"] });
+      });
+
+      it('should reject invalid versions', function () {
+         expect(parsePromptVersion("latest")).toBeUndefined();
+         expect(parsePromptVersion("1.2.3.4")).toBeUndefined();
+      });
+   });
+
+   describe('sortPromptVersions', function () {
+      it('should sort numerically with pre-releases below their release', function () {
+         expect(sortPromptVersions(["1.10.0", "1.2.0", "2.0.0", "2.0.0-rc.1", "2.0.0-beta.2", "2.0.0-beta.10"]))
+            .toEqual(["1.2.0", "1.10.0", "2.0.0-beta.2", "2.0.0-beta.10", "2.0.0-rc.1", "2.0.0"]);
+      });
+   });
+
+   describe('satisfiesPromptVersionRange', function () {
+      const cases: Array<[string, string, boolean]> = [
+         ["1.2.3", "1.2.3", true],
+         ["1.2.4", "=1.2.3", false],
+         ["1.9.0", "^1.2.3", true],
+         ["2.0.0", "^1.2.3", false],
+         ["0.2.9", "^0.2.3", true],
+         ["0.3.0", "^0.2.3", false],
+         ["0.0.4", "^0.0.3", false],
+         ["1.2.9", "~1.2.3", true],
+         ["1.3.0", "~1.2", false],
+         ["1.7.0", "1.x", true],
+         ["2.0.0", "1", false],
+         ["1.2.5", "1.2.x", true],
+         ["1.5.0", ">=1.0.0 <2.0.0", true],
+         ["2.0.0", ">=1.0.0 <2.0.0", false],
+         ["1.3.0", ">1.2", true],
+         ["1.2.9", ">1.2", false],
+         ["1.2.9", "<=1.2", true],
+         ["1.5.0", "1.0.0 - 1.5.0", true],
+         ["1.5.1", "1.0.0 - 1.5.0", false],
+         ["3.1.0", "^1.0.0 || ^3.0.0", true],
+         ["5.0.0", "*", true],
+         ["5.0.0", "latest", true],
+         ["2.0.0-beta.1", "^1.0.0", false],
+         ["2.0.0-beta.1", "latest", false],
+         ["2.0.0-beta.2", ">=2.0.0-beta.1", true]
+      ];
+
+      for (const [version, range, expected] of cases) {
+         it(`should return ${expected} for ${version} in "${range}"`, function () {
+            expect(satisfiesPromptVersionRange(version, range)).toBe(expected);
+         });
+      }
+
+      it('should throw for an invalid range', function () {
+         expect(() => satisfiesPromptVersionRange("1.0.0", "^banana")).toThrow(InvalidParameterError);
+      });
+   });
+
+   describe('selectPromptVersion', function () {
+      const candidates = [
+         { version: "1.0.0" },
+         { version: "1.1.0" },
+         { version: "2.0.0" },
+         { version: "2.1.0-beta.1" }
+      ];
+
+      it('should select the latest released version by default', function () {
+         expect(selectPromptVersion(candidates)?.version).toEqual("2.0.0");
+         expect(selectPromptVersion(candidates, "latest")?.version).toEqual("2.0.0");
+      });
+
+      it('should select the highest version in a range', function () {
+         expect(selectPromptVersion(candidates, "^1.0.0")?.version).toEqual("1.1.0");
+      });
+
+      it('should select a pinned version, including a pre-release', function () {
+         expect(selectPromptVersion(candidates, "1.0.0")?.version).toEqual("1.0.0");
+         expect(selectPromptVersion(candidates, "2.1.0-beta.1")?.version).toEqual("2.1.0-beta.1");
+      });
+
+      it('should return undefined when nothing matches', function () {
+         expect(selectPromptVersion(candidates, "^3.0.0")).toBeUndefined();
+         expect(selectPromptVersion([], "latest")).toBeUndefined();
+      });
+
+      it('should fall back to the latest pre-release when there is no release', function () {
+         expect(selectPromptVersion([{ version: "1.0.0-alpha" }, { version: "1.0.0-beta" }])?.version).toEqual("1.0.0-beta");
+      });
+   });
+});
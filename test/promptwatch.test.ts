@@ -0,0 +1,164 @@
+/**
+ * @module promptwatch.test
+ *
+ * Unit tests for the PromptWatch module which reloads prompt files when they change.
+ * Tests verify:
+ * - Reloads report the prompt ids added, updated and removed
+ * - An unreadable or invalid reload keeps the last good prompts and raises an error event
+ * - Listeners can unsubscribe, and a failing listener does not stop the others
+ * - Changes to a watched directory are picked up without calling refresh()
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { IPrompt, IPromptParameterSpec, InvalidOperationError, IPromptChangeEvent } from '../src/entry';
+import { PromptDirectorySource, PromptFileSource } from '../src/PromptSource';
+import { PromptWatchingRepository, diffPrompts } from '../src/PromptWatch';
+import { makePrompt } from './PromptTestData';
+
+// A parameter for templates that fail to parse; templates without parameters are not parsed
+const unclosedParameter: IPromptParameterSpec = { name: "X", description: "A parameter", type: "kString", required: false };
+
+describe('PromptWatch', function () {
+   let tempDir: string;
+   let repo: PromptWatchingRepository | undefined;
+
+   function write(relativePath: string, contents: unknown): string {
+      const filePath = path.join(tempDir, relativePath);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, typeof contents === "string" ? contents : JSON.stringify(contents));
+      return filePath;
+   }
+
+   beforeEach(function () {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'test-prompt-watch-'));
+   });
+
+   afterEach(function () {
+      repo?.close();
+      repo = undefined;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+   });
+
+   describe('diffPrompts', function () {
+      it('should report ids added, updated and removed', function () {
+         const before = [makePrompt("kept"), makePrompt("changed"), makePrompt("gone")];
+         const after = [makePrompt("kept"), makePrompt("changed", "1.0.0", { userPrompt: "New text" }), makePrompt("new")];
+
+         expect(diffPrompts(before, after)).toEqual({ added: ["new"], updated: ["changed"], removed: ["gone"] });
+      });
+
+      it('should ignore the order versions are read in', function () {
+         const before = [makePrompt("a", "1.0.0"), makePrompt("a", "2.0.0")];
+
+         expect(diffPrompts(before, [...before].reverse())).toEqual({ added: [], updated: [], removed: [] });
+      });
+   });
+
+   describe('refresh', function () {
+      it('should replace the prompts and raise a change event', function () {
+         const file = write('prompts.json', [makePrompt("a"), makePrompt("b")]);
+         repo = new PromptWatchingRepository([new PromptFileSource(file)], { watch: false });
+         const events: IPromptChangeEvent[] = [];
+         repo.onChange(event => events.push(event));
+
+         write('prompts.json', [makePrompt("a", "1.0.0", { userPrompt: "Changed" }), makePrompt("c")]);
+         repo.refresh();
+
+         expect(repo.getPrompt("a")?.userPrompt).toEqual("Changed");
+         expect(repo.getPrompt("b")).toBeUndefined();
+         expect(events).toEqual([{ added: ["c"], updated: ["a"], removed: ["b"] }]);
+      });
+
+      it('should not raise a change event when nothing changed', function () {
+         const file = write('prompts.json', [makePrompt("a")]);
+         repo = new PromptWatchingRepository([new PromptFileSource(file)], { watch: false });
+         let changes = 0;
+         repo.onChange(() => changes++);
+
+         repo.refresh();
+
+         expect(changes).toEqual(0);
+      });
+
+      it('should keep the last good prompts when a file cannot be parsed', function () {
+         const file = write('prompts.json', [makePrompt("a")]);
+         repo = new PromptWatchingRepository([new PromptFileSource(file)], { watch: false });
+         const errors: Error[] = [];
+         repo.onError(error => errors.push(error));
+
+         write('prompts.json', "[{ not json");
+
+         expect(repo.refresh()).toBeUndefined();
+         expect(repo.getPrompt("a")).toBeDefined();
+         expect(errors.length).toEqual(1);
+      });
+
+      it('should keep the last good prompts when a reload fails validation', function () {
+         const file = write('prompts.json', [makePrompt("a")]);
+         repo = new PromptWatchingRepository([new PromptFileSource(file)], { watch: false });
+         let reported: Error | undefined;
+         let diagnosticCount = 0;
+         repo.onError((error, diagnostics) => {
+            reported = error;
+            diagnosticCount = diagnostics.length;
+         });
+
+         write('prompts.json', [{ ...makePrompt("a", "1.0.0", { userPrompt: "Changed" }), userPrompt: "{#if X}unclosed", userPromptParameters: [unclosedParameter] }]);
+         repo.refresh();
+
+         expect(reported).toBeInstanceOf(InvalidOperationError);
+         expect(diagnosticCount).toBeGreaterThan(0);
+         expect(repo.getPrompt("a")?.userPrompt).toEqual("Prompt a");
+      });
+
+      it('should refuse prompts that are invalid when first loaded', function () {
+         const file = write('prompts.json', [{ ...makePrompt("a"), userPrompt: "{#if X}unclosed", userPromptParameters: [unclosedParameter] }]);
+
+         expect(() => new PromptWatchingRepository([new PromptFileSource(file)], { watch: false })).toThrow(InvalidOperationError);
+      });
+
+      it('should stop notifying a listener once unsubscribed, and survive a failing listener', function () {
+         const file = write('prompts.json', [makePrompt("a")]);
+         repo = new PromptWatchingRepository([new PromptFileSource(file)], { watch: false });
+         let first = 0;
+         let second = 0;
+         const unsubscribe = repo.onChange(() => { first++; });
+         repo.onChange(() => { second++; throw new Error("listener failed"); });
+         const warn = console.warn;
+         console.warn = () => undefined;
+
+         try {
+            write('prompts.json', [makePrompt("b")]);
+            repo.refresh();
+            unsubscribe();
+            write('prompts.json', [makePrompt("c")]);
+            repo.refresh();
+         } finally {
+            console.warn = warn;
+         }
+
+         expect(first).toEqual(1);
+         expect(second).toEqual(2);
+      });
+   });
+
+   describe('watching', function () {
+      it('should reload when a file in a watched directory changes', async function () {
+         this.timeout(5000);
+         write('team/prompts.json', [makePrompt("a")]);
+         repo = new PromptWatchingRepository([new PromptDirectorySource(tempDir)], { debounceMs: 20 });
+         const changed = new Promise<IPromptChangeEvent>(resolve => repo!.onChange(resolve));
+
+         write('team/more.json', [makePrompt("b")]);
+
+         expect(await changed).toEqual({ added: ["b"], updated: [], removed: [] });
+         expect(repo.getPrompt("b")).toBeDefined();
+      });
+   });
+});
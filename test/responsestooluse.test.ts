@@ -0,0 +1,163 @@
+/**
+ * @module responsestooluse.test
+ *
+ * Unit tests for the Responses API tool use loop of the OpenAI drivers.
+ * Tests verify:
+ * - Function calls and their outputs are sent back to the model, which writes the answer
+ * - The loop runs as many rounds as the model keeps calling functions, summing usage
+ * - Tool use is forced on the first round only
+ * - The round limit can be set, and calls that reach it end with kMaxToolRounds
+ * - Function outputs from earlier turns in the history do not end the loop
+ * - Function calls made when no functions were given end the call with kToolCalls
+ * - Streamed and non-streamed loops treat calls repeated with the same arguments alike
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, beforeEach } from 'mocha';
+import { ChatMessageClassName, EChatFinishReason, EChatRole, EChatStreamEventType, EDataType, EVerbosity, IChatMessage, IFunction } from '../src/entry';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+const weatherFunction: IFunction = {
+   name: 'get_weather',
+   description: 'Get the weather for a city',
+   inputSchema: { type: EDataType.kObject, properties: { city: { type: EDataType.kString, description: 'City name' } }, required: ['city'] },
+   outputSchema: { type: EDataType.kObject, properties: { condition: { type: EDataType.kString, description: 'Weather condition' } } },
+   validateArgs: (args) => args,
+   execute: async (args: any) => ({ condition: args.city === 'Paris' ? 'sun' : 'rain' })
+};
+
+const usage = { input_tokens: 10, output_tokens: 5, total_tokens: 15 };
+
+function functionCallReply(callId: string, city: string): any {
+   return { status: 'completed', usage, output: [{ type: 'function_call', id: `fc_${callId}`, call_id: callId, name: 'get_weather', arguments: JSON.stringify({ city }) }] };
+}
+
+function textReply(text: string): any {
+   return { status: 'completed', usage, output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text }] }] };
+}
+
+describe('Responses API tool use loop', function () {
+   let driver: MockOpenAIChatDriver;
+   let replies: any[];
+   let requests: any[];
+
+   beforeEach(function () {
+      driver = new MockOpenAIChatDriver();
+      replies = [];
+      requests = [];
+      driver.setMockCreate(async (config?: any) => {
+         requests.push(JSON.parse(JSON.stringify(config)));
+         return replies.shift() ?? functionCallReply(`call_${requests.length}`, `City ${requests.length}`);
+      });
+   });
+
+   it('should send function calls and their outputs back for the model to answer', async function () {
+      replies.push(functionCallReply('call_1', 'London'), textReply('It is raining in London'));
+
+      const response = await driver.getModelResponseDetailed(undefined, 'weather in London?', EVerbosity.kLow, [], [weatherFunction]);
+
+      expect(response.text).toBe('It is raining in London');
+      expect(response.finishReason).toBe(EChatFinishReason.kStop);
+      expect(requests.length).toBe(2);
+      expect(requests[1].input.slice(-2)).toEqual([
+         expect.objectContaining({ type: 'function_call', call_id: 'call_1', name: 'get_weather' }),
+         { type: 'function_call_output', call_id: 'call_1', output: '{"condition":"rain"}' }
+      ]);
+   });
+
+   it('should keep going while the model calls functions', async function () {
+      replies.push(functionCallReply('call_1', 'London'), functionCallReply('call_2', 'Paris'), textReply('Rain in London, sun in Paris'));
+
+      const response = await driver.getModelResponseDetailed(undefined, 'London or Paris?', EVerbosity.kLow, [], [weatherFunction]);
+
+      expect(response.text).toBe('Rain in London, sun in Paris');
+      expect(response.toolInvocations.map(invocation => invocation.output)).toEqual(['{"condition":"rain"}', '{"condition":"sun"}']);
+      expect(response.usage?.totalTokens).toBe(45);
+      expect(requests[2].input.filter((item: any) => item.type === 'function_call_output').map((item: any) => item.call_id))
+         .toEqual(['call_1', 'call_2']);
+   });
+
+   it('should force a function call on the first round only', async function () {
+      replies.push(functionCallReply('call_1', 'London'), textReply('Rain'));
+
+      const reply = await driver.getModelResponseWithForcedTools(undefined, 'weather in London?', EVerbosity.kLow, [], [weatherFunction]);
+
+      expect(reply).toBe('Rain');
+      expect(requests.map(request => request.tool_choice)).toEqual(['required', undefined]);
+   });
+
+   it('should stop at the round limit', async function () {
+      driver.setMaxToolRounds(3);
+
+      const response = await driver.getModelResponseDetailed(undefined, 'weather everywhere?', EVerbosity.kLow, [], [weatherFunction]);
+
+      expect(response.finishReason).toBe(EChatFinishReason.kMaxToolRounds);
+      expect(requests.length).toBe(3);
+      expect(response.toolInvocations.length).toBe(3);
+   });
+
+   it('should apply the round limit to streamed responses', async function () {
+      driver.setMaxToolRounds(2);
+
+      const events = [];
+      const iterator = driver.getStreamedModelResponseEvents(undefined, 'weather everywhere?', EVerbosity.kLow, [], [weatherFunction]);
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+         events.push(next.value);
+      }
+
+      const done = events[events.length - 1];
+      expect(done.type).toBe(EChatStreamEventType.kDone);
+      if (done.type === EChatStreamEventType.kDone) {
+         expect(done.response.finishReason).toBe(EChatFinishReason.kMaxToolRounds);
+      }
+      expect(requests.length).toBe(2);
+   });
+
+   it('should reject a round limit that is not a positive integer', function () {
+      expect(() => driver.setMaxToolRounds(0)).toThrow('maxRounds must be a positive integer');
+      expect(() => driver.setMaxToolRounds(1.5)).toThrow('maxRounds must be a positive integer');
+   });
+
+   it('should not treat function outputs from earlier turns as this turn\'s answer', async function () {
+      const history: IChatMessage[] = [
+         { id: 'user-1', className: ChatMessageClassName, role: EChatRole.kUser, content: 'weather in Paris?', timestamp: new Date() },
+         { id: 'function-1', className: ChatMessageClassName, role: EChatRole.kFunction, content: '', type: 'function_call_output', call_id: 'old_call', output: '{"condition":"sun"}', timestamp: new Date() }
+      ];
+      replies.push(textReply('Still sunny'));
+
+      const response = await driver.getModelResponseDetailed(undefined, 'and now?', EVerbosity.kLow, history, [weatherFunction]);
+
+      expect(response.text).toBe('Still sunny');
+      expect(requests.length).toBe(1);
+   });
+
+   it('should treat repeated calls alike when streamed and not streamed', async function () {
+      const repeated = () => [1, 2, 3, 4].map(() => functionCallReply('call_1', 'London'));
+      replies.push(...repeated(), textReply('Rain'));
+      const response = await driver.getModelResponseDetailed(undefined, 'weather in London?', EVerbosity.kLow, [], [weatherFunction]);
+
+      replies.push(...repeated(), textReply('Rain'));
+      const events = [];
+      const iterator = driver.getStreamedModelResponseEvents(undefined, 'weather in London?', EVerbosity.kLow, [], [weatherFunction]);
+      for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+         events.push(next.value);
+      }
+      const done = events[events.length - 1];
+
+      const errors = response.toolInvocations.map(invocation => invocation.error);
+      expect(errors).toEqual([undefined, 'Function already executed with same parameters', 'Function already executed with same parameters', undefined]);
+      expect(done.type === EChatStreamEventType.kDone && done.response.toolInvocations.map(invocation => invocation.error)).toEqual(errors);
+   });
+
+   it('should report function calls made without functions as kToolCalls', async function () {
+      replies.push(functionCallReply('call_1', 'London'));
+
+      const response = await driver.getModelResponseDetailed(undefined, 'weather in London?', EVerbosity.kLow);
+
+      expect(response.finishReason).toBe(EChatFinishReason.kToolCalls);
+      expect(response.toolInvocations).toEqual([]);
+      expect(requests.length).toBe(1);
+   });
+});
@@ -0,0 +1,203 @@
+/**
+ * @module retrypolicy.test
+ *
+ * Unit tests for retry policies, using a clock that does not sleep.
+ * Tests verify:
+ * - Waits double from the base delay, up to the maximum, and the number of attempts is limited
+ * - Jitter uses the clock's random numbers
+ * - Retry-After headers replace the backoff delay
+ * - Which statuses are retried can be changed, and quota errors are never retried
+ * - Overrides by error class change whether and how failures are retried
+ * - Retries are silent unless onRetry is given, and logRetryAttempt logs them
+ * - Drivers retry requests with the policy they were given
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { ConnectionError, DefaultRetryPolicy, ERetryJitter, EModelProvider, EVerbosity, IRetryAttempt, IRetryClock,
+   IRetryPolicy, logRetryAttempt } from '../src/entry';
+import { retryWithPolicy } from '../src/DriverHelpers';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+class FakeClock implements IRetryClock {
+   readonly sleeps: number[] = [];
+
+   constructor(private readonly randomValue: number = 0.5) {}
+
+   async sleep(ms: number): Promise<void> {
+      this.sleeps.push(ms);
+   }
+
+   random(): number {
+      return this.randomValue;
+   }
+}
+
+function httpError(status: number, message: string = `HTTP ${status}`, headers?: Record<string, string>): Error {
+   return Object.assign(new Error(message), { status, headers });
+}
+
+/**
+ * Makes an operation that fails with each error in turn, then succeeds
+ */
+function failingOperation(errors: Error[]): { operation: () => Promise<string>; calls: () => number } {
+   let calls = 0;
+   return {
+      operation: async () => {
+         const error = errors[calls++];
+         if (error) {
+            throw error;
+         }
+         return 'ok';
+      },
+      calls: () => calls
+   };
+}
+
+describe('Retry policies', function () {
+
+   it('should double the wait up to the maximum delay', async function () {
+      const clock = new FakeClock();
+      const { operation } = failingOperation([503, 503, 503, 503].map(status => httpError(status)));
+
+      const result = await retryWithPolicy(operation, { clock, baseDelayMs: 100, maxDelayMs: 500, onRetry: () => {} });
+
+      expect(result).toBe('ok');
+      expect(clock.sleeps).toEqual([100, 200, 400, 500]);
+   });
+
+   it('should stop once the attempts run out', async function () {
+      const clock = new FakeClock();
+      const { operation, calls } = failingOperation(Array.from({ length: 10 }, () => httpError(500, 'Server exploded')));
+
+      await expect(retryWithPolicy(operation, { clock, maxAttempts: 3, onRetry: () => {} }, 'Test'))
+         .rejects.toThrow('Test API error: Server exploded');
+      expect(calls()).toBe(3);
+      expect(clock.sleeps.length).toBe(2);
+   });
+
+   it('should use the default policy for fields left out', async function () {
+      const clock = new FakeClock();
+      const { operation, calls } = failingOperation(Array.from({ length: 10 }, () => httpError(429)));
+
+      await expect(retryWithPolicy(operation, { clock, onRetry: () => {} })).rejects.toBeInstanceOf(ConnectionError);
+      expect(calls()).toBe(DefaultRetryPolicy.maxAttempts);
+      expect(clock.sleeps).toEqual([1000, 2000, 4000, 8000, 16000]);
+   });
+
+   it('should randomise waits with the clock', async function () {
+      const full = new FakeClock(0.25);
+      const equal = new FakeClock(0.25);
+      const errors = () => failingOperation([httpError(500), httpError(500)]).operation;
+
+      await retryWithPolicy(errors(), { clock: full, baseDelayMs: 1000, jitter: ERetryJitter.kFull, onRetry: () => {} });
+      await retryWithPolicy(errors(), { clock: equal, baseDelayMs: 1000, jitter: ERetryJitter.kEqual, onRetry: () => {} });
+
+      expect(full.sleeps).toEqual([250, 500]);
+      expect(equal.sleeps).toEqual([625, 1250]);
+   });
+
+   it('should wait as long as a Retry-After header asks, up to the maximum delay', async function () {
+      const clock = new FakeClock(0);
+      const { operation } = failingOperation([httpError(429, 'Slow down', { 'retry-after': '3' }), httpError(429, 'Slow down', { 'retry-after': '90' })]);
+
+      await retryWithPolicy(operation, { clock, maxDelayMs: 10000, onRetry: () => {} });
+
+      expect(clock.sleeps).toEqual([3000, 10000]);
+   });
+
+   it('should retry the statuses the policy chooses', async function () {
+      const clock = new FakeClock();
+      const retried = failingOperation([httpError(408)]);
+      const notRetried = failingOperation([httpError(503)]);
+      const policy: IRetryPolicy = { clock, isRetryableStatus: status => status === 408, onRetry: () => {} };
+
+      expect(await retryWithPolicy(retried.operation, policy)).toBe('ok');
+      await expect(retryWithPolicy(notRetried.operation, policy)).rejects.toBeInstanceOf(ConnectionError);
+      expect(notRetried.calls()).toBe(1);
+   });
+
+   it('should never retry a rate limit that says the quota is used up', async function () {
+      const clock = new FakeClock();
+      const { operation, calls } = failingOperation([httpError(429, 'You exceeded your current quota')]);
+
+      await expect(retryWithPolicy(operation, { clock, isRetryableStatus: () => true })).rejects.toThrow('exceeded your current quota');
+      expect(calls()).toBe(1);
+   });
+
+   it('should apply overrides to errors of their class', async function () {
+      class NetworkError extends Error {}
+      class FatalServerError extends Error {}
+      const clock = new FakeClock();
+      const policy: IRetryPolicy = {
+         clock,
+         baseDelayMs: 100,
+         onRetry: () => {},
+         overrides: [
+            { errorClass: NetworkError, retryable: true, baseDelayMs: 10, maxAttempts: 2 },
+            { errorClass: FatalServerError, retryable: false }
+         ]
+      };
+      const network = failingOperation([new NetworkError('socket hang up')]);
+      const exhausted = failingOperation([new NetworkError('socket hang up'), new NetworkError('socket hang up')]);
+      const fatal = failingOperation([Object.assign(new FatalServerError('broken'), { status: 500 })]);
+
+      expect(await retryWithPolicy(network.operation, policy)).toBe('ok');
+      await expect(retryWithPolicy(exhausted.operation, policy)).rejects.toThrow('socket hang up');
+      await expect(retryWithPolicy(fatal.operation, policy)).rejects.toThrow('broken');
+
+      expect(clock.sleeps).toEqual([10, 10]);
+      expect(exhausted.calls()).toBe(2);
+      expect(fatal.calls()).toBe(1);
+   });
+
+   it('should report each retry to onRetry, and nothing to the console', async function () {
+      const clock = new FakeClock();
+      const attempts: IRetryAttempt[] = [];
+      const warn = console.warn;
+      const warnings: unknown[] = [];
+      console.warn = (...args: unknown[]) => { warnings.push(args); };
+      try {
+         const { operation } = failingOperation([httpError(502), httpError(429)]);
+         await retryWithPolicy(operation, { clock, baseDelayMs: 50, maxAttempts: 4, onRetry: attempt => attempts.push(attempt) }, 'Test');
+         await retryWithPolicy(failingOperation([httpError(502)]).operation, { clock }, 'Test');
+      } finally {
+         console.warn = warn;
+      }
+
+      expect(warnings).toEqual([]);
+      expect(attempts.map(attempt => ({ ...attempt, error: undefined }))).toEqual([
+         { attempt: 1, maxAttempts: 4, delayMs: 50, error: undefined, status: 502, providerName: 'Test' },
+         { attempt: 2, maxAttempts: 4, delayMs: 100, error: undefined, status: 429, providerName: 'Test' }
+      ]);
+   });
+
+   it('should log retries to the console with logRetryAttempt', async function () {
+      const warn = console.warn;
+      const warnings: unknown[][] = [];
+      console.warn = (...args: unknown[]) => { warnings.push(args); };
+      try {
+         const { operation } = failingOperation([httpError(503)]);
+         await retryWithPolicy(operation, { clock: new FakeClock(), baseDelayMs: 50, maxAttempts: 3, onRetry: logRetryAttempt }, 'Test');
+      } finally {
+         console.warn = warn;
+      }
+
+      expect(warnings).toEqual([['Test request failed (503). Retrying after 50ms (attempt 1/3)']]);
+   });
+
+   it('should retry driver requests with the policy the driver was given', async function () {
+      const clock = new FakeClock();
+      const attempts: IRetryAttempt[] = [];
+      const driver = new MockOpenAIChatDriver(EModelProvider.kOpenAI, { clock, baseDelayMs: 5, onRetry: attempt => attempts.push(attempt) });
+      driver.setShouldFail(true, 3);
+
+      const response = await driver.getModelResponse(undefined, 'hello', EVerbosity.kLow);
+
+      expect(response).toBe('Success response');
+      expect(clock.sleeps).toEqual([5, 10, 20]);
+      expect(attempts.map(attempt => attempt.providerName)).toEqual(['OpenAI', 'OpenAI', 'OpenAI']);
+   });
+});
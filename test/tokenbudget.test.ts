@@ -0,0 +1,131 @@
+/**
+ * @module tokenbudget.test
+ *
+ * Unit tests for the TokenBudget module which counts tokens and budgets context windows.
+ * Tests verify:
+ * - The provider estimators give plausible counts for words, numbers, punctuation and ideographs
+ * - Messages are counted with their function calls, outputs and framing overhead
+ * - Each provider and model size has a context window
+ * - Budgets report whether a request fits and the room left for output
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it } from 'mocha';
+import { EChatRole, EModel, EModelProvider, IChatMessage } from '../src/entry';
+import { GeminiTokenEstimator, ITokenizer, OpenAITokenEstimator, calculateTokenBudget, countMessageTokens, getModelContextWindow,
+   getTokenBudget, getTokenizer } from '../src/TokenBudget';
+
+// Counts one token per word, so budgets can be checked exactly
+const wordTokenizer: ITokenizer = {
+   name: "words",
+   messageOverheadTokens: 1,
+   countTokens: (text: string) => text.split(/\s+/).filter(word => word.length > 0).length
+};
+
+function message(content: string, role: EChatRole = EChatRole.kUser): IChatMessage {
+   return { id: undefined, className: "IChatMessage", role, content, timestamp: new Date() };
+}
+
+describe('TokenBudget', function () {
+
+   describe('estimators', function () {
+      it('should estimate OpenAI tokens by word, number group and punctuation', function () {
+         const estimator = new OpenAITokenEstimator();
+
+         expect(estimator.countTokens("Hello, world!")).toEqual(4);
+         expect(estimator.countTokens("12345")).toEqual(2);
+         expect(estimator.countTokens("internationalization")).toEqual(4);
+         expect(estimator.countTokens("你好世界")).toEqual(4);
+         expect(estimator.countTokens("")).toEqual(0);
+      });
+
+      it('should estimate Gemini tokens at about four characters each', function () {
+         const estimator = new GeminiTokenEstimator();
+
+         expect(estimator.countTokens("Hello, world!")).toEqual(4);
+         expect(estimator.countTokens("你好")).toEqual(2);
+      });
+
+      it('should choose the estimator for a provider', function () {
+         expect(getTokenizer(EModelProvider.kGoogleGemini)).toBeInstanceOf(GeminiTokenEstimator);
+         expect(getTokenizer(EModelProvider.kAzureOpenAI)).toBeInstanceOf(OpenAITokenEstimator);
+         expect(getTokenizer(EModelProvider.kDefault)).toBeInstanceOf(OpenAITokenEstimator);
+      });
+   });
+
+   describe('countMessageTokens', function () {
+      it('should count content, function calls and outputs', function () {
+         const call: IChatMessage = {
+            ...message("", EChatRole.kAssistant),
+            content: undefined,
+            tool_calls: [{ id: "1", name: "get_weather", arguments: "{ city: London }" }]
+         };
+         const output: IChatMessage = { ...message("", EChatRole.kTool), content: undefined, output: "sunny and warm" };
+
+         expect(countMessageTokens(message("three word message"), wordTokenizer)).toEqual(4);
+         expect(countMessageTokens(call, wordTokenizer)).toEqual(1 + 1 + 4);
+         expect(countMessageTokens(output, wordTokenizer)).toEqual(4);
+      });
+   });
+
+   describe('getModelContextWindow', function () {
+      it('should know the limits of every provider and model size', function () {
+         for (const provider of Object.values(EModelProvider)) {
+            for (const model of Object.values(EModel)) {
+               const limits = getModelContextWindow(model, provider);
+               expect(limits.contextTokens).toBeGreaterThan(limits.maxOutputTokens);
+            }
+         }
+      });
+   });
+
+   describe('calculateTokenBudget', function () {
+      const limits = { contextTokens: 100, maxOutputTokens: 30 };
+
+      it('should add up each part of the request', function () {
+         const budget = calculateTokenBudget({
+            systemPrompt: "be brief",
+            userPrompt: "what is the time",
+            messageHistory: [message("hello there"), message("hi", EChatRole.kAssistant)]
+         }, limits, wordTokenizer);
+
+         expect(budget).toEqual({
+            contextTokens: 100,
+            systemPromptTokens: 3,
+            historyTokens: 5,
+            userPromptTokens: 5,
+            functionTokens: 0,
+            inputTokens: 13,
+            remainingTokens: 87,
+            availableOutputTokens: 30,
+            fits: true
+         });
+      });
+
+      it('should report requests that leave too little room for output', function () {
+         const userPrompt = new Array(80).fill("word").join(" ");
+
+         const budget = calculateTokenBudget({ userPrompt, reservedOutputTokens: 25 }, limits, wordTokenizer);
+
+         expect(budget.availableOutputTokens).toEqual(19);
+         expect(budget.fits).toBe(false);
+      });
+
+      it('should report requests longer than the context window', function () {
+         const budget = calculateTokenBudget({ userPrompt: new Array(120).fill("word").join(" ") }, limits, wordTokenizer);
+
+         expect(budget.remainingTokens).toEqual(-21);
+         expect(budget.availableOutputTokens).toEqual(0);
+         expect(budget.fits).toBe(false);
+      });
+
+      it('should budget against a driver model', function () {
+         const budget = getTokenBudget(EModel.kLarge, EModelProvider.kOpenAI, { userPrompt: "Hello, world!" });
+
+         expect(budget.userPromptTokens).toEqual(8);
+         expect(budget.availableOutputTokens).toEqual(128000);
+      });
+   });
+});
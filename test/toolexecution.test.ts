@@ -0,0 +1,204 @@
+/**
+ * @module toolexecution.test
+ *
+ * Unit tests for running the function calls of one response.
+ * Tests verify:
+ * - Calls run concurrently up to the limit, and results keep the order of the calls
+ * - Functions marked runSerially run on their own, after the calls before them
+ * - Functions that run past their timeoutMs are reported to the model as failed
+ * - The OpenAI and Gemini drivers send outputs back in the order of the calls
+ * - Gemini calls to the same function get ids of their own
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, after, beforeEach } from 'mocha';
+import { EDataType, EModel, EVerbosity, GoogleGeminiChatDriver, IFunction } from '../src/entry';
+import { runToolCalls } from '../src/ToolExecution';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Tracks how many calls are running at once, and the order they start and finish in
+ */
+class CallTracker {
+   running = 0;
+   maxRunning = 0;
+   readonly events: string[] = [];
+
+   async track<T>(name: string, ms: number, result: T): Promise<T> {
+      this.running++;
+      this.maxRunning = Math.max(this.maxRunning, this.running);
+      this.events.push(`start ${name}`);
+      await delay(ms);
+      this.events.push(`end ${name}`);
+      this.running--;
+      return result;
+   }
+}
+
+function makeFunction(name: string, execute: (args: any) => Promise<any>, extra: Partial<IFunction> = {}): IFunction {
+   return {
+      name,
+      description: `The ${name} function`,
+      inputSchema: { type: EDataType.kObject, properties: { ms: { type: EDataType.kNumber, description: 'How long to take' } } },
+      outputSchema: { type: EDataType.kObject, properties: {} },
+      validateArgs: (args) => args,
+      execute,
+      ...extra
+   };
+}
+
+describe('Running function calls', function () {
+
+   it('should run calls concurrently up to the limit, returning results in call order', async function () {
+      const tracker = new CallTracker();
+      const calls = [30, 5, 20, 10].map((ms, index) => ({ name: 'work', ms, index }));
+
+      const results = await runToolCalls(calls, [], 2, call => tracker.track(`${call.index}`, call.ms, call.index));
+
+      expect(results).toEqual([0, 1, 2, 3]);
+      expect(tracker.maxRunning).toBe(2);
+   });
+
+   it('should run functions marked runSerially on their own', async function () {
+      const tracker = new CallTracker();
+      const functions = [makeFunction('read', async () => ({})), makeFunction('write', async () => ({}), { runSerially: true })];
+      const calls = [{ name: 'read', id: 'a' }, { name: 'read', id: 'b' }, { name: 'write', id: 'c' }, { name: 'read', id: 'd' }];
+
+      await runToolCalls(calls, functions, 4, call => tracker.track(call.id, 10, call.id));
+
+      const writeStart = tracker.events.indexOf('start c');
+      expect(tracker.events.slice(writeStart, writeStart + 2)).toEqual(['start c', 'end c']);
+      expect(tracker.events.indexOf('end a')).toBeLessThan(writeStart);
+      expect(tracker.events.indexOf('end b')).toBeLessThan(writeStart);
+      expect(tracker.events.indexOf('start d')).toBeGreaterThan(writeStart);
+   });
+});
+
+describe('OpenAI function execution', function () {
+   let driver: MockOpenAIChatDriver;
+   let requests: any[];
+   let tracker: CallTracker;
+   let workFunction: IFunction;
+
+   const callReply = (delays: number[]) => ({
+      output: delays.map((ms, index) => ({ type: 'function_call', call_id: `call_${index}`, name: 'work', arguments: JSON.stringify({ ms }) }))
+   });
+
+   beforeEach(function () {
+      driver = new MockOpenAIChatDriver();
+      requests = [];
+      tracker = new CallTracker();
+      workFunction = makeFunction('work', args => tracker.track(`${args.ms}`, args.ms, { tookMs: args.ms }));
+   });
+
+   const mockReplies = (...replies: any[]) => driver.setMockCreate(async (config?: any) => {
+      requests.push(config);
+      return replies.shift();
+   });
+
+   it('should run the calls of one response concurrently and send outputs back in call order', async function () {
+      mockReplies(callReply([30, 10, 20]), { output: [{ type: 'text', text: 'Done' }] });
+
+      const response = await driver.getModelResponseDetailed(undefined, 'do the work', EVerbosity.kLow, [], [workFunction]);
+
+      expect(response.text).toBe('Done');
+      expect(tracker.maxRunning).toBe(3);
+      expect(response.toolInvocations.map(invocation => invocation.callId)).toEqual(['call_0', 'call_1', 'call_2']);
+      expect(requests[1].input.filter((item: any) => item.type === 'function_call_output')).toEqual([
+         { type: 'function_call_output', call_id: 'call_0', output: '{"tookMs":30}' },
+         { type: 'function_call_output', call_id: 'call_1', output: '{"tookMs":10}' },
+         { type: 'function_call_output', call_id: 'call_2', output: '{"tookMs":20}' }
+      ]);
+   });
+
+   it('should respect the concurrency limit', async function () {
+      mockReplies(callReply([10, 10, 10]), { output: [{ type: 'text', text: 'Done' }] });
+      driver.setMaxToolConcurrency(1);
+
+      await driver.getModelResponse(undefined, 'do the work', EVerbosity.kLow, [], [workFunction]);
+
+      expect(tracker.maxRunning).toBe(1);
+      expect(() => driver.setMaxToolConcurrency(0)).toThrow('maxConcurrency must be a positive integer');
+   });
+
+   it('should report a function that runs past its timeout as failed', async function () {
+      const slowFunction = makeFunction('work', () => new Promise(() => { /* never finishes */ }), { timeoutMs: 20 });
+      mockReplies(callReply([0]), { output: [{ type: 'text', text: 'The work timed out' }] });
+
+      const response = await driver.getModelResponseDetailed(undefined, 'do the work', EVerbosity.kLow, [], [slowFunction]);
+
+      expect(response.text).toBe('The work timed out');
+      expect(response.toolInvocations[0].error).toBe('Function work timed out after 20ms');
+   });
+});
+
+describe('Gemini function execution', function () {
+   const savedKey = process.env.GOOGLE_GEMINI_API_KEY;
+
+   before(function () {
+      process.env.GOOGLE_GEMINI_API_KEY = savedKey ?? 'test-key';
+   });
+
+   after(function () {
+      if (savedKey === undefined) {
+         delete process.env.GOOGLE_GEMINI_API_KEY;
+      } else {
+         process.env.GOOGLE_GEMINI_API_KEY = savedKey;
+      }
+   });
+
+   it('should run the calls of one response concurrently and send responses back in call order', async function () {
+      const tracker = new CallTracker();
+      const functions = [30, 10].map(ms => makeFunction(`work_${ms}`, () => tracker.track(`${ms}`, ms, { tookMs: ms })));
+      const histories: any[] = [];
+      const replies = [
+         { functionCalls: () => [{ name: 'work_30', args: {} }, { name: 'work_10', args: {} }], text: () => '' },
+         { functionCalls: () => undefined, text: () => 'Done' }
+      ];
+      const driver = new GoogleGeminiChatDriver(EModel.kLarge);
+      (driver as any).genAI = {
+         getGenerativeModel: () => ({
+            startChat: (config: any) => {
+               histories.push(config.history);
+               return { sendMessage: async () => ({ response: replies.shift() }) };
+            }
+         })
+      };
+
+      const response = await driver.getModelResponseDetailed(undefined, 'do the work', EVerbosity.kLow, [], functions);
+
+      expect(response.text).toBe('Done');
+      expect(tracker.maxRunning).toBe(2);
+      expect(response.toolInvocations.map(invocation => invocation.name)).toEqual(['work_30', 'work_10']);
+      const functionTurn = histories[1][histories[1].length - 1];
+      expect(functionTurn.parts.map((part: any) => part.functionResponse)).toEqual([
+         { name: 'work_30', response: { tookMs: 30 } },
+         { name: 'work_10', response: { tookMs: 10 } }
+      ]);
+   });
+
+   it('should give each call its own id, including calls to the same function', async function () {
+      const functions = [makeFunction('work', async (args) => ({ tookMs: args.ms }))];
+      const replies = [
+         { functionCalls: () => [{ name: 'work', args: { ms: 1 } }, { name: 'work', args: { ms: 2 } }], text: () => '' },
+         { functionCalls: () => [{ name: 'work', args: { ms: 3 } }], text: () => '' },
+         { functionCalls: () => undefined, text: () => 'Done' }
+      ];
+      const driver = new GoogleGeminiChatDriver(EModel.kLarge);
+      (driver as any).genAI = {
+         getGenerativeModel: () => ({
+            startChat: () => ({ sendMessage: async () => ({ response: replies.shift() }) })
+         })
+      };
+
+      const response = await driver.getModelResponseDetailed(undefined, 'do the work', EVerbosity.kLow, [], functions);
+
+      const callIds = response.toolInvocations.map(invocation => invocation.callId);
+      expect(response.toolInvocations.map(invocation => invocation.output)).toEqual(['{"tookMs":1}', '{"tookMs":2}', '{"tookMs":3}']);
+      expect(new Set(callIds).size).toBe(3);
+   });
+});
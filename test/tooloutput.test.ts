@@ -0,0 +1,179 @@
+/**
+ * @module tooloutput.test
+ *
+ * Unit tests for checking function results against their outputSchema.
+ * Tests verify:
+ * - Results that match are sent to the model unchanged
+ * - Results that do not match are replaced by an error listing the violations, by default
+ * - onViolation is called for each result that does not match, and kReport sends the result anyway
+ * - kOff turns checking off
+ * - Results are checked as they are serialised for the model
+ * - The OpenAI and Gemini drivers check results
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, before, after, beforeEach } from 'mocha';
+import { EDataType, EModel, EToolOutputValidation, EVerbosity, GoogleGeminiChatDriver, IFunction, IToolOutputViolation } from '../src/entry';
+import { checkFunctionOutput } from '../src/ToolExecution';
+import { MockOpenAIChatDriver } from './MockOpenAIChatDriver';
+
+function weatherFunction(execute: () => Promise<any>): IFunction {
+   return {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      inputSchema: { type: EDataType.kObject, properties: { city: { type: EDataType.kString, description: 'City name' } }, required: ['city'] },
+      outputSchema: {
+         type: EDataType.kObject,
+         properties: {
+            temperature: { type: EDataType.kNumber, description: 'Temperature in Celsius' },
+            condition: { type: EDataType.kString, description: 'Weather condition' },
+            observed: { type: EDataType.kString, description: 'When the weather was observed' }
+         },
+         required: ['temperature', 'condition']
+      },
+      validateArgs: (args) => args,
+      execute
+   };
+}
+
+describe('Checking function outputs', function () {
+   const valid = weatherFunction(async () => ({}));
+
+   it('should pass results that match the output schema through', function () {
+      const result = { temperature: 12, condition: 'rain' };
+
+      expect(checkFunctionOutput(result, valid, 'call_1', {})).toEqual({ output: result });
+   });
+
+   it('should replace results that do not match with an error listing the violations', function () {
+      const checked = checkFunctionOutput({ temperature: 'warm' }, valid, 'call_1', {});
+
+      expect(checked.error).toBe('Function get_weather returned output that does not match its outputSchema: ' +
+         '$.condition is required; $.temperature must be of type number, found string');
+      expect(checked.output).toEqual({
+         error: checked.error,
+         violations: ['$.condition is required', '$.temperature must be of type number, found string'],
+         functionName: 'get_weather',
+         timestamp: expect.any(String)
+      });
+   });
+
+   it('should report violations and send the result anyway in kReport mode', function () {
+      const violations: IToolOutputViolation[] = [];
+      const result = { temperature: 12 };
+
+      const checked = checkFunctionOutput(result, valid, 'call_1', { mode: EToolOutputValidation.kReport, onViolation: violation => violations.push(violation) });
+
+      expect(checked).toEqual({ output: result });
+      expect(violations).toEqual([{ callId: 'call_1', functionName: 'get_weather', output: result, violations: ['$.condition is required'] }]);
+   });
+
+   it('should not check results in kOff mode', function () {
+      const violations: IToolOutputViolation[] = [];
+
+      const checked = checkFunctionOutput('not an object', valid, 'call_1', { mode: EToolOutputValidation.kOff, onViolation: violation => violations.push(violation) });
+
+      expect(checked).toEqual({ output: 'not an object' });
+      expect(violations).toEqual([]);
+   });
+
+   it('should check results as they are serialised for the model', function () {
+      const result = { temperature: 12, condition: 'rain', observed: new Date('2026-01-01T00:00:00Z'), note: undefined };
+
+      expect(checkFunctionOutput(result, valid, 'call_1', {}).error).toBeUndefined();
+      expect(checkFunctionOutput(undefined, valid, 'call_1', {}).error).toContain('$ must be of type object, found undefined');
+   });
+});
+
+describe('Drivers checking function outputs', function () {
+   let violations: IToolOutputViolation[];
+
+   beforeEach(function () {
+      violations = [];
+   });
+
+   it('should send the model an error for an OpenAI function result that does not match', async function () {
+      const driver = new MockOpenAIChatDriver();
+      const requests: any[] = [];
+      const replies: any[] = [
+         { output: [{ type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"London"}' }] },
+         { output: [{ type: 'text', text: 'The weather service failed' }] }
+      ];
+      driver.setMockCreate(async (config?: any) => {
+         requests.push(config);
+         return replies.shift();
+      });
+      driver.setToolOutputValidation({ onViolation: violation => violations.push(violation) });
+
+      const response = await driver.getModelResponseDetailed(undefined, 'weather in London?', EVerbosity.kLow, [],
+         [weatherFunction(async () => ({ temperature: '12C', condition: 'rain' }))]);
+
+      expect(response.text).toBe('The weather service failed');
+      expect(response.toolInvocations[0].error).toContain('$.temperature must be of type number, found string');
+      const sent = requests[1].input.find((item: any) => item.type === 'function_call_output');
+      expect(JSON.parse(sent.output).violations).toEqual(['$.temperature must be of type number, found string']);
+      expect(violations.map(violation => violation.callId)).toEqual(['call_1']);
+   });
+
+   it('should send OpenAI function results that do not match when told to only report them', async function () {
+      const driver = new MockOpenAIChatDriver();
+      const replies: any[] = [
+         { output: [{ type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"London"}' }] },
+         { output: [{ type: 'text', text: 'Rain' }] }
+      ];
+      driver.setMockCreate(async () => replies.shift());
+      driver.setToolOutputValidation({ mode: EToolOutputValidation.kReport, onViolation: violation => violations.push(violation) });
+
+      const response = await driver.getModelResponseDetailed(undefined, 'weather in London?', EVerbosity.kLow, [],
+         [weatherFunction(async () => ({ condition: 'rain' }))]);
+
+      expect(response.toolInvocations[0].error).toBeUndefined();
+      expect(response.toolInvocations[0].output).toBe('{"condition":"rain"}');
+      expect(violations.map(violation => violation.violations)).toEqual([['$.temperature is required']]);
+   });
+
+   describe('Gemini', function () {
+      const savedKey = process.env.GOOGLE_GEMINI_API_KEY;
+
+      before(function () {
+         process.env.GOOGLE_GEMINI_API_KEY = savedKey ?? 'test-key';
+      });
+
+      after(function () {
+         if (savedKey === undefined) {
+            delete process.env.GOOGLE_GEMINI_API_KEY;
+         } else {
+            process.env.GOOGLE_GEMINI_API_KEY = savedKey;
+         }
+      });
+
+      it('should send the model an error for a Gemini function result that does not match', async function () {
+         const histories: any[] = [];
+         const replies = [
+            { functionCalls: () => [{ name: 'get_weather', args: { city: 'London' } }], text: () => '' },
+            { functionCalls: () => undefined, text: () => 'The weather service failed' }
+         ];
+         const driver = new GoogleGeminiChatDriver(EModel.kLarge);
+         (driver as any).genAI = {
+            getGenerativeModel: () => ({
+               startChat: (config: any) => {
+                  histories.push(config.history);
+                  return { sendMessage: async () => ({ response: replies.shift() }) };
+               }
+            })
+         };
+         driver.setToolOutputValidation({ onViolation: violation => violations.push(violation) });
+
+         const response = await driver.getModelResponseDetailed(undefined, 'weather in London?', EVerbosity.kLow, [],
+            [weatherFunction(async () => ({ temperature: 12 }))]);
+
+         expect(response.text).toBe('The weather service failed');
+         expect(response.toolInvocations[0].error).toContain('$.condition is required');
+         const functionTurn = histories[1][histories[1].length - 1];
+         expect(functionTurn.parts[0].functionResponse.response.violations).toEqual(['$.condition is required']);
+         expect(violations.map(violation => violation.functionName)).toEqual(['get_weather']);
+      });
+   });
+});
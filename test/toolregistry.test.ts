@@ -0,0 +1,151 @@
+/**
+ * @module toolregistry.test
+ *
+ * Unit tests for the tool registry.
+ * Tests verify:
+ * - Functions are registered under namespaces, and name collisions throw, replace or rename
+ * - Functions are selected by tag, namespace and allow-list
+ * - Functions are selected by the similarity of their descriptions to a prompt
+ * - Description embeddings are reused, and embedded again when a description changes
+ */
+
+// Copyright (c) 2025, 2026 Jon Verrier
+
+import { expect } from 'expect';
+import { describe, it, beforeEach } from 'mocha';
+import { EDataType, EModel, EModelProvider, EToolNameCollision, IEmbeddingModelDriver, IFunction, ToolRegistry } from '../src/entry';
+
+const KEYWORDS = ['weather', 'flight', 'hotel', 'email'];
+
+/**
+ * Embeds text as the count of each keyword it contains, so similarity follows shared keywords
+ */
+class KeywordEmbeddingDriver implements IEmbeddingModelDriver {
+   deploymentName = 'keywords';
+   drivenModelType = EModel.kLarge;
+   drivenModelProvider = EModelProvider.kOpenAI;
+   readonly texts: string[] = [];
+
+   async embed(text: string): Promise<number[]> {
+      this.texts.push(text);
+      const lower = text.toLowerCase();
+      return KEYWORDS.map(keyword => lower.split(keyword).length - 1 + 0.01);
+   }
+}
+
+function makeFunction(name: string, description: string): IFunction {
+   return {
+      name,
+      description,
+      inputSchema: { type: EDataType.kObject, properties: {} },
+      outputSchema: { type: EDataType.kObject, properties: {} },
+      validateArgs: (args) => args,
+      execute: async () => ({})
+   };
+}
+
+describe('Tool registry', function () {
+   let registry: ToolRegistry;
+
+   beforeEach(function () {
+      registry = new ToolRegistry();
+      registry.register(makeFunction('get_forecast', 'Get the weather forecast for a city'), { namespace: 'weather', tags: ['travel'] });
+      registry.register(makeFunction('search', 'Search for a flight between two airports'), { namespace: 'flights', tags: ['travel', 'booking'] });
+      registry.register(makeFunction('search', 'Search for a hotel room in a city'), { namespace: 'hotels', tags: ['travel', 'booking'] });
+      registry.register(makeFunction('send_email', 'Send an email to a contact'), { tags: ['office'] });
+   });
+
+   it('should register functions under their namespace', function () {
+      expect(registry.list().map(tool => tool.name)).toEqual(['weather__get_forecast', 'flights__search', 'hotels__search', 'send_email']);
+      expect(registry.get('flights__search')?.function.name).toBe('flights__search');
+      expect(registry.get('flights__search')?.namespace).toBe('flights');
+      expect(registry.listTags()).toEqual(['booking', 'office', 'travel']);
+   });
+
+   it('should reject a name that is taken unless told to replace or rename', function () {
+      const duplicate = makeFunction('search', 'Search for a flight, again');
+
+      expect(() => registry.register(duplicate, { namespace: 'flights' })).toThrow('A function named "flights__search" is already registered');
+
+      expect(registry.register(duplicate, { namespace: 'flights', onCollision: EToolNameCollision.kRename }).name).toBe('flights__search_2');
+      expect(registry.register(duplicate, { namespace: 'flights', onCollision: EToolNameCollision.kRename }).name).toBe('flights__search_3');
+
+      registry.register(duplicate, { namespace: 'flights', onCollision: EToolNameCollision.kReplace });
+      expect(registry.get('flights__search')?.function.description).toBe('Search for a flight, again');
+   });
+
+   it('should use the collision setting the registry was made with', function () {
+      const renaming = new ToolRegistry(EToolNameCollision.kRename);
+      renaming.register(makeFunction('lookup', 'First'));
+
+      expect(renaming.register(makeFunction('lookup', 'Second')).name).toBe('lookup_2');
+   });
+
+   it('should reject names the model cannot call', function () {
+      expect(() => registry.register(makeFunction('get weather', 'Spaces'))).toThrow('may only contain letters');
+      expect(() => registry.register(makeFunction('lookup', 'Dots'), { namespace: 'a.b' })).toThrow('may only contain letters');
+   });
+
+   it('should select functions by tag, namespace and name', function () {
+      const names = (functions: IFunction[]) => functions.map(func => func.name);
+
+      expect(names(registry.find({ tags: ['booking'] }))).toEqual(['flights__search', 'hotels__search']);
+      expect(names(registry.find({ namespaces: ['weather', 'hotels'] }))).toEqual(['weather__get_forecast', 'hotels__search']);
+      expect(names(registry.find({ tags: ['travel'], names: ['hotels__search', 'send_email'] }))).toEqual(['hotels__search']);
+      expect(registry.find().length).toBe(4);
+      expect(() => registry.find({ names: ['missing'] })).toThrow('No function named "missing" is registered');
+   });
+
+   it('should stop selecting a function once it is unregistered', function () {
+      expect(registry.unregister('send_email')).toBe(true);
+      expect(registry.unregister('send_email')).toBe(false);
+      expect(registry.find({ tags: ['office'] })).toEqual([]);
+   });
+});
+
+describe('Selecting tools by similarity', function () {
+   let registry: ToolRegistry;
+   let embeddingDriver: KeywordEmbeddingDriver;
+
+   beforeEach(function () {
+      registry = new ToolRegistry();
+      registry.register(makeFunction('get_forecast', 'Get the weather forecast for a city'), { namespace: 'weather', tags: ['travel'] });
+      registry.register(makeFunction('search', 'Search for a flight between two airports'), { namespace: 'flights', tags: ['travel'] });
+      registry.register(makeFunction('search', 'Search for a hotel room in a city'), { namespace: 'hotels', tags: ['travel'] });
+      registry.register(makeFunction('send_email', 'Send an email to a contact'), { tags: ['office'] });
+      embeddingDriver = new KeywordEmbeddingDriver();
+   });
+
+   it('should pick the functions most similar to the prompt, most similar first', async function () {
+      const tools = await registry.findRelevant('Book a flight, and a hotel near the flight\'s airport', { embeddingDriver, maxTools: 2 });
+
+      expect(tools.map(tool => tool.name)).toEqual(['flights__search', 'hotels__search']);
+   });
+
+   it('should leave out functions below the minimum similarity', async function () {
+      const tools = await registry.findRelevant('What is the weather tomorrow?', { embeddingDriver, minSimilarity: 0.9 });
+
+      expect(tools.map(tool => tool.name)).toEqual(['weather__get_forecast']);
+   });
+
+   it('should only consider functions that match the filter', async function () {
+      const tools = await registry.findRelevant('Send an email about the weather', { embeddingDriver, maxTools: 1, filter: { tags: ['office'] } });
+
+      expect(tools.map(tool => tool.name)).toEqual(['send_email']);
+   });
+
+   it('should embed each description once, and again when it changes', async function () {
+      await registry.findRelevant('weather', { embeddingDriver });
+      await registry.findRelevant('flight', { embeddingDriver });
+      expect(embeddingDriver.texts.length).toBe(4 + 1 + 1);
+
+      registry.register(makeFunction('send_email', 'Send an email with an attachment'), { onCollision: EToolNameCollision.kReplace });
+      await registry.findRelevant('email', { embeddingDriver });
+
+      expect(embeddingDriver.texts.slice(-2)).toEqual(['email', 'send_email: Send an email with an attachment']);
+   });
+
+   it('should reject a maxTools that is not a positive integer', async function () {
+      await expect(registry.findRelevant('weather', { embeddingDriver, maxTools: 0 })).rejects.toThrow('maxTools must be a positive integer');
+   });
+});